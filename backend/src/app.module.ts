@@ -10,6 +10,8 @@ import { VillagesModule } from './villages/villages.module';
 import { ResourcesModule } from './resources/resources.module';
 import { BuildingsModule } from './buildings/buildings.module';
 import { TroopsModule } from './troops/troops.module';
+import { SpellsModule } from './spells/spells.module';
+import { HeroesModule } from './heroes/heroes.module';
 import { BattlesModule } from './battles/battles.module';
 
 @Module({
@@ -25,6 +27,8 @@ import { BattlesModule } from './battles/battles.module';
     ResourcesModule,
     BuildingsModule,
     TroopsModule,
+    SpellsModule,
+    HeroesModule,
     BattlesModule,
   ],
   controllers: [AppController],
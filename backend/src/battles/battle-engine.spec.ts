@@ -0,0 +1,566 @@
+import {
+  BattleBuildingSource,
+  DeployInput,
+  activateHeroAbility,
+  calculateStars,
+  castSpell,
+  createBattleState,
+  createFrameBaseline,
+  createStateFrame,
+  deployTroop,
+  getBattleSnapshot,
+  getDeployBudget,
+  getGarrisonLosses,
+  getLootResults,
+  getLootSummary,
+  getSprungTrapIds,
+  getTroopResults,
+  getUncastSpells,
+  isBattleOver,
+  isInNoDeployZone,
+  planEdgeDeployment,
+  runBattle,
+  stepBattle,
+} from './battle-engine';
+import { GameMode, getStarRules } from '../common/config/game-modes.config';
+
+const LAYOUT: BattleBuildingSource[] = [
+  { id: 'th', type: 'town_hall', positionX: 18, positionY: 18 },
+  { id: 'cannon', type: 'cannon', positionX: 12, positionY: 12 },
+  { id: 'tower', type: 'archer_tower', positionX: 26, positionY: 20 },
+  { id: 'mine', type: 'gold_mine', positionX: 10, positionY: 22 },
+  { id: 'wall_1', type: 'wall', positionX: 16, positionY: 17 },
+  { id: 'wall_2', type: 'wall', positionX: 17, positionY: 17 },
+];
+
+const ARMY = [
+  { type: 'BARBARIAN', count: 8 },
+  { type: 'ARCHER', count: 6 },
+  { type: 'GIANT', count: 2 },
+  { type: 'WALL_BREAKER', count: 2 },
+];
+
+const totalTroops = ARMY.reduce((sum, t) => sum + t.count, 0);
+
+function simulate(seed: number) {
+  const state = createBattleState({ buildings: LAYOUT, maxTroops: totalTroops, seed });
+  const inputs = planEdgeDeployment(state, ARMY);
+  const events = runBattle(state, inputs);
+  return { state, inputs, events };
+}
+
+describe('battle engine', () => {
+  it('produces identical results for the same seed, layout and inputs', () => {
+    const first = simulate(1234);
+    const second = simulate(1234);
+
+    expect(second.inputs).toEqual(first.inputs);
+    expect(second.events).toEqual(first.events);
+    expect(second.state.tick).toBe(first.state.tick);
+    expect(second.state.destructionPercentage).toBe(first.state.destructionPercentage);
+  });
+
+  it('plans different deployments for different seeds', () => {
+    expect(simulate(1).inputs).not.toEqual(simulate(2).inputs);
+  });
+
+  it('gives the same result when troops are deployed live between ticks', () => {
+    const replayed = simulate(99);
+
+    // Drive a second battle the way a live session does: deploy on the tick, then step
+    const live = createBattleState({ buildings: LAYOUT, maxTroops: totalTroops, seed: 99 });
+    const pending: DeployInput[] = [...replayed.state.deployments];
+    const events = [];
+
+    while (!isBattleOver(live)) {
+      while (pending.length > 0 && pending[0].tick <= live.tick) {
+        const input = pending.shift();
+        events.push(...deployTroop(live, input.troopType, input.position).events);
+      }
+      if (pending.length === 0 && live.troops.length === 0) break;
+      events.push(...stepBattle(live));
+    }
+
+    expect(events).toEqual(replayed.events);
+    expect(live.destructionPercentage).toBe(replayed.state.destructionPercentage);
+  });
+
+  it('rejects deploys beyond the troop budget', () => {
+    const state = createBattleState({ buildings: LAYOUT, maxTroops: 1, seed: 7 });
+
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).not.toBeNull();
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).toBeNull();
+    expect(state.deployments).toHaveLength(1);
+  });
+
+  it('only deploys the troop types and counts the attacker brought', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 3,
+      troops: [
+        { type: 'BARBARIAN', count: 2 },
+        { type: 'ARCHER', count: 1 },
+      ],
+      seed: 7,
+    });
+
+    expect(deployTroop(state, 'GIANT', { x: 0, y: 0 })).toBeNull();
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).not.toBeNull();
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).not.toBeNull();
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).toBeNull();
+    expect(getDeployBudget(state).troops).toEqual({ BARBARIAN: 0, ARCHER: 1 });
+  });
+
+  it('counts deployed, lost and undeployed troops by type', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 3,
+      troops: [
+        { type: 'BARBARIAN', count: 2 },
+        { type: 'ARCHER', count: 1 },
+      ],
+      seed: 7,
+    });
+    const [first, second] = [0, 1].map(() => deployTroop(state, 'BARBARIAN', { x: 0, y: 0 }).troop);
+    first.isAlive = false;
+
+    expect(getTroopResults(state)).toEqual({
+      deployed: [{ type: 'BARBARIAN', count: 2 }],
+      lost: [{ type: 'BARBARIAN', count: 1 }],
+      returned: [{ type: 'ARCHER', count: 1 }],
+    });
+    expect(second.isAlive).toBe(true);
+  });
+
+  it('gives back the spells that were never cast', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 0,
+      spells: [
+        { type: 'LIGHTNING', count: 2 },
+        { type: 'HEAL', count: 1 },
+      ],
+      seed: 7,
+    });
+    castSpell(state, 'HEAL', { x: 10, y: 10 });
+    castSpell(state, 'LIGHTNING', { x: 10, y: 10 });
+
+    expect(getUncastSpells(state)).toEqual([{ type: 'LIGHTNING', count: 1 }]);
+  });
+
+  it('blocks deploys within a tile of any building but not of hidden traps', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'th', type: 'town_hall', positionX: 18, positionY: 18 },
+        { id: 'bomb', type: 'bomb', positionX: 5, positionY: 5 },
+      ],
+      maxTroops: 1,
+      seed: 7,
+    });
+
+    expect(state.noDeployZones).toEqual([{ x: 17, y: 17, width: 6, height: 6 }]);
+    expect(isInNoDeployZone(state.noDeployZones, { x: 17, y: 20 })).toBe(true);
+    expect(isInNoDeployZone(state.noDeployZones, { x: 22, y: 22 })).toBe(true);
+    expect(isInNoDeployZone(state.noDeployZones, { x: 16, y: 20 })).toBe(false);
+    expect(isInNoDeployZone(state.noDeployZones, { x: 23, y: 20 })).toBe(false);
+    expect(isInNoDeployZone(state.noDeployZones, { x: 5, y: 5 })).toBe(false);
+  });
+
+  it('strikes only buildings inside the lightning radius', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 1,
+      spells: [{ type: 'LIGHTNING', count: 1 }],
+      seed: 7,
+    });
+    const cannon = state.buildings.find((b) => b.id === 'cannon');
+    const townHall = state.buildings.find((b) => b.id === 'th');
+
+    expect(castSpell(state, 'LIGHTNING', { x: 13.5, y: 13.5 })).not.toBeNull();
+    expect(castSpell(state, 'LIGHTNING', { x: 13.5, y: 13.5 })).toBeNull();
+
+    stepBattle(state);
+
+    expect(cannon.health).toBeLessThan(cannon.maxHealth);
+    expect(townHall.health).toBe(townHall.maxHealth);
+    expect(state.spells).toHaveLength(0);
+  });
+
+  it('heals troops standing in a heal spell', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 1,
+      spells: [{ type: 'HEAL', count: 1 }],
+      seed: 7,
+    });
+    const { troop } = deployTroop(state, 'BARBARIAN', { x: 0, y: 0 });
+    troop.health = 10;
+
+    castSpell(state, 'HEAL', { x: 0, y: 0 });
+    const events = stepBattle(state);
+
+    expect(events.some((e) => e.type === 'TROOP_HEAL')).toBe(true);
+    expect(troop.health).toBeGreaterThan(10);
+  });
+
+  it('deploys a hero once without using the troop budget', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 1,
+      heroes: [{ type: 'BARBARIAN_KING', level: 1, health: 1100 }],
+      seed: 7,
+    });
+
+    expect(deployTroop(state, 'BARBARIAN_KING', { x: 0, y: 0 })).not.toBeNull();
+    expect(deployTroop(state, 'BARBARIAN_KING', { x: 0, y: 0 })).toBeNull();
+    expect(deployTroop(state, 'BARBARIAN', { x: 0, y: 0 })).not.toBeNull();
+    expect(state.deployedTroopCount).toBe(1);
+  });
+
+  it('lets a hero use its ability once to heal', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 0,
+      heroes: [{ type: 'BARBARIAN_KING', level: 1, health: 1100 }],
+      seed: 7,
+    });
+
+    expect(activateHeroAbility(state, 'BARBARIAN_KING')).toBeNull(); // not deployed yet
+
+    const { troop: hero } = deployTroop(state, 'BARBARIAN_KING', { x: 0, y: 0 });
+    hero.health = 100;
+
+    const activated = activateHeroAbility(state, 'BARBARIAN_KING');
+    expect(activated.events[0].type).toBe('HERO_ABILITY');
+    expect(hero.health).toBeGreaterThan(100);
+    expect(activateHeroAbility(state, 'BARBARIAN_KING')).toBeNull();
+  });
+
+  it('sends a defending hero after troops that come near its altar', () => {
+    const state = createBattleState({
+      buildings: [
+        ...LAYOUT,
+        { id: 'altar', type: 'barbarian_king_altar', positionX: 4, positionY: 4 },
+      ],
+      maxTroops: 1,
+      defenderHeroes: [{ type: 'BARBARIAN_KING', level: 1, health: 1100, altarId: 'altar' }],
+      seed: 7,
+    });
+    const { troop } = deployTroop(state, 'BARBARIAN', { x: 6.5, y: 5.5 });
+
+    const events = [];
+    for (let i = 0; i < 40 && troop.isAlive; i++) {
+      events.push(...stepBattle(state));
+    }
+
+    expect(events.some((e) => e.type === 'TROOP_ATTACK' && e.data.troopId === troop.id)).toBe(true);
+    expect(troop.health).toBeLessThan(troop.maxHealth);
+  });
+
+  it('only lets air-targeting defenses shoot flying troops', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'cannon', type: 'cannon', positionX: 10, positionY: 10 },
+        { id: 'air', type: 'air_defense', positionX: 20, positionY: 10 },
+      ],
+      maxTroops: 2,
+      seed: 7,
+    });
+    const { troop: minion } = deployTroop(state, 'MINION', { x: 16, y: 12 });
+    const { troop: barbarian } = deployTroop(state, 'BARBARIAN', { x: 16, y: 13 });
+
+    // One Air Defense shot kills a Minion, so count kills as shots too
+    const shots = stepBattle(state)
+      .filter((e) => (e.type === 'TROOP_ATTACK' || e.type === 'TROOP_DEATH') && e.data.damage)
+      .map((e) => [e.data.buildingId ?? e.data.killedBy, e.data.troopId]);
+
+    expect(minion.targetType).toBe('air');
+    expect(shots).toEqual(
+      expect.arrayContaining([
+        ['cannon', barbarian.id],
+        ['air', minion.id],
+      ]),
+    );
+    expect(shots).toHaveLength(2);
+  });
+
+  it('splashes every troop around the impact point', () => {
+    const state = createBattleState({
+      buildings: [{ id: 'wizard', type: 'wizard_tower', positionX: 10, positionY: 10 }],
+      maxTroops: 4,
+      seed: 7,
+    });
+    const pack = [0, 1, 2].map(() => deployTroop(state, 'BARBARIAN', { x: 15, y: 11 }).troop);
+    const { troop: loner } = deployTroop(state, 'BARBARIAN', { x: 10, y: 17 });
+
+    const events = stepBattle(state);
+    const hit = events
+      .filter((e) => e.type === 'TROOP_ATTACK' && e.data.buildingId === 'wizard')
+      .map((e) => e.data.troopId);
+
+    expect(events.filter((e) => e.type === 'SPLASH_IMPACT')).toHaveLength(1);
+    expect(hit).toEqual(pack.map((t) => t.id));
+    expect(hit).not.toContain(loner.id);
+  });
+
+  it('lets mortar shells travel and ignores troops in the blind spot', () => {
+    const state = createBattleState({
+      buildings: [{ id: 'mortar', type: 'mortar', positionX: 10, positionY: 10 }],
+      maxTroops: 2,
+      seed: 7,
+    });
+    deployTroop(state, 'BARBARIAN', { x: 13, y: 12 });
+
+    expect(stepBattle(state).some((e) => e.type === 'SPLASH_LAUNCH')).toBe(false);
+
+    deployTroop(state, 'BARBARIAN', { x: 20, y: 12 });
+    const launch = stepBattle(state).find((e) => e.type === 'SPLASH_LAUNCH');
+    expect(launch.data.to).toEqual({ x: expect.any(Number), y: expect.any(Number) });
+    expect(launch.data.travelMs).toBe(1500);
+
+    const events = [];
+    while (state.tick <= launch.tick + 15) events.push(...stepBattle(state));
+    const impact = events.find((e) => e.type === 'SPLASH_IMPACT');
+
+    expect(impact.tick).toBe(launch.tick + 15);
+    expect(impact.data.position).toEqual(launch.data.to);
+  });
+
+  it('hides traps from the layout and sets each off once', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'th', type: 'town_hall', positionX: 20, positionY: 20 },
+        { id: 'bomb', type: 'bomb', positionX: 10, positionY: 10 },
+        { id: 'mine', type: 'air_mine', positionX: 30, positionY: 10 },
+      ],
+      maxTroops: 2,
+      seed: 7,
+    });
+    const pack = [0, 1].map(() => deployTroop(state, 'BARBARIAN', { x: 10, y: 10 }).troop);
+
+    expect(state.buildings.map((b) => b.id)).toEqual(['th']);
+
+    const events = [...stepBattle(state), ...stepBattle(state)];
+    const triggered = events.filter((e) => e.type === 'TRAP_TRIGGERED');
+    const hit = events
+      .filter((e) => e.type === 'TROOP_ATTACK' && e.data.buildingId === 'bomb')
+      .map((e) => e.data.troopId);
+
+    expect(triggered.map((e) => e.data.trapId)).toEqual(['bomb']);
+    expect(hit).toEqual(pack.map((t) => t.id));
+    expect(getSprungTrapIds(state)).toEqual(['bomb']);
+  });
+
+  it('flings ground troops up to the spring trap capacity', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'th', type: 'town_hall', positionX: 20, positionY: 20 },
+        { id: 'spring', type: 'spring_trap', positionX: 10, positionY: 10 },
+      ],
+      maxTroops: 3,
+      seed: 7,
+    });
+    deployTroop(state, 'GIANT', { x: 10, y: 10 });
+    deployTroop(state, 'GIANT', { x: 10, y: 10 });
+    deployTroop(state, 'BARBARIAN', { x: 10, y: 10 });
+
+    const deaths = stepBattle(state).filter(
+      (e) => e.type === 'TROOP_DEATH' && e.data.killedBy === 'spring',
+    );
+
+    // Two Giants (5 housing each) fill the trap, so the Barbarian survives
+    expect(deaths.map((e) => e.data.troopType)).toEqual(['GIANT', 'GIANT']);
+    expect(state.troops).toHaveLength(1);
+  });
+
+  it('releases Clan Castle troops that fight attacking troops', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'th', type: 'town_hall', positionX: 20, positionY: 20 },
+        { id: 'castle', type: 'clan_castle', positionX: 10, positionY: 10 },
+      ],
+      maxTroops: 3,
+      garrison: { castleId: 'castle', troops: [{ type: 'BARBARIAN', count: 2 }] },
+      seed: 7,
+    });
+
+    // Nobody comes out while attackers are far away
+    deployTroop(state, 'BARBARIAN', { x: 35, y: 35 });
+    expect(stepBattle(state).some((e) => e.type === 'GARRISON_RELEASED')).toBe(false);
+
+    const attackers = [0, 1].map(() => deployTroop(state, 'BARBARIAN', { x: 16, y: 11 }).troop);
+    const events = [];
+    for (let i = 0; i < 100; i++) events.push(...stepBattle(state));
+
+    const released = events.find((e) => e.type === 'GARRISON_RELEASED');
+    const castleIds = released.data.defenders.map((d) => d.troopId);
+    const attackerIds = attackers.map((t) => t.id);
+    const hits = events.filter((e) => e.type === 'TROOP_ATTACK' && e.data.attackerId);
+
+    expect(castleIds).toHaveLength(2);
+    expect(hits.some((e) => castleIds.includes(e.data.attackerId))).toBe(true);
+    expect(hits.some((e) => attackerIds.includes(e.data.attackerId))).toBe(true);
+
+    const castleDeaths = events.filter(
+      (e) => e.type === 'TROOP_DEATH' && castleIds.includes(e.data.troopId),
+    );
+    expect(castleDeaths.every((e) => e.data.defender)).toBe(true);
+    expect(getGarrisonLosses(state)).toEqual(
+      castleDeaths.length > 0 ? [{ type: 'BARBARIAN', count: castleDeaths.length }] : [],
+    );
+  });
+
+  it('releases building loot in proportion to damage dealt', () => {
+    const state = createBattleState({
+      buildings: [
+        { id: 'th', type: 'town_hall', positionX: 30, positionY: 30 },
+        { id: 'storage', type: 'gold_storage', positionX: 10, positionY: 10 },
+        { id: 'mine', type: 'gold_mine', positionX: 20, positionY: 10, internalGold: 400 },
+      ],
+      maxTroops: 1,
+      storedResources: { gold: 1000, elixir: 500 },
+      seed: 7,
+    });
+
+    // Stored gold is split between the storage and the Town Hall, elixir sits in the Town Hall only
+    expect(getLootSummary(state)).toEqual({
+      availableGold: 100 + 100 + 200,
+      availableElixir: 100,
+      lootedGold: 0,
+      lootedElixir: 0,
+    });
+
+    deployTroop(state, 'BARBARIAN', { x: 9, y: 11 });
+    const events = [];
+    while (!state.buildings.find((b) => b.id === 'storage').isDestroyed) {
+      events.push(...stepBattle(state));
+    }
+
+    const storageHits = events.filter(
+      (e) =>
+        (e.type === 'BUILDING_ATTACK' || e.type === 'BUILDING_DESTROYED') &&
+        e.data.buildingId === 'storage',
+    );
+    const first = storageHits[0].data;
+    expect(first.loot.gold).toBe(Math.floor((100 * first.damage) / 600));
+    expect(storageHits.reduce((sum, e) => sum + e.data.loot.gold, 0)).toBe(100);
+    expect(getLootResults(state)).toEqual({ storage: { gold: 100, elixir: 0 }, collectors: [] });
+  });
+
+  it('flies over walls instead of attacking them', () => {
+    const state = createBattleState({ buildings: LAYOUT, maxTroops: 4, seed: 7 });
+    const inputs = [0, 1, 2, 3].map((i) => ({
+      tick: 0,
+      troopType: 'MINION',
+      position: { x: 17 + i, y: 30 },
+    }));
+    const events = runBattle(state, inputs);
+
+    const wallHits = events.filter(
+      (e) => e.type === 'BUILDING_ATTACK' && e.data.buildingId.startsWith('wall'),
+    );
+    expect(wallHits).toHaveLength(0);
+    expect(events.some((e) => e.type === 'BUILDING_ATTACK')).toBe(true);
+  });
+
+  it('awards a star each for 50%, the Town Hall and 100% destruction', () => {
+    expect(calculateStars(49)).toBe(0);
+    expect(calculateStars(50)).toBe(1);
+    expect(calculateStars(30, true)).toBe(1);
+    expect(calculateStars(99, true)).toBe(2);
+    expect(calculateStars(100, true)).toBe(3);
+
+    // Other modes can count destruction only
+    const destructionRules = getStarRules(GameMode.DESTRUCTION);
+    expect(calculateStars(70, true, destructionRules)).toBe(2);
+    expect(calculateStars(100, false, destructionRules)).toBe(3);
+  });
+
+  it('sends the live destruction and star count with every building hit', () => {
+    const { state, events } = simulate(42);
+
+    const hits = events.filter(
+      (e) => e.type === 'BUILDING_ATTACK' || e.type === 'BUILDING_DESTROYED',
+    );
+    expect(hits.length).toBeGreaterThan(0);
+    for (let i = 1; i < hits.length; i++) {
+      expect(hits[i].data.stars).toBeGreaterThanOrEqual(hits[i - 1].data.stars);
+    }
+
+    const last = hits[hits.length - 1].data;
+    expect(last.destructionPercentage).toBe(state.destructionPercentage);
+    expect(last.stars).toBe(state.stars);
+
+    const townHallDestroyed = events.some(
+      (e) => e.type === 'BUILDING_DESTROYED' && e.data.buildingId === 'th',
+    );
+    expect(state.stars).toBe(calculateStars(state.destructionPercentage, townHallDestroyed));
+  });
+
+  it('snapshots the battle as it stands for rejoining clients', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 3,
+      troops: [{ type: 'BARBARIAN', count: 3 }],
+    });
+    deployTroop(state, 'BARBARIAN', { x: 0, y: 0 });
+    deployTroop(state, 'BARBARIAN', { x: 1, y: 0 });
+    for (let i = 0; i < 300; i++) {
+      stepBattle(state);
+    }
+
+    const snapshot = getBattleSnapshot(state);
+    expect(snapshot.tick).toBe(state.tick);
+    expect(snapshot.budget.troops).toEqual({ BARBARIAN: 1 });
+    expect(snapshot.troops).toHaveLength(state.troops.filter((t) => t.isAlive).length);
+    expect(snapshot.destructionPercentage).toBe(state.destructionPercentage);
+    for (const building of state.buildings) {
+      expect(snapshot.buildings.find((b) => b.id === building.id)).toMatchObject({
+        health: building.health,
+        isDestroyed: building.isDestroyed,
+      });
+    }
+
+    // A copy: the live state moving on doesn't change it
+    stepBattle(state);
+    expect(snapshot.tick).toBe(state.tick - 1);
+  });
+
+  it('frames only the units and buildings that changed on a tick', () => {
+    const state = createBattleState({
+      buildings: LAYOUT,
+      maxTroops: 1,
+      troops: [{ type: 'GIANT', count: 1 }],
+    });
+    const baseline = createFrameBaseline(state);
+    deployTroop(state, 'GIANT', { x: 0, y: 0 });
+
+    // A new unit is framed whole, then only again once it has moved
+    let frame = createStateFrame(state, baseline, state.tick, stepBattle(state));
+    expect(frame.tick).toBe(0);
+    expect(frame.units).toHaveLength(1);
+    expect(frame.buildings).toEqual([]);
+
+    const [id, x, y] = frame.units[0];
+    frame = createStateFrame(state, baseline, state.tick, stepBattle(state));
+    expect(frame.tick).toBe(1);
+    expect(frame.units).toHaveLength(1);
+    expect(frame.units[0][0]).toBe(id);
+    expect([frame.units[0][1], frame.units[0][2]]).not.toEqual([x, y]);
+    expect(createStateFrame(state, baseline, state.tick, []).units).toEqual([]);
+
+    // Building hits show up as health deltas next to the events that caused them
+    let hits = 0;
+    for (let i = 0; i < 600 && hits === 0; i++) {
+      frame = createStateFrame(state, baseline, state.tick, stepBattle(state));
+      hits = frame.buildings.length;
+    }
+    expect(hits).toBeGreaterThan(0);
+    for (const [buildingId, health] of frame.buildings) {
+      expect(state.buildings.find((b) => b.id === buildingId)?.health).toBe(health);
+    }
+    expect(
+      frame.events.some(([type]) => type === 'BUILDING_ATTACK' || type === 'BUILDING_DESTROYED'),
+    ).toBe(true);
+  });
+});
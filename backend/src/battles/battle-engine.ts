@@ -0,0 +1,1914 @@
+/**
+ * Battle simulation engine
+ * Pure, fixed-timestep battle core shared by the REST auto-battle and live battle sessions.
+ * Given the same seed, defender layout and deploy inputs it always produces the same result:
+ * time only advances through ticks and all randomness comes from the seeded RNG.
+ */
+
+import { BuildingType, getBuildingConfig } from '../common/config/buildings.config';
+import { TroopType, TROOP_CONFIGS } from '../common/config/troops.config';
+import { SpellType, SPELL_CONFIGS } from '../common/config/spells.config';
+import { HeroType, HERO_CONFIGS, getHeroLevelStats } from '../common/config/heroes.config';
+import { GameMode, StarRules, getStarRules } from '../common/config/game-modes.config';
+import { findBestTarget, findUnitTarget, TargetInfo } from './troop-ai.util';
+import { findPathWithWallInfo, hasLineOfSight } from './pathfinding.util';
+import { RandomState, createRandomState, createSeed, nextRandom } from './seeded-random.util';
+
+export const TICK_MS = 100; // 10 ticks per second
+export const MAX_BATTLE_TICKS = (3 * 60 * 1000) / TICK_MS; // 3 minutes
+export const DEPLOY_MAP_SIZE = 40;
+
+// Troops can't be deployed on a building or within this many tiles of one
+export const NO_DEPLOY_MARGIN = 1;
+
+// State frames carry unit positions in hundredths of a tile; clients interpolate between them
+const FRAME_POSITION_SCALE = 100;
+
+// Troops that fight units go after defending units within this many tiles
+const UNIT_AGGRO_RADIUS = 4;
+
+// Spells with a duration apply their effect once per second
+const SPELL_PULSE_TICKS = 1000 / TICK_MS;
+
+export type BattleEventType =
+  | 'TROOP_SPAWN'
+  | 'STATE_FRAME'
+  | 'TROOP_ATTACK'
+  | 'TROOP_DEATH'
+  | 'BUILDING_ATTACK'
+  | 'BUILDING_DESTROYED'
+  | 'SPELL_CAST'
+  | 'SPELL_END'
+  | 'TROOP_HEAL'
+  | 'HERO_ABILITY'
+  | 'SPLASH_LAUNCH'
+  | 'SPLASH_IMPACT'
+  | 'TRAP_TRIGGERED'
+  | 'GARRISON_RELEASED'
+  | 'SESSION_STATE'
+  | 'CLOCK'
+  | 'BATTLE_END';
+
+// Events sent on every tick or clock sync while a battle runs; too frequent to log one by one
+export const PERIODIC_EVENT_TYPES: BattleEventType[] = ['STATE_FRAME', 'CLOCK'];
+
+export interface Troop {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  health: number;
+  maxHealth: number;
+  damage: number;
+  attackSpeed: number; // attacks per second
+  speed: number;
+  range: number;
+  targetType: 'ground' | 'air' | 'both';
+  isAlive: boolean;
+  target: Building | null;
+  state: 'idle' | 'moving' | 'attacking' | 'dead';
+  lastAttackTime: number | null; // simulation time (ms) of the last attack
+  damageMultiplier: number; // 1 unless boosted by a spell
+  speedMultiplier: number; // 1 unless boosted by a spell
+  currentPath?: { x: number; y: number }[]; // Current pathfinding path
+  targetInfo?: TargetInfo | null; // Smart targeting info
+  hero?: HeroUnit; // set for heroes
+  guard?: { position: { x: number; y: number }; radius: number }; // defenders stay near this spot
+  unitTarget?: Troop | null; // enemy unit this unit is fighting
+}
+
+export interface HeroUnit {
+  type: string;
+  level: number;
+  side: 'attacker' | 'defender';
+  abilityUsed: boolean;
+  abilityEndTick: number | null; // ability boost stops on this tick
+}
+
+export interface Building {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  health: number;
+  maxHealth: number;
+  isDestroyed: boolean;
+  isDefense: boolean;
+  defense?: {
+    damage: number;
+    range: number;
+    attackSpeed: number; // seconds between shots
+    targetType: 'ground' | 'air' | 'both';
+    minRange: number; // blind spot in tiles (0 = none)
+    splashRadius: number; // area damage radius in tiles (0 = single target)
+    projectileTravel: number; // seconds a shot is in the air
+    lastAttackTime: number | null; // simulation time (ms) of the last shot
+  };
+  loot?: {
+    gold: number; // stealable amount when the battle started
+    elixir: number;
+    lootedGold: number; // released so far
+    lootedElixir: number;
+    source: 'collector' | 'storage';
+  };
+}
+
+/**
+ * A splash shot in flight. It lands on the spot it was aimed at, so troops can walk out of it.
+ */
+export interface Shell {
+  buildingId: string;
+  position: { x: number; y: number };
+  damage: number;
+  splashRadius: number;
+  targetType: 'ground' | 'air' | 'both';
+  landTick: number;
+}
+
+/**
+ * A rectangle of tiles where the attacker may not deploy
+ */
+export interface DeployZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A single troop deployment: which troop, where, and on which tick
+ */
+export interface DeployInput {
+  tick: number;
+  troopType: string;
+  position: { x: number; y: number };
+}
+
+/**
+ * A single spell cast: which spell, where, and on which tick
+ */
+export interface SpellInput {
+  tick: number;
+  spellType: string;
+  position: { x: number; y: number };
+}
+
+/**
+ * A hero activating its ability on a given tick
+ */
+export interface AbilityInput {
+  tick: number;
+  heroType: string;
+}
+
+/**
+ * A hero brought into battle with its level and current health
+ */
+export interface HeroLoadout {
+  type: string;
+  level: number;
+  health: number;
+}
+
+/**
+ * A defending hero guarding its altar
+ */
+export interface DefenderHeroLoadout extends HeroLoadout {
+  altarId: string;
+}
+
+/**
+ * Troops waiting in the defender's Clan Castle
+ */
+export interface GarrisonLoadout {
+  castleId: string;
+  troops: { type: string; count: number }[];
+}
+
+export interface ActiveSpell {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  radius: number;
+  startTick: number;
+  endTick: number; // effect stops on this tick (same as startTick for instant spells)
+}
+
+export interface SimulationEvent {
+  type: BattleEventType;
+  tick: number;
+  data: any;
+}
+
+export type FrameUnit = [id: string, x: number, y: number, health: number, state: Troop['state']];
+export type FrameBuilding = [id: string, health: number];
+
+/**
+ * Everything that changed on one tick, sent to clients as a single STATE_FRAME
+ * Units and buildings only appear when they moved or their health or state changed
+ */
+export interface StateFrame {
+  tick: number;
+  units: FrameUnit[]; // attacking and defending units
+  buildings: FrameBuilding[];
+  events: [type: BattleEventType, data: any][]; // attacks, deaths, spells and the like, in order
+}
+
+/**
+ * Units and buildings as clients last saw them, to work out the next frame against
+ */
+export interface FrameBaseline {
+  units: Map<string, FrameUnit>;
+  buildings: Map<string, number>; // building id -> health
+}
+
+/**
+ * A hidden trap; not a target and doesn't count towards destruction
+ */
+export interface Trap {
+  id: string;
+  type: string;
+  position: { x: number; y: number }; // center of the trap tile
+  triggerRadius: number;
+  effectRadius: number;
+  damage: number;
+  targetType: 'ground' | 'air';
+  ejectCapacity: number; // housing space flung out (0 = deals damage instead)
+  isSprung: boolean;
+}
+
+/**
+ * Defender building as loaded from the database
+ */
+export interface BattleBuildingSource {
+  id: string;
+  type: string;
+  positionX: number;
+  positionY: number;
+  internalGold?: number; // resources waiting in a collector
+  internalElixir?: number;
+}
+
+export interface BattleState {
+  rng: RandomState;
+  tick: number;
+  troops: Troop[];
+  buildings: Building[];
+  traps: Trap[]; // hidden traps, never sent to the attacker
+  noDeployZones: DeployZone[]; // building footprints plus margin, fixed for the whole battle
+  deployments: DeployInput[]; // every accepted deploy, in order
+  spells: ActiveSpell[]; // spells whose effect is still running
+  spellCasts: SpellInput[]; // every accepted spell cast, in order
+  spellBudget: Record<string, number>; // spell type -> casts left
+  troopBudget: Record<string, number> | null; // troop type -> deploys left, null when only maxTroops applies
+  heroes: HeroLoadout[]; // attacking heroes available to deploy
+  defenderHeroes: DefenderHeroLoadout[]; // defending heroes as they entered the battle
+  heroUnits: Troop[]; // every hero on the field, alive or dead, for recording their health
+  defenders: Troop[]; // defending units (heroes guarding their altar, Clan Castle troops)
+  garrison: GarrisonLoadout | null; // Clan Castle troops as they entered the battle
+  garrisonUnits: Troop[]; // Clan Castle troops released so far, alive or dead
+  garrisonReleased: boolean;
+  shells: Shell[]; // splash shots still in the air
+  abilityActivations: AbilityInput[]; // every accepted ability activation, in order
+  gameMode: GameMode; // decides how stars are earned
+  destructionPercentage: number;
+  stars: number; // earned so far, kept up to date with destruction
+  deployedTroopCount: number;
+  maxTroops: number;
+  nextTroopId: number;
+  nextSpellId: number;
+}
+
+/**
+ * Create the initial simulation state for a defender layout
+ */
+export function createBattleState(options: {
+  buildings: BattleBuildingSource[];
+  maxTroops: number;
+  troops?: { type: string; count: number }[];
+  spells?: { type: string; count: number }[];
+  heroes?: HeroLoadout[];
+  defenderHeroes?: DefenderHeroLoadout[];
+  garrison?: GarrisonLoadout | null;
+  storedResources?: { gold: number; elixir: number }; // the defender's resources, held by storages
+  gameMode?: GameMode;
+  seed?: number;
+}): BattleState {
+  const buildings = createBattleBuildings(options.buildings);
+  assignBuildingLoot(buildings, options.buildings, options.storedResources);
+  const state: BattleState = {
+    rng: createRandomState(options.seed ?? createSeed()),
+    tick: 0,
+    troops: [],
+    buildings,
+    traps: createBattleTraps(options.buildings),
+    noDeployZones: getNoDeployZones(buildings),
+    deployments: [],
+    spells: [],
+    spellCasts: [],
+    spellBudget: {},
+    troopBudget: null,
+    heroes: options.heroes ?? [],
+    defenderHeroes: [],
+    heroUnits: [],
+    defenders: [],
+    garrison: options.garrison ?? null,
+    garrisonUnits: [],
+    garrisonReleased: false,
+    shells: [],
+    abilityActivations: [],
+    gameMode: options.gameMode ?? GameMode.MULTIPLAYER,
+    destructionPercentage: 0,
+    stars: 0,
+    deployedTroopCount: 0,
+    maxTroops: options.maxTroops,
+    nextTroopId: 0,
+    nextSpellId: 0,
+  };
+
+  // The attacker can only deploy the troop types (and counts) they brought
+  if (options.troops) {
+    state.troopBudget = {};
+    for (const troopGroup of options.troops) {
+      state.troopBudget[troopGroup.type] =
+        (state.troopBudget[troopGroup.type] ?? 0) + troopGroup.count;
+    }
+  }
+
+  for (const spellGroup of options.spells ?? []) {
+    state.spellBudget[spellGroup.type] =
+      (state.spellBudget[spellGroup.type] ?? 0) + spellGroup.count;
+  }
+
+  // Defending heroes start on their altar and guard the area around it
+  for (const loadout of options.defenderHeroes ?? []) {
+    const altar = state.buildings.find((b) => b.id === loadout.altarId);
+    if (!altar || !HERO_CONFIGS[loadout.type as HeroType]) continue;
+
+    const center = getBuildingCenter(altar);
+    const defender = createHeroUnit(loadout, `${loadout.type}_defender`, 'defender', center);
+    defender.guard = {
+      position: center,
+      radius: HERO_CONFIGS[loadout.type as HeroType].guardRadius,
+    };
+
+    state.defenderHeroes.push({ ...loadout });
+    state.defenders.push(defender);
+    state.heroUnits.push(defender);
+  }
+
+  updateDestructionPercentage(state);
+  return state;
+}
+
+/**
+ * Convert defender buildings into battle buildings using their configs
+ */
+export function createBattleBuildings(buildings: BattleBuildingSource[]): Building[] {
+  return buildings
+    .filter((b) => !!getBuildingConfig(b.type as BuildingType))
+    .filter((b) => !getBuildingConfig(b.type as BuildingType).trap)
+    .map((b) => {
+      const config = getBuildingConfig(b.type as BuildingType);
+
+      return {
+        id: b.id,
+        type: b.type,
+        position: { x: b.positionX, y: b.positionY },
+        width: config.size.width,
+        height: config.size.height,
+        health: config.maxHealth,
+        maxHealth: config.maxHealth,
+        isDestroyed: false,
+        isDefense: !!config.defense,
+        defense: config.defense
+          ? {
+              damage: config.defense.damage,
+              range: config.defense.range,
+              attackSpeed: config.defense.attackSpeed,
+              targetType: config.defense.targetType,
+              minRange: config.defense.minRange ?? 0,
+              splashRadius: config.defense.splashRadius ?? 0,
+              projectileTravel: config.defense.projectileTravel ?? 0,
+              lastAttackTime: null,
+            }
+          : undefined,
+      };
+    });
+}
+
+/**
+ * Work out how much each building can lose: collectors a share of what they generated,
+ * storages (and the Town Hall) a share of the stored resources split evenly between them
+ */
+function assignBuildingLoot(
+  buildings: Building[],
+  sources: BattleBuildingSource[],
+  storedResources: { gold: number; elixir: number } = { gold: 0, elixir: 0 },
+) {
+  const holders = (resource: 'gold' | 'elixir') =>
+    buildings.filter((b) => {
+      const loot = getBuildingConfig(b.type as BuildingType).loot;
+      return loot?.source === 'storage' && loot.resources.includes(resource);
+    }).length;
+  const storedShare = {
+    gold: storedResources.gold / Math.max(1, holders('gold')),
+    elixir: storedResources.elixir / Math.max(1, holders('elixir')),
+  };
+
+  for (const building of buildings) {
+    const config = getBuildingConfig(building.type as BuildingType).loot;
+    if (!config) continue;
+
+    const source = sources.find((b) => b.id === building.id);
+    const held = (resource: 'gold' | 'elixir') => {
+      if (!config.resources.includes(resource)) return 0;
+      if (config.source === 'storage') return storedShare[resource];
+      return resource === 'gold' ? (source?.internalGold ?? 0) : (source?.internalElixir ?? 0);
+    };
+
+    building.loot = {
+      gold: Math.floor(held('gold') * config.share),
+      elixir: Math.floor(held('elixir') * config.share),
+      lootedGold: 0,
+      lootedElixir: 0,
+      source: config.source,
+    };
+  }
+}
+
+/**
+ * Pick the traps out of the defender buildings
+ * Callers leave sprung traps out of the layout, so every trap here starts armed
+ */
+export function createBattleTraps(buildings: BattleBuildingSource[]): Trap[] {
+  return buildings
+    .filter((b) => !!getBuildingConfig(b.type as BuildingType)?.trap)
+    .map((b) => {
+      const config = getBuildingConfig(b.type as BuildingType);
+
+      return {
+        id: b.id,
+        type: b.type,
+        position: {
+          x: b.positionX + config.size.width / 2,
+          y: b.positionY + config.size.height / 2,
+        },
+        triggerRadius: config.trap.triggerRadius,
+        effectRadius: config.trap.effectRadius,
+        damage: config.trap.damage,
+        targetType: config.trap.targetType,
+        ejectCapacity: config.trap.ejectCapacity ?? 0,
+        isSprung: false,
+      };
+    });
+}
+
+/**
+ * Compute the no-deploy zone: every building footprint grown by NO_DEPLOY_MARGIN tiles
+ * Traps are not battle buildings, so they never show up here and stay hidden
+ */
+export function getNoDeployZones(buildings: Building[]): DeployZone[] {
+  return buildings.map((b) => ({
+    x: b.position.x - NO_DEPLOY_MARGIN,
+    y: b.position.y - NO_DEPLOY_MARGIN,
+    width: b.width + NO_DEPLOY_MARGIN * 2,
+    height: b.height + NO_DEPLOY_MARGIN * 2,
+  }));
+}
+
+/**
+ * Check whether a deploy position falls inside the no-deploy zone
+ */
+export function isInNoDeployZone(zones: DeployZone[], position: { x: number; y: number }): boolean {
+  return zones.some(
+    (z) =>
+      position.x >= z.x &&
+      position.x < z.x + z.width &&
+      position.y >= z.y &&
+      position.y < z.y + z.height,
+  );
+}
+
+/**
+ * Deploy a troop at the current tick
+ * Returns null if the troop type is unknown or the deploy budget is used up
+ */
+export function deployTroop(
+  state: BattleState,
+  troopType: string,
+  position: { x: number; y: number },
+): { troop: Troop; events: SimulationEvent[] } | null {
+  const stats = TROOP_CONFIGS[troopType as TroopType];
+  if (!stats) {
+    return deployHero(state, troopType, position);
+  }
+
+  if (state.deployedTroopCount >= state.maxTroops) {
+    return null;
+  }
+  if (state.troopBudget && !(state.troopBudget[troopType] > 0)) {
+    return null;
+  }
+
+  const troop = createTroopUnit(troopType, `${troopType}_${state.nextTroopId++}`, position);
+
+  state.troops.push(troop);
+  state.deployedTroopCount++;
+  if (state.troopBudget) {
+    state.troopBudget[troopType]--;
+  }
+  state.deployments.push({ tick: state.tick, troopType, position: { ...troop.position } });
+
+  return { troop, events: [createSpawnEvent(state, troop)] };
+}
+
+function createTroopUnit(troopType: string, id: string, position: { x: number; y: number }): Troop {
+  const stats = TROOP_CONFIGS[troopType as TroopType];
+
+  return {
+    id,
+    type: troopType,
+    position: { x: position.x, y: position.y },
+    health: stats.health,
+    maxHealth: stats.health,
+    damage: stats.damage,
+    attackSpeed: stats.attackSpeed,
+    speed: stats.moveSpeed,
+    range: stats.range,
+    targetType: stats.targetType,
+    isAlive: true,
+    target: null,
+    state: 'idle',
+    lastAttackTime: null,
+    damageMultiplier: 1,
+    speedMultiplier: 1,
+    currentPath: [],
+    targetInfo: null,
+  };
+}
+
+/**
+ * Deploy one of the attacker's heroes (each hero can be deployed once)
+ * Heroes don't count towards the troop budget
+ */
+function deployHero(
+  state: BattleState,
+  heroType: string,
+  position: { x: number; y: number },
+): { troop: Troop; events: SimulationEvent[] } | null {
+  const loadout = state.heroes.find((h) => h.type === heroType);
+  if (!loadout || state.deployments.some((d) => d.troopType === heroType)) {
+    return null;
+  }
+
+  const hero = createHeroUnit(loadout, `${heroType}_${state.nextTroopId++}`, 'attacker', position);
+
+  state.troops.push(hero);
+  state.heroUnits.push(hero);
+  state.deployments.push({ tick: state.tick, troopType: heroType, position: { ...hero.position } });
+
+  return { troop: hero, events: [createSpawnEvent(state, hero)] };
+}
+
+function createHeroUnit(
+  loadout: HeroLoadout,
+  id: string,
+  side: 'attacker' | 'defender',
+  position: { x: number; y: number },
+): Troop {
+  const config = HERO_CONFIGS[loadout.type as HeroType];
+  const stats = getHeroLevelStats(loadout.type as HeroType, loadout.level);
+
+  return {
+    id,
+    type: loadout.type,
+    position: { x: position.x, y: position.y },
+    health: Math.min(loadout.health, stats.health),
+    maxHealth: stats.health,
+    damage: stats.damage,
+    attackSpeed: config.attackSpeed,
+    speed: config.moveSpeed,
+    range: config.range,
+    targetType: 'ground',
+    isAlive: true,
+    target: null,
+    state: 'idle',
+    lastAttackTime: null,
+    damageMultiplier: 1,
+    speedMultiplier: 1,
+    currentPath: [],
+    targetInfo: null,
+    hero: {
+      type: loadout.type,
+      level: loadout.level,
+      side,
+      abilityUsed: false,
+      abilityEndTick: null,
+    },
+    unitTarget: null,
+  };
+}
+
+function createSpawnEvent(state: BattleState, troop: Troop): SimulationEvent {
+  return {
+    type: 'TROOP_SPAWN',
+    tick: state.tick,
+    data: {
+      troopId: troop.id,
+      troopType: troop.type,
+      position: { ...troop.position },
+      health: troop.health,
+      maxHealth: troop.maxHealth,
+      isHero: !!troop.hero,
+    },
+  };
+}
+
+/**
+ * Activate a deployed hero's ability at the current tick
+ * Returns null if the hero isn't on the field, is dead or already used its ability
+ */
+export function activateHeroAbility(
+  state: BattleState,
+  heroType: string,
+): { hero: Troop; events: SimulationEvent[] } | null {
+  const hero = state.troops.find((t) => t.hero?.type === heroType && t.hero.side === 'attacker');
+  if (!hero || !hero.isAlive || hero.hero.abilityUsed) {
+    return null;
+  }
+
+  const ability = HERO_CONFIGS[heroType as HeroType].ability;
+  const healed = Math.min(ability.heal, hero.maxHealth - hero.health);
+
+  hero.health += healed;
+  hero.hero.abilityUsed = true;
+  hero.hero.abilityEndTick = state.tick + (ability.duration * 1000) / TICK_MS;
+  state.abilityActivations.push({ tick: state.tick, heroType });
+
+  return {
+    hero,
+    events: [
+      {
+        type: 'HERO_ABILITY',
+        tick: state.tick,
+        data: {
+          troopId: hero.id,
+          heroType,
+          ability: ability.name,
+          healed,
+          remainingHealth: hero.health,
+          duration: ability.duration,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * What the attacker has left to deploy: troops and spells by type, and heroes not deployed yet
+ */
+export function getDeployBudget(state: BattleState) {
+  return {
+    troops: { ...(state.troopBudget ?? {}) },
+    spells: { ...state.spellBudget },
+    heroes: state.heroes
+      .filter((h) => !state.deployments.some((d) => d.troopType === h.type))
+      .map((h) => h.type),
+  };
+}
+
+/**
+ * Defending units as clients render them when a battle starts
+ */
+export function getDefenderSnapshot(state: BattleState) {
+  return state.defenders.map(toDefenderSnapshot);
+}
+
+function toDefenderSnapshot(defender: Troop) {
+  return {
+    troopId: defender.id,
+    troopType: defender.type,
+    position: { ...defender.position },
+    health: defender.health,
+    maxHealth: defender.maxHealth,
+    isHero: !!defender.hero,
+    isDefender: true,
+  };
+}
+
+/**
+ * The battle as it stands, for clients that (re)join partway through
+ * Units use the TROOP_SPAWN shape and spells the SPELL_CAST shape, so clients draw them the same
+ * way; hidden traps are left out
+ */
+export function getBattleSnapshot(state: BattleState) {
+  return {
+    tick: state.tick,
+    buildings: state.buildings.map((b) => ({
+      id: b.id,
+      type: b.type,
+      position: { ...b.position },
+      health: b.health,
+      maxHealth: b.maxHealth,
+      isDestroyed: b.isDestroyed,
+    })),
+    troops: state.troops
+      .filter((t) => t.isAlive)
+      .map((t) => ({
+        troopId: t.id,
+        troopType: t.type,
+        position: { ...t.position },
+        health: t.health,
+        maxHealth: t.maxHealth,
+        isHero: !!t.hero,
+      })),
+    defenders: state.defenders.filter((d) => d.isAlive).map(toDefenderSnapshot),
+    spells: state.spells.map((s) => ({
+      spellId: s.id,
+      spellType: s.type,
+      position: { ...s.position },
+      radius: s.radius,
+    })),
+    destructionPercentage: state.destructionPercentage,
+    stars: state.stars,
+    budget: getDeployBudget(state), // left to deploy
+    abilitiesUsed: state.abilityActivations.map((a) => a.heroType),
+    loot: getLootSummary(state),
+  };
+}
+
+export function createFrameBaseline(state: BattleState): FrameBaseline {
+  return {
+    units: new Map([...state.troops, ...state.defenders].map((u) => [u.id, toFrameUnit(u)])),
+    buildings: new Map(state.buildings.map((b) => [b.id, b.health])),
+  };
+}
+
+/**
+ * Build the frame for a tick from the events it produced and what changed since the baseline
+ * The baseline is moved on to the new state; units that left the field are dropped from it
+ * (their TROOP_DEATH event tells clients)
+ */
+export function createStateFrame(
+  state: BattleState,
+  baseline: FrameBaseline,
+  tick: number,
+  events: SimulationEvent[],
+): StateFrame {
+  const units: FrameUnit[] = [];
+  const seen = new Set<string>();
+
+  for (const unit of [...state.troops, ...state.defenders]) {
+    const next = toFrameUnit(unit);
+    const previous = baseline.units.get(unit.id);
+    seen.add(unit.id);
+
+    if (!previous || next.some((value, i) => value !== previous[i])) {
+      units.push(next);
+      baseline.units.set(unit.id, next);
+    }
+  }
+
+  for (const id of baseline.units.keys()) {
+    if (!seen.has(id)) baseline.units.delete(id);
+  }
+
+  const buildings: FrameBuilding[] = [];
+  for (const building of state.buildings) {
+    if (baseline.buildings.get(building.id) !== building.health) {
+      buildings.push([building.id, building.health]);
+      baseline.buildings.set(building.id, building.health);
+    }
+  }
+
+  return {
+    tick,
+    units,
+    buildings,
+    events: events.map((event) => [event.type, event.data]),
+  };
+}
+
+function toFrameUnit(unit: Troop): FrameUnit {
+  return [
+    unit.id,
+    Math.round(unit.position.x * FRAME_POSITION_SCALE) / FRAME_POSITION_SCALE,
+    Math.round(unit.position.y * FRAME_POSITION_SCALE) / FRAME_POSITION_SCALE,
+    unit.health,
+    unit.state,
+  ];
+}
+
+/**
+ * Health of every hero that took part, for persisting it after the battle
+ */
+export function getHeroResults(
+  state: BattleState,
+): { side: 'attacker' | 'defender'; type: string; health: number }[] {
+  return state.heroUnits.map((unit) => ({
+    side: unit.hero.side,
+    type: unit.hero.type,
+    health: Math.max(0, unit.health),
+  }));
+}
+
+/**
+ * Clan Castle troops killed in the battle, for removing them from the castle
+ */
+export function getGarrisonLosses(state: BattleState): { type: string; count: number }[] {
+  const losses: Record<string, number> = {};
+  for (const unit of state.garrisonUnits) {
+    if (!unit.isAlive) {
+      losses[unit.type] = (losses[unit.type] ?? 0) + 1;
+    }
+  }
+
+  return Object.entries(losses).map(([type, count]) => ({ type, count }));
+}
+
+/**
+ * Loot in the village when the battle started and how much has been taken so far
+ */
+export function getLootSummary(state: BattleState) {
+  const summary = { availableGold: 0, availableElixir: 0, lootedGold: 0, lootedElixir: 0 };
+  for (const building of state.buildings) {
+    if (!building.loot) continue;
+    summary.availableGold += building.loot.gold;
+    summary.availableElixir += building.loot.elixir;
+    summary.lootedGold += building.loot.lootedGold;
+    summary.lootedElixir += building.loot.lootedElixir;
+  }
+  return summary;
+}
+
+/**
+ * Loot taken in the battle, split the way it has to be paid out:
+ * one total from the village's stored resources, and per collector from its internal storage
+ */
+export function getLootResults(state: BattleState): {
+  storage: { gold: number; elixir: number };
+  collectors: { buildingId: string; gold: number; elixir: number }[];
+} {
+  const storage = { gold: 0, elixir: 0 };
+  const collectors: { buildingId: string; gold: number; elixir: number }[] = [];
+
+  for (const building of state.buildings) {
+    const loot = building.loot;
+    if (!loot || (loot.lootedGold === 0 && loot.lootedElixir === 0)) continue;
+
+    if (loot.source === 'storage') {
+      storage.gold += loot.lootedGold;
+      storage.elixir += loot.lootedElixir;
+    } else {
+      collectors.push({
+        buildingId: building.id,
+        gold: loot.lootedGold,
+        elixir: loot.lootedElixir,
+      });
+    }
+  }
+
+  return { storage, collectors };
+}
+
+/**
+ * Attacking troops by type: how many were deployed, how many of those died,
+ * and how many were never deployed and go back to the attacker's army
+ */
+export function getTroopResults(state: BattleState): {
+  deployed: { type: string; count: number }[];
+  lost: { type: string; count: number }[];
+  returned: { type: string; count: number }[];
+} {
+  const deployed: Record<string, number> = {};
+  for (const deployment of state.deployments) {
+    if (TROOP_CONFIGS[deployment.troopType as TroopType]) {
+      deployed[deployment.troopType] = (deployed[deployment.troopType] ?? 0) + 1;
+    }
+  }
+
+  const lost = { ...deployed };
+  for (const troop of state.troops) {
+    if (troop.isAlive && !troop.hero && lost[troop.type]) {
+      lost[troop.type]--;
+    }
+  }
+
+  const toCounts = (counts: Record<string, number>) =>
+    Object.entries(counts)
+      .filter(([, count]) => count > 0)
+      .map(([type, count]) => ({ type, count }));
+
+  return {
+    deployed: toCounts(deployed),
+    lost: toCounts(lost),
+    returned: toCounts(state.troopBudget ?? {}),
+  };
+}
+
+/**
+ * Spells brought but never cast, by type; they go back to the attacker
+ */
+export function getUncastSpells(state: BattleState): { type: string; count: number }[] {
+  return Object.entries(state.spellBudget)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => ({ type, count }));
+}
+
+/**
+ * IDs of the traps that went off, so they stay sprung until the owner rearms them
+ */
+export function getSprungTrapIds(state: BattleState): string[] {
+  return state.traps.filter((t) => t.isSprung).map((t) => t.id);
+}
+
+/**
+ * Cast a spell at the current tick
+ * Returns null if the spell type is unknown or none of that spell are left
+ */
+export function castSpell(
+  state: BattleState,
+  spellType: string,
+  position: { x: number; y: number },
+): { spell: ActiveSpell; events: SimulationEvent[] } | null {
+  const config = SPELL_CONFIGS[spellType as SpellType];
+  if (!config || !(state.spellBudget[spellType] > 0)) {
+    return null;
+  }
+
+  const spell: ActiveSpell = {
+    id: `${spellType}_${state.nextSpellId++}`,
+    type: spellType,
+    position: { x: position.x, y: position.y },
+    radius: config.radius,
+    startTick: state.tick,
+    endTick: state.tick + (config.duration * 1000) / TICK_MS,
+  };
+
+  state.spells.push(spell);
+  state.spellBudget[spellType]--;
+  state.spellCasts.push({ tick: state.tick, spellType, position: { ...spell.position } });
+
+  return {
+    spell,
+    events: [
+      {
+        type: 'SPELL_CAST',
+        tick: state.tick,
+        data: {
+          spellId: spell.id,
+          spellType: spell.type,
+          position: { ...spell.position },
+          radius: spell.radius,
+          duration: config.duration,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Advance the simulation by exactly one tick
+ */
+export function stepBattle(state: BattleState): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const emit = (type: BattleEventType, data: any) => {
+    events.push({ type, tick: state.tick, data });
+  };
+  const now = state.tick * TICK_MS;
+
+  // 0. Apply spell effects and hero abilities
+  applySpells(state, emit);
+  applyHeroAbilities(state);
+
+  // 1. Process troop AI (movement and targeting)
+  for (const troop of state.troops) {
+    if (!troop.isAlive) continue;
+
+    // Troops that attack anything turn on defending units that come close
+    if (canFightUnits(troop)) {
+      const unit = findUnitTarget(troop, state.defenders, UNIT_AGGRO_RADIUS);
+      if (unit) {
+        if (getDistance(troop.position, unit.position) <= troop.range) {
+          troop.state = 'attacking';
+          unitAttackUnit(troop, unit, now, emit);
+        } else {
+          // Chasing leaves the planned path, so plan a new one when back on buildings
+          troop.state = 'moving';
+          troop.currentPath = [];
+          stepTowards(troop, unit.position);
+        }
+        continue;
+      }
+    }
+
+    // Find target using smart AI if none or current target is destroyed
+    if (!troop.targetInfo || !troop.target || troop.target.isDestroyed) {
+      troop.targetInfo = findBestTarget(troop, state.buildings);
+
+      if (troop.targetInfo) {
+        troop.target = troop.targetInfo.target;
+        troop.state = 'moving';
+      } else {
+        troop.target = null;
+        troop.state = 'idle';
+        continue;
+      }
+    }
+
+    const targetCenter = getBuildingCenter(troop.target);
+    const distance = getDistance(troop.position, targetCenter);
+
+    // Archers can attack over walls when they have line of sight
+    if (troop.type.toUpperCase() === 'ARCHER' && distance <= troop.range) {
+      if (hasLineOfSight(troop.position, targetCenter, state.buildings)) {
+        troop.state = 'attacking';
+        troopAttackBuilding(troop, troop.target, now, emit);
+        continue;
+      }
+    }
+
+    if (distance <= troop.range) {
+      troop.state = 'attacking';
+
+      // Wall Breaker explodes on impact
+      if (
+        troop.type.toUpperCase() === 'WALL_BREAKER' &&
+        troop.target.type.toLowerCase() === 'wall'
+      ) {
+        wallBreakerExplode(troop, troop.target, emit);
+        continue;
+      }
+
+      troopAttackBuilding(troop, troop.target, now, emit);
+    } else {
+      troop.state = 'moving';
+      moveTroopTowardsTarget(state, troop, targetCenter);
+    }
+  }
+
+  // 2. Defending units guard their post against nearby troops
+  releaseGarrison(state, emit);
+  stepDefenders(state, now, emit);
+
+  // 3. Hidden traps go off when a troop steps into their trigger radius
+  triggerTraps(state, emit);
+
+  // 4. Process defense buildings attacking troops
+  for (const building of state.buildings) {
+    if (building.isDestroyed || !building.isDefense || !building.defense) continue;
+
+    const cooldown = building.defense.attackSpeed * 1000;
+    if (
+      building.defense.lastAttackTime !== null &&
+      now - building.defense.lastAttackTime < cooldown
+    ) {
+      continue;
+    }
+
+    const target = findClosestTroop(building, state.troops, building.defense.range);
+    if (target) {
+      if (building.defense.splashRadius > 0) {
+        launchShell(state, building, target, emit);
+      } else {
+        buildingAttackTroop(building, target, emit);
+      }
+      building.defense.lastAttackTime = now;
+    }
+  }
+
+  // Splash shots that reach their target this tick explode
+  const landing = state.shells.filter((shell) => shell.landTick <= state.tick);
+  state.shells = state.shells.filter((shell) => shell.landTick > state.tick);
+  for (const shell of landing) {
+    explodeShell(state, shell, emit);
+  }
+
+  // 5. Remove dead troops and defenders
+  state.troops = state.troops.filter((t) => t.isAlive);
+  state.defenders = state.defenders.filter((d) => d.isAlive);
+
+  // 6. Calculate destruction percentage and stars; damage events carry the new totals
+  // so clients can show stars as they are earned
+  updateDestructionPercentage(state);
+  for (const event of events) {
+    if (event.type === 'BUILDING_ATTACK' || event.type === 'BUILDING_DESTROYED') {
+      event.data.destructionPercentage = state.destructionPercentage;
+      event.data.stars = state.stars;
+    }
+  }
+
+  state.tick++;
+  return events;
+}
+
+/**
+ * Check whether the battle has reached an end condition
+ */
+export function isBattleOver(state: BattleState): boolean {
+  // 1. All buildings destroyed (100% destruction)
+  if (state.destructionPercentage >= 100) {
+    return true;
+  }
+
+  // 2. All troops dead and max troops (and every hero) deployed
+  const aliveTroops = state.troops.filter((t) => t.isAlive).length;
+  const heroesLeft = state.heroes.some(
+    (h) => !state.deployments.some((d) => d.troopType === h.type),
+  );
+  if (aliveTroops === 0 && state.deployedTroopCount >= state.maxTroops && !heroesLeft) {
+    return true;
+  }
+
+  // 3. Battle timeout
+  return state.tick >= MAX_BATTLE_TICKS;
+}
+
+/**
+ * Calculate stars from destruction percentage and whether the Town Hall fell
+ * Multiplayer rules by default: 50% destruction, the Town Hall and 100% are a star each
+ */
+export function calculateStars(
+  destructionPercentage: number,
+  townHallDestroyed = false,
+  rules: StarRules = getStarRules(GameMode.MULTIPLAYER),
+): number {
+  let stars = rules.destructionStars.filter((p) => destructionPercentage >= p).length;
+  if (rules.townHallStar && townHallDestroyed) {
+    stars++;
+  }
+  return Math.min(stars, 3);
+}
+
+/**
+ * Run a battle to completion with a fixed list of deploy inputs
+ * Inputs are applied at the start of their tick, before the tick is simulated
+ */
+export function runBattle(
+  state: BattleState,
+  inputs: DeployInput[],
+  spellInputs: SpellInput[] = [],
+  abilityInputs: AbilityInput[] = [],
+): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const pending = [...inputs].sort((a, b) => a.tick - b.tick);
+  const pendingSpells = [...spellInputs].sort((a, b) => a.tick - b.tick);
+  const pendingAbilities = [...abilityInputs].sort((a, b) => a.tick - b.tick);
+  let nextInput = 0;
+  let nextSpell = 0;
+  let nextAbility = 0;
+
+  while (!isBattleOver(state)) {
+    while (nextInput < pending.length && pending[nextInput].tick <= state.tick) {
+      const input = pending[nextInput++];
+      const deployed = deployTroop(state, input.troopType, input.position);
+      if (deployed) {
+        events.push(...deployed.events);
+      }
+    }
+
+    while (nextSpell < pendingSpells.length && pendingSpells[nextSpell].tick <= state.tick) {
+      const input = pendingSpells[nextSpell++];
+      const cast = castSpell(state, input.spellType, input.position);
+      if (cast) {
+        events.push(...cast.events);
+      }
+    }
+
+    while (
+      nextAbility < pendingAbilities.length &&
+      pendingAbilities[nextAbility].tick <= state.tick
+    ) {
+      const activated = activateHeroAbility(state, pendingAbilities[nextAbility++].heroType);
+      if (activated) {
+        events.push(...activated.events);
+      }
+    }
+
+    // Nothing left to deploy or cast and nobody alive - the attack is over
+    if (
+      nextInput >= pending.length &&
+      nextSpell >= pendingSpells.length &&
+      state.troops.length === 0 &&
+      state.spells.length === 0
+    ) {
+      break;
+    }
+
+    events.push(...stepBattle(state));
+  }
+
+  return events;
+}
+
+/**
+ * Plan an auto-battle deployment: troops spawn one by one on random map edges
+ */
+export function planEdgeDeployment(
+  state: BattleState,
+  troops: { type: string; count: number }[],
+  spawnIntervalTicks: number = 2,
+): DeployInput[] {
+  const inputs: DeployInput[] = [];
+  let tick = state.tick;
+
+  for (const troopGroup of troops) {
+    for (let i = 0; i < troopGroup.count; i++) {
+      inputs.push({ tick, troopType: troopGroup.type, position: getRandomEdgePosition(state.rng) });
+      tick += spawnIntervalTicks;
+    }
+  }
+
+  return inputs;
+}
+
+// Helper functions
+
+function getRandomEdgePosition(rng: RandomState): { x: number; y: number } {
+  const edge = Math.floor(nextRandom(rng) * 4); // 0: top, 1: right, 2: bottom, 3: left
+  const offset = nextRandom(rng) * DEPLOY_MAP_SIZE;
+
+  switch (edge) {
+    case 0:
+      return { x: offset, y: 0 };
+    case 1:
+      return { x: DEPLOY_MAP_SIZE, y: offset };
+    case 2:
+      return { x: offset, y: DEPLOY_MAP_SIZE };
+    default:
+      return { x: 0, y: offset };
+  }
+}
+
+function findClosestTroop(building: Building, troops: Troop[], range: number): Troop | null {
+  const buildingCenter = getBuildingCenter(building);
+  let closest: Troop | null = null;
+  let minDistance = Infinity;
+
+  for (const troop of troops) {
+    if (!troop.isAlive || !canTarget(building.defense.targetType, troop)) continue;
+
+    const distance = getDistance(buildingCenter, troop.position);
+    if (distance < building.defense.minRange) continue;
+    if (distance <= range && distance < minDistance) {
+      minDistance = distance;
+      closest = troop;
+    }
+  }
+
+  return closest;
+}
+
+function findClosestUnit(
+  position: { x: number; y: number },
+  units: Troop[],
+  range: number,
+): Troop | null {
+  let closest: Troop | null = null;
+  let minDistance = Infinity;
+
+  for (const unit of units) {
+    if (!unit.isAlive) continue;
+
+    const distance = getDistance(position, unit.position);
+    if (distance <= range && distance < minDistance) {
+      minDistance = distance;
+      closest = unit;
+    }
+  }
+
+  return closest;
+}
+
+// Whether a defense with this target type can shoot the troop (Cannons can't hit flyers)
+function canTarget(targetType: 'ground' | 'air' | 'both', troop: Troop): boolean {
+  return targetType === 'both' || targetType === troop.targetType;
+}
+
+// Melee units can't reach flying troops
+function canHitUnit(attacker: Troop, target: Troop): boolean {
+  return target.targetType !== 'air' || attacker.range > 1;
+}
+
+// Heroes and troops that target anything fight units; giants and wall breakers ignore them
+function canFightUnits(troop: Troop): boolean {
+  return !!troop.hero || TROOP_CONFIGS[troop.type as TroopType]?.targetPreference === 'ANY';
+}
+
+/**
+ * Let the Clan Castle troops out once an attacker comes within the castle's trigger radius
+ * They then guard the castle like defending heroes guard their altar
+ */
+function releaseGarrison(state: BattleState, emit: (type: BattleEventType, data: any) => void) {
+  if (!state.garrison || state.garrisonReleased) return;
+
+  const castle = state.buildings.find((b) => b.id === state.garrison.castleId);
+  const config = castle && getBuildingConfig(castle.type as BuildingType).garrison;
+  if (!config) return;
+
+  const center = getBuildingCenter(castle);
+  const triggered = state.troops.some(
+    (t) => t.isAlive && getDistance(center, t.position) <= config.triggerRadius,
+  );
+  if (!triggered) return;
+
+  state.garrisonReleased = true;
+
+  const units: Troop[] = [];
+  for (const group of state.garrison.troops) {
+    if (!TROOP_CONFIGS[group.type as TroopType]) continue;
+
+    for (let i = 0; i < group.count; i++) {
+      const unit = createTroopUnit(
+        group.type,
+        `${group.type}_castle_${state.nextTroopId++}`,
+        center,
+      );
+      unit.guard = { position: center, radius: config.guardRadius };
+      unit.unitTarget = null;
+      units.push(unit);
+    }
+  }
+
+  state.defenders.push(...units);
+  state.garrisonUnits.push(...units);
+
+  emit('GARRISON_RELEASED', {
+    castleId: castle.id,
+    position: center,
+    defenders: units.map(toDefenderSnapshot),
+  });
+}
+
+/**
+ * Defending units chase attackers that come within their guard radius and return to
+ * their post when the area is clear. They walk straight, ignoring walls.
+ */
+function stepDefenders(
+  state: BattleState,
+  now: number,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  for (const defender of state.defenders) {
+    if (!defender.isAlive || !defender.guard) continue;
+
+    const guard = defender.guard;
+    const current = defender.unitTarget;
+    if (
+      !current ||
+      !current.isAlive ||
+      getDistance(guard.position, current.position) > guard.radius + defender.range
+    ) {
+      defender.unitTarget = findClosestUnit(
+        guard.position,
+        state.troops.filter((t) => canHitUnit(defender, t)),
+        guard.radius,
+      );
+    }
+
+    const target = defender.unitTarget;
+    if (!target) {
+      defender.state = 'idle';
+      if (getDistance(defender.position, guard.position) > 0.5) {
+        defender.state = 'moving';
+        stepTowards(defender, guard.position);
+      }
+      continue;
+    }
+
+    if (getDistance(defender.position, target.position) <= defender.range) {
+      defender.state = 'attacking';
+      unitAttackUnit(defender, target, now, emit);
+    } else {
+      defender.state = 'moving';
+      stepTowards(defender, target.position);
+    }
+  }
+}
+
+function unitAttackUnit(
+  attacker: Troop,
+  target: Troop,
+  now: number,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  const cooldown = attacker.attackSpeed > 0 ? 1000 / attacker.attackSpeed : 1000;
+  if (attacker.lastAttackTime !== null && now - attacker.lastAttackTime < cooldown) return;
+  attacker.lastAttackTime = now;
+
+  const damage = Math.round(attacker.damage * attacker.damageMultiplier);
+  target.health -= damage;
+
+  if (target.health <= 0 && target.isAlive) {
+    target.health = 0;
+    target.isAlive = false;
+    target.state = 'dead';
+    attacker.unitTarget = null;
+
+    emit('TROOP_DEATH', {
+      troopId: target.id,
+      troopType: target.type,
+      position: { ...target.position },
+      killedBy: attacker.id,
+      defender: !!target.guard,
+    });
+  } else {
+    emit('TROOP_ATTACK', {
+      attackerId: attacker.id,
+      troopId: target.id,
+      damage,
+      remainingHealth: target.health,
+      projectile:
+        attacker.range > 1
+          ? {
+              from: { ...attacker.position },
+              to: { ...target.position },
+            }
+          : undefined,
+    });
+  }
+}
+
+/**
+ * Move troop towards target with pathfinding (wall-aware)
+ * Flying troops skip pathfinding and go straight over walls
+ */
+function moveTroopTowardsTarget(
+  state: BattleState,
+  troop: Troop,
+  target: { x: number; y: number },
+) {
+  if (troop.targetType === 'air') {
+    stepTowards(troop, target);
+    return;
+  }
+
+  // Calculate path if needed
+  if (!troop.currentPath || troop.currentPath.length === 0) {
+    const pathResult = findPathWithWallInfo(troop, target, state.buildings);
+    troop.currentPath = pathResult.path;
+
+    // If no path and wall blocking, target the wall
+    if (
+      pathResult.hasWallBlockage &&
+      pathResult.wallToDestroy &&
+      troop.type.toUpperCase() !== 'ARCHER'
+    ) {
+      troop.target = pathResult.wallToDestroy;
+      troop.targetInfo = {
+        target: pathResult.wallToDestroy,
+        needsToDestroyWall: true,
+        wallToDestroy: pathResult.wallToDestroy,
+        canAttackOverWall: false,
+      };
+      return;
+    }
+  }
+
+  // Follow path or move directly
+  let moveTarget = target;
+  if (troop.currentPath && troop.currentPath.length > 0) {
+    const nextWaypoint = troop.currentPath[0];
+
+    if (getDistance(troop.position, nextWaypoint) < 0.5) {
+      // Reached waypoint, remove it
+      troop.currentPath.shift();
+      if (troop.currentPath.length > 0) {
+        moveTarget = troop.currentPath[0];
+      }
+    } else {
+      moveTarget = nextWaypoint;
+    }
+  }
+
+  stepTowards(troop, moveTarget);
+}
+
+/**
+ * Move a unit one tick's worth of distance straight towards a point
+ */
+function stepTowards(troop: Troop, moveTarget: { x: number; y: number }) {
+  const dx = moveTarget.x - troop.position.x;
+  const dy = moveTarget.y - troop.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance > 0.1) {
+    const moveDistance = troop.speed * troop.speedMultiplier * (TICK_MS / 1000);
+    const ratio = Math.min(moveDistance / distance, 1);
+
+    troop.position.x += dx * ratio;
+    troop.position.y += dy * ratio;
+  }
+}
+
+function troopAttackBuilding(
+  troop: Troop,
+  building: Building,
+  now: number,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  // Troops without an attack rate (wall breakers) fall back to one hit per second
+  const cooldown = troop.attackSpeed > 0 ? 1000 / troop.attackSpeed : 1000;
+  if (troop.lastAttackTime !== null && now - troop.lastAttackTime < cooldown) return;
+  troop.lastAttackTime = now;
+
+  const damage = Math.round(troop.damage * troop.damageMultiplier);
+  building.health -= damage;
+
+  if (building.health <= 0 && !building.isDestroyed) {
+    building.health = 0;
+    building.isDestroyed = true;
+
+    emit('BUILDING_DESTROYED', {
+      buildingId: building.id,
+      buildingType: building.type,
+      position: building.position,
+      loot: releaseLoot(building),
+    });
+
+    // Troop needs new target
+    troop.target = null;
+    troop.targetInfo = null;
+  } else {
+    // Ranged troops fire a projectile
+    const isRanged = troop.range > 1;
+    emit('BUILDING_ATTACK', {
+      troopId: troop.id,
+      troopType: troop.type,
+      buildingId: building.id,
+      damage,
+      remainingHealth: building.health,
+      loot: releaseLoot(building),
+      projectile: isRanged
+        ? {
+            from: { ...troop.position },
+            to: getBuildingCenter(building),
+          }
+        : undefined,
+    });
+  }
+}
+
+/**
+ * Wall Breaker explodes on contact with wall, dealing massive damage
+ * The wall breaker dies in the explosion
+ */
+function wallBreakerExplode(
+  troop: Troop,
+  wall: Building,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  const damage = Math.round(troop.damage * troop.damageMultiplier);
+  wall.health -= damage;
+
+  if (wall.health <= 0 && !wall.isDestroyed) {
+    wall.health = 0;
+    wall.isDestroyed = true;
+
+    emit('BUILDING_DESTROYED', {
+      buildingId: wall.id,
+      buildingType: wall.type,
+      position: wall.position,
+      loot: releaseLoot(wall),
+    });
+  } else {
+    emit('BUILDING_ATTACK', {
+      troopId: troop.id,
+      troopType: troop.type,
+      buildingId: wall.id,
+      damage,
+      remainingHealth: wall.health,
+      loot: releaseLoot(wall),
+    });
+  }
+
+  troop.health = 0;
+  troop.isAlive = false;
+  troop.state = 'dead';
+
+  emit('TROOP_DEATH', {
+    troopId: troop.id,
+    troopType: troop.type,
+    position: { ...troop.position },
+    killedBy: 'explosion', // Died from own explosion
+  });
+}
+
+function buildingAttackTroop(
+  building: Building,
+  troop: Troop,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  if (!building.defense) return;
+
+  damageTroop(troop, building.id, building.defense.damage, emit, {
+    from: getBuildingCenter(building),
+    to: { ...troop.position },
+  });
+}
+
+/**
+ * Fire a splash shot at the troop's current position
+ * Shots with no travel time explode straight away; slower ones land on a later tick
+ */
+function launchShell(
+  state: BattleState,
+  building: Building,
+  target: Troop,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  const travelTicks = Math.round((building.defense.projectileTravel * 1000) / TICK_MS);
+  const shell: Shell = {
+    buildingId: building.id,
+    position: { ...target.position },
+    damage: building.defense.damage,
+    splashRadius: building.defense.splashRadius,
+    targetType: building.defense.targetType,
+    landTick: state.tick + travelTicks,
+  };
+
+  if (travelTicks === 0) {
+    explodeShell(state, shell, emit);
+    return;
+  }
+
+  state.shells.push(shell);
+  emit('SPLASH_LAUNCH', {
+    buildingId: building.id,
+    from: getBuildingCenter(building),
+    to: { ...shell.position },
+    travelMs: travelTicks * TICK_MS,
+  });
+}
+
+// Damage every targetable troop within the splash radius of the impact point
+function explodeShell(
+  state: BattleState,
+  shell: Shell,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  emit('SPLASH_IMPACT', {
+    buildingId: shell.buildingId,
+    position: { ...shell.position },
+    radius: shell.splashRadius,
+  });
+
+  for (const troop of state.troops) {
+    if (!troop.isAlive || !canTarget(shell.targetType, troop)) continue;
+    if (getDistance(shell.position, troop.position) > shell.splashRadius) continue;
+
+    damageTroop(troop, shell.buildingId, shell.damage, emit);
+  }
+}
+
+/**
+ * Set off every armed trap with a targetable troop inside its trigger radius
+ * Spring Traps fling troops out up to their housing capacity; other traps damage everything nearby
+ */
+function triggerTraps(state: BattleState, emit: (type: BattleEventType, data: any) => void) {
+  for (const trap of state.traps) {
+    if (trap.isSprung) continue;
+
+    const inRange = (radius: number) =>
+      state.troops.filter(
+        (t) =>
+          t.isAlive &&
+          canTarget(trap.targetType, t) &&
+          getDistance(trap.position, t.position) <= radius,
+      );
+
+    if (inRange(trap.triggerRadius).length === 0) continue;
+
+    trap.isSprung = true;
+    emit('TRAP_TRIGGERED', {
+      trapId: trap.id,
+      trapType: trap.type,
+      position: { ...trap.position },
+      radius: trap.effectRadius,
+    });
+
+    let capacityLeft = trap.ejectCapacity;
+    for (const troop of inRange(trap.effectRadius)) {
+      if (trap.ejectCapacity > 0) {
+        // Heroes are too heavy to fling
+        const housing = TROOP_CONFIGS[troop.type as TroopType]?.housingSpace;
+        if (troop.hero || !housing || housing > capacityLeft) continue;
+
+        capacityLeft -= housing;
+        damageTroop(troop, trap.id, troop.health, emit);
+      } else {
+        damageTroop(troop, trap.id, trap.damage, emit);
+      }
+    }
+  }
+}
+
+function damageTroop(
+  troop: Troop,
+  buildingId: string,
+  damage: number,
+  emit: (type: BattleEventType, data: any) => void,
+  projectile?: { from: { x: number; y: number }; to: { x: number; y: number } },
+) {
+  troop.health -= damage;
+
+  if (troop.health <= 0 && troop.isAlive) {
+    troop.health = 0;
+    troop.isAlive = false;
+    troop.state = 'dead';
+
+    emit('TROOP_DEATH', {
+      troopId: troop.id,
+      troopType: troop.type,
+      position: { ...troop.position },
+      killedBy: buildingId,
+      damage,
+    });
+  } else {
+    emit('TROOP_ATTACK', {
+      buildingId,
+      troopId: troop.id,
+      damage,
+      remainingHealth: troop.health,
+      projectile,
+    });
+  }
+}
+
+/**
+ * Apply active spell effects for this tick and expire finished spells
+ * Lightning strikes once when cast; Heal pulses every second; Rage boosts troops standing inside it
+ */
+function applySpells(state: BattleState, emit: (type: BattleEventType, data: any) => void) {
+  for (const troop of state.troops) {
+    troop.damageMultiplier = 1;
+    troop.speedMultiplier = 1;
+  }
+
+  for (const spell of state.spells) {
+    const config = SPELL_CONFIGS[spell.type as SpellType];
+    const elapsed = state.tick - spell.startTick;
+
+    if (config.damage && elapsed === 0) {
+      for (const building of state.buildings) {
+        if (building.isDestroyed) continue;
+        if (getDistanceToBuilding(spell.position, building) > spell.radius) continue;
+
+        spellAttackBuilding(spell, building, config.damage, emit);
+      }
+    }
+
+    if (state.tick >= spell.endTick) continue;
+
+    for (const troop of state.troops) {
+      if (!troop.isAlive || getDistance(spell.position, troop.position) > spell.radius) continue;
+
+      if (config.healPerSecond && elapsed % SPELL_PULSE_TICKS === 0) {
+        const healed = Math.min(config.healPerSecond, troop.maxHealth - troop.health);
+        if (healed > 0) {
+          troop.health += healed;
+          emit('TROOP_HEAL', {
+            troopId: troop.id,
+            spellId: spell.id,
+            amount: healed,
+            remainingHealth: troop.health,
+          });
+        }
+      }
+
+      if (config.damageMultiplier) {
+        troop.damageMultiplier = Math.max(troop.damageMultiplier, config.damageMultiplier);
+      }
+      if (config.speedMultiplier) {
+        troop.speedMultiplier = Math.max(troop.speedMultiplier, config.speedMultiplier);
+      }
+    }
+  }
+
+  state.spells = state.spells.filter((spell) => {
+    if (state.tick < spell.endTick) return true;
+
+    emit('SPELL_END', { spellId: spell.id, spellType: spell.type });
+    return false;
+  });
+}
+
+/**
+ * Boost heroes whose ability is still running (on top of any spell boost)
+ */
+function applyHeroAbilities(state: BattleState) {
+  for (const troop of state.troops) {
+    const hero = troop.hero;
+    if (!hero || hero.abilityEndTick === null || state.tick >= hero.abilityEndTick) continue;
+
+    const ability = HERO_CONFIGS[hero.type as HeroType].ability;
+    troop.damageMultiplier = Math.max(troop.damageMultiplier, ability.damageMultiplier);
+    troop.speedMultiplier = Math.max(troop.speedMultiplier, ability.speedMultiplier);
+  }
+}
+
+function spellAttackBuilding(
+  spell: ActiveSpell,
+  building: Building,
+  damage: number,
+  emit: (type: BattleEventType, data: any) => void,
+) {
+  building.health -= damage;
+
+  if (building.health <= 0) {
+    building.health = 0;
+    building.isDestroyed = true;
+
+    emit('BUILDING_DESTROYED', {
+      buildingId: building.id,
+      buildingType: building.type,
+      position: building.position,
+      loot: releaseLoot(building),
+    });
+  } else {
+    emit('BUILDING_ATTACK', {
+      spellId: spell.id,
+      spellType: spell.type,
+      buildingId: building.id,
+      damage,
+      remainingHealth: building.health,
+      loot: releaseLoot(building),
+    });
+  }
+}
+
+/**
+ * Release the loot a building has given up for the damage it has taken so far
+ * Returns what this hit released, so clients can count loot as it comes in
+ */
+function releaseLoot(building: Building): { gold: number; elixir: number } {
+  const loot = building.loot;
+  if (!loot) return { gold: 0, elixir: 0 };
+
+  const damageRatio = building.isDestroyed ? 1 : 1 - building.health / building.maxHealth;
+  const gold = Math.floor(loot.gold * damageRatio) - loot.lootedGold;
+  const elixir = Math.floor(loot.elixir * damageRatio) - loot.lootedElixir;
+  loot.lootedGold += gold;
+  loot.lootedElixir += elixir;
+
+  return { gold, elixir };
+}
+
+/**
+ * Update destruction percentage and the stars it earns
+ * IMPORTANT: Only non-wall buildings count towards destruction percentage
+ * Walls do NOT count - this matches Clash of Clans logic
+ */
+function updateDestructionPercentage(state: BattleState) {
+  const nonWallBuildings = state.buildings.filter((b) => b.type.toLowerCase() !== 'wall');
+
+  if (nonWallBuildings.length === 0) {
+    state.destructionPercentage = 100;
+  } else {
+    let totalHealth = 0;
+    let remainingHealth = 0;
+
+    for (const building of nonWallBuildings) {
+      totalHealth += building.maxHealth;
+      remainingHealth += building.health;
+    }
+
+    state.destructionPercentage = Math.floor(((totalHealth - remainingHealth) / totalHealth) * 100);
+  }
+
+  const townHallDestroyed = state.buildings.some(
+    (b) => b.type === BuildingType.TOWN_HALL && b.isDestroyed,
+  );
+  state.stars = calculateStars(
+    state.destructionPercentage,
+    townHallDestroyed,
+    getStarRules(state.gameMode),
+  );
+}
+
+// Distance from a point to the nearest tile of a building's footprint
+function getDistanceToBuilding(point: { x: number; y: number }, building: Building): number {
+  const nearestX = Math.max(
+    building.position.x,
+    Math.min(point.x, building.position.x + building.width),
+  );
+  const nearestY = Math.max(
+    building.position.y,
+    Math.min(point.y, building.position.y + building.height),
+  );
+  return getDistance(point, { x: nearestX, y: nearestY });
+}
+
+function getDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export function getBuildingCenter(building: Building): { x: number; y: number } {
+  return {
+    x: building.position.x + building.width / 2,
+    y: building.position.y + building.height / 2,
+  };
+}
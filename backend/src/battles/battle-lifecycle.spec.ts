@@ -0,0 +1,32 @@
+import {
+  BATTLE_OUTCOMES,
+  BattleStatus,
+  canTransition,
+  getOrphanedStatus,
+  getSourceStatuses,
+} from './battle-lifecycle';
+
+describe('battle lifecycle', () => {
+  it('only moves forward along the allowed transitions', () => {
+    expect(canTransition(BattleStatus.SCOUTING, BattleStatus.ACTIVE)).toBe(true);
+    expect(canTransition(BattleStatus.ACTIVE, BattleStatus.COMPLETED)).toBe(true);
+    expect(canTransition(BattleStatus.SCOUTING, BattleStatus.COMPLETED)).toBe(false);
+    expect(canTransition(BattleStatus.ACTIVE, BattleStatus.SCOUTING)).toBe(false);
+    expect(canTransition(BattleStatus.COMPLETED, BattleStatus.ABANDONED)).toBe(false);
+
+    expect(getSourceStatuses(BattleStatus.COMPLETED)).toEqual([BattleStatus.ACTIVE]);
+    expect(getSourceStatuses(BattleStatus.SCOUTING)).toEqual([]);
+  });
+
+  it('aborts battles lost before deploying and abandons those lost midway', () => {
+    expect(getOrphanedStatus(BattleStatus.SCOUTING)).toBe(BattleStatus.ABORTED);
+    expect(getOrphanedStatus(BattleStatus.ACTIVE)).toBe(BattleStatus.ABANDONED);
+    expect(getOrphanedStatus(BattleStatus.COMPLETED)).toBeNull();
+
+    expect(BATTLE_OUTCOMES[BattleStatus.ABANDONED]).toMatchObject({ loot: false, refund: 'all' });
+    expect(BATTLE_OUTCOMES[BattleStatus.COMPLETED]).toMatchObject({
+      loot: true,
+      refund: 'undeployed',
+    });
+  });
+});
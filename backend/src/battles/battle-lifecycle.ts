@@ -0,0 +1,73 @@
+/**
+ * Battle lifecycle
+ * Every battle row is in one of these states and only moves along the transitions below.
+ * Transitions are written with the expected source states in the WHERE clause, so a battle
+ * can't be closed twice even when a session end and a cleanup race each other.
+ */
+
+export enum BattleStatus {
+  SCOUTING = 'scouting', // created, nothing deployed yet; holds the attack lock
+  ACTIVE = 'active', // the battle clock is running (first deploy, or scouting ran out)
+  COMPLETED = 'completed', // ran to the end; the result is recorded
+  ABANDONED = 'abandoned', // the session was lost mid-battle (e.g. a server restart)
+  ABORTED = 'aborted', // ended before anything was deployed (surrendered while scouting, or lost)
+}
+
+// Where each state can go next; terminal states go nowhere
+export const BATTLE_TRANSITIONS: Record<BattleStatus, BattleStatus[]> = {
+  [BattleStatus.SCOUTING]: [BattleStatus.ACTIVE, BattleStatus.ABORTED],
+  [BattleStatus.ACTIVE]: [BattleStatus.COMPLETED, BattleStatus.ABANDONED],
+  [BattleStatus.COMPLETED]: [],
+  [BattleStatus.ABANDONED]: [],
+  [BattleStatus.ABORTED]: [],
+};
+
+// States in which a battle is being fought (and the defender is locked)
+export const LIVE_BATTLE_STATUSES: BattleStatus[] = [BattleStatus.SCOUTING, BattleStatus.ACTIVE];
+
+export interface BattleOutcome {
+  loot: boolean; // loot moves from the defender to the attacker
+  trophies: boolean; // trophies are won and lost
+  shield: boolean; // the defender is shielded for the destruction taken
+  // Which of the attacker's troops and spells go back to their army:
+  // those never deployed, or everything brought (nothing records what was used)
+  refund: 'undeployed' | 'all';
+}
+
+// What closing a battle in each terminal state does
+export const BATTLE_OUTCOMES: Record<
+  BattleStatus.COMPLETED | BattleStatus.ABANDONED | BattleStatus.ABORTED,
+  BattleOutcome
+> = {
+  [BattleStatus.COMPLETED]: { loot: true, trophies: true, shield: true, refund: 'undeployed' },
+  [BattleStatus.ABANDONED]: { loot: false, trophies: false, shield: false, refund: 'all' },
+  [BattleStatus.ABORTED]: { loot: false, trophies: false, shield: false, refund: 'all' },
+};
+
+export function canTransition(from: BattleStatus, to: BattleStatus): boolean {
+  return BATTLE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * States a battle has to be in to move to this one
+ */
+export function getSourceStatuses(to: BattleStatus): BattleStatus[] {
+  return Object.values(BattleStatus).filter((from) => canTransition(from, to));
+}
+
+/**
+ * Terminal state for a battle whose session is gone
+ * A battle that never got going is aborted; one cut off midway is abandoned
+ */
+export function getOrphanedStatus(
+  status: BattleStatus,
+): BattleStatus.ABANDONED | BattleStatus.ABORTED | null {
+  switch (status) {
+    case BattleStatus.SCOUTING:
+      return BattleStatus.ABORTED;
+    case BattleStatus.ACTIVE:
+      return BattleStatus.ABANDONED;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,52 @@
+import { calculateStars, createBattleState, planEdgeDeployment, runBattle } from './battle-engine';
+import {
+  BATTLE_REPLAY_VERSION,
+  createBattleReplay,
+  getReplayInputs,
+  isBattleReplay,
+  toReplayEvent,
+} from './battle-replay';
+
+const LAYOUT = [
+  { id: 'th', type: 'town_hall', positionX: 18, positionY: 18, level: 1 },
+  { id: 'cannon', type: 'cannon', positionX: 12, positionY: 12, level: 1 },
+  { id: 'mine', type: 'gold_mine', positionX: 10, positionY: 22, level: 1 },
+];
+
+describe('battle replay', () => {
+  const state = createBattleState({ buildings: LAYOUT, maxTroops: 6, seed: 42 });
+  const events = runBattle(state, planEdgeDeployment(state, [{ type: 'BARBARIAN', count: 6 }]));
+  const replay = createBattleReplay(
+    state,
+    LAYOUT,
+    events.map(toReplayEvent),
+    calculateStars(state.destructionPercentage),
+  );
+
+  it('records a compact, versioned snapshot of the battle', () => {
+    expect(replay.version).toBe(BATTLE_REPLAY_VERSION);
+    expect(replay.seed).toBe(42);
+    expect(replay.layout[0]).toEqual({ id: 'th', type: 'town_hall', positionX: 18, positionY: 18 });
+    expect(replay.inputs).toHaveLength(6);
+    expect(replay.result.durationTicks).toBe(state.tick);
+    expect(isBattleReplay(JSON.parse(JSON.stringify(replay)))).toBe(true);
+    expect(isBattleReplay([{ timestamp: 0, type: 'TROOP_SPAWN', data: {} }])).toBe(false);
+  });
+
+  it('still plays back replays recorded before state frames', () => {
+    expect(isBattleReplay({ ...replay, version: 1 })).toBe(true);
+    expect(isBattleReplay({ ...replay, version: BATTLE_REPLAY_VERSION + 1 })).toBe(false);
+  });
+
+  it('re-simulates to the same event stream', () => {
+    const rerun = createBattleState({
+      buildings: replay.layout,
+      maxTroops: replay.maxTroops,
+      seed: replay.seed,
+    });
+    const rerunEvents = runBattle(rerun, getReplayInputs(replay));
+
+    expect(rerunEvents.map(toReplayEvent)).toEqual(replay.events);
+    expect(rerun.destructionPercentage).toBe(replay.result.destructionPercentage);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Battle replay format
+ * A replay is everything needed to watch a battle again: the defender layout as it was when the
+ * battle started, the seed, every deploy input and the event stream the engine produced.
+ * Inputs and events are stored as tuples to keep the jsonb column small.
+ */
+
+import {
+  AbilityInput,
+  BattleBuildingSource,
+  BattleEventType,
+  BattleState,
+  DefenderHeroLoadout,
+  DeployInput,
+  GarrisonLoadout,
+  HeroLoadout,
+  SimulationEvent,
+  SpellInput,
+  TICK_MS,
+} from './battle-engine';
+import { GameMode } from '../common/config/game-modes.config';
+
+// Bump when the replay shape or engine rules change; clients branch on it to play older replays
+// 2: unit movement is recorded as STATE_FRAME events instead of one TROOP_MOVE per troop
+export const BATTLE_REPLAY_VERSION = 2;
+
+// Replays older than this can no longer be played back
+const OLDEST_PLAYABLE_REPLAY_VERSION = 1;
+
+export type ReplayInput = [tick: number, troopType: string, x: number, y: number];
+export type ReplaySpellInput = [tick: number, spellType: string, x: number, y: number];
+export type ReplayAbilityInput = [tick: number, heroType: string];
+export type ReplayEvent = [tick: number, type: BattleEventType, data: any];
+
+export interface BattleReplay {
+  version: number;
+  seed: number;
+  tickMs: number;
+  maxTroops: number;
+  gameMode: GameMode; // star rules the battle was played with
+  layout: BattleBuildingSource[];
+  inputs: ReplayInput[];
+  spellBudget: Record<string, number>; // spells brought into the battle
+  spells: ReplaySpellInput[];
+  heroes: HeroLoadout[]; // attacking heroes brought into the battle
+  defenderHeroes: DefenderHeroLoadout[]; // heroes guarding the defender's village
+  garrison: GarrisonLoadout | null; // troops in the defender's Clan Castle
+  abilities: ReplayAbilityInput[];
+  events: ReplayEvent[];
+  result: {
+    destructionPercentage: number;
+    stars: number;
+    durationTicks: number;
+  };
+}
+
+/**
+ * Keep only the building fields the engine needs to rebuild the defender layout
+ */
+export function snapshotLayout(buildings: BattleBuildingSource[]): BattleBuildingSource[] {
+  return buildings.map((b) => ({
+    id: b.id,
+    type: b.type,
+    positionX: b.positionX,
+    positionY: b.positionY,
+  }));
+}
+
+export function toReplayEvent(event: SimulationEvent): ReplayEvent {
+  return [event.tick, event.type, event.data];
+}
+
+/**
+ * Build a replay from a finished battle
+ */
+export function createBattleReplay(
+  state: BattleState,
+  layout: BattleBuildingSource[],
+  events: ReplayEvent[],
+  stars: number,
+): BattleReplay {
+  return {
+    version: BATTLE_REPLAY_VERSION,
+    seed: state.rng.seed,
+    tickMs: TICK_MS,
+    maxTroops: state.maxTroops,
+    gameMode: state.gameMode,
+    layout: snapshotLayout(layout),
+    inputs: state.deployments.map((d) => [d.tick, d.troopType, d.position.x, d.position.y]),
+    spellBudget: getInitialSpellBudget(state),
+    spells: state.spellCasts.map((c) => [c.tick, c.spellType, c.position.x, c.position.y]),
+    heroes: state.heroes,
+    defenderHeroes: state.defenderHeroes,
+    garrison: state.garrison,
+    abilities: state.abilityActivations.map((a) => [a.tick, a.heroType]),
+    events,
+    result: {
+      destructionPercentage: state.destructionPercentage,
+      stars,
+      durationTicks: state.tick,
+    },
+  };
+}
+
+/**
+ * Expand replay inputs back into engine deploy inputs (for re-simulating a replay)
+ */
+export function getReplayInputs(replay: BattleReplay): DeployInput[] {
+  return replay.inputs.map(([tick, troopType, x, y]) => ({ tick, troopType, position: { x, y } }));
+}
+
+/**
+ * Expand replay spell casts back into engine spell inputs
+ */
+export function getReplaySpellInputs(replay: BattleReplay): SpellInput[] {
+  return (replay.spells ?? []).map(([tick, spellType, x, y]) => ({
+    tick,
+    spellType,
+    position: { x, y },
+  }));
+}
+
+/**
+ * Expand replay hero ability activations back into engine ability inputs
+ */
+export function getReplayAbilityInputs(replay: BattleReplay): AbilityInput[] {
+  return (replay.abilities ?? []).map(([tick, heroType]) => ({ tick, heroType }));
+}
+
+// Spells left plus spells already cast
+function getInitialSpellBudget(state: BattleState): Record<string, number> {
+  const budget = { ...state.spellBudget };
+  for (const cast of state.spellCasts) {
+    budget[cast.spellType] = (budget[cast.spellType] ?? 0) + 1;
+  }
+  return budget;
+}
+
+/**
+ * Check a stored battle log is a replay this server can play back
+ * Battles recorded before replays existed store a plain event array (or nothing)
+ */
+export function isBattleReplay(log: unknown): log is BattleReplay {
+  return (
+    !!log &&
+    typeof log === 'object' &&
+    !Array.isArray(log) &&
+    (log as BattleReplay).version >= OLDEST_PLAYABLE_REPLAY_VERSION &&
+    (log as BattleReplay).version <= BATTLE_REPLAY_VERSION
+  );
+}
@@ -0,0 +1,173 @@
+import { BattleSessionManager, SCOUTING_MS } from './battle-session.manager';
+import { BattleBuildingSource, MAX_BATTLE_TICKS, TICK_MS, stepBattle } from './battle-engine';
+import { BattleStatus } from './battle-lifecycle';
+import {
+  BattleSessionStore,
+  InMemoryBattleSessionStore,
+  SessionCheckpoint,
+} from './battle-session.store';
+
+const LAYOUT: BattleBuildingSource[] = [
+  { id: 'th', type: 'town_hall', positionX: 18, positionY: 18 },
+  { id: 'cannon', type: 'cannon', positionX: 12, positionY: 12 },
+];
+
+const ARMY = [{ type: 'BARBARIAN', count: 5 }];
+
+describe('battle session manager', () => {
+  let manager: BattleSessionManager;
+  let store: InMemoryBattleSessionStore;
+  let battlesService: Record<string, jest.Mock>;
+  let broadcast: jest.Mock;
+
+  const startSession = () =>
+    manager.createSession(
+      'battle',
+      'attacker',
+      'attacker-village',
+      'defender',
+      'defender-village',
+      LAYOUT,
+      ARMY,
+    );
+
+  const sentEvents = (type: string) =>
+    broadcast.mock.calls.map(([, event]) => event).filter((event) => event.type === type);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    store = new InMemoryBattleSessionStore();
+    manager = new BattleSessionManager(store);
+    battlesService = {
+      markBattleActive: jest.fn().mockResolvedValue(undefined),
+      abortBattle: jest.fn().mockResolvedValue(true),
+      updateBattleResults: jest.fn().mockResolvedValue(null),
+    };
+    broadcast = jest.fn();
+    manager.setBattlesService(battlesService);
+    manager.setGateway({ broadcastBattleEvent: broadcast } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('scouts without using battle time and starts the clock once scouting runs out', async () => {
+    const session = await startSession();
+    expect(manager.getClock(session)).toMatchObject({
+      phase: 'scouting',
+      remainingMs: SCOUTING_MS,
+    });
+
+    jest.advanceTimersByTime(SCOUTING_MS - 1000);
+    expect(session.status).toBe(BattleStatus.SCOUTING);
+    expect(session.tick).toBe(0);
+
+    jest.advanceTimersByTime(1000);
+    expect(session.status).toBe(BattleStatus.ACTIVE);
+    expect(battlesService.markBattleActive).toHaveBeenCalledWith('battle');
+    expect(sentEvents('CLOCK')[0].data).toMatchObject({
+      phase: 'battle',
+      remainingMs: MAX_BATTLE_TICKS * TICK_MS,
+    });
+  });
+
+  it('starts the battle clock on the first deploy', async () => {
+    const session = await startSession();
+    manager.deployTroop('battle', 'BARBARIAN', { x: 0, y: 0 });
+
+    expect(session.status).toBe(BattleStatus.ACTIVE);
+    expect(manager.getClock(session).phase).toBe('battle');
+  });
+
+  it('aborts the battle when the attacker surrenders while scouting', async () => {
+    const session = await startSession();
+
+    expect(manager.surrender('battle')).toBe(true);
+    expect(session.status).toBe(BattleStatus.ABORTED);
+    expect(battlesService.abortBattle).toHaveBeenCalledWith('battle');
+    expect(battlesService.updateBattleResults).not.toHaveBeenCalled();
+    expect(manager.surrender('battle')).toBe(false);
+
+    // Scouting running out no longer starts anything
+    jest.advanceTimersByTime(SCOUTING_MS);
+    expect(battlesService.markBattleActive).not.toHaveBeenCalled();
+  });
+
+  it('ends a running battle right away with the result so far on surrender', async () => {
+    const session = await startSession();
+    manager.deployTroop('battle', 'BARBARIAN', { x: 0, y: 0 });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const tick = session.tick;
+    expect(manager.surrender('battle')).toBe(true);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(session.status).toBe(BattleStatus.COMPLETED);
+    expect(session.tick).toBe(tick);
+    expect(battlesService.updateBattleResults).toHaveBeenCalledTimes(1);
+    expect(sentEvents('BATTLE_END')[0].data).toMatchObject({ surrendered: true });
+  });
+
+  it('sends what happens on each tick as one frame, in tick order', async () => {
+    const session = await startSession();
+    manager.deployTroop('battle', 'BARBARIAN', { x: 0, y: 0 });
+    broadcast.mockClear();
+    await jest.advanceTimersByTimeAsync(2000);
+
+    const frames = sentEvents('STATE_FRAME').map((event) => event.data);
+    expect(frames.length).toBeGreaterThan(0);
+    expect(frames.map((frame) => frame.tick)).toEqual(
+      [...frames.map((frame) => frame.tick)].sort((a, b) => a - b),
+    );
+    expect(frames[frames.length - 1].tick).toBe(session.tick - 1);
+
+    // Nothing from the simulation goes out on its own any more
+    const types = new Set(broadcast.mock.calls.map(([, event]) => event.type));
+    expect([...types].sort()).toEqual(['CLOCK', 'STATE_FRAME']);
+  });
+
+  it('does not hand out a session another instance has claimed', async () => {
+    jest.spyOn(store, 'save').mockResolvedValue(false);
+
+    await expect(startSession()).rejects.toThrow('already claimed');
+    expect(manager.getSession('battle')).toBeUndefined();
+  });
+
+  it('resumes a session from its checkpoint on another instance', async () => {
+    const checkpoints: SessionCheckpoint[] = [];
+    jest.spyOn(store as BattleSessionStore, 'save').mockImplementation(async (checkpoint) => {
+      checkpoints.push(JSON.parse(JSON.stringify(checkpoint)));
+      return true;
+    });
+
+    const session = await startSession();
+    manager.deployTroop('battle', 'BARBARIAN', { x: 0, y: 0 });
+    await jest.advanceTimersByTimeAsync(1000);
+    manager.deployTroop('battle', 'BARBARIAN', { x: 0, y: 1 });
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    expect(checkpoint).toMatchObject({ status: BattleStatus.ACTIVE, tick: session.tick });
+
+    // This instance goes away; the session is left as it was at the checkpoint
+    manager.deleteSession('battle');
+
+    const otherStore = new InMemoryBattleSessionStore();
+    jest.spyOn(otherStore, 'takeOver').mockResolvedValue([checkpoint]);
+    const other = new BattleSessionManager(otherStore);
+    other.setGateway({ broadcastBattleEvent: jest.fn() } as any);
+
+    const view = await other.findSession('battle');
+    expect(view).toMatchObject({ id: 'battle', status: BattleStatus.ACTIVE });
+
+    // The resumed battle loop runs its first tick straight away
+    const resumed = other.getSession('battle')!;
+    stepBattle(session);
+    expect(resumed.tick).toBe(session.tick);
+    expect(resumed.rng).toEqual(session.rng);
+    expect(resumed.troops).toEqual(session.troops);
+    expect(resumed.buildings).toEqual(session.buildings);
+    expect(resumed.troopBudget).toEqual({ BARBARIAN: 3 });
+  });
+});
@@ -1,69 +1,158 @@
-import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { BattlesGateway, BattleEvent } from './battles.gateway';
 import { SpectateGateway } from './spectate.gateway';
-import { findBestTarget, TargetInfo } from './troop-ai.util';
-import { findPathWithWallInfo, hasLineOfSight } from './pathfinding.util';
-
-export interface Troop {
-  id: string;
-  type: string;
-  position: { x: number; y: number };
-  health: number;
-  maxHealth: number;
-  damage: number;
-  speed: number;
-  range: number;
-  targetType: 'ground' | 'air' | 'both';
-  isAlive: boolean;
-  target: Building | null;
-  state: 'idle' | 'moving' | 'attacking' | 'dead';
-  currentPath?: { x: number; y: number }[]; // Current pathfinding path
-  targetInfo?: TargetInfo | null; // Smart targeting info
+import {
+  ActiveSpell,
+  BattleBuildingSource,
+  BattleEventType,
+  BattleState,
+  DefenderHeroLoadout,
+  DeployZone,
+  FrameBaseline,
+  GarrisonLoadout,
+  HeroLoadout,
+  MAX_BATTLE_TICKS,
+  SimulationEvent,
+  TICK_MS,
+  Troop,
+  activateHeroAbility,
+  castSpell,
+  createBattleState,
+  createFrameBaseline,
+  createStateFrame,
+  deployTroop,
+  getBattleSnapshot,
+  getDefenderSnapshot,
+  getDeployBudget,
+  getGarrisonLosses,
+  getHeroResults,
+  getLootResults,
+  getSprungTrapIds,
+  getTroopResults,
+  getUncastSpells,
+  isBattleOver,
+  stepBattle,
+} from './battle-engine';
+import { ReplayEvent, createBattleReplay, snapshotLayout, toReplayEvent } from './battle-replay';
+import { BattleStatus, LIVE_BATTLE_STATUSES } from './battle-lifecycle';
+import {
+  AttackNotification,
+  BATTLE_SESSION_STORE,
+  BattleBroadcast,
+  BattleSessionStore,
+  BattleSetup,
+  SessionCheckpoint,
+  SessionRequest,
+} from './battle-session.store';
+
+// How long the attacker can look at the base before the battle clock starts on its own
+export const SCOUTING_MS = 30 * 1000;
+
+// How often the battle clock is sent again so clients don't drift from it
+const CLOCK_SYNC_TICKS = 1000 / TICK_MS;
+
+// How often the sessions running here are checkpointed, which renews their claims, and sessions
+// other instances stopped renewing are taken over
+const CLAIM_RENEW_MS = 5 * 1000;
+
+/**
+ * Server time left in the current phase
+ * Clients count down from remainingMs as received instead of keeping their own clock
+ */
+export interface BattleClock {
+  phase: 'scouting' | 'battle' | 'over';
+  remainingMs: number;
+  serverTime: number; // when the clock was read
 }
 
-export interface Building {
+/**
+ * Live battle session: simulation state plus the players and lifecycle around it
+ */
+export interface BattleSession extends BattleState {
   id: string;
-  type: string;
-  position: { x: number; y: number };
-  width: number;
-  height: number;
-  health: number;
-  maxHealth: number;
-  isDestroyed: boolean;
-  isDefense: boolean;
-  defense?: {
-    damage: number;
-    range: number;
-    attackSpeed: number;
-    targetType: 'ground' | 'air' | 'both';
-    lastAttackTime: number;
-  };
+  attackerId: string;
+  attackerVillageId: string;
+  defenderId: string;
+  defenderVillageId: string;
+  startTime: number; // scouting starts with the session
+  scoutingEndsAt: number;
+  battleStartTime: number | null; // the battle clock starts on the first deploy or once scouting runs out
+  tickInterval: number; // milliseconds
+  status:
+    | BattleStatus.SCOUTING
+    | BattleStatus.ACTIVE
+    | BattleStatus.COMPLETED
+    | BattleStatus.ABORTED;
+  activation: Promise<void> | null; // persisting the move to active; the result waits for it
+  setup: BattleSetup; // what the session was created from, for resuming it elsewhere
+  layout: BattleBuildingSource[]; // defender layout snapshot for the replay
+  replayEvents: ReplayEvent[]; // every event broadcast so far, for the replay
+  frameBaseline: FrameBaseline; // units and buildings as of the last state frame
 }
 
-export interface BattleSession {
+/**
+ * A session as any instance sees it, wherever it runs
+ */
+export interface SessionView {
   id: string;
   attackerId: string;
   attackerVillageId: string;
   defenderId: string;
   defenderVillageId: string;
-  troops: Troop[];
-  buildings: Building[];
-  startTime: number;
-  lastTickTime: number;
-  tickInterval: number; // milliseconds
-  status: 'waiting' | 'active' | 'completed';
-  destructionPercentage: number;
-  deployedTroopCount: number;
+  status: BattleSession['status'];
   maxTroops: number;
+  troopBudget: Record<string, number> | null;
+  spellBudget: Record<string, number>;
+  heroes: HeroLoadout[]; // not deployed yet
+  defenders: ReturnType<typeof getDefenderSnapshot>;
+  noDeployZones: DeployZone[];
+  state: ReturnType<BattleSessionManager['getStateSnapshot']>;
+}
+
+export type SessionCommand = Exclude<SessionRequest, { type: 'view' }>;
+
+/**
+ * What each command answers; null when the session turned it down
+ */
+export interface SessionCommandResults {
+  deployTroop: {
+    troop: Pick<Troop, 'id' | 'type' | 'position'>;
+    troopsRemaining: Record<string, number> | null;
+  } | null;
+  castSpell: {
+    spell: Pick<ActiveSpell, 'id' | 'type' | 'position' | 'radius'>;
+    spellsRemaining: Record<string, number>;
+  } | null;
+  activateHeroAbility: { hero: Pick<Troop, 'id' | 'type' | 'health'> } | null;
+  surrender: boolean;
 }
 
 @Injectable()
-export class BattleSessionManager {
+export class BattleSessionManager implements OnModuleInit, OnModuleDestroy {
   private sessions: Map<string, BattleSession> = new Map();
+  private scoutingTimers: Map<string, NodeJS.Timeout> = new Map();
+  private renewTimer: NodeJS.Timeout | null = null;
+  private renewing = false;
   private gateway: BattlesGateway;
   private spectateGateway: SpectateGateway;
   private battlesService: any; // Will be set later to avoid circular dependency
 
+  constructor(@Inject(BATTLE_SESSION_STORE) private store: BattleSessionStore) {
+    // Broadcasts from every instance, this one included, go out to the sockets connected here
+    store.subscribe((broadcast) => this.deliver(broadcast));
+    store.serve((battleId, request) => this.handleRequest(battleId, request));
+  }
+
+  onModuleInit() {
+    this.renewTimer = setInterval(() => this.renewClaims(), CLAIM_RENEW_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+    }
+  }
+
   setGateway(gateway: BattlesGateway) {
     this.gateway = gateway;
   }
@@ -76,553 +165,566 @@ export class BattleSessionManager {
     this.battlesService = service;
   }
 
-  createSession(
+  async createSession(
     battleId: string,
     attackerId: string,
     attackerVillageId: string,
     defenderId: string,
     defenderVillageId: string,
-    buildings: any[],
-    maxTroops: number,
-  ): BattleSession {
-    const session: BattleSession = {
-      id: battleId,
-      attackerId,
-      attackerVillageId,
-      defenderId,
-      defenderVillageId,
-      troops: [],
-      buildings: this.convertBuildings(buildings),
-      startTime: Date.now(),
-      lastTickTime: Date.now(),
-      tickInterval: 100, // 100ms ticks (10 ticks per second)
-      status: 'waiting',
-      destructionPercentage: 0,
-      deployedTroopCount: 0,
-      maxTroops,
-    };
-
-    this.sessions.set(battleId, session);
-    console.log(`Created battle session ${battleId}`);
-    return session;
-  }
-
-  getSession(battleId: string): BattleSession | undefined {
-    return this.sessions.get(battleId);
-  }
-
-  deleteSession(battleId: string) {
-    this.sessions.delete(battleId);
-    console.log(`Deleted battle session ${battleId}`);
-  }
-
-  deployTroop(
-    battleId: string,
-    troopType: string,
-    position: { x: number; y: number },
-    troopStats: any,
-  ): Troop | null {
-    const session = this.sessions.get(battleId);
-    if (!session) {
-      return null;
-    }
+    buildings: BattleBuildingSource[],
+    troops: { type: string; count: number }[],
+    spells: { type: string; count: number }[] = [],
+    heroes: HeroLoadout[] = [],
+    defenderHeroes: DefenderHeroLoadout[] = [],
+    garrison: GarrisonLoadout | null = null,
+    storedResources: { gold: number; elixir: number } = { gold: 0, elixir: 0 },
+  ): Promise<BattleSession> {
+    const session = this.openSession(
+      { id: battleId, attackerId, attackerVillageId, defenderId, defenderVillageId },
+      { buildings, troops, spells, heroes, defenderHeroes, garrison, storedResources },
+    );
 
-    if (session.deployedTroopCount >= session.maxTroops) {
-      console.log(`Cannot deploy more troops, max ${session.maxTroops} reached`);
-      return null;
+    // Claim the session before handing it out, so every instance can find it from the start
+    if (!(await this.store.save(this.toCheckpoint(session)))) {
+      throw new Error(`Battle session ${battleId} is already claimed by another instance`);
     }
 
-    const troop: Troop = {
-      id: `${troopType}_${Date.now()}_${Math.random()}`,
-      type: troopType,
-      position: { ...position },
-      health: troopStats.health,
-      maxHealth: troopStats.health,
-      damage: troopStats.damage,
-      speed: troopStats.speed,
-      range: troopStats.range,
-      targetType: troopStats.targetType || 'ground',
-      isAlive: true,
-      target: null,
-      state: 'idle',
-      currentPath: [],
-      targetInfo: null,
-    };
+    this.sessions.set(battleId, session);
+    this.startScoutingTimer(session);
 
-    session.troops.push(troop);
-    session.deployedTroopCount++;
+    console.log(`Created battle session ${battleId} (seed ${session.rng.seed})`);
+    return session;
+  }
 
-    // Start battle on first troop deployment
-    if (session.status === 'waiting') {
-      session.status = 'active';
-      this.startBattleLoop(battleId);
-    }
-
-    return troop;
-  }
-
-  private convertBuildings(buildings: any[]): Building[] {
-    console.log('convertBuildings input:', buildings.map(b => ({
-      id: b.id,
-      type: b.type,
-      positionX: b.positionX,
-      positionY: b.positionY,
-      x: b.x,
-      y: b.y
-    })));
-
-    const converted = buildings.map((b) => {
-      const building = {
-        id: b.id,
-        type: b.type,
-        position: { x: b.positionX || b.x || 0, y: b.positionY || b.y || 0 }, // Handle both positionX/Y and x/y
-        width: b.width || b.config?.size?.width || 2,
-        height: b.height || b.config?.size?.height || 2,
-        health: b.config?.maxHealth || b.health || 1000,
-        maxHealth: b.config?.maxHealth || b.health || 1000,
-        isDestroyed: false,
-        isDefense: !!b.config?.defense,
-        defense: b.config?.defense
-          ? {
-              damage: b.config.defense.damage,
-              range: b.config.defense.range,
-              attackSpeed: b.config.defense.attackSpeed,
-              targetType: b.config.defense.targetType,
-              lastAttackTime: 0,
-            }
-          : undefined,
-      };
-      console.log(`Converted building ${b.id}:`, {
-        type: building.type,
-        position: building.position,
-        health: building.health
-      });
-      return building;
+  /**
+   * Build a session in scouting from its setup; the same seed gives the same battle
+   */
+  private openSession(
+    players: Pick<
+      BattleSession,
+      'id' | 'attackerId' | 'attackerVillageId' | 'defenderId' | 'defenderVillageId'
+    >,
+    setup: BattleSetup,
+    seed?: number,
+  ): BattleSession {
+    const state = createBattleState({
+      ...setup,
+      maxTroops: setup.troops.reduce((sum, t) => sum + t.count, 0),
+      seed,
     });
 
-    return converted;
+    return {
+      ...state,
+      ...players,
+      startTime: Date.now(),
+      scoutingEndsAt: Date.now() + SCOUTING_MS,
+      battleStartTime: null,
+      tickInterval: TICK_MS,
+      status: BattleStatus.SCOUTING,
+      activation: null,
+      setup,
+      layout: snapshotLayout(setup.buildings),
+      replayEvents: [],
+      frameBaseline: createFrameBaseline(state),
+    };
   }
 
-  private startBattleLoop(battleId: string) {
-    const session = this.sessions.get(battleId);
-    if (!session) return;
+  /**
+   * Rebuild a session from its checkpoint and carry on running it here
+   * Replaying the inputs on the same seed brings the simulation back to where it was at the
+   * checkpoint; the battle goes on from there, so at most the ticks since then run again
+   */
+  private resumeSession(checkpoint: SessionCheckpoint): BattleSession {
+    const running = this.sessions.get(checkpoint.battleId);
+    if (running) {
+      return running;
+    }
 
-    console.log(`Starting battle loop for ${battleId}`);
+    const session = this.openSession(
+      {
+        id: checkpoint.battleId,
+        attackerId: checkpoint.attackerId,
+        attackerVillageId: checkpoint.attackerVillageId,
+        defenderId: checkpoint.defenderId,
+        defenderVillageId: checkpoint.defenderVillageId,
+      },
+      checkpoint.setup,
+      checkpoint.seed,
+    );
 
-    const tick = () => {
-      const currentSession = this.sessions.get(battleId);
-      if (!currentSession || currentSession.status !== 'active') {
-        return; // Stop loop
+    // Inputs go in at the start of their tick, like they did live (and like runBattle does)
+    const { deployments, spellCasts, abilityActivations } = checkpoint;
+    const lastTick = Math.max(
+      checkpoint.tick,
+      ...[...deployments, ...spellCasts, ...abilityActivations].map((input) => input.tick),
+    );
+    let nextDeploy = 0;
+    let nextSpell = 0;
+    let nextAbility = 0;
+
+    for (;;) {
+      const events: SimulationEvent[] = [];
+      while (nextDeploy < deployments.length && deployments[nextDeploy].tick <= session.tick) {
+        const input = deployments[nextDeploy++];
+        events.push(...(deployTroop(session, input.troopType, input.position)?.events ?? []));
       }
-
-      const now = Date.now();
-      const deltaTime = (now - currentSession.lastTickTime) / 1000; // seconds
-      currentSession.lastTickTime = now;
-
-      // Process battle tick
-      this.processBattleTick(currentSession, deltaTime);
-
-      // Check battle end conditions
-      if (this.shouldEndBattle(currentSession)) {
-        this.endBattle(battleId);
-        return;
+      while (nextSpell < spellCasts.length && spellCasts[nextSpell].tick <= session.tick) {
+        const input = spellCasts[nextSpell++];
+        events.push(...(castSpell(session, input.spellType, input.position)?.events ?? []));
       }
-
-      // Schedule next tick
-      setTimeout(tick, currentSession.tickInterval);
-    };
-
-    // Start the loop
-    tick();
-  }
-
-  private processBattleTick(session: BattleSession, deltaTime: number) {
-    // 1. Process troop AI (movement and targeting)
-    for (const troop of session.troops) {
-      if (!troop.isAlive) continue;
-
-      // Find target using smart AI if none or current target is destroyed
-      if (!troop.targetInfo || !troop.target || troop.target.isDestroyed) {
-        troop.targetInfo = findBestTarget(troop, session.buildings);
-
-        if (troop.targetInfo) {
-          troop.target = troop.targetInfo.target;
-          troop.state = 'moving';
-        } else {
-          troop.target = null;
-          troop.state = 'idle';
-          continue;
-        }
+      while (
+        nextAbility < abilityActivations.length &&
+        abilityActivations[nextAbility].tick <= session.tick
+      ) {
+        const input = abilityActivations[nextAbility++];
+        events.push(...(activateHeroAbility(session, input.heroType)?.events ?? []));
       }
+      session.replayEvents.push(...events.map(toReplayEvent));
 
-      if (troop.target && troop.targetInfo) {
-        const targetCenter = this.getBuildingCenter(troop.target);
-        const distance = this.getDistance(troop.position, targetCenter);
-
-        // Check if archer can attack over walls
-        if (troop.type.toUpperCase() === 'ARCHER' && distance <= troop.range) {
-          const canSeeTarget = hasLineOfSight(troop.position, targetCenter, session.buildings);
-          if (canSeeTarget) {
-            // Archer can attack from current position
-            troop.state = 'attacking';
-            this.troopAttackBuilding(troop, troop.target, session, false); // false = no wall damage
-            continue;
-          }
-        }
-
-        // If in melee range, attack
-        if (distance <= troop.range) {
-          troop.state = 'attacking';
-
-          // Wall Breaker explodes on impact
-          if (troop.type.toUpperCase() === 'WALL_BREAKER' && troop.target.type.toLowerCase() === 'wall') {
-            this.wallBreakerExplode(troop, troop.target, session);
-            continue;
-          }
-
-          this.troopAttackBuilding(troop, troop.target, session, troop.targetInfo.needsToDestroyWall);
-        } else {
-          // Move towards target using pathfinding
-          troop.state = 'moving';
-          this.moveTroopTowardsTarget(troop, targetCenter, deltaTime, session);
-        }
-      }
+      if (session.tick >= lastTick) break;
+      this.recordFrame(session, session.tick, stepBattle(session));
     }
 
-    // 2. Process defense buildings attacking troops
-    for (const building of session.buildings) {
-      if (building.isDestroyed || !building.isDefense || !building.defense) continue;
+    session.status = checkpoint.status;
+    session.startTime = checkpoint.startTime;
+    session.scoutingEndsAt = checkpoint.scoutingEndsAt;
+    session.battleStartTime = checkpoint.battleStartTime;
+    this.sessions.set(session.id, session);
 
-      const now = Date.now();
-      const timeSinceLastAttack = now - building.defense.lastAttackTime;
-      const attackCooldown = (1 / building.defense.attackSpeed) * 1000; // Convert to ms
+    console.log(`Resumed battle session ${session.id} at tick ${session.tick}`);
 
-      if (timeSinceLastAttack >= attackCooldown) {
-        const target = this.findClosestTroop(building, session.troops, building.defense.range);
-        if (target) {
-          this.buildingAttackTroop(building, target, session);
-          building.defense.lastAttackTime = now;
-        }
-      }
+    if (session.status === BattleStatus.SCOUTING) {
+      this.startScoutingTimer(session);
+    } else {
+      this.startBattleLoop(session);
     }
+    this.broadcastClock(session);
 
-    // 3. Remove dead troops
-    session.troops = session.troops.filter((t) => t.isAlive);
-
-    // 4. Calculate destruction percentage
-    this.updateDestructionPercentage(session);
+    return session;
   }
 
-  private findClosestBuilding(troop: Troop, buildings: Building[]): Building | null {
-    const aliveBuildings = buildings.filter((b) => !b.isDestroyed);
-    if (aliveBuildings.length === 0) return null;
-
-    let closest = aliveBuildings[0];
-    let minDistance = this.getDistance(troop.position, this.getBuildingCenter(closest));
+  /**
+   * Scouting runs out: the battle starts whether or not anything was deployed
+   */
+  private startScoutingTimer(session: BattleSession) {
+    this.scoutingTimers.set(
+      session.id,
+      setTimeout(
+        () => {
+          if (session.status === BattleStatus.SCOUTING) {
+            this.activate(session);
+          }
+        },
+        Math.max(0, session.scoutingEndsAt - Date.now()),
+      ),
+    );
+  }
 
-    for (const building of aliveBuildings) {
-      const distance = this.getDistance(troop.position, this.getBuildingCenter(building));
-      if (distance < minDistance) {
-        minDistance = distance;
-        closest = building;
-      }
+  /**
+   * Read the clock of a session
+   * Battle time is counted in engine ticks, so it only runs while the simulation does
+   */
+  getClock(session: BattleSession): BattleClock {
+    const serverTime = Date.now();
+
+    switch (session.status) {
+      case BattleStatus.SCOUTING:
+        return {
+          phase: 'scouting',
+          remainingMs: Math.max(0, session.scoutingEndsAt - serverTime),
+          serverTime,
+        };
+      case BattleStatus.ACTIVE:
+        return {
+          phase: 'battle',
+          remainingMs: Math.max(0, MAX_BATTLE_TICKS - session.tick) * TICK_MS,
+          serverTime,
+        };
+      default:
+        return { phase: 'over', remainingMs: 0, serverTime };
     }
-
-    return closest;
   }
 
-  private findClosestTroop(building: Building, troops: Troop[], range: number): Troop | null {
-    const buildingCenter = this.getBuildingCenter(building);
-    const troopsInRange = troops.filter((t) => {
-      if (!t.isAlive) return false;
-      const distance = this.getDistance(buildingCenter, t.position);
-      return distance <= range;
-    });
+  getSession(battleId: string): BattleSession | undefined {
+    return this.sessions.get(battleId);
+  }
 
-    if (troopsInRange.length === 0) return null;
+  /**
+   * Look a session up wherever it runs
+   * A session nobody runs any more is resumed here if its checkpoint is left
+   */
+  async findSession(battleId: string): Promise<SessionView | undefined> {
+    const session = await this.locateSession(battleId);
+    if (session === 'elsewhere') {
+      return this.store.request<SessionView>(battleId, { type: 'view' });
+    }
 
-    let closest = troopsInRange[0];
-    let minDistance = this.getDistance(buildingCenter, closest.position);
+    return session ? this.getSessionView(session) : undefined;
+  }
 
-    for (const troop of troopsInRange) {
-      const distance = this.getDistance(buildingCenter, troop.position);
-      if (distance < minDistance) {
-        minDistance = distance;
-        closest = troop;
-      }
+  /**
+   * Run an attacker's command on the session wherever it runs
+   * Undefined when the session can't be found
+   */
+  async runCommand<C extends SessionCommand>(
+    battleId: string,
+    command: C,
+  ): Promise<SessionCommandResults[C['type']] | undefined> {
+    const session = await this.locateSession(battleId);
+    if (session === 'elsewhere') {
+      return this.store.request<SessionCommandResults[C['type']]>(battleId, command);
     }
 
-    return closest;
+    return session
+      ? (this.runLocalCommand(session, command) as SessionCommandResults[C['type']])
+      : undefined;
   }
 
   /**
-   * Move troop towards target with pathfinding (wall-aware)
+   * Whether a battle still has a session, here or on another instance
    */
-  private moveTroopTowardsTarget(troop: Troop, target: { x: number; y: number }, deltaTime: number, session: BattleSession) {
-    // Calculate path if needed
-    if (!troop.currentPath || troop.currentPath.length === 0) {
-      const pathResult = findPathWithWallInfo(troop, target, session.buildings);
-      troop.currentPath = pathResult.path;
-
-      // If no path and wall blocking, target the wall
-      if (pathResult.hasWallBlockage && pathResult.wallToDestroy && troop.type.toUpperCase() !== 'ARCHER') {
-        troop.target = pathResult.wallToDestroy;
-        troop.targetInfo = {
-          target: pathResult.wallToDestroy,
-          needsToDestroyWall: true,
-          wallToDestroy: pathResult.wallToDestroy,
-          canAttackOverWall: false,
-        };
-        return;
-      }
-    }
+  async isSessionLive(battleId: string): Promise<boolean> {
+    return (await this.locateSession(battleId)) !== null;
+  }
 
-    // Follow path or move directly
-    let moveTarget = target;
-    if (troop.currentPath && troop.currentPath.length > 0) {
-      const nextWaypoint = troop.currentPath[0];
-      const distanceToWaypoint = this.getDistance(troop.position, nextWaypoint);
-
-      if (distanceToWaypoint < 0.5) {
-        // Reached waypoint, remove it
-        troop.currentPath.shift();
-        if (troop.currentPath.length > 0) {
-          moveTarget = troop.currentPath[0];
-        }
-      } else {
-        moveTarget = nextWaypoint;
-      }
+  /**
+   * Where a session runs: here (after resuming it, if the instance running it went away), on
+   * another instance, or nowhere
+   */
+  private async locateSession(battleId: string): Promise<BattleSession | 'elsewhere' | null> {
+    const session = this.sessions.get(battleId);
+    if (session) {
+      return session;
     }
 
-    // Move towards target
-    const dx = moveTarget.x - troop.position.x;
-    const dy = moveTarget.y - troop.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (await this.store.isClaimed(battleId)) {
+      return 'elsewhere';
+    }
 
-    if (distance > 0.1) {
-      const moveDistance = troop.speed * deltaTime;
-      const ratio = Math.min(moveDistance / distance, 1);
+    const [checkpoint] = await this.store.takeOver(battleId);
+    return checkpoint ? this.resumeSession(checkpoint) : null;
+  }
 
-      const oldPosition = { ...troop.position };
-      troop.position.x += dx * ratio;
-      troop.position.y += dy * ratio;
+  private getSessionView(session: BattleSession): SessionView {
+    return {
+      id: session.id,
+      attackerId: session.attackerId,
+      attackerVillageId: session.attackerVillageId,
+      defenderId: session.defenderId,
+      defenderVillageId: session.defenderVillageId,
+      status: session.status,
+      maxTroops: session.maxTroops,
+      troopBudget: session.troopBudget,
+      spellBudget: session.spellBudget,
+      heroes: session.heroes.filter(
+        (h) => !session.deployments.some((d) => d.troopType === h.type),
+      ),
+      defenders: getDefenderSnapshot(session),
+      noDeployZones: session.noDeployZones,
+      state: this.getStateSnapshot(session),
+    };
+  }
 
-      // Broadcast movement event (throttled to every 3rd tick for performance)
-      if (Math.random() < 0.33) {
-        this.broadcastEvent(session, 'TROOP_MOVE', {
-          troopId: troop.id,
-          from: oldPosition,
-          to: troop.position,
-        });
+  private runLocalCommand(
+    session: BattleSession,
+    command: SessionCommand,
+  ): SessionCommandResults[SessionCommand['type']] {
+    switch (command.type) {
+      case 'deployTroop': {
+        const troop = this.deployTroop(session.id, command.troopType, command.position);
+        return troop
+          ? {
+              troop: { id: troop.id, type: troop.type, position: troop.position },
+              troopsRemaining: session.troopBudget,
+            }
+          : null;
       }
+      case 'castSpell': {
+        const spell = this.castSpell(session.id, command.spellType, command.position);
+        return spell
+          ? {
+              spell: {
+                id: spell.id,
+                type: spell.type,
+                position: spell.position,
+                radius: spell.radius,
+              },
+              spellsRemaining: session.spellBudget,
+            }
+          : null;
+      }
+      case 'activateHeroAbility': {
+        const hero = this.activateHeroAbility(session.id, command.heroType);
+        return hero ? { hero: { id: hero.id, type: hero.type, health: hero.health } } : null;
+      }
+      case 'surrender':
+        return this.surrender(session.id);
     }
   }
 
   /**
-   * Old simple movement (kept for fallback)
+   * Answer another instance about a battle running here; undefined when it doesn't run here
    */
-  private moveTroopTowards(troop: Troop, target: { x: number; y: number }, deltaTime: number, session: BattleSession) {
-    const dx = target.x - troop.position.x;
-    const dy = target.y - troop.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance > 0.1) {
-      const moveDistance = troop.speed * deltaTime;
-      const ratio = Math.min(moveDistance / distance, 1);
-
-      const oldPosition = { ...troop.position };
-      troop.position.x += dx * ratio;
-      troop.position.y += dy * ratio;
-
-      // Broadcast movement event (throttled to every 3rd tick for performance)
-      if (Math.random() < 0.33) {
-        this.broadcastEvent(session, 'TROOP_MOVE', {
-          troopId: troop.id,
-          from: oldPosition,
-          to: troop.position,
-        });
-      }
+  private handleRequest(battleId: string, request: SessionRequest) {
+    const session = this.sessions.get(battleId);
+    if (!session) {
+      return undefined;
     }
+
+    return request.type === 'view'
+      ? this.getSessionView(session)
+      : this.runLocalCommand(session, request);
   }
 
-  private troopAttackBuilding(troop: Troop, building: Building, session: BattleSession, isWallAttack: boolean = false) {
-    building.health -= troop.damage;
+  /**
+   * Full state of a battle for a client joining or reconnecting partway through:
+   * the scene, the score, what is left to deploy and the clock
+   */
+  getStateSnapshot(session: BattleSession) {
+    return {
+      battleId: session.id,
+      status: session.status,
+      ...getBattleSnapshot(session),
+      clock: this.getClock(session),
+    };
+  }
 
-    if (building.health <= 0 && !building.isDestroyed) {
-      building.health = 0;
-      building.isDestroyed = true;
+  deleteSession(battleId: string) {
+    this.clearScoutingTimer(battleId);
+    this.sessions.delete(battleId);
+    console.log(`Deleted battle session ${battleId}`);
+  }
 
-      this.broadcastEvent(session, 'BUILDING_DESTROYED', {
-        buildingId: building.id,
-        buildingType: building.type,
-        position: building.position,
-      });
+  deployTroop(
+    battleId: string,
+    troopType: string,
+    position: { x: number; y: number },
+  ): Troop | null {
+    const session = this.sessions.get(battleId);
+    if (!session || !LIVE_BATTLE_STATUSES.includes(session.status)) {
+      return null;
+    }
 
-      // Troop needs new target
-      troop.target = null;
-      troop.targetInfo = null;
-    } else {
-      // Emit attack event with projectile for ranged troops
-      const isRanged = troop.range > 1;
-      this.broadcastEvent(session, 'BUILDING_ATTACK', {
-        troopId: troop.id,
-        troopType: troop.type,
-        buildingId: building.id,
-        damage: troop.damage,
-        remainingHealth: building.health,
-        projectile: isRanged ? {
-          from: troop.position,
-          to: this.getBuildingCenter(building),
-        } : undefined,
-      });
+    const deployed = deployTroop(session, troopType, position);
+    if (!deployed) {
+      console.log(`Cannot deploy ${troopType}, none left to deploy`);
+      return null;
     }
-  }
 
-  /**
-   * Wall Breaker explodes on contact with wall, dealing massive damage
-   * The wall breaker dies in the explosion
-   */
-  private wallBreakerExplode(troop: Troop, wall: Building, session: BattleSession) {
-    // Deal massive damage to the wall
-    wall.health -= troop.damage;
-
-    // Check if wall is destroyed
-    if (wall.health <= 0 && !wall.isDestroyed) {
-      wall.health = 0;
-      wall.isDestroyed = true;
-
-      this.broadcastEvent(session, 'BUILDING_DESTROYED', {
-        buildingId: wall.id,
-        buildingType: wall.type,
-        position: wall.position,
-      });
+    this.publishEvents(session, deployed.events);
+    this.broadcastSessionState(session);
+
+    // Start battle on first troop deployment
+    if (session.status === BattleStatus.SCOUTING) {
+      this.activate(session);
     } else {
-      this.broadcastEvent(session, 'BUILDING_ATTACK', {
-        troopId: troop.id,
-        troopType: troop.type,
-        buildingId: wall.id,
-        damage: troop.damage,
-        remainingHealth: wall.health,
-      });
-    }
-
-    // Wall Breaker dies in the explosion
-    troop.health = 0;
-    troop.isAlive = false;
-    troop.state = 'dead';
-
-    this.broadcastEvent(session, 'TROOP_DEATH', {
-      troopId: troop.id,
-      troopType: troop.type,
-      position: troop.position,
-      killedBy: 'explosion', // Died from own explosion
-    });
+      this.checkpoint(session);
+    }
+
+    return deployed.troop;
   }
 
-  private buildingAttackTroop(building: Building, troop: Troop, session: BattleSession) {
-    if (!building.defense) return;
+  castSpell(
+    battleId: string,
+    spellType: string,
+    position: { x: number; y: number },
+  ): ActiveSpell | null {
+    const session = this.sessions.get(battleId);
+    if (!session || !LIVE_BATTLE_STATUSES.includes(session.status)) {
+      return null;
+    }
 
-    troop.health -= building.defense.damage;
+    const cast = castSpell(session, spellType, position);
+    if (!cast) {
+      console.log(`Cannot cast ${spellType}, none left`);
+      return null;
+    }
 
-    if (troop.health <= 0 && troop.isAlive) {
-      troop.health = 0;
-      troop.isAlive = false;
-      troop.state = 'dead';
+    this.publishEvents(session, cast.events);
+    this.broadcastSessionState(session);
 
-      this.broadcastEvent(session, 'TROOP_DEATH', {
-        troopId: troop.id,
-        troopType: troop.type,
-        position: troop.position,
-        killedBy: building.id,
-      });
+    // Casting a spell starts the battle just like deploying a troop
+    if (session.status === BattleStatus.SCOUTING) {
+      this.activate(session);
     } else {
-      this.broadcastEvent(session, 'TROOP_ATTACK', {
-        buildingId: building.id,
-        troopId: troop.id,
-        damage: building.defense.damage,
-        remainingHealth: troop.health,
-        projectile: {
-          from: this.getBuildingCenter(building),
-          to: troop.position,
-        },
-      });
+      this.checkpoint(session);
+    }
+
+    return cast.spell;
+  }
+
+  activateHeroAbility(battleId: string, heroType: string): Troop | null {
+    const session = this.sessions.get(battleId);
+    if (!session || session.status !== BattleStatus.ACTIVE) {
+      return null;
     }
+
+    const activated = activateHeroAbility(session, heroType);
+    if (!activated) {
+      console.log(`Cannot activate ${heroType} ability`);
+      return null;
+    }
+
+    this.publishEvents(session, activated.events);
+    this.checkpoint(session);
+    return activated.hero;
   }
 
   /**
-   * Update destruction percentage
-   * IMPORTANT: Only non-wall buildings count towards destruction percentage
-   * Walls do NOT count - this matches Clash of Clans logic
+   * Move the session from scouting to active, record it and start the simulation
    */
-  private updateDestructionPercentage(session: BattleSession) {
-    // Filter out walls - only real buildings count
-    const nonWallBuildings = session.buildings.filter(
-      (b) => b.type.toLowerCase() !== 'wall'
-    );
+  private activate(session: BattleSession) {
+    this.clearScoutingTimer(session.id);
+    session.status = BattleStatus.ACTIVE;
+    session.battleStartTime = Date.now();
 
-    if (nonWallBuildings.length === 0) {
-      session.destructionPercentage = 100;
-      return;
+    if (this.battlesService) {
+      session.activation = this.battlesService
+        .markBattleActive(session.id)
+        .catch((error) => console.error('Failed to mark battle active:', error));
     }
 
-    let totalHealth = 0;
-    let remainingHealth = 0;
+    this.checkpoint(session);
+    this.broadcastClock(session);
+    this.startBattleLoop(session);
+  }
 
-    for (const building of nonWallBuildings) {
-      totalHealth += building.maxHealth;
-      remainingHealth += building.health;
+  private clearScoutingTimer(battleId: string) {
+    const timer = this.scoutingTimers.get(battleId);
+    if (timer) {
+      clearTimeout(timer);
+      this.scoutingTimers.delete(battleId);
     }
-
-    session.destructionPercentage = Math.floor(((totalHealth - remainingHealth) / totalHealth) * 100);
   }
 
-  private shouldEndBattle(session: BattleSession): boolean {
-    // Battle ends if:
-    // 1. All buildings destroyed (100% destruction)
-    if (session.destructionPercentage >= 100) {
-      return true;
+  /**
+   * End a battle at the attacker's request
+   * While scouting nothing has happened yet, so the battle is aborted and everything refunded;
+   * once it is running it ends right away with the result so far
+   */
+  surrender(battleId: string): boolean {
+    const session = this.sessions.get(battleId);
+    if (!session) {
+      return false;
     }
 
-    // 2. All troops dead and max troops deployed
-    const aliveTroops = session.troops.filter((t) => t.isAlive).length;
-    if (aliveTroops === 0 && session.deployedTroopCount >= session.maxTroops) {
+    if (session.status === BattleStatus.SCOUTING) {
+      this.abortBattle(session);
       return true;
     }
 
-    // 3. Battle timeout (3 minutes)
-    const battleDuration = Date.now() - session.startTime;
-    if (battleDuration > 3 * 60 * 1000) {
+    if (session.status === BattleStatus.ACTIVE) {
+      this.endBattle(battleId, true);
       return true;
     }
 
     return false;
   }
 
-  private async endBattle(battleId: string) {
+  private async abortBattle(session: BattleSession) {
+    this.clearScoutingTimer(session.id);
+    session.status = BattleStatus.ABORTED;
+
+    if (this.battlesService) {
+      try {
+        await this.battlesService.abortBattle(session.id);
+      } catch (error) {
+        console.error('Failed to abort battle:', error);
+      }
+    }
+
+    this.broadcastEvent(session, 'BATTLE_END', {
+      battleId: session.id,
+      destructionPercentage: 0,
+      stars: 0,
+      duration: 0,
+      lootGold: 0,
+      lootElixir: 0,
+      lootGoldReceived: 0,
+      lootElixirReceived: 0,
+      attackerTrophyChange: 0,
+      defenderTrophyChange: 0,
+      surrendered: true,
+      aborted: true, // ended before anything was deployed: troops and spells were refunded
+    });
+    this.broadcastClock(session);
+    this.releaseSession(session);
+
+    setTimeout(() => {
+      this.deleteSession(session.id);
+    }, 30000);
+  }
+
+  /**
+   * Drive the simulation with a fixed timestep: one engine tick per interval
+   */
+  private startBattleLoop(session: BattleSession) {
+    console.log(`Starting battle loop for ${session.id}`);
+
+    const tick = () => {
+      // Stop once the battle is over or the session was dropped (e.g. taken over elsewhere)
+      if (this.sessions.get(session.id) !== session || session.status !== BattleStatus.ACTIVE) {
+        return;
+      }
+
+      const frameTick = session.tick;
+      this.publishFrame(session, frameTick, stepBattle(session));
+
+      if (isBattleOver(session)) {
+        this.endBattle(session.id);
+        return;
+      }
+
+      if (session.tick % CLOCK_SYNC_TICKS === 0) {
+        this.broadcastClock(session);
+      }
+
+      setTimeout(tick, session.tickInterval);
+    };
+
+    // Start the loop
+    tick();
+  }
+
+  private async endBattle(battleId: string, surrendered = false) {
     const session = this.sessions.get(battleId);
-    if (!session) return;
+    if (!session || session.status !== BattleStatus.ACTIVE) return;
 
-    session.status = 'completed';
+    session.status = BattleStatus.COMPLETED;
+    this.broadcastClock(session);
 
-    // Calculate stars
-    let stars = 0;
-    if (session.destructionPercentage >= 50) stars = 1;
-    if (session.destructionPercentage >= 70) stars = 2;
-    if (session.destructionPercentage >= 100) stars = 3;
+    const stars = session.stars;
+    const replay = createBattleReplay(session, session.layout, session.replayEvents, stars);
 
     let lootGold = 0;
     let lootElixir = 0;
+    let lootGoldReceived = 0;
+    let lootElixirReceived = 0;
+    let attackerTrophyChange = 0;
+    let defenderTrophyChange = 0;
 
-    // Update battle results in database and get loot amounts
+    // Update battle results in database and get loot and trophy amounts
     if (this.battlesService) {
       try {
-        const loot = await this.battlesService.updateBattleResults(
+        await session.activation;
+        const rewards = await this.battlesService.updateBattleResults(
           battleId,
           session.destructionPercentage,
           stars,
+          replay,
+          getHeroResults(session),
+          getSprungTrapIds(session),
+          getGarrisonLosses(session),
+          getTroopResults(session),
+          getLootResults(session),
+          getUncastSpells(session),
         );
-        lootGold = loot?.lootGold ?? 0;
-        lootElixir = loot?.lootElixir ?? 0;
+        lootGold = rewards?.lootGold ?? 0;
+        lootElixir = rewards?.lootElixir ?? 0;
+        lootGoldReceived = rewards?.lootGoldReceived ?? 0;
+        lootElixirReceived = rewards?.lootElixirReceived ?? 0;
+        attackerTrophyChange = rewards?.attackerTrophyChange ?? 0;
+        defenderTrophyChange = rewards?.defenderTrophyChange ?? 0;
       } catch (error) {
         console.error('Failed to update battle results:', error);
       }
@@ -632,14 +734,21 @@ export class BattleSessionManager {
       battleId,
       destructionPercentage: session.destructionPercentage,
       stars,
-      duration: Date.now() - session.startTime,
+      duration: session.tick * TICK_MS,
       lootGold,
       lootElixir,
+      lootGoldReceived, // loot that fit in the attacker's storage
+      lootElixirReceived,
+      attackerTrophyChange,
+      defenderTrophyChange,
+      surrendered,
     };
 
     console.log(`Battle ${battleId} ended:`, result);
 
+    // BATTLE_END is broadcast but not part of the replay: the replay carries its own result
     this.broadcastEvent(session, 'BATTLE_END', result);
+    this.releaseSession(session);
 
     // Clean up after 30 seconds
     setTimeout(() => {
@@ -647,37 +756,171 @@ export class BattleSessionManager {
     }, 30000);
   }
 
-  private broadcastEvent(sessionOrTroop: BattleSession | Troop, type: string, data: any) {
-    const battleId = 'id' in sessionOrTroop ? (sessionOrTroop as BattleSession).id : null;
-    if (!battleId) return;
+  /**
+   * Record engine events for the replay and broadcast them to players and spectators
+   */
+  private publishEvents(session: BattleSession, events: SimulationEvent[]) {
+    for (const event of events) {
+      session.replayEvents.push(toReplayEvent(event));
+      this.broadcastEvent(session, event.type, event.data);
+    }
+  }
+
+  /**
+   * Record a tick's events for the replay and send them to clients as one frame, together with
+   * the units and buildings that changed on it. Ticks where nothing happened send nothing.
+   */
+  private publishFrame(session: BattleSession, tick: number, events: SimulationEvent[]) {
+    const frame = this.recordFrame(session, tick, events);
+    if (frame) {
+      this.broadcastEvent(session, 'STATE_FRAME', frame);
+    }
+  }
+
+  /**
+   * Record a tick for the replay; returns its frame, or null when nothing happened on it
+   */
+  private recordFrame(session: BattleSession, tick: number, events: SimulationEvent[]) {
+    const frame = createStateFrame(session, session.frameBaseline, tick, events);
+    if (!frame.units.length && !frame.buildings.length && !frame.events.length) return null;
+
+    session.replayEvents.push(...events.map(toReplayEvent));
+    // Movement goes in the replay as the frame without its events, which are recorded above
+    if (frame.units.length || frame.buildings.length) {
+      session.replayEvents.push([
+        tick,
+        'STATE_FRAME',
+        { units: frame.units, buildings: frame.buildings },
+      ]);
+    }
+
+    return frame;
+  }
+
+  /**
+   * Tell clients what the attacker has left to deploy
+   * Like BATTLE_END this is not part of the replay: it only mirrors the inputs already recorded
+   */
+  private broadcastSessionState(session: BattleSession) {
+    this.broadcastEvent(session, 'SESSION_STATE', getDeployBudget(session));
+  }
 
+  /**
+   * Send the session clock to clients; like SESSION_STATE it is not part of the replay
+   */
+  private broadcastClock(session: BattleSession) {
+    this.broadcastEvent(session, 'CLOCK', this.getClock(session));
+  }
+
+  private broadcastEvent(session: BattleSession, type: BattleEventType, data: any) {
     const event: BattleEvent = {
-      type: type as any,
+      type,
       timestamp: Date.now(),
       data,
     };
 
+    this.publish({ type: 'battleEvent', battleId: session.id, event });
+  }
+
+  /**
+   * Tell a defender their village is under attack, on whichever instance they are connected to
+   */
+  notifyDefender(defenderId: string, notification: AttackNotification) {
+    this.publish({ type: 'attackNotification', defenderId, notification });
+  }
+
+  private publish(broadcast: BattleBroadcast) {
+    this.store
+      .publish(broadcast)
+      .catch((error) => console.error('Failed to publish battle broadcast:', error));
+  }
+
+  /**
+   * Send a broadcast from any instance to the sockets connected here
+   */
+  private deliver(broadcast: BattleBroadcast) {
+    if (broadcast.type === 'attackNotification') {
+      if (this.gateway) {
+        this.gateway.notifyDefenderUnderAttack(broadcast.defenderId, broadcast.notification);
+      }
+      return;
+    }
+
     // Broadcast to authenticated battle participants (attackers)
     if (this.gateway) {
-      this.gateway.broadcastBattleEvent(battleId, event);
+      this.gateway.broadcastBattleEvent(broadcast.battleId, broadcast.event);
     }
 
     // Broadcast to public spectators
     if (this.spectateGateway) {
-      this.spectateGateway.broadcastBattleEvent(battleId, event);
+      this.spectateGateway.broadcastBattleEvent(broadcast.battleId, broadcast.event);
     }
   }
 
-  private getDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    return Math.sqrt(dx * dx + dy * dy);
+  /**
+   * Save what another instance needs to resume the session, renewing the claim on it
+   * A session another instance has taken over in the meantime is dropped here
+   */
+  private async checkpoint(session: BattleSession) {
+    if (!LIVE_BATTLE_STATUSES.includes(session.status)) return;
+
+    try {
+      const kept = await this.store.save(this.toCheckpoint(session));
+
+      if (!kept && this.sessions.get(session.id) === session) {
+        console.warn(`Battle session ${session.id} was taken over by another instance`);
+        this.clearScoutingTimer(session.id);
+        this.sessions.delete(session.id);
+      }
+    } catch (error) {
+      console.error('Failed to checkpoint battle session:', error);
+    }
   }
 
-  private getBuildingCenter(building: Building): { x: number; y: number } {
+  private toCheckpoint(session: BattleSession): SessionCheckpoint {
     return {
-      x: building.position.x + building.width / 2,
-      y: building.position.y + building.height / 2,
+      battleId: session.id,
+      attackerId: session.attackerId,
+      attackerVillageId: session.attackerVillageId,
+      defenderId: session.defenderId,
+      defenderVillageId: session.defenderVillageId,
+      status: session.status as BattleStatus.SCOUTING | BattleStatus.ACTIVE,
+      startTime: session.startTime,
+      scoutingEndsAt: session.scoutingEndsAt,
+      battleStartTime: session.battleStartTime,
+      setup: session.setup,
+      seed: session.rng.seed,
+      tick: session.tick,
+      deployments: session.deployments,
+      spellCasts: session.spellCasts,
+      abilityActivations: session.abilityActivations,
     };
   }
+
+  private releaseSession(session: BattleSession) {
+    this.store
+      .release(session.id)
+      .catch((error) => console.error('Failed to release battle session:', error));
+  }
+
+  /**
+   * Checkpoint every session running here, then resume the sessions whose instance stopped
+   * renewing its claim
+   */
+  private async renewClaims() {
+    if (this.renewing) return;
+    this.renewing = true;
+
+    try {
+      await Promise.all([...this.sessions.values()].map((session) => this.checkpoint(session)));
+
+      for (const checkpoint of await this.store.takeOver()) {
+        this.resumeSession(checkpoint);
+      }
+    } catch (error) {
+      console.error('Failed to take over battle sessions:', error);
+    } finally {
+      this.renewing = false;
+    }
+  }
 }
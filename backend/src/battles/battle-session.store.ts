@@ -0,0 +1,163 @@
+/**
+ * Battle session store
+ * Where live sessions are kept so that more than one backend process can serve battles.
+ * Each session runs on exactly one instance (the one holding its claim); the store keeps a
+ * checkpoint of it so another instance can pick it up if that one goes away, carries
+ * broadcasts to the sockets on every instance and routes requests to whichever instance
+ * runs a battle.
+ *
+ * The in-memory store below is the default and is all a single process needs.
+ */
+
+import {
+  AbilityInput,
+  BattleBuildingSource,
+  DefenderHeroLoadout,
+  DeployInput,
+  GarrisonLoadout,
+  HeroLoadout,
+  SpellInput,
+} from './battle-engine';
+import { BattleStatus } from './battle-lifecycle';
+import { BattleEvent } from './battles.gateway';
+
+export const BATTLE_SESSION_STORE = 'BATTLE_SESSION_STORE';
+
+/**
+ * Everything a session was created from
+ */
+export interface BattleSetup {
+  buildings: BattleBuildingSource[];
+  troops: { type: string; count: number }[];
+  spells: { type: string; count: number }[];
+  heroes: HeroLoadout[];
+  defenderHeroes: DefenderHeroLoadout[];
+  garrison: GarrisonLoadout | null;
+  storedResources: { gold: number; elixir: number };
+}
+
+/**
+ * What another instance needs to resume a session
+ * The engine is deterministic: the setup, the seed and the inputs replayed up to `tick`
+ * rebuild the simulation exactly as it was
+ */
+export interface SessionCheckpoint {
+  battleId: string;
+  attackerId: string;
+  attackerVillageId: string;
+  defenderId: string;
+  defenderVillageId: string;
+  status: BattleStatus.SCOUTING | BattleStatus.ACTIVE;
+  startTime: number;
+  scoutingEndsAt: number;
+  battleStartTime: number | null;
+  setup: BattleSetup;
+  seed: number;
+  tick: number; // ticks simulated so far
+  deployments: DeployInput[];
+  spellCasts: SpellInput[];
+  abilityActivations: AbilityInput[];
+}
+
+export interface AttackNotification {
+  battleId: string;
+  attackerVillageId: string;
+  attackerVillageName: string;
+  defenderVillageId: string;
+}
+
+/**
+ * Something to send to the sockets on every instance
+ */
+export type BattleBroadcast =
+  | { type: 'battleEvent'; battleId: string; event: BattleEvent }
+  | { type: 'attackNotification'; defenderId: string; notification: AttackNotification };
+
+/**
+ * A request for whichever instance runs the battle
+ */
+export type SessionRequest =
+  | { type: 'view' }
+  | { type: 'deployTroop'; troopType: string; position: { x: number; y: number } }
+  | { type: 'castSpell'; spellType: string; position: { x: number; y: number } }
+  | { type: 'activateHeroAbility'; heroType: string }
+  | { type: 'surrender' };
+
+/**
+ * Answers requests for the battles this instance runs; undefined when it doesn't run the battle
+ */
+export type SessionRequestHandler = (battleId: string, request: SessionRequest) => unknown;
+
+export interface BattleSessionStore {
+  /**
+   * Save a checkpoint of a session this instance runs and renew its claim on it
+   * A new session is claimed by saving it. False when another instance has taken the session over.
+   */
+  save(checkpoint: SessionCheckpoint): Promise<boolean>;
+
+  /**
+   * Claim the sessions whose instance stopped renewing its claim, all of them or just one
+   * Returns the checkpoints claimed, for this instance to resume
+   */
+  takeOver(battleId?: string): Promise<SessionCheckpoint[]>;
+
+  /**
+   * Whether some instance holds a current claim on the session
+   */
+  isClaimed(battleId: string): Promise<boolean>;
+
+  /**
+   * Give up the claim on a session that has ended
+   */
+  release(battleId: string): Promise<void>;
+
+  /**
+   * Deliver a broadcast to the subscribers on every instance, this one included
+   */
+  publish(broadcast: BattleBroadcast): Promise<void>;
+
+  subscribe(listener: (broadcast: BattleBroadcast) => void): void;
+
+  /**
+   * Ask the instance running a battle; resolves to undefined when no instance answers
+   */
+  request<T>(battleId: string, request: SessionRequest): Promise<T | undefined>;
+
+  serve(handler: SessionRequestHandler): void;
+}
+
+/**
+ * Sessions that live and die with this process
+ * Nothing survives a restart and there are no other instances to talk to
+ */
+export class InMemoryBattleSessionStore implements BattleSessionStore {
+  private listeners: ((broadcast: BattleBroadcast) => void)[] = [];
+
+  async save(): Promise<boolean> {
+    return true;
+  }
+
+  async takeOver(): Promise<SessionCheckpoint[]> {
+    return [];
+  }
+
+  async isClaimed(): Promise<boolean> {
+    return false;
+  }
+
+  async release(): Promise<void> {}
+
+  async publish(broadcast: BattleBroadcast): Promise<void> {
+    this.listeners.forEach((listener) => listener(broadcast));
+  }
+
+  subscribe(listener: (broadcast: BattleBroadcast) => void) {
+    this.listeners.push(listener);
+  }
+
+  async request<T>(): Promise<T | undefined> {
+    return undefined;
+  }
+
+  serve() {}
+}
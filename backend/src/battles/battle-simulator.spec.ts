@@ -0,0 +1,44 @@
+import { runSimulations, summaryToCsv } from './battle-simulator';
+
+const LAYOUT = [
+  { id: 'th', type: 'town_hall', positionX: 18, positionY: 18 },
+  { id: 'cannon', type: 'cannon', positionX: 12, positionY: 12 },
+  { id: 'mine', type: 'gold_mine', positionX: 10, positionY: 22 },
+];
+
+describe('battle simulator', () => {
+  const options = {
+    layout: LAYOUT,
+    army: [
+      { type: 'BARBARIAN', count: 6 },
+      { type: 'ARCHER', count: 4 },
+    ],
+    runs: 5,
+    seed: 10,
+  };
+
+  it('aggregates stats over all runs', () => {
+    const summary = runSimulations(options);
+
+    expect(summary.runs).toBe(5);
+    expect(summary.results.map((r) => r.seed)).toEqual([10, 11, 12, 13, 14]);
+    expect(Object.values(summary.starDistribution).reduce((a, b) => a + b, 0)).toBe(5);
+    expect(Object.keys(summary.meanTroopLosses).sort()).toEqual(['ARCHER', 'BARBARIAN']);
+    expect(summary.meanDefenseDamage.map((d) => d.buildingId)).toEqual(['cannon']);
+    expect(summary.meanDestruction).toBeGreaterThanOrEqual(0);
+    expect(summary.meanDestruction).toBeLessThanOrEqual(100);
+  });
+
+  it('is reproducible for the same base seed', () => {
+    expect(runSimulations(options)).toEqual(runSimulations(options));
+  });
+
+  it('writes one CSV row per run', () => {
+    const lines = summaryToCsv(runSimulations(options)).trim().split('\n');
+
+    expect(lines).toHaveLength(6);
+    expect(lines[0]).toBe(
+      'run,seed,stars,destruction_percentage,duration_ms,troops_deployed,lost_BARBARIAN,lost_ARCHER,damage_cannon',
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Headless battle simulator for balance testing
+ * Runs many attacks against one layout through the battle engine (no sockets, no database)
+ * and aggregates the results. Used by the `simulate` script.
+ */
+
+import {
+  BattleBuildingSource,
+  DeployInput,
+  SimulationEvent,
+  TICK_MS,
+  createBattleState,
+  planEdgeDeployment,
+  runBattle,
+} from './battle-engine';
+
+export interface ArmyGroup {
+  type: string;
+  count: number;
+}
+
+export interface SimulationOptions {
+  layout: BattleBuildingSource[];
+  army: ArmyGroup[];
+  runs: number;
+  seed: number; // run i uses seed + i
+  plan?: DeployInput[]; // fixed deployment; troops are spread on random edges when omitted
+  spawnIntervalTicks?: number; // edge deployment only
+}
+
+export interface SimulationRunResult {
+  run: number;
+  seed: number;
+  stars: number;
+  destructionPercentage: number;
+  durationMs: number;
+  troopsDeployed: number;
+  troopLosses: Record<string, number>; // troop type -> troops lost
+  defenseDamage: Record<string, number>; // defense building id -> damage dealt
+}
+
+export interface SimulationSummary {
+  runs: number;
+  army: ArmyGroup[];
+  starDistribution: Record<number, number>; // stars -> number of runs
+  meanStars: number;
+  meanDestruction: number;
+  meanDurationMs: number;
+  meanTroopLosses: Record<string, number>;
+  meanDefenseDamage: { buildingId: string; type: string; damage: number }[];
+  results: SimulationRunResult[];
+}
+
+/**
+ * Simulate a single attack and collect its stats from the event stream
+ */
+export function simulateAttack(
+  layout: BattleBuildingSource[],
+  army: ArmyGroup[],
+  seed: number,
+  plan?: DeployInput[],
+  spawnIntervalTicks?: number,
+): Omit<SimulationRunResult, 'run'> {
+  const state = createBattleState({
+    buildings: layout,
+    maxTroops: plan ? plan.length : army.reduce((sum, t) => sum + t.count, 0),
+    seed,
+  });
+
+  const inputs = plan ?? planEdgeDeployment(state, army, spawnIntervalTicks);
+  const events = runBattle(state, inputs);
+
+  return {
+    seed,
+    stars: state.stars,
+    destructionPercentage: state.destructionPercentage,
+    durationMs: state.tick * TICK_MS,
+    troopsDeployed: state.deployedTroopCount,
+    troopLosses: countTroopLosses(events),
+    defenseDamage: sumDefenseDamage(events),
+  };
+}
+
+/**
+ * Run N attacks and aggregate star distribution, destruction, time, losses and defense damage
+ */
+export function runSimulations(options: SimulationOptions): SimulationSummary {
+  const results: SimulationRunResult[] = [];
+
+  for (let run = 0; run < options.runs; run++) {
+    const seed = (options.seed + run) >>> 0;
+    results.push({
+      run: run + 1,
+      ...simulateAttack(
+        options.layout,
+        options.army,
+        seed,
+        options.plan,
+        options.spawnIntervalTicks,
+      ),
+    });
+  }
+
+  const starDistribution: Record<number, number> = { 0: 0, 1: 0, 2: 0, 3: 0 };
+  for (const result of results) {
+    starDistribution[result.stars]++;
+  }
+
+  const defenses = options.layout.filter((b) =>
+    results.some((r) => r.defenseDamage[b.id] !== undefined),
+  );
+
+  return {
+    runs: results.length,
+    army: options.army,
+    starDistribution,
+    meanStars: mean(results.map((r) => r.stars)),
+    meanDestruction: mean(results.map((r) => r.destructionPercentage)),
+    meanDurationMs: mean(results.map((r) => r.durationMs)),
+    meanTroopLosses: meanOfRecords(results.map((r) => r.troopLosses)),
+    meanDefenseDamage: defenses.map((b) => ({
+      buildingId: b.id,
+      type: b.type,
+      damage: mean(results.map((r) => r.defenseDamage[b.id] ?? 0)),
+    })),
+    results,
+  };
+}
+
+/**
+ * One CSV row per run; troop loss and defense damage columns are added for every type/defense seen
+ */
+export function summaryToCsv(summary: SimulationSummary): string {
+  const troopTypes = Object.keys(summary.meanTroopLosses);
+  const defenses = summary.meanDefenseDamage;
+
+  const header = [
+    'run',
+    'seed',
+    'stars',
+    'destruction_percentage',
+    'duration_ms',
+    'troops_deployed',
+    ...troopTypes.map((type) => `lost_${type}`),
+    ...defenses.map((d) => `damage_${d.buildingId}`),
+  ];
+
+  const rows = summary.results.map((r) => [
+    r.run,
+    r.seed,
+    r.stars,
+    r.destructionPercentage,
+    r.durationMs,
+    r.troopsDeployed,
+    ...troopTypes.map((type) => r.troopLosses[type] ?? 0),
+    ...defenses.map((d) => r.defenseDamage[d.buildingId] ?? 0),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
+
+function countTroopLosses(events: SimulationEvent[]): Record<string, number> {
+  const losses: Record<string, number> = {};
+
+  for (const event of events) {
+    if (event.type === 'TROOP_SPAWN') {
+      losses[event.data.troopType] ??= 0;
+    } else if (event.type === 'TROOP_DEATH' && !event.data.defender) {
+      losses[event.data.troopType] = (losses[event.data.troopType] ?? 0) + 1;
+    }
+  }
+
+  return losses;
+}
+
+function sumDefenseDamage(events: SimulationEvent[]): Record<string, number> {
+  const damage: Record<string, number> = {};
+
+  for (const event of events) {
+    if (event.type === 'TROOP_ATTACK' && event.data.buildingId) {
+      damage[event.data.buildingId] = (damage[event.data.buildingId] ?? 0) + event.data.damage;
+    } else if (event.type === 'TROOP_DEATH' && event.data.damage !== undefined) {
+      damage[event.data.killedBy] = (damage[event.data.killedBy] ?? 0) + event.data.damage;
+    }
+  }
+
+  return damage;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+}
+
+function meanOfRecords(records: Record<string, number>[]): Record<string, number> {
+  const keys = new Set(records.flatMap((r) => Object.keys(r)));
+  const result: Record<string, number> = {};
+
+  for (const key of keys) {
+    result[key] = mean(records.map((r) => r[key] ?? 0));
+  }
+
+  return result;
+}
@@ -14,7 +14,11 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { BattlesService } from './battles.service';
 import { TroopType } from '../common/config/troops.config';
+import { SpellType } from '../common/config/spells.config';
+import { HeroType } from '../common/config/heroes.config';
 import { AttackDto } from './dto/attack.dto';
+import { isBattleReplay } from './battle-replay';
+import { createBattleBuildings, createBattleState, getDefenderSnapshot } from './battle-engine';
 
 @Controller('battles')
 export class BattlesController {
@@ -22,7 +26,7 @@ export class BattlesController {
 
   /**
    * Cleanup stale battles every 5 minutes
-   * Marks battles as 'completed' if their session no longer exists
+   * Aborts or abandons live battles whose session no longer exists
    */
   @Cron(CronExpression.EVERY_5_MINUTES)
   async handleStaleBattleCleanup() {
@@ -96,6 +100,10 @@ export class BattlesController {
         stars: battle.stars,
         lootGold: battle.lootGold,
         lootElixir: battle.lootElixir,
+        lootGoldReceived: battle.lootGoldReceived,
+        lootElixirReceived: battle.lootElixirReceived,
+        attackerTrophyChange: battle.attackerTrophyChange,
+        defenderTrophyChange: battle.defenderTrophyChange,
         createdAt: battle.createdAt,
       },
     };
@@ -104,10 +112,20 @@ export class BattlesController {
   /**
    * POST /battles/start
    * Start a real-time battle session
+   * The defender must be the opponent GET /battles/find-opponent matched, before the match expires
    */
   @Post('start')
   @UseGuards(JwtAuthGuard)
-  async startBattle(@Request() req, @Body() body: { defenderId: string; troops: { type: TroopType; count: number }[] }) {
+  async startBattle(
+    @Request() req,
+    @Body()
+    body: {
+      defenderId: string;
+      troops: { type: TroopType; count: number }[];
+      spells?: { type: SpellType; count: number }[];
+      heroes?: HeroType[];
+    },
+  ) {
     const userId = req.user.userId;
     const attackerVillageId = req.user.villageId;
 
@@ -117,15 +135,7 @@ export class BattlesController {
       throw new BadRequestException('Invalid battle data: defenderId and troops are required');
     }
 
-    // Validate troop types
-    for (const troop of body.troops) {
-      if (!Object.values(TroopType).includes(troop.type)) {
-        throw new BadRequestException(`Invalid troop type: ${troop.type}`);
-      }
-      if (troop.count <= 0) {
-        throw new BadRequestException(`Troop count must be positive: ${troop.type}`);
-      }
-    }
+    this.validateBattleForces(body);
 
     // TODO: Validate that attacker has these troops available
     // TODO: Deduct troops from attacker's army
@@ -135,6 +145,8 @@ export class BattlesController {
       attackerVillageId,
       body.defenderId,
       body.troops,
+      body.spells ?? [],
+      body.heroes ?? [],
     );
 
     return {
@@ -143,31 +155,137 @@ export class BattlesController {
     };
   }
 
+  /**
+   * GET /battles/revenge/:battleId
+   * Scout the village that attacked us before taking revenge
+   */
+  @Get('revenge/:battleId')
+  @UseGuards(JwtAuthGuard)
+  async getRevengeTarget(@Request() req, @Param('battleId') battleId: string) {
+    const villageId = req.user.villageId;
+
+    if (!villageId) {
+      throw new BadRequestException('Village ID not found in user session');
+    }
+
+    const defense = await this.battlesService.getRevengeableDefense(villageId, battleId);
+    const preview = await this.battlesService.getScoutingPreview(villageId, defense.attackerId);
+
+    return {
+      opponentVillageId: defense.attackerId,
+      preview,
+    };
+  }
+
+  /**
+   * POST /battles/revenge/:battleId
+   * Start a real-time battle against the village that attacked us in this defense
+   */
+  @Post('revenge/:battleId')
+  @UseGuards(JwtAuthGuard)
+  async startRevenge(
+    @Request() req,
+    @Param('battleId') battleId: string,
+    @Body()
+    body: {
+      troops: { type: TroopType; count: number }[];
+      spells?: { type: SpellType; count: number }[];
+      heroes?: HeroType[];
+    },
+  ) {
+    const userId = req.user.userId;
+    const attackerVillageId = req.user.villageId;
+
+    console.log('Starting revenge:', { userId, attackerVillageId, defenseBattleId: battleId });
+
+    if (!body.troops || body.troops.length === 0) {
+      throw new BadRequestException('Invalid battle data: troops are required');
+    }
+
+    this.validateBattleForces(body);
+
+    const result = await this.battlesService.startRevenge(
+      userId,
+      attackerVillageId,
+      battleId,
+      body.troops,
+      body.spells ?? [],
+      body.heroes ?? [],
+    );
+
+    return {
+      message: 'Revenge battle session created',
+      ...result,
+    };
+  }
+
+  /**
+   * Check the troop, spell and hero types brought into a battle
+   */
+  private validateBattleForces(body: {
+    troops: { type: TroopType; count: number }[];
+    spells?: { type: SpellType; count: number }[];
+    heroes?: HeroType[];
+  }) {
+    // Validate troop types
+    for (const troop of body.troops) {
+      if (!Object.values(TroopType).includes(troop.type)) {
+        throw new BadRequestException(`Invalid troop type: ${troop.type}`);
+      }
+      if (troop.count <= 0) {
+        throw new BadRequestException(`Troop count must be positive: ${troop.type}`);
+      }
+    }
+
+    // Validate spell types
+    for (const spell of body.spells ?? []) {
+      if (!Object.values(SpellType).includes(spell.type)) {
+        throw new BadRequestException(`Invalid spell type: ${spell.type}`);
+      }
+      if (spell.count <= 0) {
+        throw new BadRequestException(`Spell count must be positive: ${spell.type}`);
+      }
+    }
+
+    // Validate hero types
+    for (const hero of body.heroes ?? []) {
+      if (!Object.values(HeroType).includes(hero)) {
+        throw new BadRequestException(`Invalid hero type: ${hero}`);
+      }
+    }
+  }
+
   /**
    * GET /battles/find-opponent
-   * Find a random opponent to attack
+   * Find an opponent to attack and scout their village
+   * Searching again before attacking the current opponent moves on to the next one (costs gold)
    */
   @Get('find-opponent')
   @UseGuards(JwtAuthGuard)
-  async findOpponent(@Request() req) {
+  async findOpponent(@Request() req, @Query('skip') skip?: string) {
     const villageId = req.user.villageId;
 
-    console.log('Find opponent - villageId:', villageId);
-    console.log('Find opponent - user:', req.user);
+    console.log('Find opponent - villageId:', villageId, 'skip:', skip);
 
     if (!villageId) {
       throw new BadRequestException('Village ID not found in user session');
     }
 
-    const opponentId = await this.battlesService.findRandomOpponent(villageId);
+    const match = await this.battlesService.findOpponent(villageId, skip);
 
-    if (!opponentId) {
+    if (!match) {
       throw new NotFoundException('No opponents found');
     }
 
-    // TODO: Load opponent village details (buildings, resources, etc.)
+    const preview = await this.battlesService.getScoutingPreview(
+      villageId,
+      match.opponentVillageId,
+    );
+
     return {
-      opponentVillageId: opponentId,
+      opponentVillageId: match.opponentVillageId,
+      nextCost: match.nextCost,
+      preview,
       message: 'Opponent found',
     };
   }
@@ -199,6 +317,10 @@ export class BattlesController {
         stars: battle.stars,
         lootGold: battle.lootGold,
         lootElixir: battle.lootElixir,
+        attackerTrophyChange: battle.attackerTrophyChange,
+        defenderTrophyChange: battle.defenderTrophyChange,
+        revengeBattleId: battle.revengeBattleId,
+        revengeAvailable: this.battlesService.isRevengeAvailable(battle),
         status: battle.status,
         createdAt: battle.createdAt,
       })),
@@ -255,6 +377,58 @@ export class BattlesController {
     return sessionData;
   }
 
+  /**
+   * GET /battles/:id/replay
+   * Get the recorded replay of a finished battle (layout snapshot, deploy inputs and events)
+   */
+  @Get(':id/replay')
+  @UseGuards(JwtAuthGuard)
+  async getBattleReplay(@Request() req, @Param('id') battleId: string) {
+    const battle = await this.battlesService.getBattleById(battleId);
+
+    // Only the attacker and defender can watch the replay
+    const userVillageId = req.user.villageId;
+    if (!battle || (battle.attackerId !== userVillageId && battle.defenderId !== userVillageId)) {
+      throw new NotFoundException('Battle not found');
+    }
+
+    if (!isBattleReplay(battle.battleLog)) {
+      throw new NotFoundException('No replay recorded for this battle');
+    }
+
+    return {
+      battle: {
+        id: battle.id,
+        attackerId: battle.attackerId,
+        defenderId: battle.defenderId,
+        attackerTroops: battle.attackerTroops,
+        destructionPercentage: battle.destructionPercentage,
+        stars: battle.stars,
+        lootGold: battle.lootGold,
+        lootElixir: battle.lootElixir,
+        createdAt: battle.createdAt,
+      },
+      // Starting state of the defender layout, in the same shape as a live session
+      buildings: createBattleBuildings(battle.battleLog.layout).map((b) => ({
+        id: b.id,
+        type: b.type,
+        position: b.position,
+        health: b.health,
+        maxHealth: b.maxHealth,
+      })),
+      // Heroes guarding the village when the battle started
+      defenders: getDefenderSnapshot(
+        createBattleState({
+          buildings: battle.battleLog.layout,
+          maxTroops: 0,
+          defenderHeroes: battle.battleLog.defenderHeroes ?? [],
+          garrison: battle.battleLog.garrison ?? null,
+        }),
+      ),
+      replay: battle.battleLog,
+    };
+  }
+
   /**
    * GET /battles/:id
    * Get battle details and replay data
@@ -280,10 +454,18 @@ export class BattlesController {
         attackerId: battle.attackerId,
         defenderId: battle.defenderId,
         attackerTroops: battle.attackerTroops,
+        deployedTroops: battle.deployedTroops,
+        lostTroops: battle.lostTroops,
+        returnedTroops: battle.returnedTroops,
         destructionPercentage: battle.destructionPercentage,
         stars: battle.stars,
         lootGold: battle.lootGold,
         lootElixir: battle.lootElixir,
+        lootGoldReceived: battle.lootGoldReceived,
+        lootElixirReceived: battle.lootElixirReceived,
+        attackerTrophyChange: battle.attackerTrophyChange,
+        defenderTrophyChange: battle.defenderTrophyChange,
+        revengeOfBattleId: battle.revengeOfBattleId,
         battleLog: battle.battleLog,
         createdAt: battle.createdAt,
       },
@@ -318,6 +500,11 @@ export class BattlesController {
         stars: battle.stars,
         lootGold: battle.lootGold,
         lootElixir: battle.lootElixir,
+        lootGoldReceived: battle.lootGoldReceived,
+        lootElixirReceived: battle.lootElixirReceived,
+        attackerTrophyChange: battle.attackerTrophyChange,
+        defenderTrophyChange: battle.defenderTrophyChange,
+        revengeOfBattleId: battle.revengeOfBattleId,
         status: battle.status,
         createdAt: battle.createdAt,
       })),
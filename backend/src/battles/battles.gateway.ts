@@ -10,14 +10,18 @@ import {
   WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { UseGuards, Inject, forwardRef } from '@nestjs/common';
+import { UseGuards } from '@nestjs/common';
 import { WsJwtGuard } from './guards/ws-jwt.guard';
 import { BattleSessionManager } from './battle-session.manager';
-import { TROOP_CONFIGS, TroopType } from '../common/config/troops.config';
-import { BattlesService } from './battles.service';
+import { TroopType } from '../common/config/troops.config';
+import { SpellType } from '../common/config/spells.config';
+import { HeroType } from '../common/config/heroes.config';
+import { BattleEventType, PERIODIC_EVENT_TYPES, isInNoDeployZone } from './battle-engine';
+import { BattleStatus } from './battle-lifecycle';
+import { AttackNotification } from './battle-session.store';
 
 export interface BattleEvent {
-  type: 'TROOP_SPAWN' | 'TROOP_MOVE' | 'TROOP_ATTACK' | 'TROOP_DEATH' | 'BUILDING_ATTACK' | 'BUILDING_DESTROYED' | 'BATTLE_END';
+  type: BattleEventType;
   timestamp: number;
   data: any;
 }
@@ -28,6 +32,25 @@ export interface DeployTroopPayload {
   position: { x: number; y: number };
 }
 
+export interface CastSpellPayload {
+  battleId: string;
+  spellType: string;
+  position: { x: number; y: number };
+}
+
+export interface HeroAbilityPayload {
+  battleId: string;
+  heroType: string;
+}
+
+export interface SurrenderPayload {
+  battleId: string;
+}
+
+export interface BattleStatePayload {
+  battleId: string;
+}
+
 @WebSocketGateway({
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
@@ -45,19 +68,14 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
   // Track user connections for notifications (userId -> Set<socketId>)
   private userConnections = new Map<string, Set<string>>();
 
-  constructor(
-    private battleSessionManager: BattleSessionManager,
-    @Inject(forwardRef(() => BattlesService))
-    private battlesService: BattlesService,
-  ) {
+  constructor(private battleSessionManager: BattleSessionManager) {
     // Don't set gateway here - server isn't initialized yet!
   }
 
   afterInit(server: Server) {
     console.log('BattlesGateway - WebSocket server initialized on /battles namespace');
-    // NOW set the gateway references - server is ready
+    // NOW set the gateway reference - server is ready
     this.battleSessionManager.setGateway(this);
-    this.battlesService.setBattlesGateway(this);
   }
 
   handleConnection(client: Socket) {
@@ -110,8 +128,8 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
 
     console.log(`Client ${client.id} joining battle ${battleId} as village ${villageId}`);
 
-    // Check if battle session exists
-    const session = this.battleSessionManager.getSession(battleId);
+    // Check if battle session exists (it may run on another instance)
+    const session = await this.battleSessionManager.findSession(battleId);
     if (!session) {
       console.log(`Battle ${battleId} not found - battle may have ended`);
       return {
@@ -121,8 +139,8 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
       };
     }
 
-    // Check if battle is completed
-    if (session.status === 'completed') {
+    // Check if battle is over
+    if (session.status === BattleStatus.COMPLETED || session.status === BattleStatus.ABORTED) {
       console.log(`Battle ${battleId} has already ended`);
       return {
         success: false,
@@ -150,10 +168,28 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
     return {
       success: true,
       message: 'Joined battle room',
-      isAttacker: (client as any).isAttacker
+      isAttacker: (client as any).isAttacker,
+      state: session.state,
     };
   }
 
+  /**
+   * Send the current battle state again, e.g. when the client suspects it missed events
+   */
+  @SubscribeMessage('battleState')
+  async handleBattleState(@MessageBody() payload: BattleStatePayload) {
+    const session = await this.battleSessionManager.findSession(payload.battleId);
+    if (!session) {
+      return {
+        success: false,
+        message: 'Battle not found or has ended',
+        error: 'BATTLE_ENDED',
+      };
+    }
+
+    return { success: true, state: session.state };
+  }
+
   /**
    * Leave a battle room
    */
@@ -193,7 +229,7 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
     console.log(`User ${user?.username} deploying ${troopType} at (${position.x}, ${position.y}) in battle ${battleId}`);
 
     // Validate battle session exists
-    const session = this.battleSessionManager.getSession(battleId);
+    const session = await this.battleSessionManager.findSession(battleId);
     if (!session) {
       throw new WsException('Battle session not found');
     }
@@ -208,45 +244,159 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
       throw new WsException('Only the attacker can deploy troops');
     }
 
-    // Validate troop type
-    if (!Object.values(TroopType).includes(troopType as TroopType)) {
+    // Validate troop type (heroes deploy like troops)
+    if (
+      !Object.values(TroopType).includes(troopType as TroopType) &&
+      !Object.values(HeroType).includes(troopType as HeroType)
+    ) {
       throw new WsException('Invalid troop type');
     }
-    const troopConfig = TROOP_CONFIGS[troopType as TroopType];
 
-    // Deploy troop
-    const troop = this.battleSessionManager.deployTroop(battleId, troopType, position, {
-      health: troopConfig.health,
-      damage: troopConfig.damage,
-      speed: troopConfig.moveSpeed,
-      range: troopConfig.range,
-      targetType: 'ground', // For now, all troops target ground
+    // Troops can't be dropped on or right next to the defender's buildings
+    if (isInNoDeployZone(session.noDeployZones, position)) {
+      throw new WsException('Cannot deploy troops this close to buildings');
+    }
+
+    // Deploy troop (the session manager broadcasts the spawn event)
+    const deployed = await this.battleSessionManager.runCommand(battleId, {
+      type: 'deployTroop',
+      troopType,
+      position,
     });
 
-    if (!troop) {
-      throw new WsException('Failed to deploy troop (max troops reached?)');
+    if (!deployed) {
+      throw new WsException(`No ${troopType} left to deploy`);
+    }
+
+    return { success: true, ...deployed };
+  }
+
+  /**
+   * Cast a spell during battle
+   */
+  @SubscribeMessage('castSpell')
+  @UseGuards(WsJwtGuard)
+  async handleCastSpell(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: CastSpellPayload,
+  ) {
+    const { battleId, spellType, position } = payload;
+    const user = (client as any).user;
+    const villageId = (client as any).villageId;
+    const isAttacker = (client as any).isAttacker;
+
+    const session = await this.battleSessionManager.findSession(battleId);
+    if (!session) {
+      throw new WsException('Battle session not found');
+    }
+
+    // Only the attacker can cast spells
+    if (
+      !isAttacker ||
+      session.attackerVillageId !== villageId ||
+      session.attackerId !== user?.userId
+    ) {
+      throw new WsException('Only the attacker can cast spells');
+    }
+
+    if (!Object.values(SpellType).includes(spellType as SpellType)) {
+      throw new WsException('Invalid spell type');
     }
 
-    // Broadcast troop spawn event to all clients in battle
-    this.broadcastBattleEvent(battleId, {
-      type: 'TROOP_SPAWN',
-      timestamp: Date.now(),
-      data: {
-        troopId: troop.id,
-        troopType: troop.type,
-        position: troop.position,
-        health: troop.health,
-      },
+    // Cast spell (the session manager broadcasts the cast event)
+    const cast = await this.battleSessionManager.runCommand(battleId, {
+      type: 'castSpell',
+      spellType,
+      position,
     });
 
-    return {
-      success: true,
-      troop: {
-        id: troop.id,
-        type: troop.type,
-        position: troop.position,
-      },
-    };
+    if (!cast) {
+      throw new WsException(`No ${spellType} spells left`);
+    }
+
+    return { success: true, ...cast };
+  }
+
+  /**
+   * Activate a deployed hero's ability during battle
+   */
+  @SubscribeMessage('activateHeroAbility')
+  @UseGuards(WsJwtGuard)
+  async handleActivateHeroAbility(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: HeroAbilityPayload,
+  ) {
+    const { battleId, heroType } = payload;
+    const user = (client as any).user;
+    const villageId = (client as any).villageId;
+    const isAttacker = (client as any).isAttacker;
+
+    const session = await this.battleSessionManager.findSession(battleId);
+    if (!session) {
+      throw new WsException('Battle session not found');
+    }
+
+    // Only the attacker controls their heroes
+    if (
+      !isAttacker ||
+      session.attackerVillageId !== villageId ||
+      session.attackerId !== user?.userId
+    ) {
+      throw new WsException('Only the attacker can activate hero abilities');
+    }
+
+    if (!Object.values(HeroType).includes(heroType as HeroType)) {
+      throw new WsException('Invalid hero type');
+    }
+
+    // Activate ability (the session manager broadcasts the ability event)
+    const activated = await this.battleSessionManager.runCommand(battleId, {
+      type: 'activateHeroAbility',
+      heroType,
+    });
+
+    if (!activated) {
+      throw new WsException('Hero ability not available');
+    }
+
+    return { success: true, ...activated };
+  }
+
+  /**
+   * Surrender: end the battle now with the result so far
+   * Before anything is deployed this aborts the battle and refunds the army
+   */
+  @SubscribeMessage('surrender')
+  @UseGuards(WsJwtGuard)
+  async handleSurrender(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: SurrenderPayload,
+  ) {
+    const { battleId } = payload;
+    const user = (client as any).user;
+    const villageId = (client as any).villageId;
+    const isAttacker = (client as any).isAttacker;
+
+    const session = await this.battleSessionManager.findSession(battleId);
+    if (!session) {
+      throw new WsException('Battle session not found');
+    }
+
+    // Only the attacker can give up their attack
+    if (
+      !isAttacker ||
+      session.attackerVillageId !== villageId ||
+      session.attackerId !== user?.userId
+    ) {
+      throw new WsException('Only the attacker can surrender');
+    }
+
+    // The session manager broadcasts BATTLE_END
+    if (!(await this.battleSessionManager.runCommand(battleId, { type: 'surrender' }))) {
+      throw new WsException('Battle has already ended');
+    }
+
+    return { success: true };
   }
 
   /**
@@ -276,14 +426,9 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
 
   /**
    * Notify a defender that their village is under attack
-   * Called by the battle service when a battle starts
+   * Called by the session manager for battles started on any instance
    */
-  notifyDefenderUnderAttack(defenderId: string, battleData: {
-    battleId: string;
-    attackerVillageId: string;
-    attackerVillageName: string;
-    defenderVillageId: string;
-  }) {
+  notifyDefenderUnderAttack(defenderId: string, battleData: AttackNotification) {
     if (!this.server) {
       console.warn(`Cannot notify defender - server not initialized`);
       return;
@@ -320,8 +465,10 @@ export class BattlesGateway implements OnGatewayConnection, OnGatewayDisconnect,
       console.warn(`Cannot broadcast ${event.type} - server not initialized`);
       return;
     }
-    const roomSize = this.battleRooms.get(battleId)?.size || 0;
-    console.log(`Broadcasting ${event.type} to battle ${battleId} (${roomSize} clients in room)`);
+    if (!PERIODIC_EVENT_TYPES.includes(event.type)) {
+      const roomSize = this.battleRooms.get(battleId)?.size || 0;
+      console.log(`Broadcasting ${event.type} to battle ${battleId} (${roomSize} clients in room)`);
+    }
     this.server.to(battleId).emit('battleEvent', event);
   }
 
@@ -6,11 +6,19 @@ import { BattlesController } from './battles.controller';
 import { BattlesGateway } from './battles.gateway';
 import { SpectateGateway } from './spectate.gateway';
 import { BattleSessionManager } from './battle-session.manager';
-import { DatabaseModule } from '../database/database.module';
+import { BATTLE_SESSION_STORE, InMemoryBattleSessionStore } from './battle-session.store';
+import { PostgresBattleSessionStore } from './postgres-battle-session.store';
+import { DATABASE_CLIENT, DATABASE_CONNECTION, DatabaseModule } from '../database/database.module';
+import { HeroesModule } from '../heroes/heroes.module';
+import { TroopsModule } from '../troops/troops.module';
+import { ResourcesModule } from '../resources/resources.module';
 
 @Module({
   imports: [
     DatabaseModule,
+    HeroesModule,
+    TroopsModule,
+    ResourcesModule,
     ConfigModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -24,7 +32,26 @@ import { DatabaseModule } from '../database/database.module';
     }),
   ],
   controllers: [BattlesController],
-  providers: [BattlesService, BattlesGateway, SpectateGateway, BattleSessionManager],
+  providers: [
+    BattlesService,
+    BattlesGateway,
+    SpectateGateway,
+    BattleSessionManager,
+    {
+      provide: BATTLE_SESSION_STORE,
+      // Sessions stay in this process unless more than one instance serves battles
+      useFactory: async (configService: ConfigService, db, client) => {
+        if (configService.get<string>('BATTLE_SESSION_STORE') !== 'postgres') {
+          return new InMemoryBattleSessionStore();
+        }
+
+        const store = new PostgresBattleSessionStore(db, client);
+        await store.start();
+        return store;
+      },
+      inject: [ConfigService, DATABASE_CONNECTION, DATABASE_CLIENT],
+    },
+  ],
   exports: [BattlesService],
 })
 export class BattlesModule {}
@@ -1,51 +1,88 @@
-import { Injectable, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  OnApplicationBootstrap,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { eq, and, desc, ne, sql } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  desc,
+  sql,
+  inArray,
+  notInArray,
+  or,
+  gt,
+  gte,
+  lt,
+  lte,
+  between,
+  isNull,
+} from 'drizzle-orm';
 import * as schema from '../database/schema';
 import { battles, Battle, NewBattle } from '../database/schema/battles.schema';
 import { buildings } from '../database/schema/buildings.schema';
 import { villages } from '../database/schema/villages.schema';
 import { resources } from '../database/schema/resources.schema';
 import { army } from '../database/schema/army.schema';
-import { BuildingType, getBuildingConfig } from '../common/config/buildings.config';
-import { TroopType, getTroopConfig, TroopStats } from '../common/config/troops.config';
+import { spells } from '../database/schema/spells.schema';
+import { TroopType } from '../common/config/troops.config';
+import { SpellType } from '../common/config/spells.config';
+import { HeroType } from '../common/config/heroes.config';
+import { BuildingType } from '../common/config/buildings.config';
+import { MATCHMAKING_CONFIG, getNextOpponentCost } from '../common/config/matchmaking.config';
+import { SHIELD_CONFIG, getShieldDuration } from '../common/config/shields.config';
+import { HeroesService } from '../heroes/heroes.service';
+import { TroopsService } from '../troops/troops.service';
+import { ResourcesService } from '../resources/resources.service';
 import { DATABASE_CONNECTION } from '../database/database.module';
 import { BattleSessionManager } from './battle-session.manager';
-
-// Battle event types for replay
-interface BattleEvent {
-  timestamp: number; // milliseconds since battle start
-  type: 'TROOP_SPAWN' | 'TROOP_MOVE' | 'TROOP_ATTACK' | 'TROOP_DEATH' | 'BUILDING_ATTACK' | 'BUILDING_DESTROYED';
-  data: any;
+import {
+  createBattleState,
+  getDefenderSnapshot,
+  getGarrisonLosses,
+  getLootResults,
+  getLootSummary,
+  getSprungTrapIds,
+  getTroopResults,
+  planEdgeDeployment,
+  runBattle,
+} from './battle-engine';
+import { createSeed } from './seeded-random.util';
+import { BattleReplay, createBattleReplay, toReplayEvent } from './battle-replay';
+import { calculateTrophyChanges, TrophyChanges } from './trophies.util';
+import {
+  BATTLE_OUTCOMES,
+  BattleStatus,
+  LIVE_BATTLE_STATUSES,
+  getOrphanedStatus,
+  getSourceStatuses,
+} from './battle-lifecycle';
+
+// A battle without a session this young is still being set up (it holds the attack lock
+// while the attacker's troops are spent), so it isn't stale yet
+const STALE_BATTLE_GRACE_MS = 60 * 1000;
+
+interface TroopResults {
+  deployed: { type: string; count: number }[];
+  lost: { type: string; count: number }[];
+  returned: { type: string; count: number }[];
 }
 
-// Active entities during battle simulation
-interface BattleTroop {
-  id: string;
-  type: TroopType;
-  stats: TroopStats;
-  health: number;
-  position: { x: number; y: number };
-  target: string | null; // building ID
-  isAlive: boolean;
-  spawnTime: number;
+interface LootResults {
+  storage: { gold: number; elixir: number }; // taken from the village's stored resources
+  collectors: { buildingId: string; gold: number; elixir: number }[]; // taken from collectors
 }
 
-interface BattleBuilding {
-  id: string;
-  type: BuildingType;
-  health: number;
-  maxHealth: number;
-  position: { x: number; y: number };
-  size: { width: number; height: number };
-  isDestroyed: boolean;
-  defense?: {
-    damage: number;
-    range: number;
-    attackSpeed: number;
-    lastAttackTime: number;
-    target: string | null; // troop ID
-  };
+interface LootTransfer {
+  lootGold: number; // taken from the defender
+  lootElixir: number;
+  lootGoldReceived: number; // credited to the attacker, after their storage cap
+  lootElixirReceived: number;
 }
 
 interface BattleResult {
@@ -53,368 +90,389 @@ interface BattleResult {
   stars: number;
   lootGold: number;
   lootElixir: number;
-  battleLog: BattleEvent[];
+  loot: LootResults;
+  battleLog: BattleReplay;
   victory: boolean;
+  sprungTrapIds: string[];
+  garrisonLosses: { type: string; count: number }[];
+  troopResults: TroopResults;
 }
 
 @Injectable()
-export class BattlesService {
-  private battlesGateway: any; // Will be set after gateway initializes to avoid circular dependency
-
+export class BattlesService implements OnApplicationBootstrap {
   constructor(
     @Inject(DATABASE_CONNECTION)
     private db: NodePgDatabase<typeof schema>,
     private battleSessionManager: BattleSessionManager,
+    private heroesService: HeroesService,
+    private troopsService: TroopsService,
+    private resourcesService: ResourcesService,
   ) {
     // Set this service on the session manager to allow it to update battle results
     this.battleSessionManager.setBattlesService(this);
   }
 
-  setBattlesGateway(gateway: any) {
-    this.battlesGateway = gateway;
+  /**
+   * Battles left without a session by a restart are closed on boot, unless another instance
+   * runs them or their checkpoint can be resumed
+   */
+  async onApplicationBootstrap() {
+    await this.reconcileOrphanedBattles(0);
   }
 
   /**
    * Simulate a battle between attacker's troops and defender's village
+   * Runs the shared battle engine to completion; the same seed always gives the same result
    */
   async simulateBattle(
     attackerVillageId: string,
     defenderVillageId: string,
     attackerTroops: { type: TroopType; count: number }[],
+    seed: number = createSeed(),
   ): Promise<BattleResult> {
-    // Load defender's buildings
-    const defenderBuildings = await this.db
-      .select()
-      .from(buildings)
-      .where(eq(buildings.villageId, defenderVillageId));
-
-    // Initialize battle state
-    const battleBuildings: BattleBuilding[] = defenderBuildings.map((b) => {
-      const config = getBuildingConfig(b.type as BuildingType);
-      return {
-        id: b.id,
-        type: b.type as BuildingType,
-        health: config.maxHealth,
-        maxHealth: config.maxHealth,
-        position: { x: b.positionX, y: b.positionY },
-        size: { width: config.size.width, height: config.size.height },
-        isDestroyed: false,
-        defense: config.defense
-          ? {
-              ...config.defense,
-              lastAttackTime: 0,
-              target: null,
-            }
-          : undefined,
-      };
+    const { defenderBuildings, storedResources } = await this.loadDefenderLayout(defenderVillageId);
+
+    const state = createBattleState({
+      buildings: defenderBuildings,
+      maxTroops: attackerTroops.reduce((sum, t) => sum + t.count, 0),
+      troops: attackerTroops,
+      garrison: await this.troopsService.getBattleGarrison(defenderVillageId),
+      storedResources,
+      seed,
     });
 
-    const battleTroops: BattleTroop[] = [];
-    const battleLog: BattleEvent[] = [];
-
-    // Spawn troops at random positions on the edge
-    let troopIdCounter = 0;
-    let spawnTime = 0;
-    for (const troopGroup of attackerTroops) {
-      const stats = getTroopConfig(troopGroup.type);
-      for (let i = 0; i < troopGroup.count; i++) {
-        const spawnPosition = this.getRandomSpawnPosition();
-        const troop: BattleTroop = {
-          id: `troop_${troopIdCounter++}`,
-          type: troopGroup.type,
-          stats,
-          health: stats.health,
-          position: spawnPosition,
-          target: null,
-          isAlive: true,
-          spawnTime,
-        };
-        battleTroops.push(troop);
-        battleLog.push({
-          timestamp: spawnTime,
-          type: 'TROOP_SPAWN',
-          data: { troopId: troop.id, type: troopGroup.type, position: spawnPosition },
-        });
-        spawnTime += 200; // 200ms between each troop spawn
-      }
-    }
-
-    // Simulate battle (tick-based, 100ms per tick, max 3 minutes)
-    const TICK_DURATION = 100; // ms
-    const MAX_BATTLE_TIME = 180000; // 3 minutes
-    let currentTime = 0;
-
-    while (currentTime < MAX_BATTLE_TIME) {
-      const aliveTroops = battleTroops.filter((t) => t.isAlive && t.spawnTime <= currentTime);
-      const aliveBuildings = battleBuildings.filter((b) => !b.isDestroyed);
-
-      // Battle ends if all troops are dead or all buildings destroyed
-      if (aliveTroops.length === 0 || aliveBuildings.length === 0) {
-        break;
-      }
-
-      // Troops attack buildings
-      for (const troop of aliveTroops) {
-        // Find target if troop doesn't have one
-        if (!troop.target || battleBuildings.find((b) => b.id === troop.target)?.isDestroyed) {
-          troop.target = this.findTarget(troop, aliveBuildings);
-        }
-
-        if (troop.target) {
-          const targetBuilding = battleBuildings.find((b) => b.id === troop.target);
-          if (targetBuilding && !targetBuilding.isDestroyed) {
-            const distance = this.calculateDistance(troop.position, targetBuilding.position);
-
-            // Move towards target
-            if (distance > troop.stats.range) {
-              this.moveTroopTowards(troop, targetBuilding.position, TICK_DURATION);
-            } else {
-              // Attack
-              const damage = troop.stats.damage * (troop.stats.attackSpeed * (TICK_DURATION / 1000));
-              targetBuilding.health -= damage;
-
-              battleLog.push({
-                timestamp: currentTime,
-                type: 'TROOP_ATTACK',
-                data: {
-                  troopId: troop.id,
-                  buildingId: targetBuilding.id,
-                  damage: damage,
-                  buildingHealth: Math.max(0, targetBuilding.health),
-                },
-              });
-
-              // Check if building is destroyed
-              if (targetBuilding.health <= 0) {
-                targetBuilding.isDestroyed = true;
-                targetBuilding.health = 0;
-                battleLog.push({
-                  timestamp: currentTime,
-                  type: 'BUILDING_DESTROYED',
-                  data: { buildingId: targetBuilding.id, type: targetBuilding.type },
-                });
-              }
-            }
-          }
-        }
-      }
+    // Troops spawn one by one on random map edges, 200ms apart
+    const inputs = planEdgeDeployment(state, attackerTroops);
+    const events = runBattle(state, inputs);
 
-      // Buildings attack troops
-      for (const building of aliveBuildings.filter((b) => b.defense)) {
-        const defense = building.defense!;
-
-        // Can attack?
-        if (currentTime - defense.lastAttackTime >= defense.attackSpeed * 1000) {
-          // Find target
-          if (!defense.target || !aliveTroops.find((t) => t.id === defense.target)) {
-            defense.target = this.findNearestTroop(building, aliveTroops, defense.range);
-          }
-
-          if (defense.target) {
-            const targetTroop = battleTroops.find((t) => t.id === defense.target);
-            if (targetTroop && targetTroop.isAlive) {
-              const distance = this.calculateDistance(building.position, targetTroop.position);
-
-              if (distance <= defense.range) {
-                targetTroop.health -= defense.damage;
-                defense.lastAttackTime = currentTime;
-
-                battleLog.push({
-                  timestamp: currentTime,
-                  type: 'BUILDING_ATTACK',
-                  data: {
-                    buildingId: building.id,
-                    troopId: targetTroop.id,
-                    damage: defense.damage,
-                    troopHealth: Math.max(0, targetTroop.health),
-                  },
-                });
-
-                // Check if troop died
-                if (targetTroop.health <= 0) {
-                  targetTroop.isAlive = false;
-                  targetTroop.health = 0;
-                  battleLog.push({
-                    timestamp: currentTime,
-                    type: 'TROOP_DEATH',
-                    data: { troopId: targetTroop.id, type: targetTroop.type },
-                  });
-                }
-              }
-            }
-          }
-        }
-      }
-
-      currentTime += TICK_DURATION;
-    }
-
-    // Calculate results
-    const totalBuildings = battleBuildings.length;
-    const destroyedBuildings = battleBuildings.filter((b) => b.isDestroyed).length;
-    const destructionPercentage = Math.floor((destroyedBuildings / totalBuildings) * 100);
-
-    // Calculate stars (CoC style: 50% = 1 star, 100% = 2 stars, Town Hall = +1 star)
-    let stars = 0;
-    if (destructionPercentage >= 50) stars = 1;
-    if (destructionPercentage === 100) stars = 2;
-    const townHallDestroyed = battleBuildings.find(
-      (b) => b.type === BuildingType.TOWN_HALL && b.isDestroyed,
+    const destructionPercentage = state.destructionPercentage;
+    const stars = state.stars;
+    const battleLog = createBattleReplay(
+      state,
+      defenderBuildings,
+      events.map(toReplayEvent),
+      stars,
     );
-    if (townHallDestroyed) stars += 1;
-    stars = Math.min(stars, 3);
 
-    // Calculate loot
-    const { lootGold, lootElixir } = await this.calculateLoot(
-      defenderVillageId,
-      destructionPercentage,
-    );
+    // Loot released by the buildings the troops damaged
+    const { lootedGold, lootedElixir } = getLootSummary(state);
 
     return {
       destructionPercentage,
       stars,
-      lootGold,
-      lootElixir,
+      lootGold: lootedGold,
+      lootElixir: lootedElixir,
+      loot: getLootResults(state),
       battleLog,
       victory: stars > 0,
+      sprungTrapIds: getSprungTrapIds(state),
+      garrisonLosses: getGarrisonLosses(state),
+      troopResults: getTroopResults(state),
     };
   }
 
   /**
-   * Find target building based on troop preferences
+   * Load the defender's buildings (sprung traps stay out until rearmed) and stored resources
+   * Collectors are brought up to date first, so their loot includes everything generated so far
    */
-  private findTarget(troop: BattleTroop, buildings: BattleBuilding[]): string | null {
-    const preference = troop.stats.targetPreference;
-    let candidates = buildings.filter((b) => !b.isDestroyed);
-
-    // Filter by preference
-    if (preference === 'DEFENSES') {
-      const defenseBuildings = candidates.filter((b) => b.defense);
-      if (defenseBuildings.length > 0) candidates = defenseBuildings;
-    } else if (preference === 'WALLS') {
-      const walls = candidates.filter((b) => b.type === BuildingType.WALL);
-      if (walls.length > 0) candidates = walls;
+  private async loadDefenderLayout(defenderVillageId: string) {
+    const collectors = await this.db
+      .select({ id: buildings.id })
+      .from(buildings)
+      .where(
+        and(
+          eq(buildings.villageId, defenderVillageId),
+          inArray(buildings.type, [BuildingType.GOLD_MINE, BuildingType.ELIXIR_COLLECTOR]),
+        ),
+      );
+    for (const collector of collectors) {
+      await this.resourcesService.updateBuildingInternalStorage(collector.id);
     }
 
-    // Find nearest
-    if (candidates.length === 0) return null;
-
-    let nearest = candidates[0];
-    let minDistance = this.calculateDistance(troop.position, nearest.position);
+    const defenderBuildings = await this.db
+      .select()
+      .from(buildings)
+      .where(and(eq(buildings.villageId, defenderVillageId), eq(buildings.isArmed, true)));
 
-    for (const building of candidates.slice(1)) {
-      const distance = this.calculateDistance(troop.position, building.position);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = building;
-      }
-    }
+    const [defenderResources] = await this.db
+      .select()
+      .from(resources)
+      .where(eq(resources.villageId, defenderVillageId))
+      .limit(1);
 
-    return nearest.id;
+    return {
+      defenderBuildings,
+      storedResources: {
+        gold: defenderResources?.gold ?? 0,
+        elixir: defenderResources?.elixir ?? 0,
+      },
+    };
   }
 
   /**
-   * Find nearest troop in range for building defense
+   * Move loot from the defender to the attacker inside a transaction
+   * The rows paying out are locked and never go below zero. The defender loses everything taken,
+   * the attacker only receives what fits in their storage; the rest is lost.
    */
-  private findNearestTroop(
-    building: BattleBuilding,
-    troops: BattleTroop[],
-    range: number,
-  ): string | null {
-    let nearest: BattleTroop | null = null;
-    let minDistance = Infinity;
+  private async transferLoot(
+    db: NodePgDatabase<typeof schema>,
+    attackerVillageId: string,
+    defenderVillageId: string,
+    loot: LootResults,
+  ): Promise<LootTransfer> {
+    let lootGold = 0;
+    let lootElixir = 0;
 
-    for (const troop of troops.filter((t) => t.isAlive)) {
-      const distance = this.calculateDistance(building.position, troop.position);
-      if (distance <= range && distance < minDistance) {
-        minDistance = distance;
-        nearest = troop;
+    // Stored resources (storages and the Town Hall)
+    const [defenderResources] = await db
+      .select()
+      .from(resources)
+      .where(eq(resources.villageId, defenderVillageId))
+      .for('update');
+
+    if (defenderResources) {
+      const gold = Math.min(loot.storage.gold, defenderResources.gold);
+      const elixir = Math.min(loot.storage.elixir, defenderResources.elixir);
+
+      if (gold > 0 || elixir > 0) {
+        await db
+          .update(resources)
+          .set({
+            gold: sql`${resources.gold} - ${gold}`,
+            elixir: sql`${resources.elixir} - ${elixir}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(resources.villageId, defenderVillageId));
       }
+
+      lootGold += gold;
+      lootElixir += elixir;
+    }
+
+    // Resources waiting in collectors
+    for (const collectorLoot of loot.collectors) {
+      const [collector] = await db
+        .select()
+        .from(buildings)
+        .where(
+          and(
+            eq(buildings.id, collectorLoot.buildingId),
+            eq(buildings.villageId, defenderVillageId),
+          ),
+        )
+        .for('update');
+
+      if (!collector) continue;
+
+      const gold = Math.min(collectorLoot.gold, collector.internalGold);
+      const elixir = Math.min(collectorLoot.elixir, collector.internalElixir);
+
+      await db
+        .update(buildings)
+        .set({
+          internalGold: sql`${buildings.internalGold} - ${gold}`,
+          internalElixir: sql`${buildings.internalElixir} - ${elixir}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(buildings.id, collector.id));
+
+      lootGold += gold;
+      lootElixir += elixir;
     }
 
-    return nearest?.id || null;
+    const [attackerResources] = await db
+      .select()
+      .from(resources)
+      .where(eq(resources.villageId, attackerVillageId))
+      .for('update');
+
+    if (!attackerResources) {
+      return { lootGold, lootElixir, lootGoldReceived: 0, lootElixirReceived: 0 };
+    }
+
+    const { maxGold, maxElixir } =
+      await this.resourcesService.getStorageCapacities(attackerVillageId);
+    const lootGoldReceived = Math.min(lootGold, Math.max(0, maxGold - attackerResources.gold));
+    const lootElixirReceived = Math.min(
+      lootElixir,
+      Math.max(0, maxElixir - attackerResources.elixir),
+    );
+
+    if (lootGoldReceived > 0 || lootElixirReceived > 0) {
+      await db
+        .update(resources)
+        .set({
+          gold: sql`${resources.gold} + ${lootGoldReceived}`,
+          elixir: sql`${resources.elixir} + ${lootElixirReceived}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(resources.villageId, attackerVillageId));
+    }
+
+    console.log(
+      `Moved ${lootGold} gold and ${lootElixir} elixir from defender, attacker received ${lootGoldReceived} gold and ${lootElixirReceived} elixir`,
+    );
+
+    return { lootGold, lootElixir, lootGoldReceived, lootElixirReceived };
   }
 
   /**
-   * Move troop towards target position
+   * Give the defender a shield sized by the destruction they suffered, inside a transaction
    */
-  private moveTroopTowards(
-    troop: BattleTroop,
-    targetPosition: { x: number; y: number },
-    tickDuration: number,
-  ): void {
-    const dx = targetPosition.x - troop.position.x;
-    const dy = targetPosition.y - troop.position.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance === 0) return;
+  private async applyShield(
+    db: NodePgDatabase<typeof schema>,
+    defenderVillageId: string,
+    destructionPercentage: number,
+  ): Promise<void> {
+    const duration = getShieldDuration(destructionPercentage);
+    if (duration === 0) return;
 
-    const moveDistance = troop.stats.moveSpeed * (tickDuration / 1000);
-    const ratio = Math.min(moveDistance / distance, 1);
+    const shieldExpiresAt = new Date(Date.now() + duration * 1000);
+    await db
+      .update(villages)
+      .set({ shieldExpiresAt, updatedAt: new Date() })
+      .where(eq(villages.id, defenderVillageId));
 
-    troop.position.x += dx * ratio;
-    troop.position.y += dy * ratio;
+    console.log(`Village ${defenderVillageId} shielded until ${shieldExpiresAt.toISOString()}`);
   }
 
   /**
-   * Calculate distance between two points
+   * Take the attack lock on a defender inside a transaction
+   * The village row is locked so concurrent attack requests queue up here; an active battle
+   * against the village means someone else holds the lock. The lock is the live battle
+   * row itself: it is released once the battle reaches a terminal state.
    */
-  private calculateDistance(
-    pos1: { x: number; y: number },
-    pos2: { x: number; y: number },
-  ): number {
-    const dx = pos2.x - pos1.x;
-    const dy = pos2.y - pos1.y;
-    return Math.sqrt(dx * dx + dy * dy);
+  private async lockDefender(
+    db: NodePgDatabase<typeof schema>,
+    defenderVillageId: string,
+  ): Promise<void> {
+    await db
+      .select({ id: villages.id })
+      .from(villages)
+      .where(eq(villages.id, defenderVillageId))
+      .for('update');
+
+    const [activeBattle] = await db
+      .select({ id: battles.id })
+      .from(battles)
+      .where(
+        and(
+          eq(battles.defenderId, defenderVillageId),
+          inArray(battles.status, LIVE_BATTLE_STATUSES),
+        ),
+      )
+      .limit(1);
+
+    if (activeBattle) {
+      throw new ConflictException('This village is already under attack');
+    }
   }
 
   /**
-   * Get random spawn position (edge of map)
+   * Stop attacks on a shielded village
+   * Checked again after lockDefender, so a shield granted in the meantime isn't missed
    */
-  private getRandomSpawnPosition(): { x: number; y: number } {
-    const MAP_SIZE = 40;
-    const edge = Math.floor(Math.random() * 4); // 0: top, 1: right, 2: bottom, 3: left
+  private async assertNotShielded(
+    db: NodePgDatabase<typeof schema>,
+    defenderVillageId: string,
+  ): Promise<void> {
+    const [defender] = await db
+      .select({ shieldExpiresAt: villages.shieldExpiresAt })
+      .from(villages)
+      .where(eq(villages.id, defenderVillageId))
+      .limit(1);
 
-    switch (edge) {
-      case 0: // top
-        return { x: Math.random() * MAP_SIZE, y: 0 };
-      case 1: // right
-        return { x: MAP_SIZE, y: Math.random() * MAP_SIZE };
-      case 2: // bottom
-        return { x: Math.random() * MAP_SIZE, y: MAP_SIZE };
-      case 3: // left
-        return { x: 0, y: Math.random() * MAP_SIZE };
-      default:
-        return { x: 0, y: 0 };
+    if (defender?.shieldExpiresAt && defender.shieldExpiresAt > new Date()) {
+      throw new ForbiddenException('This village is protected by a shield');
     }
   }
 
   /**
-   * Calculate loot based on destruction percentage
+   * Stop attacks on any village but the attacker's unexpired match
+   * Locks the attacker, so a search running at the same time can't swap the match underneath
    */
-  private async calculateLoot(
+  private async assertCurrentMatch(
+    db: NodePgDatabase<typeof schema>,
+    attackerVillageId: string,
     defenderVillageId: string,
-    destructionPercentage: number,
-  ): Promise<{ lootGold: number; lootElixir: number }> {
-    // Get defender's resources
-    const [defenderResources] = await this.db
-      .select()
-      .from(resources)
-      .where(eq(resources.villageId, defenderVillageId))
+  ): Promise<void> {
+    const [attacker] = await db
+      .select({
+        matchedVillageId: villages.matchedVillageId,
+        matchExpiresAt: villages.matchExpiresAt,
+      })
+      .from(villages)
+      .where(eq(villages.id, attackerVillageId))
+      .for('update');
+
+    if (
+      attacker?.matchedVillageId !== defenderVillageId ||
+      !attacker.matchExpiresAt ||
+      attacker.matchExpiresAt <= new Date()
+    ) {
+      throw new ForbiddenException('This village is not your current match');
+    }
+  }
+
+  /**
+   * Attacking shortens the attacker's own shield, and breaks it when less than the penalty is left
+   */
+  private async reduceShield(attackerVillageId: string): Promise<void> {
+    const [attacker] = await this.db
+      .select({ shieldExpiresAt: villages.shieldExpiresAt })
+      .from(villages)
+      .where(eq(villages.id, attackerVillageId))
       .limit(1);
 
-    if (!defenderResources) {
-      return { lootGold: 0, lootElixir: 0 };
-    }
+    if (!attacker?.shieldExpiresAt) return;
 
-    // Loot formula: percentage of available resources based on destruction
-    // Max loot: 20% of available resources at 100% destruction
-    const lootPercentage = (destructionPercentage / 100) * 0.2; // 0% to 20%
+    const reduced = attacker.shieldExpiresAt.getTime() - SHIELD_CONFIG.attackPenalty * 1000;
+    await this.db
+      .update(villages)
+      .set({
+        shieldExpiresAt: reduced > Date.now() ? new Date(reduced) : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(villages.id, attackerVillageId));
+  }
+
+  /**
+   * Award and deduct trophies for a finished battle inside a transaction
+   * Both village rows are locked so concurrent battles work from the latest trophy counts
+   */
+  private async applyTrophies(
+    db: NodePgDatabase<typeof schema>,
+    attackerVillageId: string,
+    defenderVillageId: string,
+    stars: number,
+  ): Promise<TrophyChanges> {
+    const rows = await db
+      .select({ id: villages.id, trophies: villages.trophies })
+      .from(villages)
+      .where(inArray(villages.id, [attackerVillageId, defenderVillageId]))
+      .for('update');
+
+    const attackerTrophies = rows.find((v) => v.id === attackerVillageId)?.trophies ?? 0;
+    const defenderTrophies = rows.find((v) => v.id === defenderVillageId)?.trophies ?? 0;
+    const changes = calculateTrophyChanges(attackerTrophies, defenderTrophies, stars);
+
+    for (const [villageId, change] of [
+      [attackerVillageId, changes.attackerTrophyChange],
+      [defenderVillageId, changes.defenderTrophyChange],
+    ] as const) {
+      if (change !== 0) {
+        await db
+          .update(villages)
+          .set({ trophies: sql`${villages.trophies} + ${change}`, updatedAt: new Date() })
+          .where(eq(villages.id, villageId));
+      }
+    }
 
-    const lootGold = Math.floor(defenderResources.gold * lootPercentage);
-    const lootElixir = Math.floor(defenderResources.elixir * lootPercentage);
+    console.log(
+      `Trophies: attacker ${attackerTrophies} (${changes.attackerTrophyChange}), defender ${defenderTrophies} (${changes.defenderTrophyChange})`,
+    );
 
-    return { lootGold, lootElixir };
+    return changes;
   }
 
   /**
@@ -425,35 +483,42 @@ export class BattlesService {
     defenderId: string,
     attackerTroops: { type: TroopType; count: number }[],
   ): Promise<Battle> {
+    await this.assertNotShielded(this.db, defenderId);
+    await this.reduceShield(attackerId);
+
     // Simulate battle
     const result = await this.simulateBattle(attackerId, defenderId, attackerTroops);
 
-    // Create battle record
-    const [battle] = await this.db
-      .insert(battles)
-      .values({
-        attackerId,
-        defenderId,
-        attackerTroops: attackerTroops as any,
-        destructionPercentage: result.destructionPercentage,
-        stars: result.stars,
-        lootGold: result.lootGold,
-        lootElixir: result.lootElixir,
-        battleLog: result.battleLog as any,
-        status: 'completed',
-      })
-      .returning();
-
-    // Give loot to attacker (increment existing resources)
-    if (result.lootGold > 0 || result.lootElixir > 0) {
-      await this.db
-        .update(resources)
-        .set({
-          gold: sql`${resources.gold} + ${result.lootGold}`,
-          elixir: sql`${resources.elixir} + ${result.lootElixir}`,
+    // Move the loot and create the battle record together
+    const battle = await this.db.transaction(async (tx) => {
+      await this.lockDefender(tx, defenderId);
+      await this.assertNotShielded(tx, defenderId);
+      const loot = await this.transferLoot(tx, attackerId, defenderId, result.loot);
+      const trophies = await this.applyTrophies(tx, attackerId, defenderId, result.stars);
+      await this.applyShield(tx, defenderId, result.destructionPercentage);
+
+      const [created] = await tx
+        .insert(battles)
+        .values({
+          attackerId,
+          defenderId,
+          attackerTroops: attackerTroops as any,
+          deployedTroops: result.troopResults.deployed,
+          lostTroops: result.troopResults.lost,
+          destructionPercentage: result.destructionPercentage,
+          stars: result.stars,
+          ...loot,
+          ...trophies,
+          battleLog: result.battleLog as any,
+          status: BattleStatus.COMPLETED,
         })
-        .where(eq(resources.villageId, attackerId));
-    }
+        .returning();
+
+      return created;
+    });
+
+    await this.springTraps(result.sprungTrapIds);
+    await this.troopsService.removeCastleTroops(defenderId, result.garrisonLosses);
 
     return battle;
   }
@@ -553,6 +618,62 @@ export class BattlesService {
     return result;
   }
 
+  /**
+   * Check whether the defender can still take revenge for a defense
+   */
+  isRevengeAvailable(battle: Battle): boolean {
+    const windowEnd = battle.createdAt.getTime() + MATCHMAKING_CONFIG.revengeWindow * 1000;
+    return (
+      battle.status === BattleStatus.COMPLETED && !battle.revengeBattleId && Date.now() < windowEnd
+    );
+  }
+
+  /**
+   * Get a defense of this village that revenge can be taken for
+   */
+  async getRevengeableDefense(villageId: string, battleId: string): Promise<Battle> {
+    const battle = await this.getBattleById(battleId);
+
+    if (!battle || battle.defenderId !== villageId) {
+      throw new NotFoundException('Defense not found');
+    }
+
+    if (battle.revengeBattleId) {
+      throw new BadRequestException('Revenge has already been taken for this defense');
+    }
+
+    if (!this.isRevengeAvailable(battle)) {
+      throw new BadRequestException('Revenge is no longer available for this defense');
+    }
+
+    return battle;
+  }
+
+  /**
+   * Start a revenge attack against the village that attacked us
+   * Skips matchmaking and its fees; shields and the attack lock still apply
+   */
+  async startRevenge(
+    attackerId: string,
+    attackerVillageId: string,
+    defenseBattleId: string,
+    maxTroops: { type: TroopType; count: number }[],
+    maxSpells: { type: SpellType; count: number }[] = [],
+    heroTypes: HeroType[] = [],
+  ) {
+    const defense = await this.getRevengeableDefense(attackerVillageId, defenseBattleId);
+
+    return this.startBattle(
+      attackerId,
+      attackerVillageId,
+      defense.attackerId,
+      maxTroops,
+      maxSpells,
+      heroTypes,
+      defense.id,
+    );
+  }
+
   /**
    * Get a single battle by ID
    */
@@ -575,12 +696,72 @@ export class BattlesService {
     attackerVillageId: string,
     defenderVillageId: string,
     maxTroops: { type: TroopType; count: number }[],
+    maxSpells: { type: SpellType; count: number }[] = [],
+    heroTypes: HeroType[] = [],
+    revengeOfBattleId?: string, // the defense this attack avenges
   ) {
     console.log('Starting real-time battle:', { attackerId, attackerVillageId, defenderVillageId });
 
-    // Validate and deduct troops from attacker's army
-    await this.consumeTroops(attackerVillageId, maxTroops);
-    console.log('Troops consumed from army:', maxTroops);
+    await this.assertNotShielded(this.db, defenderVillageId);
+
+    // Heroes need a built altar and must be done recovering
+    const readyHeroes = await this.heroesService.getBattleHeroes(attackerVillageId);
+    const attackerHeroes = heroTypes.map((heroType) => {
+      const hero = readyHeroes.find((h) => h.type === heroType);
+      if (!hero) {
+        throw new BadRequestException(`${heroType} is not ready for battle`);
+      }
+      return { type: hero.type, level: hero.level, health: hero.health };
+    });
+
+    // Create battle record. While it is active it holds the attack lock on the defender;
+    // troops and spells are spent in the same transaction, so a failure takes back all of it
+    const newBattle: NewBattle = {
+      attackerId: attackerVillageId,
+      defenderId: defenderVillageId,
+      attackerTroops: maxTroops,
+      attackerSpells: maxSpells,
+      revengeOfBattleId,
+      status: BattleStatus.SCOUTING,
+    };
+
+    const battleRecord = await this.db.transaction(async (tx) => {
+      // Outside revenge, only the opponent matchmaking found can be attacked
+      if (!revengeOfBattleId) {
+        await this.assertCurrentMatch(tx, attackerVillageId, defenderVillageId);
+      }
+
+      await this.lockDefender(tx, defenderVillageId);
+      await this.assertNotShielded(tx, defenderVillageId);
+      const [created] = await tx.insert(battles).values(newBattle).returning();
+
+      // Use up the revenge on the defense, unless a concurrent request got there first
+      if (revengeOfBattleId) {
+        const [claimed] = await tx
+          .update(battles)
+          .set({ revengeBattleId: created.id })
+          .where(and(eq(battles.id, revengeOfBattleId), isNull(battles.revengeBattleId)))
+          .returning({ id: battles.id });
+
+        if (!claimed) {
+          throw new ConflictException('Revenge has already been taken for this defense');
+        }
+      }
+
+      // The attack uses up the match; the next search is free again
+      await tx
+        .update(villages)
+        .set({ matchedVillageId: null, matchExpiresAt: null })
+        .where(eq(villages.id, attackerVillageId));
+
+      // Validate and deduct troops from attacker's army
+      await this.consumeTroops(tx, attackerVillageId, maxTroops);
+      console.log('Troops consumed from army:', maxTroops);
+
+      await this.consumeSpells(tx, attackerVillageId, maxSpells);
+
+      return created;
+    });
 
     // Get attacker's village to find attacker name
     const attackerVillage = await this.db
@@ -606,66 +787,42 @@ export class BattlesService {
 
     const defenderId = defenderVillage[0].userId;
 
-    // Load defender's buildings with their configs
-    const defenderBuildings = await this.db
-      .select()
-      .from(buildings)
-      .where(eq(buildings.villageId, defenderVillageId));
-
-    console.log('Loaded defender buildings from DB:', defenderBuildings.map(b => ({
-      id: b.id,
-      type: b.type,
-      positionX: b.positionX,
-      positionY: b.positionY
-    })));
-
-    // Attach building configs to buildings
-    const buildingsWithConfigs = defenderBuildings.map((b) => ({
-      ...b,
-      config: getBuildingConfig(b.type as BuildingType),
-    }));
-
-    console.log('Buildings with configs:', buildingsWithConfigs.map(b => ({
-      id: b.id,
-      type: b.type,
-      positionX: b.positionX,
-      positionY: b.positionY,
-      hasConfig: !!b.config
-    })));
-
-    // Calculate total troop count
-    const totalTroopCount = maxTroops.reduce((sum, t) => sum + t.count, 0);
-
-    // Create battle record
-    const newBattle: NewBattle = {
-      attackerId: attackerVillageId,
-      defenderId: defenderVillageId,
-      attackerTroops: maxTroops,
-      status: 'active',
-    };
+    // Load defender's buildings with their configs, and the resources they hold for loot
+    const { defenderBuildings, storedResources } = await this.loadDefenderLayout(defenderVillageId);
+
+    console.log(`Loaded ${defenderBuildings.length} defender buildings from DB`);
 
-    const [battleRecord] = await this.db.insert(battles).values(newBattle).returning();
+    // Defending heroes guard their altars
+    const defenderHeroes = await this.heroesService.getBattleHeroes(defenderVillageId);
+
+    // Clan Castle troops come out when attackers get close
+    const garrison = await this.troopsService.getBattleGarrison(defenderVillageId);
+
+    await this.reduceShield(attackerVillageId);
 
     // Create battle session
-    const session = this.battleSessionManager.createSession(
+    const session = await this.battleSessionManager.createSession(
       battleRecord.id,
       attackerId,
       attackerVillageId,
       defenderId,
       defenderVillageId,
-      buildingsWithConfigs,
-      totalTroopCount,
+      defenderBuildings,
+      maxTroops,
+      maxSpells,
+      attackerHeroes,
+      defenderHeroes,
+      garrison,
+      storedResources,
     );
 
     // Notify defender if they're online
-    if (this.battlesGateway) {
-      this.battlesGateway.notifyDefenderUnderAttack(defenderId, {
-        battleId: battleRecord.id,
-        attackerVillageId,
-        attackerVillageName: attackerVillage[0].name,
-        defenderVillageId,
-      });
-    }
+    this.battleSessionManager.notifyDefender(defenderId, {
+      battleId: battleRecord.id,
+      attackerVillageId,
+      attackerVillageName: attackerVillage[0].name,
+      defenderVillageId,
+    });
 
     return {
       battleId: battleRecord.id,
@@ -680,35 +837,194 @@ export class BattlesService {
           maxHealth: b.maxHealth,
         })),
         maxTroops: session.maxTroops,
+        troops: session.troopBudget, // Troops left to deploy, by troop type
+        spells: session.spellBudget,
+        heroes: session.heroes,
+        defenders: getDefenderSnapshot(session),
+        noDeployZones: session.noDeployZones,
+        loot: getLootSummary(session),
+        clock: this.battleSessionManager.getClock(session),
       },
     };
   }
 
   /**
-   * Find a random opponent village (for PvE)
+   * Find an opponent for the attacker
+   * Searches a widening trophy band and Town Hall level range around the attacker. Villages
+   * without a Town Hall, shielded, under attack right now or attacked by this player recently
+   * are never matched. The match is recorded on the attacker: searching again while it holds
+   * skips it and costs gold, charged once a new one is found.
    */
-  async findRandomOpponent(attackerVillageId: string): Promise<string | null> {
-    console.log('findRandomOpponent - attackerVillageId:', attackerVillageId);
+  async findOpponent(
+    attackerVillageId: string,
+    skippedVillageId?: string,
+  ): Promise<{ opponentVillageId: string; nextCost: number } | null> {
+    return this.db.transaction(async (tx) => {
+      // Lock the attacker so concurrent searches queue up and each sees the last one's match
+      const [attacker] = await tx
+        .select({
+          trophies: villages.trophies,
+          matchedVillageId: villages.matchedVillageId,
+          matchExpiresAt: villages.matchExpiresAt,
+        })
+        .from(villages)
+        .where(eq(villages.id, attackerVillageId))
+        .for('update');
 
-    if (!attackerVillageId) {
-      console.error('findRandomOpponent - attackerVillageId is undefined!');
-      return null;
-    }
+      if (!attacker) {
+        throw new Error('Attacker village not found');
+      }
 
-    // Get all villages except attacker's
-    const opponents = await this.db
-      .select()
+      const [townHall] = await tx
+        .select({ level: buildings.level })
+        .from(buildings)
+        .where(
+          and(
+            eq(buildings.villageId, attackerVillageId),
+            eq(buildings.type, BuildingType.TOWN_HALL),
+          ),
+        )
+        .limit(1);
+      const attackerTownHall = townHall?.level ?? 1;
+
+      const now = new Date();
+      const currentMatch =
+        attacker.matchExpiresAt && attacker.matchExpiresAt > now ? attacker.matchedVillageId : null;
+
+      // Villages being attacked by anyone, or attacked by this player within the cooldown
+      const cutoff = new Date(Date.now() - MATCHMAKING_CONFIG.recentAttackCooldown * 1000);
+      const busy = await tx
+        .select({ defenderId: battles.defenderId })
+        .from(battles)
+        .where(
+          or(
+            inArray(battles.status, LIVE_BATTLE_STATUSES),
+            and(eq(battles.attackerId, attackerVillageId), gt(battles.createdAt, cutoff)),
+          ),
+        );
+      const excluded = new Set([attackerVillageId, ...busy.map((b) => b.defenderId)]);
+      for (const skipped of [skippedVillageId, currentMatch]) {
+        if (skipped) {
+          excluded.add(skipped);
+        }
+      }
+
+      const { trophyBand, townHallRange } = MATCHMAKING_CONFIG;
+      let match: { id: string } | undefined;
+      for (let step = 0; !match; step++) {
+        const band = Math.min(trophyBand.initial + step * trophyBand.step, trophyBand.max);
+        const range = Math.min(
+          townHallRange.initial + step * townHallRange.step,
+          townHallRange.max,
+        );
+
+        [match] = await tx
+          .select({ id: villages.id })
+          .from(villages)
+          .innerJoin(
+            buildings,
+            and(eq(buildings.villageId, villages.id), eq(buildings.type, BuildingType.TOWN_HALL)),
+          )
+          .where(
+            and(
+              notInArray(villages.id, [...excluded]),
+              or(isNull(villages.shieldExpiresAt), lte(villages.shieldExpiresAt, now)),
+              between(villages.trophies, attacker.trophies - band, attacker.trophies + band),
+              between(buildings.level, attackerTownHall - range, attackerTownHall + range),
+            ),
+          )
+          .orderBy(sql`random()`)
+          .limit(1);
+
+        if (band === trophyBand.max && range === townHallRange.max) {
+          break;
+        }
+      }
+
+      console.log(`findOpponent - matched ${match?.id ?? 'nobody'} for ${attackerVillageId}`);
+
+      if (!match) return null;
+
+      // Every search while a match holds is a skip, whether or not the client names it
+      const nextCost = getNextOpponentCost(attackerTownHall);
+      if (currentMatch) {
+        const [charged] = await tx
+          .update(resources)
+          .set({ gold: sql`${resources.gold} - ${nextCost}`, updatedAt: new Date() })
+          .where(and(eq(resources.villageId, attackerVillageId), gte(resources.gold, nextCost)))
+          .returning({ villageId: resources.villageId });
+
+        if (!charged) {
+          throw new BadRequestException('Insufficient resources');
+        }
+      }
+
+      await tx
+        .update(villages)
+        .set({
+          matchedVillageId: match.id,
+          matchExpiresAt: new Date(Date.now() + MATCHMAKING_CONFIG.matchDuration * 1000),
+        })
+        .where(eq(villages.id, attackerVillageId));
+
+      return { opponentVillageId: match.id, nextCost };
+    });
+  }
+
+  /**
+   * Scouting preview of a village before attacking it
+   * Shows the layout the battle would start with (hidden traps left out), the loot on offer
+   * and the trophies the attacker would win with three stars or lose with none
+   */
+  async getScoutingPreview(attackerVillageId: string, defenderVillageId: string) {
+    const [attackerVillage] = await this.db
+      .select({ trophies: villages.trophies })
+      .from(villages)
+      .where(eq(villages.id, attackerVillageId))
+      .limit(1);
+
+    const [defenderVillage] = await this.db
+      .select({ id: villages.id, name: villages.name, trophies: villages.trophies })
       .from(villages)
-      .where(ne(villages.id, attackerVillageId));
+      .where(eq(villages.id, defenderVillageId))
+      .limit(1);
 
-    console.log('findRandomOpponent - found opponents:', opponents.length);
+    if (!attackerVillage || !defenderVillage) {
+      throw new Error('Village not found');
+    }
 
-    if (opponents.length === 0) return null;
+    const { defenderBuildings, storedResources } = await this.loadDefenderLayout(defenderVillageId);
+    const state = createBattleState({
+      buildings: defenderBuildings,
+      maxTroops: 0,
+      storedResources,
+    });
+    const loot = getLootSummary(state);
+    const townHall = defenderBuildings.find((b) => b.type === BuildingType.TOWN_HALL);
 
-    // Return random opponent
-    const randomIndex = Math.floor(Math.random() * opponents.length);
-    console.log('findRandomOpponent - selected opponent:', opponents[randomIndex].id);
-    return opponents[randomIndex].id;
+    return {
+      village: {
+        ...defenderVillage,
+        townHallLevel: townHall?.level ?? 0,
+      },
+      buildings: state.buildings.map((b) => ({
+        id: b.id,
+        type: b.type,
+        position: b.position,
+        width: b.width,
+        height: b.height,
+      })),
+      loot: {
+        gold: loot.availableGold,
+        elixir: loot.availableElixir,
+      },
+      trophies: {
+        win: calculateTrophyChanges(attackerVillage.trophies, defenderVillage.trophies, 3)
+          .attackerTrophyChange,
+        loss: calculateTrophyChanges(attackerVillage.trophies, defenderVillage.trophies, 0)
+          .attackerTrophyChange,
+      },
+    };
   }
 
   /**
@@ -718,59 +1034,271 @@ export class BattlesService {
     battleId: string,
     destructionPercentage: number,
     stars: number,
-  ): Promise<{ lootGold: number; lootElixir: number } | null> {
+    replay?: BattleReplay,
+    heroResults: { side: 'attacker' | 'defender'; type: string; health: number }[] = [],
+    sprungTrapIds: string[] = [],
+    garrisonLosses: { type: string; count: number }[] = [],
+    troopResults: TroopResults = { deployed: [], lost: [], returned: [] },
+    lootResults: LootResults = { storage: { gold: 0, elixir: 0 }, collectors: [] },
+    uncastSpells: { type: string; count: number }[] = [],
+  ): Promise<(LootTransfer & TrophyChanges) | null> {
     console.log(`Updating battle ${battleId} results: ${destructionPercentage}% destruction, ${stars} stars`);
 
-    // Calculate loot based on destruction percentage
     const battleRecord = await this.getBattleById(battleId);
     if (!battleRecord) {
       console.error(`Battle ${battleId} not found for update`);
       return null;
     }
 
-    const { lootGold, lootElixir } = await this.calculateLoot(
-      battleRecord.defenderId,
-      destructionPercentage,
-    );
+    // Record the result, move the loot and trophies and give unused troops and spells back
+    // together, so resources and troops are never lost or doubled
+    const outcome = BATTLE_OUTCOMES[BattleStatus.COMPLETED];
+    const rewards = await this.db.transaction(async (tx) => {
+      // Only an active battle completes, so a result is never applied twice
+      if (!(await this.transitionBattle(tx, battleId, BattleStatus.COMPLETED))) {
+        return null;
+      }
 
-    // Update battle record
-    await this.db
-      .update(battles)
-      .set({
-        destructionPercentage,
-        stars,
-        lootGold,
-        lootElixir,
-        status: 'completed',
-      })
-      .where(eq(battles.id, battleId));
+      const transfer: LootTransfer = outcome.loot
+        ? await this.transferLoot(tx, battleRecord.attackerId, battleRecord.defenderId, lootResults)
+        : { lootGold: 0, lootElixir: 0, lootGoldReceived: 0, lootElixirReceived: 0 };
+      const trophies: TrophyChanges = outcome.trophies
+        ? await this.applyTrophies(tx, battleRecord.attackerId, battleRecord.defenderId, stars)
+        : { attackerTrophyChange: 0, defenderTrophyChange: 0 };
+      if (outcome.shield) {
+        await this.applyShield(tx, battleRecord.defenderId, destructionPercentage);
+      }
 
-    // Give loot to attacker
-    if (lootGold > 0 || lootElixir > 0) {
-      await this.db
-        .update(resources)
+      await tx
+        .update(battles)
         .set({
-          gold: sql`${resources.gold} + ${lootGold}`,
-          elixir: sql`${resources.elixir} + ${lootElixir}`,
+          destructionPercentage,
+          stars,
+          ...transfer,
+          ...trophies,
+          battleLog: replay as any,
+          deployedTroops: troopResults.deployed,
+          lostTroops: troopResults.lost,
+          returnedTroops: troopResults.returned,
         })
-        .where(eq(resources.villageId, battleRecord.attackerId));
+        .where(eq(battles.id, battleId));
+
+      if (outcome.refund === 'all') {
+        await this.refundBattle(tx, battleRecord);
+      } else {
+        await this.returnTroops(tx, battleRecord.attackerId, troopResults.returned);
+        await this.returnSpells(tx, battleRecord.attackerId, uncastSpells);
+      }
+      return { ...transfer, ...trophies };
+    });
+
+    if (!rewards) {
+      console.error(`Battle ${battleId} is no longer active, result not recorded`);
+      return null;
+    }
+
+    // Hurt heroes start recovering
+    for (const hero of heroResults) {
+      await this.heroesService.recordBattleHealth(
+        hero.side === 'attacker' ? battleRecord.attackerId : battleRecord.defenderId,
+        hero.type as HeroType,
+        hero.health,
+      );
+    }
 
-      console.log(`Awarded ${lootGold} gold and ${lootElixir} elixir to attacker`);
+    await this.springTraps(sprungTrapIds);
+    await this.troopsService.removeCastleTroops(battleRecord.defenderId, garrisonLosses);
+
+    return rewards;
+  }
+
+  /**
+   * Credit troops back to a village's army
+   */
+  private async returnTroops(
+    db: NodePgDatabase<typeof schema>,
+    villageId: string,
+    troops: { type: string; count: number }[],
+  ): Promise<void> {
+    for (const troopGroup of troops) {
+      const [armyRecord] = await db
+        .select()
+        .from(army)
+        .where(and(eq(army.villageId, villageId), eq(army.troopType, troopGroup.type)))
+        .limit(1);
+
+      if (armyRecord) {
+        await db
+          .update(army)
+          .set({
+            count: sql`${army.count} + ${troopGroup.count}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(army.id, armyRecord.id));
+      } else {
+        await db.insert(army).values({
+          villageId,
+          troopType: troopGroup.type,
+          count: troopGroup.count,
+        });
+      }
+
+      console.log(`Returned ${troopGroup.count} ${troopGroup.type} to village ${villageId}`);
     }
+  }
 
-    return { lootGold, lootElixir };
+  /**
+   * Credit spells back to a village
+   */
+  private async returnSpells(
+    db: NodePgDatabase<typeof schema>,
+    villageId: string,
+    spellGroups: { type: string; count: number }[],
+  ): Promise<void> {
+    for (const spellGroup of spellGroups) {
+      const [spellRecord] = await db
+        .select()
+        .from(spells)
+        .where(and(eq(spells.villageId, villageId), eq(spells.spellType, spellGroup.type)))
+        .limit(1);
+
+      if (spellRecord) {
+        await db
+          .update(spells)
+          .set({
+            count: sql`${spells.count} + ${spellGroup.count}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(spells.id, spellRecord.id));
+      } else {
+        await db.insert(spells).values({
+          villageId,
+          spellType: spellGroup.type,
+          count: spellGroup.count,
+        });
+      }
+    }
   }
 
   /**
-   * Consume troops from army when starting a battle
+   * Move a battle to a new state
+   * Only succeeds from a state that may lead there (see battle-lifecycle.ts); returns the
+   * updated battle, or null if it was somewhere else (already closed by someone else)
+   */
+  private async transitionBattle(
+    db: NodePgDatabase<typeof schema>,
+    battleId: string,
+    to: BattleStatus,
+  ): Promise<Battle | null> {
+    const [battle] = await db
+      .update(battles)
+      .set({ status: to })
+      .where(and(eq(battles.id, battleId), inArray(battles.status, getSourceStatuses(to))))
+      .returning();
+
+    return battle ?? null;
+  }
+
+  /**
+   * Record that the battle clock started (first deploy, or scouting ran out)
+   */
+  async markBattleActive(battleId: string): Promise<void> {
+    const battle = await this.transitionBattle(this.db, battleId, BattleStatus.ACTIVE);
+    if (!battle) {
+      console.error(`Battle ${battleId} could not be marked active`);
+    }
+  }
+
+  /**
+   * Give the attacker back every troop and spell they brought to a battle
+   */
+  private async refundBattle(db: NodePgDatabase<typeof schema>, battle: Battle): Promise<void> {
+    const returned = battle.attackerTroops as { type: string; count: number }[];
+
+    await db.update(battles).set({ returnedTroops: returned }).where(eq(battles.id, battle.id));
+    await this.returnTroops(db, battle.attackerId, returned);
+    await this.returnSpells(
+      db,
+      battle.attackerId,
+      battle.attackerSpells as { type: string; count: number }[],
+    );
+  }
+
+  /**
+   * Abort a battle the attacker ended before deploying anything
+   * Nothing happened to the defender, so the attacker gets everything back
+   */
+  async abortBattle(battleId: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const battle = await this.transitionBattle(tx, battleId, BattleStatus.ABORTED);
+      if (!battle) {
+        return false;
+      }
+
+      if (BATTLE_OUTCOMES[BattleStatus.ABORTED].refund === 'all') {
+        await this.refundBattle(tx, battle);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Close a battle whose session is gone (e.g. the server restarted mid-battle)
+   * It is aborted if nothing was deployed yet and abandoned otherwise; either way nothing
+   * records what was used, so the attacker gets every troop and spell they brought back.
+   * Battles created after the cutoff are still being set up and are left alone.
+   */
+  private async closeOrphanedBattle(battleId: string, cutoff: Date): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [battle] = await tx
+        .select()
+        .from(battles)
+        .where(
+          and(
+            eq(battles.id, battleId),
+            inArray(battles.status, LIVE_BATTLE_STATUSES),
+            lt(battles.createdAt, cutoff),
+          ),
+        )
+        .limit(1);
+
+      const status = battle && getOrphanedStatus(battle.status as BattleStatus);
+      if (!status || !(await this.transitionBattle(tx, battleId, status))) {
+        return false;
+      }
+
+      if (BATTLE_OUTCOMES[status].refund === 'all') {
+        await this.refundBattle(tx, battle);
+      }
+
+      console.log(`Battle ${battleId} ${status}: session lost while ${battle.status}`);
+      return true;
+    });
+  }
+
+  /**
+   * Traps that went off stay sprung until their owner rearms them
+   */
+  private async springTraps(trapIds: string[]): Promise<void> {
+    if (trapIds.length === 0) return;
+
+    await this.db
+      .update(buildings)
+      .set({ isArmed: false, updatedAt: new Date() })
+      .where(inArray(buildings.id, trapIds));
+  }
+
+  /**
+   * Consume troops from army when starting a battle, inside a transaction
    */
   private async consumeTroops(
+    db: NodePgDatabase<typeof schema>,
     villageId: string,
     troops: { type: TroopType; count: number }[],
   ): Promise<void> {
     for (const troopGroup of troops) {
       // Get current troop count
-      const [armyRecord] = await this.db
+      const [armyRecord] = await db
         .select()
         .from(army)
         .where(
@@ -792,7 +1320,7 @@ export class BattlesService {
       }
 
       // Deduct troops
-      await this.db
+      await db
         .update(army)
         .set({
           count: sql`${army.count} - ${troopGroup.count}`,
@@ -804,6 +1332,37 @@ export class BattlesService {
     }
   }
 
+  /**
+   * Consume spells from the village when starting a battle, inside a transaction
+   */
+  private async consumeSpells(
+    db: NodePgDatabase<typeof schema>,
+    villageId: string,
+    spellGroups: { type: SpellType; count: number }[],
+  ): Promise<void> {
+    for (const spellGroup of spellGroups) {
+      const [spellRecord] = await db
+        .select()
+        .from(spells)
+        .where(and(eq(spells.villageId, villageId), eq(spells.spellType, spellGroup.type)))
+        .limit(1);
+
+      if (!spellRecord || spellRecord.count < spellGroup.count) {
+        throw new Error(
+          `Insufficient spells: have ${spellRecord?.count ?? 0} ${spellGroup.type}, need ${spellGroup.count}`,
+        );
+      }
+
+      await db
+        .update(spells)
+        .set({
+          count: sql`${spells.count} - ${spellGroup.count}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(spells.id, spellRecord.id));
+    }
+  }
+
   /**
    * Get active battles for a user (ongoing battles they can rejoin)
    */
@@ -830,26 +1389,23 @@ export class BattlesService {
       .where(
         and(
           eq(battles.attackerId, villageId),
-          eq(battles.status, 'active'),
+          inArray(battles.status, LIVE_BATTLE_STATUSES),
         ),
       )
       .orderBy(desc(battles.createdAt))
       .limit(20);
 
-    // Filter out battles where session no longer exists and mark them as completed
+    // Filter out battles where session no longer exists and close them
+    const cutoff = new Date(Date.now() - STALE_BATTLE_GRACE_MS);
     const validBattles = [];
     for (const battle of activeBattles) {
-      const session = this.battleSessionManager.getSession(battle.id);
-      if (session) {
+      if (await this.battleSessionManager.isSessionLive(battle.id)) {
         validBattles.push(battle);
       } else {
-        // Session doesn't exist but battle is marked active - clean it up
+        // Session doesn't exist but battle is still live - clean it up
         console.log(`Cleaning up stale battle ${battle.id} - session not found`);
         try {
-          await this.db
-            .update(battles)
-            .set({ status: 'completed' })
-            .where(eq(battles.id, battle.id));
+          await this.closeOrphanedBattle(battle.id, cutoff);
         } catch (error) {
           console.error(`Failed to cleanup stale battle ${battle.id}:`, error);
         }
@@ -884,29 +1440,34 @@ export class BattlesService {
   }
 
   /**
-   * Cleanup stale battles (battles marked active but with no session)
+   * Cleanup stale battles (battles still live but with no session)
    * Should be called periodically
    */
   async cleanupStaleBattles(): Promise<number> {
+    return this.reconcileOrphanedBattles(STALE_BATTLE_GRACE_MS);
+  }
+
+  /**
+   * Close every live battle that has no session, leaving those younger than the grace period
+   * Returns how many were closed
+   */
+  private async reconcileOrphanedBattles(graceMs: number): Promise<number> {
     try {
-      // Find all active battles
-      const activeBattles = await this.db
+      const liveBattles = await this.db
         .select({ id: battles.id })
         .from(battles)
-        .where(eq(battles.status, 'active'));
+        .where(inArray(battles.status, LIVE_BATTLE_STATUSES));
 
+      const cutoff = new Date(Date.now() - graceMs);
       let cleanedCount = 0;
 
-      for (const battle of activeBattles) {
-        const session = this.battleSessionManager.getSession(battle.id);
-        if (!session) {
-          // Mark as completed
+      for (const battle of liveBattles) {
+        if (!(await this.battleSessionManager.isSessionLive(battle.id))) {
+          // Abort or abandon it and give the troops back
           try {
-            await this.db
-              .update(battles)
-              .set({ status: 'completed' })
-              .where(eq(battles.id, battle.id));
-            cleanedCount++;
+            if (await this.closeOrphanedBattle(battle.id, cutoff)) {
+              cleanedCount++;
+            }
           } catch (error) {
             console.error(`Failed to cleanup battle ${battle.id}:`, error);
           }
@@ -919,7 +1480,7 @@ export class BattlesService {
 
       return cleanedCount;
     } catch (error) {
-      console.error('Error in cleanupStaleBattles:', error);
+      console.error('Error in reconcileOrphanedBattles:', error);
       return 0;
     }
   }
@@ -928,8 +1489,8 @@ export class BattlesService {
    * Get battle session by session ID for rejoining
    */
   async getBattleSessionById(sessionId: string, userId: string) {
-    // Get the battle session from the session manager
-    const session = this.battleSessionManager.getSession(sessionId);
+    // Get the battle session from the session manager, wherever it runs
+    const session = await this.battleSessionManager.findSession(sessionId);
 
     if (!session) {
       console.log(`Session ${sessionId} not found in manager`);
@@ -944,8 +1505,8 @@ export class BattlesService {
 
     // Get battle record (session.id is the battle ID)
     const battle = await this.getBattleById(session.id);
-    if (!battle || battle.status !== 'active') {
-      console.log(`Battle ${session.id} not found or not active`);
+    if (!battle || !LIVE_BATTLE_STATUSES.includes(battle.status as BattleStatus)) {
+      console.log(`Battle ${session.id} not found or not live`);
       return null;
     }
 
@@ -954,8 +1515,15 @@ export class BattlesService {
       session: {
         id: session.id,
         status: session.status,
-        buildings: session.buildings,
+        buildings: session.state.buildings,
         maxTroops: session.maxTroops,
+        troops: session.troopBudget, // Troops left to deploy, by troop type
+        spells: session.spellBudget, // Spells left to cast
+        heroes: session.heroes, // Heroes not deployed yet
+        defenders: session.defenders,
+        noDeployZones: session.noDeployZones,
+        loot: session.state.loot,
+        clock: session.state.clock,
       },
       troops: battle.attackerTroops, // Include troops from battle record for rejoin
     };
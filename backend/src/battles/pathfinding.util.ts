@@ -3,7 +3,7 @@
  * Implements A* pathfinding with wall detection
  */
 
-import { Building, Troop } from './battle-session.manager';
+import { Building, Troop } from './battle-engine';
 
 export interface GridNode {
   x: number;
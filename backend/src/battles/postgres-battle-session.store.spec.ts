@@ -0,0 +1,26 @@
+import { MessageAssembler, encodeMessage } from './postgres-battle-session.store';
+
+describe('postgres battle session store notifications', () => {
+  it('sends a long message in parts and puts it back together', () => {
+    const message = { kind: 'broadcast', text: 'Château ⚔ '.repeat(2000) };
+    const payloads = encodeMessage('instance-a', '7', message);
+
+    expect(payloads.length).toBeGreaterThan(1);
+    payloads.forEach((payload) => expect(Buffer.byteLength(payload)).toBeLessThan(8000));
+
+    const assembler = new MessageAssembler();
+    const received = payloads.map((payload) => assembler.add(payload));
+    expect(received.slice(0, -1)).toEqual(payloads.slice(1).map(() => null));
+    expect(received[received.length - 1]).toEqual({ from: 'instance-a', message });
+  });
+
+  it('keeps the messages of different senders apart', () => {
+    const assembler = new MessageAssembler();
+    const [firstA, secondA] = encodeMessage('a', '1', { text: 'x'.repeat(10000) });
+    const [onlyB] = encodeMessage('b', '1', { text: 'short|with|bars' });
+
+    expect(assembler.add(firstA)).toBeNull();
+    expect(assembler.add(onlyB)).toEqual({ from: 'b', message: { text: 'short|with|bars' } });
+    expect(assembler.add(secondA)).toEqual({ from: 'a', message: { text: 'x'.repeat(10000) } });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Postgres battle session store
+ * Checkpoints and claims are rows in battle_sessions. Broadcasts, requests and replies go
+ * between instances as notifications on a single LISTEN/NOTIFY channel.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import postgres from 'postgres';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { and, eq, gt, inArray, lt, notInArray, sql } from 'drizzle-orm';
+import * as schema from '../database/schema';
+import { battles } from '../database/schema/battles.schema';
+import { battleSessions } from '../database/schema/battle-sessions.schema';
+import { LIVE_BATTLE_STATUSES } from './battle-lifecycle';
+import {
+  BattleBroadcast,
+  BattleSessionStore,
+  SessionCheckpoint,
+  SessionRequest,
+  SessionRequestHandler,
+} from './battle-session.store';
+
+const CHANNEL = 'battle_sessions';
+
+// A claim lapses when it isn't renewed for this long; the instance running a session renews
+// it far more often (see CLAIM_RENEW_MS in the session manager)
+const CLAIM_TTL_SECONDS = 15;
+
+// How long to wait for the instance running a battle to answer a request
+const REQUEST_TIMEOUT_MS = 2000;
+
+// NOTIFY payloads are capped at 8000 bytes, so longer messages are sent in parts
+const MAX_PART_LENGTH = 7500;
+
+type StoreMessage =
+  | { kind: 'broadcast'; broadcast: BattleBroadcast }
+  | { kind: 'request'; requestId: string; battleId: string; request: SessionRequest }
+  | { kind: 'reply'; to: string; requestId: string; result: unknown };
+
+/**
+ * Split a message into notification payloads: `from|id|part|parts|body`
+ * Anything outside ASCII is escaped first, so cutting the body by length keeps each part
+ * within the byte limit
+ */
+export function encodeMessage(from: string, messageId: string, message: unknown): string[] {
+  const body = JSON.stringify(message).replace(
+    /[\u0080-￿]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+  const parts = Math.max(1, Math.ceil(body.length / MAX_PART_LENGTH));
+
+  return Array.from(
+    { length: parts },
+    (_, part) =>
+      `${from}|${messageId}|${part}|${parts}|${body.slice(part * MAX_PART_LENGTH, (part + 1) * MAX_PART_LENGTH)}`,
+  );
+}
+
+/**
+ * Puts messages back together from their notifications
+ * Each instance sends one notification at a time, so at most one message per sender is
+ * incomplete at any moment
+ */
+export class MessageAssembler {
+  private incomplete = new Map<string, { messageId: string; parts: string[]; received: number }>();
+
+  add(payload: string): { from: string; message: unknown } | null {
+    const [from, messageId, part, parts] = payload.split('|', 4);
+    const body = payload.slice(from.length + messageId.length + part.length + parts.length + 4);
+
+    if (parts === '1') {
+      return { from, message: JSON.parse(body) };
+    }
+
+    let message = this.incomplete.get(from);
+    if (!message || message.messageId !== messageId) {
+      message = { messageId, parts: [], received: 0 };
+      this.incomplete.set(from, message);
+    }
+    message.parts[Number(part)] = body;
+    message.received++;
+
+    if (message.received < Number(parts)) {
+      return null;
+    }
+
+    this.incomplete.delete(from);
+    return { from, message: JSON.parse(message.parts.join('')) };
+  }
+}
+
+export class PostgresBattleSessionStore implements BattleSessionStore {
+  readonly instanceId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+  private listeners: ((broadcast: BattleBroadcast) => void)[] = [];
+  private handler: SessionRequestHandler | null = null;
+  private pendingRequests = new Map<string, (result: unknown) => void>();
+  private assembler = new MessageAssembler();
+  private messageCount = 0;
+  // Notifications go out one after another so other instances receive them in order
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private db: NodePgDatabase<typeof schema>,
+    private client: postgres.Sql,
+  ) {}
+
+  async start() {
+    await this.client.listen(CHANNEL, (payload) => this.receive(payload));
+    console.log(`Battle sessions shared through Postgres as instance ${this.instanceId}`);
+  }
+
+  async save(checkpoint: SessionCheckpoint): Promise<boolean> {
+    const saved = await this.db
+      .insert(battleSessions)
+      .values({
+        battleId: checkpoint.battleId,
+        ownerId: this.instanceId,
+        claimExpiresAt: claimExpiry(),
+        checkpoint,
+      })
+      .onConflictDoUpdate({
+        target: battleSessions.battleId,
+        set: { checkpoint, claimExpiresAt: claimExpiry(), updatedAt: new Date() },
+        where: eq(battleSessions.ownerId, this.instanceId),
+      })
+      .returning({ battleId: battleSessions.battleId });
+
+    return saved.length > 0;
+  }
+
+  async takeOver(battleId?: string): Promise<SessionCheckpoint[]> {
+    // Sessions of battles that were closed in the meantime have nothing left to resume
+    await this.db
+      .delete(battleSessions)
+      .where(
+        notInArray(
+          battleSessions.battleId,
+          this.db
+            .select({ id: battles.id })
+            .from(battles)
+            .where(inArray(battles.status, LIVE_BATTLE_STATUSES)),
+        ),
+      );
+
+    // Row locks make sure each lapsed claim goes to exactly one instance
+    const claimed = await this.db
+      .update(battleSessions)
+      .set({ ownerId: this.instanceId, claimExpiresAt: claimExpiry(), updatedAt: new Date() })
+      .where(
+        and(
+          lt(battleSessions.claimExpiresAt, sql`now()`),
+          battleId ? eq(battleSessions.battleId, battleId) : undefined,
+        ),
+      )
+      .returning({ checkpoint: battleSessions.checkpoint });
+
+    return claimed.map((row) => row.checkpoint as SessionCheckpoint);
+  }
+
+  async isClaimed(battleId: string): Promise<boolean> {
+    const [claim] = await this.db
+      .select({ battleId: battleSessions.battleId })
+      .from(battleSessions)
+      .where(
+        and(eq(battleSessions.battleId, battleId), gt(battleSessions.claimExpiresAt, sql`now()`)),
+      )
+      .limit(1);
+
+    return !!claim;
+  }
+
+  async release(battleId: string): Promise<void> {
+    await this.db
+      .delete(battleSessions)
+      .where(
+        and(eq(battleSessions.battleId, battleId), eq(battleSessions.ownerId, this.instanceId)),
+      );
+  }
+
+  async publish(broadcast: BattleBroadcast): Promise<void> {
+    this.deliver(broadcast);
+    await this.send({ kind: 'broadcast', broadcast });
+  }
+
+  subscribe(listener: (broadcast: BattleBroadcast) => void) {
+    this.listeners.push(listener);
+  }
+
+  async request<T>(battleId: string, request: SessionRequest): Promise<T | undefined> {
+    const requestId = randomUUID();
+
+    const reply = new Promise<T | undefined>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        resolve(undefined);
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pendingRequests.set(requestId, (result) => {
+        clearTimeout(timeout);
+        this.pendingRequests.delete(requestId);
+        resolve(result as T);
+      });
+    });
+
+    await this.send({ kind: 'request', requestId, battleId, request });
+    return reply;
+  }
+
+  serve(handler: SessionRequestHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * Queue a message for the other instances; never rejects, failures are logged
+   */
+  private send(message: StoreMessage): Promise<void> {
+    const payloads = encodeMessage(this.instanceId, String(++this.messageCount), message);
+
+    this.sending = this.sending
+      .then(async () => {
+        for (const payload of payloads) {
+          await this.client.notify(CHANNEL, payload);
+        }
+      })
+      .catch((error) => console.error('Failed to notify other instances:', error));
+
+    return this.sending;
+  }
+
+  private async receive(payload: string) {
+    // Our own notifications come back too; they were already handled here
+    if (payload.startsWith(`${this.instanceId}|`)) return;
+
+    let received: { from: string; message: unknown } | null;
+    try {
+      received = this.assembler.add(payload);
+    } catch (error) {
+      console.error('Dropped a malformed battle session notification:', error);
+      return;
+    }
+    if (!received) return;
+
+    const message = received.message as StoreMessage;
+    switch (message.kind) {
+      case 'broadcast':
+        this.deliver(message.broadcast);
+        break;
+      case 'request': {
+        let result: unknown;
+        try {
+          result = await this.handler?.(message.battleId, message.request);
+        } catch (error) {
+          console.error('Battle session request handler failed:', error);
+          return;
+        }
+
+        // Only the instance running the battle answers
+        if (result !== undefined) {
+          await this.send({
+            kind: 'reply',
+            to: received.from,
+            requestId: message.requestId,
+            result,
+          });
+        }
+        break;
+      }
+      case 'reply':
+        if (message.to === this.instanceId) {
+          this.pendingRequests.get(message.requestId)?.(message.result);
+        }
+        break;
+    }
+  }
+
+  private deliver(broadcast: BattleBroadcast) {
+    for (const listener of this.listeners) {
+      try {
+        listener(broadcast);
+      } catch (error) {
+        console.error('Battle broadcast listener failed:', error);
+      }
+    }
+  }
+}
+
+function claimExpiry() {
+  return sql`now() + interval '${sql.raw(String(CLAIM_TTL_SECONDS))} seconds'`;
+}
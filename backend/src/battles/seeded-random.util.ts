@@ -0,0 +1,44 @@
+/**
+ * Seeded random number generator for battle simulation
+ * Uses mulberry32 so the whole generator state is a single 32-bit integer
+ * that can be stored alongside a battle and resumed later
+ */
+
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+/**
+ * Create a fresh random seed (for new battles)
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create generator state from a seed
+ */
+export function createRandomState(seed: number): RandomState {
+  return { seed: seed >>> 0, state: seed >>> 0 };
+}
+
+/**
+ * Get the next random number in [0, 1) and advance the generator
+ */
+export function nextRandom(rng: RandomState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Get a random integer in [min, max)
+ */
+export function nextRandomInt(rng: RandomState, min: number, max: number): number {
+  return min + Math.floor(nextRandom(rng) * (max - min));
+}
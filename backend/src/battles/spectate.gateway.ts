@@ -11,9 +11,10 @@ import {
 import { Server, Socket } from 'socket.io';
 import { Inject, forwardRef } from '@nestjs/common';
 import { BattleSessionManager } from './battle-session.manager';
+import { BattleEventType, PERIODIC_EVENT_TYPES } from './battle-engine';
 
 export interface BattleEvent {
-  type: 'TROOP_SPAWN' | 'TROOP_MOVE' | 'TROOP_ATTACK' | 'TROOP_DEATH' | 'BUILDING_ATTACK' | 'BUILDING_DESTROYED' | 'BATTLE_END';
+  type: BattleEventType;
   timestamp: number;
   data: any;
 }
@@ -93,17 +94,13 @@ export class SpectateGateway implements OnGatewayInit, OnGatewayConnection, OnGa
 
     console.log(`[Spectate] Client ${client.id} joining battle ${battleId} as spectator`);
 
-    // Get battle session to send initial state
-    const session = this.battleSessionManager.getSession(battleId);
-    console.log(`[Spectate] Session found: ${!!session}, Troops count: ${session?.troops?.length || 0}, Buildings count: ${session?.buildings?.length || 0}`);
-    if (session && session.troops.length > 0) {
-      console.log(`[Spectate] First troop:`, {
-        id: session.troops[0].id,
-        type: session.troops[0].type,
-        position: session.troops[0].position,
-        health: session.troops[0].health,
-        isAlive: session.troops[0].isAlive,
-      });
+    // Get battle session to send initial state (it may run on another instance)
+    const session = await this.battleSessionManager.findSession(battleId);
+    console.log(
+      `[Spectate] Session found: ${!!session}, Troops count: ${session?.state.troops.length || 0}, Buildings count: ${session?.state.buildings.length || 0}`,
+    );
+    if (session && session.state.troops.length > 0) {
+      console.log(`[Spectate] First troop:`, session.state.troops[0]);
     }
 
     // Join the socket.io room
@@ -123,33 +120,29 @@ export class SpectateGateway implements OnGatewayInit, OnGatewayConnection, OnGa
       success: true,
       message: 'Joined battle as spectator',
       isSpectator: true,
-      session: session ? {
-        id: session.id,
-        status: session.status,
-        buildings: session.buildings.map((b) => ({
-          id: b.id,
-          type: b.type,
-          position: b.position,
-          health: b.health,
-          maxHealth: b.maxHealth,
-          isDestroyed: b.isDestroyed,
-        })),
-        troops: session.troops.map((t) => ({
-          id: t.id,
-          type: t.type,
-          position: t.position,
-          health: t.health,
-          maxHealth: t.maxHealth,
-        })),
-        destructionPercentage: session.destructionPercentage,
-      } : null,
+      state: session ? session.state : null,
     };
 
-    console.log(`[Spectate] Sending response with ${response.session?.troops?.length || 0} troops and ${response.session?.buildings?.length || 0} buildings`);
+    console.log(
+      `[Spectate] Sending state with ${response.state?.troops.length || 0} troops and ${response.state?.buildings.length || 0} buildings`,
+    );
 
     return response;
   }
 
+  /**
+   * Send the current battle state again, e.g. when the spectator suspects it missed events
+   */
+  @SubscribeMessage('battleState')
+  async handleBattleState(@MessageBody() payload: { battleId: string }) {
+    const session = await this.battleSessionManager.findSession(payload.battleId);
+    if (!session) {
+      return { success: false, message: 'Battle not found or has ended' };
+    }
+
+    return { success: true, state: session.state };
+  }
+
   /**
    * Leave a battle room
    */
@@ -180,8 +173,12 @@ export class SpectateGateway implements OnGatewayInit, OnGatewayConnection, OnGa
       console.warn(`[Spectate] Cannot broadcast ${event.type} - server not initialized`);
       return;
     }
-    const spectatorCount = this.battleSpectators.get(battleId)?.size || 0;
-    console.log(`[Spectate] Broadcasting ${event.type} to battle ${battleId} (${spectatorCount} spectators)`);
+    if (!PERIODIC_EVENT_TYPES.includes(event.type)) {
+      const spectatorCount = this.battleSpectators.get(battleId)?.size || 0;
+      console.log(
+        `[Spectate] Broadcasting ${event.type} to battle ${battleId} (${spectatorCount} spectators)`,
+      );
+    }
     this.server.to(battleId).emit('battleEvent', event);
   }
 
@@ -3,7 +3,8 @@
  * Implements Clash of Clans-style troop behavior
  */
 
-import { Building, Troop } from './battle-session.manager';
+import { Building, Troop } from './battle-engine';
+import { TROOP_CONFIGS, TroopType } from '../common/config/troops.config';
 import { hasLineOfSight, findWallsInPath } from './pathfinding.util';
 
 export interface TargetInfo {
@@ -22,6 +23,12 @@ export function findBestTarget(
 ): TargetInfo | null {
   const troopType = troop.type.toUpperCase();
 
+  // Flying troops ignore walls entirely
+  if (troop.targetType === 'air') {
+    const prefersDefenses = TROOP_CONFIGS[troop.type as TroopType]?.targetPreference === 'DEFENSES';
+    return findTargetForAirTroop(troop, buildings, prefersDefenses);
+  }
+
   switch (troopType) {
     case 'WALL_BREAKER':
       return findTargetForWallBreaker(troop, buildings);
@@ -35,6 +42,29 @@ export function findBestTarget(
   }
 }
 
+/**
+ * Find the closest enemy unit (e.g. a Clan Castle troop) a troop should fight
+ * Units within the aggro radius pull the troop off its building target;
+ * melee troops can't reach flying units
+ */
+export function findUnitTarget(troop: Troop, units: Troop[], aggroRadius: number): Troop | null {
+  let closest: Troop | null = null;
+  let minDistance = Infinity;
+
+  for (const unit of units) {
+    if (!unit.isAlive) continue;
+    if (unit.targetType === 'air' && troop.range <= 1) continue;
+
+    const distance = getDistance(troop.position, unit.position);
+    if (distance <= Math.max(aggroRadius, troop.range) && distance < minDistance) {
+      minDistance = distance;
+      closest = unit;
+    }
+  }
+
+  return closest;
+}
+
 /**
  * WALL BREAKER: Only targets walls, seeks closest wall
  */
@@ -278,6 +308,35 @@ function findTargetForBarbarian(
   };
 }
 
+/**
+ * AIR TROOPS (Balloon, Minion): fly over walls, so walls are never a target or an obstacle
+ * Priority: Defenses > Any building for defense hunters (Balloon), closest building otherwise
+ */
+function findTargetForAirTroop(
+  troop: Troop,
+  buildings: Building[],
+  prefersDefenses: boolean,
+): TargetInfo | null {
+  const nonWallBuildings = buildings.filter(
+    (b) => !b.isDestroyed && b.type.toLowerCase() !== 'wall',
+  );
+  const defenses = nonWallBuildings.filter((b) => b.isDefense);
+
+  const target =
+    prefersDefenses && defenses.length > 0
+      ? findClosestBuilding(troop, defenses, false)
+      : findClosestBuilding(troop, nonWallBuildings, false);
+
+  if (!target) return null;
+
+  return {
+    target,
+    needsToDestroyWall: false,
+    wallToDestroy: null,
+    canAttackOverWall: true,
+  };
+}
+
 // Helper functions
 
 function findClosestBuilding(
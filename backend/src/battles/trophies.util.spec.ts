@@ -0,0 +1,46 @@
+import { calculateTrophyChanges, getExpectedScore, TROPHY_K_FACTOR } from './trophies.util';
+
+describe('trophies', () => {
+  it('expects an even match between equal trophy counts', () => {
+    expect(getExpectedScore(1000, 1000)).toBe(0.5);
+    expect(getExpectedScore(1400, 1000)).toBeCloseTo(10 / 11);
+  });
+
+  it('awards more trophies for more stars and deducts them for a loss', () => {
+    const loss = calculateTrophyChanges(1000, 1000, 0);
+    const oneStar = calculateTrophyChanges(1000, 1000, 1);
+    const threeStars = calculateTrophyChanges(1000, 1000, 3);
+
+    expect(loss).toEqual({
+      attackerTrophyChange: -TROPHY_K_FACTOR / 2,
+      defenderTrophyChange: TROPHY_K_FACTOR / 2,
+    });
+    expect(oneStar.attackerTrophyChange).toBeGreaterThan(0);
+    expect(threeStars.attackerTrophyChange).toBe(TROPHY_K_FACTOR / 2);
+    expect(threeStars.defenderTrophyChange).toBe(-TROPHY_K_FACTOR / 2);
+  });
+
+  it('pays more for beating a stronger village', () => {
+    const upset = calculateTrophyChanges(800, 1200, 3);
+    const expected = calculateTrophyChanges(1200, 800, 3);
+
+    expect(upset.attackerTrophyChange).toBeGreaterThan(expected.attackerTrophyChange);
+  });
+
+  it('never costs trophies for a win or pays them for a loss', () => {
+    // One star against a far weaker village scores below what was expected of the attacker
+    const win = calculateTrophyChanges(2000, 1000, 1);
+    const loss = calculateTrophyChanges(1000, 2000, 0);
+
+    expect(win.attackerTrophyChange).toBe(0);
+    expect(win.defenderTrophyChange).toBe(0);
+    expect(loss.attackerTrophyChange).toBeLessThanOrEqual(0);
+    expect(loss.defenderTrophyChange).toBeGreaterThanOrEqual(0);
+  });
+
+  it('never takes a village below zero trophies', () => {
+    expect(calculateTrophyChanges(5, 5, 0).attackerTrophyChange).toBe(-5);
+    expect(calculateTrophyChanges(1000, 0, 3).defenderTrophyChange).toBe(0);
+    expect(calculateTrophyChanges(0, 0, 3).attackerTrophyChange).toBe(TROPHY_K_FACTOR / 2);
+  });
+});
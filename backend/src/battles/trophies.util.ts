@@ -0,0 +1,57 @@
+/**
+ * Trophy calculation for finished battles
+ * Elo-style: the attacker's expected result comes from the trophy difference, the actual result
+ * from the stars earned. Beating a stronger village pays more, losing to a weaker one costs more.
+ * Whatever the attacker gains the defender loses, and the other way round, except that nobody
+ * drops below zero trophies.
+ */
+
+// Most trophies a single battle can move
+export const TROPHY_K_FACTOR = 40;
+
+// Trophy difference at which the stronger side is expected to win 10 times out of 11
+export const TROPHY_RATING_SCALE = 400;
+
+export interface TrophyChanges {
+  attackerTrophyChange: number;
+  defenderTrophyChange: number;
+}
+
+/**
+ * Chance of the attacker winning, from 0 to 1
+ */
+export function getExpectedScore(attackerTrophies: number, defenderTrophies: number): number {
+  return 1 / (1 + Math.pow(10, (defenderTrophies - attackerTrophies) / TROPHY_RATING_SCALE));
+}
+
+/**
+ * Battle result from 0 to 1
+ * No stars is a loss; any star is a win, worth more the more stars were earned
+ */
+export function getStarScore(stars: number): number {
+  if (stars <= 0) {
+    return 0;
+  }
+  return 0.5 + (Math.min(stars, 3) / 3) * 0.5;
+}
+
+/**
+ * Trophies won or lost by each side
+ * A win never costs the attacker trophies and a loss never earns any, however lopsided the
+ * match. A loss is capped by what the loser has; the winner still gets the full amount.
+ */
+export function calculateTrophyChanges(
+  attackerTrophies: number,
+  defenderTrophies: number,
+  stars: number,
+): TrophyChanges {
+  const expected = getExpectedScore(attackerTrophies, defenderTrophies);
+  const rawSwing = Math.round(TROPHY_K_FACTOR * (getStarScore(stars) - expected));
+  const swing = stars > 0 ? Math.max(rawSwing, 0) : Math.min(rawSwing, 0);
+
+  // Positive swing is the attacker's gain and the defender's loss
+  return {
+    attackerTrophyChange: Math.max(attackerTrophies + swing, 0) - attackerTrophies,
+    defenderTrophyChange: Math.max(defenderTrophies - swing, 0) - defenderTrophies,
+  };
+}
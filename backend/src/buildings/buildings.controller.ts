@@ -96,6 +96,25 @@ export class BuildingsController {
     };
   }
 
+  @Post(':id/rearm')
+  @ApiOperation({ summary: 'Rearm a sprung trap for gold' })
+  @ApiResponse({ status: 201, description: 'Trap rearmed successfully' })
+  @ApiResponse({ status: 400, description: 'Not a sprung trap or insufficient resources' })
+  @ApiResponse({ status: 404, description: 'Building not found' })
+  async rearmTrap(@Req() req, @Param('id') id: string) {
+    const village = await this.villagesService.findByUserId(req.user.userId);
+    if (!village) {
+      return { message: 'Village not found' };
+    }
+
+    const building = await this.buildingsService.rearmTrap(id, village.id);
+
+    return {
+      message: 'Trap rearmed successfully',
+      building,
+    };
+  }
+
   @Delete(':id')
   @ApiOperation({ summary: 'Delete a building from the village' })
   @ApiResponse({ status: 200, description: 'Building deleted successfully' })
@@ -223,6 +223,17 @@ export class BuildingsService {
       throw new BadRequestException('Invalid building type');
     }
 
+    if (config.maxCount) {
+      const existing = await this.db
+        .select()
+        .from(buildings)
+        .where(and(eq(buildings.villageId, villageId), eq(buildings.type, buildingType)));
+
+      if (existing.length >= config.maxCount) {
+        throw new BadRequestException(`You can only build ${config.maxCount} ${config.name}`);
+      }
+    }
+
     // Get current resources
     const [villageResources] = await this.db
       .select()
@@ -390,6 +401,62 @@ export class BuildingsService {
     return true; // No collision
   }
 
+  async rearmTrap(buildingId: string, villageId: string): Promise<Building> {
+    // Verify trap belongs to village
+    const [trap] = await this.db
+      .select()
+      .from(buildings)
+      .where(and(eq(buildings.id, buildingId), eq(buildings.villageId, villageId)))
+      .limit(1);
+
+    if (!trap) {
+      throw new NotFoundException('Building not found');
+    }
+
+    const config = getBuildingConfig(trap.type as BuildingType);
+    if (!config.trap) {
+      throw new BadRequestException('Only traps can be rearmed');
+    }
+
+    if (trap.isArmed) {
+      throw new BadRequestException('Trap is already armed');
+    }
+
+    const [villageResources] = await this.db
+      .select()
+      .from(resources)
+      .where(eq(resources.villageId, villageId))
+      .limit(1);
+
+    if (!villageResources) {
+      throw new NotFoundException('Village resources not found');
+    }
+
+    if (villageResources.gold < config.trap.rearmCost.gold) {
+      throw new BadRequestException('Insufficient resources');
+    }
+
+    // Deduct rearm cost
+    await this.db
+      .update(resources)
+      .set({
+        gold: villageResources.gold - config.trap.rearmCost.gold,
+        updatedAt: new Date(),
+      })
+      .where(eq(resources.villageId, villageId));
+
+    const [rearmedTrap] = await this.db
+      .update(buildings)
+      .set({
+        isArmed: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(buildings.id, buildingId))
+      .returning();
+
+    return rearmedTrap;
+  }
+
   async deleteBuilding(buildingId: string, villageId: string): Promise<void> {
     // Verify building belongs to village
     const [building] = await this.db
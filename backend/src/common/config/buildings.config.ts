@@ -6,16 +6,25 @@ export enum BuildingType {
   ELIXIR_STORAGE = 'elixir_storage',
   CANNON = 'cannon',
   ARCHER_TOWER = 'archer_tower',
+  AIR_DEFENSE = 'air_defense',
+  MORTAR = 'mortar',
+  WIZARD_TOWER = 'wizard_tower',
+  BOMB = 'bomb',
+  SPRING_TRAP = 'spring_trap',
+  AIR_MINE = 'air_mine',
   WALL = 'wall',
   ARMY_CAMP = 'army_camp',
   BARRACKS = 'barracks',
+  SPELL_FACTORY = 'spell_factory',
+  BARBARIAN_KING_ALTAR = 'barbarian_king_altar',
+  CLAN_CASTLE = 'clan_castle',
 }
 
 export interface BuildingConfig {
   type: BuildingType;
   name: string;
   description: string;
-  category: 'resource' | 'defense' | 'army' | 'special';
+  category: 'resource' | 'defense' | 'army' | 'special' | 'trap';
   baseCost: {
     gold: number;
     elixir: number;
@@ -26,6 +35,7 @@ export interface BuildingConfig {
     height: number;
   };
   maxHealth: number;
+  maxCount?: number; // how many a village may build (unlimited if unset)
   // Resource generation (for mines/collectors)
   generationRate?: number; // per hour
   capacity?: number; // max storage
@@ -35,6 +45,30 @@ export interface BuildingConfig {
     range: number; // attack range in tiles
     attackSpeed: number; // seconds between shots
     targetType: 'ground' | 'air' | 'both'; // what can it target
+    minRange?: number; // blind spot: troops closer than this (tiles) can't be targeted
+    splashRadius?: number; // damage hits every troop within this radius (tiles) of the impact
+    projectileTravel?: number; // seconds a shot is in the air before it lands (instant if unset)
+  };
+  // Trap properties (hidden from attackers, single use until rearmed)
+  trap?: {
+    triggerRadius: number; // goes off when a troop comes this close (tiles)
+    effectRadius: number; // troops within this radius (tiles) of the trap are affected
+    damage: number; // damage to each affected troop
+    targetType: 'ground' | 'air';
+    ejectCapacity?: number; // housing space flung out of the battle instead of taking damage
+    rearmCost: { gold: number };
+  };
+  // Loot properties (buildings attackers steal resources from, released as they take damage)
+  loot?: {
+    source: 'collector' | 'storage'; // collectors give up what they generated, storages the village's stored resources
+    resources: ('gold' | 'elixir')[];
+    share: number; // fraction of what the building holds that can be stolen
+  };
+  // Garrison properties (buildings that hold defending troops)
+  garrison?: {
+    capacity: number; // housing space of troops it holds
+    triggerRadius: number; // troops come out when an attacker gets this close (tiles)
+    guardRadius: number; // how far from the building they chase attackers (tiles)
   };
 }
 
@@ -48,6 +82,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     buildTime: 0,
     size: { width: 4, height: 4 },
     maxHealth: 1500,
+    loot: { source: 'storage', resources: ['gold', 'elixir'], share: 0.2 },
   },
   [BuildingType.GOLD_MINE]: {
     type: BuildingType.GOLD_MINE,
@@ -60,6 +95,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     maxHealth: 400,
     generationRate: 250, // 100 gold per hour
     capacity: 500,
+    loot: { source: 'collector', resources: ['gold'], share: 0.5 },
   },
   [BuildingType.ELIXIR_COLLECTOR]: {
     type: BuildingType.ELIXIR_COLLECTOR,
@@ -72,6 +108,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     maxHealth: 400,
     generationRate: 250, // 100 elixir per hour
     capacity: 500,
+    loot: { source: 'collector', resources: ['elixir'], share: 0.5 },
   },
   [BuildingType.GOLD_STORAGE]: {
     type: BuildingType.GOLD_STORAGE,
@@ -83,6 +120,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     size: { width: 3, height: 3 },
     maxHealth: 600,
     capacity: 2000,
+    loot: { source: 'storage', resources: ['gold'], share: 0.2 },
   },
   [BuildingType.ELIXIR_STORAGE]: {
     type: BuildingType.ELIXIR_STORAGE,
@@ -94,6 +132,7 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     size: { width: 3, height: 3 },
     maxHealth: 600,
     capacity: 2000,
+    loot: { source: 'storage', resources: ['elixir'], share: 0.2 },
   },
   [BuildingType.CANNON]: {
     type: BuildingType.CANNON,
@@ -127,6 +166,110 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
       targetType: 'both',
     },
   },
+  [BuildingType.AIR_DEFENSE]: {
+    type: BuildingType.AIR_DEFENSE,
+    name: 'Air Defense',
+    description: 'Anti-air defense that deals heavy damage to flying troops only',
+    category: 'defense',
+    baseCost: { gold: 1000, elixir: 0 },
+    buildTime: 240,
+    size: { width: 3, height: 3 },
+    maxHealth: 600,
+    defense: {
+      damage: 80,
+      range: 10,
+      attackSpeed: 1.0,
+      targetType: 'air',
+    },
+  },
+  [BuildingType.MORTAR]: {
+    type: BuildingType.MORTAR,
+    name: 'Mortar',
+    description: 'Slow long-range splash defense with a blind spot close to it',
+    category: 'defense',
+    baseCost: { gold: 800, elixir: 0 },
+    buildTime: 180,
+    size: { width: 3, height: 3 },
+    maxHealth: 400,
+    defense: {
+      damage: 40,
+      range: 11,
+      attackSpeed: 5.0,
+      targetType: 'ground',
+      minRange: 4,
+      splashRadius: 1.5,
+      projectileTravel: 1.5,
+    },
+  },
+  [BuildingType.WIZARD_TOWER]: {
+    type: BuildingType.WIZARD_TOWER,
+    name: 'Wizard Tower',
+    description: 'Short-range splash defense that targets both ground and air',
+    category: 'defense',
+    baseCost: { gold: 1200, elixir: 0 },
+    buildTime: 240,
+    size: { width: 3, height: 3 },
+    maxHealth: 620,
+    defense: {
+      damage: 20,
+      range: 7,
+      attackSpeed: 1.3,
+      targetType: 'both',
+      splashRadius: 1,
+    },
+  },
+  [BuildingType.BOMB]: {
+    type: BuildingType.BOMB,
+    name: 'Bomb',
+    description: 'Hidden trap that explodes under groups of ground troops',
+    category: 'trap',
+    baseCost: { gold: 400, elixir: 0 },
+    buildTime: 10,
+    size: { width: 1, height: 1 },
+    maxHealth: 1,
+    trap: {
+      triggerRadius: 1.5,
+      effectRadius: 1.5,
+      damage: 60,
+      targetType: 'ground',
+      rearmCost: { gold: 100 },
+    },
+  },
+  [BuildingType.SPRING_TRAP]: {
+    type: BuildingType.SPRING_TRAP,
+    name: 'Spring Trap',
+    description: 'Hidden trap that flings ground troops out of the battle',
+    category: 'trap',
+    baseCost: { gold: 2000, elixir: 0 },
+    buildTime: 30,
+    size: { width: 1, height: 1 },
+    maxHealth: 1,
+    trap: {
+      triggerRadius: 0.8,
+      effectRadius: 1,
+      damage: 0,
+      targetType: 'ground',
+      ejectCapacity: 10,
+      rearmCost: { gold: 400 },
+    },
+  },
+  [BuildingType.AIR_MINE]: {
+    type: BuildingType.AIR_MINE,
+    name: 'Air Mine',
+    description: 'Hidden trap that blasts flying troops passing overhead',
+    category: 'trap',
+    baseCost: { gold: 4000, elixir: 0 },
+    buildTime: 60,
+    size: { width: 1, height: 1 },
+    maxHealth: 1,
+    trap: {
+      triggerRadius: 4,
+      effectRadius: 1,
+      damage: 150,
+      targetType: 'air',
+      rearmCost: { gold: 1000 },
+    },
+  },
   [BuildingType.WALL]: {
     type: BuildingType.WALL,
     name: 'Wall',
@@ -158,6 +301,44 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     size: { width: 3, height: 3 },
     maxHealth: 500,
   },
+  [BuildingType.SPELL_FACTORY]: {
+    type: BuildingType.SPELL_FACTORY,
+    name: 'Spell Factory',
+    description: 'Brew spells to use in battle',
+    category: 'army',
+    baseCost: { gold: 0, elixir: 400 },
+    buildTime: 150,
+    size: { width: 3, height: 3 },
+    maxHealth: 550,
+    capacity: 2, // spell capacity
+  },
+  [BuildingType.BARBARIAN_KING_ALTAR]: {
+    type: BuildingType.BARBARIAN_KING_ALTAR,
+    name: 'Barbarian King Altar',
+    description: 'Unlocks the Barbarian King, who guards it on defense',
+    category: 'army',
+    baseCost: { gold: 0, elixir: 1000 },
+    buildTime: 300,
+    size: { width: 3, height: 3 },
+    maxHealth: 600,
+    maxCount: 1,
+  },
+  [BuildingType.CLAN_CASTLE]: {
+    type: BuildingType.CLAN_CASTLE,
+    name: 'Clan Castle',
+    description: 'Holds troops that come out to defend when attackers get close',
+    category: 'army',
+    baseCost: { gold: 4000, elixir: 0 },
+    buildTime: 300,
+    size: { width: 3, height: 3 },
+    maxHealth: 1000,
+    maxCount: 1,
+    garrison: {
+      capacity: 10,
+      triggerRadius: 8,
+      guardRadius: 12,
+    },
+  },
 };
 
 export function getBuildingConfig(type: BuildingType): BuildingConfig {
@@ -0,0 +1,44 @@
+/**
+ * Game modes and the rules they play by
+ * Every battle runs in one mode; the mode decides how stars are earned
+ */
+
+export enum GameMode {
+  MULTIPLAYER = 'MULTIPLAYER', // ranked attacks on other players
+  DESTRUCTION = 'DESTRUCTION', // stars from destruction alone, the Town Hall is just another building
+}
+
+export interface StarRules {
+  destructionStars: number[]; // each destruction percentage reached is worth a star
+  townHallStar: boolean; // destroying the Town Hall is worth a star
+}
+
+export interface GameModeConfig {
+  mode: GameMode;
+  name: string;
+  starRules: StarRules;
+}
+
+export const GAME_MODE_CONFIGS: Record<GameMode, GameModeConfig> = {
+  [GameMode.MULTIPLAYER]: {
+    mode: GameMode.MULTIPLAYER,
+    name: 'Multiplayer',
+    starRules: {
+      destructionStars: [50, 100],
+      townHallStar: true,
+    },
+  },
+
+  [GameMode.DESTRUCTION]: {
+    mode: GameMode.DESTRUCTION,
+    name: 'Destruction',
+    starRules: {
+      destructionStars: [50, 70, 100],
+      townHallStar: false,
+    },
+  },
+};
+
+export function getStarRules(mode: GameMode): StarRules {
+  return GAME_MODE_CONFIGS[mode].starRules;
+}
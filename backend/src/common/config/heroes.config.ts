@@ -0,0 +1,96 @@
+/**
+ * Hero types and their configurations
+ * Heroes are not trained: each village owns one of every hero it has an altar for.
+ * A hero keeps its level and health between battles and has to recover after taking damage.
+ */
+
+import { BuildingType } from './buildings.config';
+
+export enum HeroType {
+  BARBARIAN_KING = 'BARBARIAN_KING',
+}
+
+export interface HeroLevelStats {
+  health: number;
+  damage: number;
+  upgradeCost: {
+    elixir: number; // cost to reach the next level (0 at max level)
+  };
+}
+
+export interface HeroStats {
+  type: HeroType;
+  name: string;
+  description: string;
+  altar: BuildingType; // building that unlocks the hero and where it guards on defense
+
+  // Combat stats (health and damage depend on level)
+  attackSpeed: number; // attacks per second
+  moveSpeed: number; // tiles per second
+  range: number; // attack range in tiles
+  guardRadius: number; // how far from the altar the hero chases attackers on defense
+
+  // Recovery
+  regenerationTime: number; // seconds to recover from 0 to full health
+
+  levels: HeroLevelStats[]; // index 0 = level 1
+
+  // Active ability, usable once per battle
+  ability: {
+    name: string;
+    description: string;
+    heal: number; // health restored on activation
+    damageMultiplier: number;
+    speedMultiplier: number;
+    duration: number; // in seconds
+  };
+
+  // Visual
+  icon: string; // emoji or icon identifier
+}
+
+export const HERO_CONFIGS: Record<HeroType, HeroStats> = {
+  [HeroType.BARBARIAN_KING]: {
+    type: HeroType.BARBARIAN_KING,
+    name: 'Barbarian King',
+    description: 'A mighty melee hero who guards his altar when the village is attacked',
+    altar: BuildingType.BARBARIAN_KING_ALTAR,
+    attackSpeed: 1,
+    moveSpeed: 1.6,
+    range: 1,
+    guardRadius: 7,
+    regenerationTime: 10 * 60, // 10 minutes
+    levels: [
+      { health: 1100, damage: 60, upgradeCost: { elixir: 2000 } },
+      { health: 1200, damage: 66, upgradeCost: { elixir: 4000 } },
+      { health: 1300, damage: 72, upgradeCost: { elixir: 8000 } },
+      { health: 1400, damage: 78, upgradeCost: { elixir: 16000 } },
+      { health: 1500, damage: 85, upgradeCost: { elixir: 0 } },
+    ],
+    ability: {
+      name: 'Iron Fist',
+      description: 'Heals the King and makes him faster and stronger for a few seconds',
+      heal: 300,
+      damageMultiplier: 2,
+      speedMultiplier: 1.5,
+      duration: 8,
+    },
+    icon: '👑',
+  },
+};
+
+// Helper function to get hero config
+export function getHeroConfig(type: HeroType): HeroStats {
+  return HERO_CONFIGS[type];
+}
+
+// Get all hero types
+export function getAllHeroTypes(): HeroType[] {
+  return Object.values(HeroType);
+}
+
+// Stats for a hero at a given level (clamped to the levels that exist)
+export function getHeroLevelStats(type: HeroType, level: number): HeroLevelStats {
+  const levels = getHeroConfig(type).levels;
+  return levels[Math.min(Math.max(level, 1), levels.length) - 1];
+}
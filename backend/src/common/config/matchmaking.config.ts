@@ -0,0 +1,57 @@
+/**
+ * Matchmaking configuration
+ * Opponents are searched for close to the attacker's trophies and Town Hall level first;
+ * the search widens step by step until someone is found or the widest range is reached
+ */
+
+export interface MatchmakingConfig {
+  // Trophy difference allowed on either side of the attacker
+  trophyBand: {
+    initial: number;
+    step: number;
+    max: number;
+  };
+
+  // Town Hall level difference allowed on either side of the attacker
+  townHallRange: {
+    initial: number;
+    step: number;
+    max: number;
+  };
+
+  // How long a player has to wait before being matched against the same village again
+  recentAttackCooldown: number; // in seconds
+
+  // Gold charged for skipping a match, per level of the attacker's Town Hall
+  nextCostPerTownHallLevel: number;
+
+  // How long a match holds; every search before it runs out or the attack starts is a skip
+  matchDuration: number; // in seconds
+
+  // How long after a defense the defender can take revenge (free, skips matchmaking)
+  revengeWindow: number; // in seconds
+}
+
+export const MATCHMAKING_CONFIG: MatchmakingConfig = {
+  trophyBand: {
+    initial: 100,
+    step: 200,
+    max: 1500,
+  },
+  townHallRange: {
+    initial: 0,
+    step: 1,
+    max: 3,
+  },
+  recentAttackCooldown: 3600, // 1 hour
+  nextCostPerTownHallLevel: 50,
+  matchDuration: 10 * 60, // 10 minutes
+  revengeWindow: 24 * 3600, // 24 hours
+};
+
+/**
+ * Gold charged to skip to the next opponent
+ */
+export function getNextOpponentCost(townHallLevel: number): number {
+  return MATCHMAKING_CONFIG.nextCostPerTownHallLevel * Math.max(1, townHallLevel);
+}
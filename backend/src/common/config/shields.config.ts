@@ -0,0 +1,35 @@
+/**
+ * Shield configuration
+ * Defenders get a shield after a heavy attack. While it lasts the village can't be matched
+ * or attacked; attacking someone else shortens it.
+ */
+
+export interface ShieldTier {
+  minDestruction: number; // percent of the village destroyed
+  duration: number; // in seconds
+}
+
+export interface ShieldConfig {
+  // Highest destruction first: the first tier the battle reaches decides the shield
+  tiers: ShieldTier[];
+
+  // Shield time lost when the shielded player starts an attack; a shorter shield breaks
+  attackPenalty: number; // in seconds
+}
+
+export const SHIELD_CONFIG: ShieldConfig = {
+  tiers: [
+    { minDestruction: 90, duration: 16 * 3600 }, // 16 hours
+    { minDestruction: 60, duration: 14 * 3600 }, // 14 hours
+    { minDestruction: 30, duration: 12 * 3600 }, // 12 hours
+  ],
+  attackPenalty: 3 * 3600, // 3 hours
+};
+
+/**
+ * Shield length in seconds for a defense with this much destruction (0 = no shield)
+ */
+export function getShieldDuration(destructionPercentage: number): number {
+  const tier = SHIELD_CONFIG.tiers.find((t) => destructionPercentage >= t.minDestruction);
+  return tier?.duration ?? 0;
+}
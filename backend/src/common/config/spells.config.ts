@@ -0,0 +1,102 @@
+/**
+ * Spell types and their configurations
+ * Spells are brewed in the Spell Factory and cast during battle
+ */
+
+export enum SpellType {
+  LIGHTNING = 'LIGHTNING',
+  HEAL = 'HEAL',
+  RAGE = 'RAGE',
+}
+
+export interface SpellStats {
+  type: SpellType;
+  name: string;
+  description: string;
+
+  // Effect area
+  radius: number; // in tiles
+  duration: number; // in seconds (0 = instant)
+
+  // Effects
+  damage?: number; // damage dealt to each building in the radius (instant spells)
+  healPerSecond?: number; // health restored to each troop in the radius
+  damageMultiplier?: number; // troop damage boost while inside the radius
+  speedMultiplier?: number; // troop speed boost while inside the radius
+
+  housingSpace: number; // how much spell factory capacity this spell takes
+
+  // Brewing
+  brewingTime: number; // in seconds
+  cost: {
+    elixir: number;
+  };
+
+  // Visual
+  icon: string; // emoji or icon identifier
+}
+
+export const SPELL_CONFIGS: Record<SpellType, SpellStats> = {
+  [SpellType.LIGHTNING]: {
+    type: SpellType.LIGHTNING,
+    name: 'Lightning',
+    description: 'Strikes every building in a small area for heavy damage',
+    radius: 2,
+    duration: 0, // instant
+    damage: 300,
+    housingSpace: 1,
+    brewingTime: 60, // 1 minute
+    cost: {
+      elixir: 150,
+    },
+    icon: '⚡',
+  },
+
+  [SpellType.HEAL]: {
+    type: SpellType.HEAL,
+    name: 'Heal',
+    description: 'Heals your troops inside the ring over time',
+    radius: 3,
+    duration: 10,
+    healPerSecond: 30,
+    housingSpace: 1,
+    brewingTime: 60,
+    cost: {
+      elixir: 150,
+    },
+    icon: '💚',
+  },
+
+  [SpellType.RAGE]: {
+    type: SpellType.RAGE,
+    name: 'Rage',
+    description: 'Troops inside the ring move faster and hit harder',
+    radius: 3,
+    duration: 10,
+    damageMultiplier: 1.5,
+    speedMultiplier: 1.3,
+    housingSpace: 1,
+    brewingTime: 90,
+    cost: {
+      elixir: 200,
+    },
+    icon: '😡',
+  },
+};
+
+// Helper function to get spell config
+export function getSpellConfig(type: SpellType): SpellStats {
+  return SPELL_CONFIGS[type];
+}
+
+// Get all available spell types
+export function getAllSpellTypes(): SpellType[] {
+  return Object.values(SpellType);
+}
+
+// Calculate total spell housing space
+export function calculateSpellSpace(spells: { type: SpellType; count: number }[]): number {
+  return spells.reduce((total, spell) => {
+    return total + getSpellConfig(spell.type).housingSpace * spell.count;
+  }, 0);
+}
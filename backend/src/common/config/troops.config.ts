@@ -8,6 +8,8 @@ export enum TroopType {
   ARCHER = 'ARCHER',
   GIANT = 'GIANT',
   WALL_BREAKER = 'WALL_BREAKER',
+  BALLOON = 'BALLOON',
+  MINION = 'MINION',
 }
 
 export interface TroopStats {
@@ -31,6 +33,7 @@ export interface TroopStats {
 
   // Targeting
   targetPreference: 'ANY' | 'DEFENSES' | 'WALLS';
+  targetType: 'ground' | 'air'; // air troops fly over walls and can only be hit by air-targeting defenses
 
   // Visual
   icon: string; // emoji or icon identifier
@@ -52,6 +55,7 @@ export const TROOP_CONFIGS: Record<TroopType, TroopStats> = {
       elixir: 25,
     },
     targetPreference: 'ANY',
+    targetType: 'ground',
     icon: '🗡️',
   },
 
@@ -70,6 +74,7 @@ export const TROOP_CONFIGS: Record<TroopType, TroopStats> = {
       elixir: 30,
     },
     targetPreference: 'ANY',
+    targetType: 'ground',
     icon: '🏹',
   },
 
@@ -88,6 +93,7 @@ export const TROOP_CONFIGS: Record<TroopType, TroopStats> = {
       elixir: 250,
     },
     targetPreference: 'DEFENSES',
+    targetType: 'ground',
     icon: '🦾',
   },
 
@@ -106,8 +112,47 @@ export const TROOP_CONFIGS: Record<TroopType, TroopStats> = {
       elixir: 100,
     },
     targetPreference: 'WALLS',
+    targetType: 'ground',
     icon: '💣',
   },
+
+  [TroopType.BALLOON]: {
+    type: TroopType.BALLOON,
+    name: 'Balloon',
+    description: 'Slow flying bomber that drops heavy bombs on defenses',
+    health: 150,
+    damage: 75,
+    attackSpeed: 0.33, // one bomb every 3 seconds
+    moveSpeed: 1,
+    range: 1,
+    housingSpace: 5,
+    trainingTime: 150,
+    cost: {
+      elixir: 400,
+    },
+    targetPreference: 'DEFENSES',
+    targetType: 'air',
+    icon: '🎈',
+  },
+
+  [TroopType.MINION]: {
+    type: TroopType.MINION,
+    name: 'Minion',
+    description: 'Fast flying unit that ignores walls and attacks the closest building',
+    health: 55,
+    damage: 18,
+    attackSpeed: 1,
+    moveSpeed: 3,
+    range: 2,
+    housingSpace: 2,
+    trainingTime: 45,
+    cost: {
+      elixir: 120,
+    },
+    targetPreference: 'ANY',
+    targetType: 'air',
+    icon: '🦇',
+  },
 };
 
 // Helper function to get troop config
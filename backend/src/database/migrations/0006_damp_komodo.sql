@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "heroes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"village_id" uuid NOT NULL,
+	"hero_type" varchar(50) NOT NULL,
+	"level" integer DEFAULT 1 NOT NULL,
+	"health" integer NOT NULL,
+	"recovery_started_at" timestamp,
+	"recovery_completes_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "heroes" ADD CONSTRAINT "heroes_village_id_villages_id_fk" FOREIGN KEY ("village_id") REFERENCES "villages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1 @@
+ALTER TABLE "buildings" ADD COLUMN "is_armed" boolean DEFAULT true NOT NULL;
\ No newline at end of file
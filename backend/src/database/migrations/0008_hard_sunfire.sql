@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "clan_castle_troops" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"village_id" uuid NOT NULL,
+	"troop_type" varchar(50) NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "clan_castle_troops" ADD CONSTRAINT "clan_castle_troops_village_id_villages_id_fk" FOREIGN KEY ("village_id") REFERENCES "villages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,3 @@
+ALTER TABLE "battles" ADD COLUMN "deployed_troops" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "battles" ADD COLUMN "lost_troops" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "battles" ADD COLUMN "returned_troops" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
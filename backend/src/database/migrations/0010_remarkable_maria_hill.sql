@@ -0,0 +1,2 @@
+ALTER TABLE "battles" ADD COLUMN "loot_gold_received" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "battles" ADD COLUMN "loot_elixir_received" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
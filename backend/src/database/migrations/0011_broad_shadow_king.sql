@@ -0,0 +1,2 @@
+ALTER TABLE "battles" ADD COLUMN "attacker_trophy_change" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "battles" ADD COLUMN "defender_trophy_change" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "villages" ADD COLUMN "matched_village_id" uuid;--> statement-breakpoint
+ALTER TABLE "villages" ADD COLUMN "match_expires_at" timestamp;
\ No newline at end of file
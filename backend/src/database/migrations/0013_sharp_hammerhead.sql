@@ -0,0 +1 @@
+ALTER TABLE "villages" ADD COLUMN "shield_expires_at" timestamp;
\ No newline at end of file
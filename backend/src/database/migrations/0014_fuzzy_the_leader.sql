@@ -0,0 +1,2 @@
+ALTER TABLE "battles" ADD COLUMN "revenge_of_battle_id" uuid;--> statement-breakpoint
+ALTER TABLE "battles" ADD COLUMN "revenge_battle_id" uuid;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "battle_sessions" (
+	"battle_id" uuid PRIMARY KEY NOT NULL,
+	"owner_id" varchar(100) NOT NULL,
+	"claim_expires_at" timestamp NOT NULL,
+	"checkpoint" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "battle_sessions" ADD CONSTRAINT "battle_sessions_battle_id_battles_id_fk" FOREIGN KEY ("battle_id") REFERENCES "battles"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,21 @@
+import { pgTable, uuid, varchar, jsonb, timestamp } from 'drizzle-orm/pg-core';
+import { battles } from './battles.schema';
+
+/**
+ * Battle sessions table - live battles being run by a backend instance
+ * The instance holding the claim renews it while the battle runs; once the claim lapses
+ * another instance resumes the battle from its checkpoint
+ */
+export const battleSessions = pgTable('battle_sessions', {
+  battleId: uuid('battle_id')
+    .primaryKey()
+    .references(() => battles.id, { onDelete: 'cascade' }),
+  ownerId: varchar('owner_id', { length: 100 }).notNull(), // instance running the session
+  claimExpiresAt: timestamp('claim_expires_at').notNull(),
+  checkpoint: jsonb('checkpoint').notNull(), // setup, seed and inputs so far
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type BattleSessionRecord = typeof battleSessions.$inferSelect;
+export type NewBattleSessionRecord = typeof battleSessions.$inferInsert;
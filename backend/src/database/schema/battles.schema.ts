@@ -15,17 +15,33 @@ export const battles = pgTable('battles', {
     .references(() => villages.id, { onDelete: 'cascade' }),
   // Troops used by attacker (array of {type: string, count: number})
   attackerTroops: jsonb('attacker_troops').notNull(),
+  // Spells brought by attacker (array of {type: string, count: number})
+  attackerSpells: jsonb('attacker_spells').default([]).notNull(),
+  // What happened to the attacker's troops (arrays of {type: string, count: number}):
+  // deployed onto the field, killed after deploying, and never deployed so returned to the army
+  deployedTroops: jsonb('deployed_troops').default([]).notNull(),
+  lostTroops: jsonb('lost_troops').default([]).notNull(),
+  returnedTroops: jsonb('returned_troops').default([]).notNull(),
   // Battle result
   destructionPercentage: integer('destruction_percentage').default(0).notNull(), // 0-100
   stars: integer('stars').default(0).notNull(), // 0-3 stars
-  // Resources looted
+  // Resources looted: taken from the defender, and what fit in the attacker's storage
   lootGold: integer('loot_gold').default(0).notNull(),
   lootElixir: integer('loot_elixir').default(0).notNull(),
-  // Battle replay data (optional) - stores events for playback
-  // Format: [{timestamp: number, type: string, data: any}]
+  lootGoldReceived: integer('loot_gold_received').default(0).notNull(),
+  lootElixirReceived: integer('loot_elixir_received').default(0).notNull(),
+  // Trophies won (positive) or lost (negative) by each side
+  attackerTrophyChange: integer('attacker_trophy_change').default(0).notNull(),
+  defenderTrophyChange: integer('defender_trophy_change').default(0).notNull(),
+  // Revenge: on a revenge attack, the defense it avenges; on a defense, the revenge attack that
+  // used it up (null while revenge is still possible)
+  revengeOfBattleId: uuid('revenge_of_battle_id'),
+  revengeBattleId: uuid('revenge_battle_id'),
+  // Battle replay data (optional) - layout snapshot, seed, deploy inputs and events for playback
+  // Format: BattleReplay (see battles/battle-replay.ts); older rows hold a plain event array
   battleLog: jsonb('battle_log'),
   // Status for tracking
-  status: varchar('status', { length: 20 }).default('completed').notNull(), // completed, in_progress
+  status: varchar('status', { length: 20 }).default('completed').notNull(), // scouting, active, completed, abandoned, aborted
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
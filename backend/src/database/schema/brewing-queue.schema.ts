@@ -0,0 +1,22 @@
+import { pgTable, uuid, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+import { villages } from './villages.schema';
+
+/**
+ * Brewing Queue table - stores ongoing spell brewing
+ * Each record represents a single spell being brewed
+ */
+export const brewingQueue = pgTable('brewing_queue', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  villageId: uuid('village_id')
+    .notNull()
+    .references(() => villages.id, { onDelete: 'cascade' }),
+  spellType: varchar('spell_type', { length: 50 }).notNull(), // LIGHTNING, HEAL, RAGE
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  completesAt: timestamp('completes_at').notNull(), // when brewing finishes
+  cost: integer('cost').notNull(), // elixir cost paid for this spell
+  queuePosition: integer('queue_position').notNull(), // order in the queue (0 = first)
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export type BrewingQueue = typeof brewingQueue.$inferSelect;
+export type NewBrewingQueue = typeof brewingQueue.$inferInsert;
@@ -13,6 +13,7 @@ export const buildings = pgTable('buildings', {
   health: integer('health').notNull(),
   maxHealth: integer('max_health').notNull(),
   isActive: boolean('is_active').default(true).notNull(),
+  isArmed: boolean('is_armed').default(true).notNull(), // traps: false once sprung, until rearmed
   // Internal storage for collectors
   internalGold: integer('internal_gold').default(0).notNull(),
   internalElixir: integer('internal_elixir').default(0).notNull(),
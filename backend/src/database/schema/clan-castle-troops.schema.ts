@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+import { villages } from './villages.schema';
+
+/**
+ * Clan Castle troops table - stores the troops garrisoned in a village's Clan Castle
+ * They defend the village in battles and are lost when killed
+ */
+export const clanCastleTroops = pgTable('clan_castle_troops', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  villageId: uuid('village_id')
+    .notNull()
+    .references(() => villages.id, { onDelete: 'cascade' }),
+  troopType: varchar('troop_type', { length: 50 }).notNull(), // BARBARIAN, ARCHER, etc.
+  count: integer('count').default(0).notNull(), // number of troops of this type
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type ClanCastleTroop = typeof clanCastleTroops.$inferSelect;
+export type NewClanCastleTroop = typeof clanCastleTroops.$inferInsert;
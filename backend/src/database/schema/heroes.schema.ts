@@ -0,0 +1,24 @@
+import { pgTable, uuid, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+import { villages } from './villages.schema';
+
+/**
+ * Heroes table - one record per hero a village owns
+ * Health is the hero's health when it last left a battle; while recovering it regenerates
+ * linearly towards full health, reaching it at recoveryCompletesAt
+ */
+export const heroes = pgTable('heroes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  villageId: uuid('village_id')
+    .notNull()
+    .references(() => villages.id, { onDelete: 'cascade' }),
+  heroType: varchar('hero_type', { length: 50 }).notNull(), // BARBARIAN_KING
+  level: integer('level').default(1).notNull(),
+  health: integer('health').notNull(),
+  recoveryStartedAt: timestamp('recovery_started_at'),
+  recoveryCompletesAt: timestamp('recovery_completes_at'), // null when the hero is at full health
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type Hero = typeof heroes.$inferSelect;
+export type NewHero = typeof heroes.$inferInsert;
@@ -3,5 +3,10 @@ export * from './villages.schema';
 export * from './resources.schema';
 export * from './buildings.schema';
 export * from './army.schema';
+export * from './clan-castle-troops.schema';
 export * from './training-queue.schema';
+export * from './spells.schema';
+export * from './brewing-queue.schema';
+export * from './heroes.schema';
 export * from './battles.schema';
+export * from './battle-sessions.schema';
@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+import { villages } from './villages.schema';
+
+/**
+ * Spells table - stores the user's brewed spells
+ * Each record represents a count of specific spell type for a village
+ */
+export const spells = pgTable('spells', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  villageId: uuid('village_id')
+    .notNull()
+    .references(() => villages.id, { onDelete: 'cascade' }),
+  spellType: varchar('spell_type', { length: 50 }).notNull(), // LIGHTNING, HEAL, RAGE
+  count: integer('count').default(0).notNull(), // number of spells of this type
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type Spell = typeof spells.$inferSelect;
+export type NewSpell = typeof spells.$inferInsert;
@@ -9,6 +9,12 @@ export const villages = pgTable('villages', {
     .unique(),
   name: varchar('name', { length: 100 }).notNull(),
   trophies: integer('trophies').default(0).notNull(),
+  // Protected from attacks until this time (null = no shield)
+  shieldExpiresAt: timestamp('shield_expires_at'),
+  // The opponent matchmaking last found for this village and until when it holds; searching
+  // again before then skips it (null = no current match)
+  matchedVillageId: uuid('matched_village_id'),
+  matchExpiresAt: timestamp('match_expires_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { HeroesService } from './heroes.service';
+import { getAllHeroTypes, getHeroConfig, HeroType } from '../common/config/heroes.config';
+
+@Controller('heroes')
+@UseGuards(JwtAuthGuard)
+export class HeroesController {
+  constructor(private readonly heroesService: HeroesService) {}
+
+  /**
+   * Get all hero types and their stats
+   */
+  @Get('available')
+  getAvailableHeroes() {
+    return getAllHeroTypes().map((type) => getHeroConfig(type));
+  }
+
+  /**
+   * Get user's heroes with level, health and recovery timer
+   */
+  @Get()
+  async getHeroes(@Request() req) {
+    return this.heroesService.getHeroes(req.user.userId);
+  }
+
+  /**
+   * Upgrade a hero to the next level
+   */
+  @Post(':heroType/upgrade')
+  async upgradeHero(@Request() req, @Param('heroType') heroType: string) {
+    if (!Object.values(HeroType).includes(heroType as HeroType)) {
+      throw new BadRequestException(`Invalid hero type: ${heroType}`);
+    }
+
+    return this.heroesService.upgradeHero(req.user.userId, heroType as HeroType);
+  }
+}
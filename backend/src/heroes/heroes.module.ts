@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HeroesController } from './heroes.controller';
+import { HeroesService } from './heroes.service';
+import { DatabaseModule } from '../database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [HeroesController],
+  providers: [HeroesService],
+  exports: [HeroesService],
+})
+export class HeroesModule {}
@@ -0,0 +1,236 @@
+import { Injectable, BadRequestException, Inject } from '@nestjs/common';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { eq, and, sql } from 'drizzle-orm';
+import * as schema from '../database/schema';
+import { heroes, Hero } from '../database/schema';
+import {
+  getAllHeroTypes,
+  getHeroConfig,
+  getHeroLevelStats,
+  HeroType,
+} from '../common/config/heroes.config';
+import { DATABASE_CONNECTION } from '../database/database.module';
+
+/**
+ * A hero as it can take part in a battle
+ */
+export interface BattleHero {
+  type: HeroType;
+  level: number;
+  health: number;
+  altarId: string;
+}
+
+@Injectable()
+export class HeroesService {
+  constructor(@Inject(DATABASE_CONNECTION) private db: NodePgDatabase<typeof schema>) {}
+
+  private async getVillage(userId: string) {
+    const [village] = await this.db
+      .select()
+      .from(schema.villages)
+      .where(eq(schema.villages.userId, userId))
+      .limit(1);
+
+    if (!village) {
+      throw new BadRequestException('Village not found');
+    }
+
+    return village;
+  }
+
+  /**
+   * Make sure the village has a hero record for every hero whose altar is built
+   * Returns the heroes together with their altar
+   */
+  private async loadHeroes(villageId: string) {
+    const now = new Date();
+    const villageBuildings = await this.db
+      .select()
+      .from(schema.buildings)
+      .where(eq(schema.buildings.villageId, villageId));
+
+    let records = await this.db.select().from(heroes).where(eq(heroes.villageId, villageId));
+
+    const result: { hero: Hero; altarId: string }[] = [];
+
+    for (const heroType of getAllHeroTypes()) {
+      const altar = villageBuildings.find(
+        (b) =>
+          b.type === getHeroConfig(heroType).altar && now >= new Date(b.constructionCompletedAt),
+      );
+      if (!altar) continue;
+
+      let hero = records.find((h) => h.heroType === heroType);
+      if (!hero) {
+        [hero] = await this.db
+          .insert(heroes)
+          .values({
+            villageId,
+            heroType,
+            level: 1,
+            health: getHeroLevelStats(heroType, 1).health,
+          })
+          .returning();
+        records = [...records, hero];
+      }
+
+      result.push({ hero, altarId: altar.id });
+    }
+
+    return result;
+  }
+
+  /**
+   * Current health: recovering heroes regenerate linearly until recoveryCompletesAt
+   */
+  private getCurrentHealth(hero: Hero, now: Date = new Date()): number {
+    const maxHealth = getHeroLevelStats(hero.heroType as HeroType, hero.level).health;
+
+    if (!hero.recoveryCompletesAt || now >= hero.recoveryCompletesAt) {
+      return maxHealth;
+    }
+
+    const start = hero.recoveryStartedAt?.getTime() ?? now.getTime();
+    const total = hero.recoveryCompletesAt.getTime() - start;
+    const progress = total > 0 ? (now.getTime() - start) / total : 1;
+
+    return Math.floor(hero.health + (maxHealth - hero.health) * progress);
+  }
+
+  private isRecovering(hero: Hero, now: Date = new Date()): boolean {
+    return !!hero.recoveryCompletesAt && now < hero.recoveryCompletesAt;
+  }
+
+  /**
+   * Get user's heroes with their stats and recovery state
+   */
+  async getHeroes(userId: string) {
+    const village = await this.getVillage(userId);
+    const now = new Date();
+
+    return (await this.loadHeroes(village.id)).map(({ hero }) => {
+      const config = getHeroConfig(hero.heroType as HeroType);
+      const stats = getHeroLevelStats(hero.heroType as HeroType, hero.level);
+      const recovering = this.isRecovering(hero, now);
+
+      return {
+        ...hero,
+        currentHealth: this.getCurrentHealth(hero, now),
+        maxHealth: stats.health,
+        damage: stats.damage,
+        isRecovering: recovering,
+        recoveryRemaining: recovering
+          ? Math.ceil((hero.recoveryCompletesAt.getTime() - now.getTime()) / 1000)
+          : 0,
+        upgradeCost: hero.level < config.levels.length ? stats.upgradeCost : null,
+        heroConfig: config,
+      };
+    });
+  }
+
+  /**
+   * Upgrade a hero to the next level
+   */
+  async upgradeHero(userId: string, heroType: HeroType) {
+    const village = await this.getVillage(userId);
+    const owned = (await this.loadHeroes(village.id)).find(
+      ({ hero }) => hero.heroType === heroType,
+    );
+
+    if (!owned) {
+      throw new BadRequestException('Build the hero altar first');
+    }
+
+    const { hero } = owned;
+    const config = getHeroConfig(heroType);
+    if (hero.level >= config.levels.length) {
+      throw new BadRequestException(`${config.name} is already at max level`);
+    }
+
+    if (this.isRecovering(hero)) {
+      throw new BadRequestException(`${config.name} is still recovering`);
+    }
+
+    const cost = getHeroLevelStats(heroType, hero.level).upgradeCost.elixir;
+
+    const [resources] = await this.db
+      .select()
+      .from(schema.resources)
+      .where(eq(schema.resources.villageId, village.id))
+      .limit(1);
+
+    if (!resources || resources.elixir < cost) {
+      throw new BadRequestException('Not enough elixir');
+    }
+
+    await this.db
+      .update(schema.resources)
+      .set({ elixir: sql`${schema.resources.elixir} - ${cost}` })
+      .where(eq(schema.resources.villageId, village.id));
+
+    const [upgraded] = await this.db
+      .update(heroes)
+      .set({
+        level: hero.level + 1,
+        health: getHeroLevelStats(heroType, hero.level + 1).health,
+        updatedAt: new Date(),
+      })
+      .where(eq(heroes.id, hero.id))
+      .returning();
+
+    return upgraded;
+  }
+
+  /**
+   * Heroes that can fight right now (altar built and not recovering)
+   */
+  async getBattleHeroes(villageId: string): Promise<BattleHero[]> {
+    const now = new Date();
+
+    return (await this.loadHeroes(villageId))
+      .filter(({ hero }) => !this.isRecovering(hero, now))
+      .map(({ hero, altarId }) => ({
+        type: hero.heroType as HeroType,
+        level: hero.level,
+        health: this.getCurrentHealth(hero, now),
+        altarId,
+      }));
+  }
+
+  /**
+   * Store a hero's health after a battle and start recovery if it was hurt
+   * Recovery time scales with the share of health that was lost
+   */
+  async recordBattleHealth(villageId: string, heroType: HeroType, health: number) {
+    const [hero] = await this.db
+      .select()
+      .from(heroes)
+      .where(and(eq(heroes.villageId, villageId), eq(heroes.heroType, heroType)))
+      .limit(1);
+
+    if (!hero) return;
+
+    const maxHealth = getHeroLevelStats(heroType, hero.level).health;
+    if (health >= maxHealth) return;
+
+    const now = new Date();
+    const remaining = Math.max(0, health);
+    const recoverySeconds =
+      getHeroConfig(heroType).regenerationTime * ((maxHealth - remaining) / maxHealth);
+
+    await this.db
+      .update(heroes)
+      .set({
+        health: remaining,
+        recoveryStartedAt: now,
+        recoveryCompletesAt: new Date(now.getTime() + recoverySeconds * 1000),
+        updatedAt: now,
+      })
+      .where(eq(heroes.id, hero.id));
+
+    console.log(
+      `${heroType} of village ${villageId} recovering for ${Math.ceil(recoverySeconds)}s`,
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { SpellType } from '../../common/config/spells.config';
+
+export class BrewSpellDto {
+  @IsEnum(SpellType)
+  spellType: SpellType;
+}
@@ -0,0 +1,51 @@
+import { Controller, Post, Get, Delete, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { SpellsService } from './spells.service';
+import { BrewSpellDto } from './dto/brew-spell.dto';
+import { getAllSpellTypes, getSpellConfig } from '../common/config/spells.config';
+
+@Controller('spells')
+@UseGuards(JwtAuthGuard)
+export class SpellsController {
+  constructor(private readonly spellsService: SpellsService) {}
+
+  /**
+   * Get all available spell types and their stats
+   */
+  @Get('available')
+  getAvailableSpells() {
+    return getAllSpellTypes().map((type) => getSpellConfig(type));
+  }
+
+  /**
+   * Brew a new spell
+   */
+  @Post('brew')
+  async brewSpell(@Request() req, @Body() dto: BrewSpellDto) {
+    return this.spellsService.brewSpell(req.user.userId, dto);
+  }
+
+  /**
+   * Get brewing queue
+   */
+  @Get('queue')
+  async getBrewingQueue(@Request() req) {
+    return this.spellsService.getBrewingQueue(req.user.userId);
+  }
+
+  /**
+   * Get user's brewed spells
+   */
+  @Get()
+  async getSpells(@Request() req) {
+    return this.spellsService.getSpells(req.user.userId, true);
+  }
+
+  /**
+   * Cancel a brewing spell
+   */
+  @Delete('queue/:id')
+  async cancelBrewing(@Request() req, @Param('id') brewingId: string) {
+    return this.spellsService.cancelBrewing(req.user.userId, brewingId);
+  }
+}
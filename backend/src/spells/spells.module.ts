@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SpellsController } from './spells.controller';
+import { SpellsService } from './spells.service';
+import { DatabaseModule } from '../database/database.module';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [SpellsController],
+  providers: [SpellsService],
+  exports: [SpellsService],
+})
+export class SpellsModule {}
@@ -0,0 +1,253 @@
+import { Injectable, BadRequestException, Inject } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { eq, and, gt, lte, sql } from 'drizzle-orm';
+import * as schema from '../database/schema';
+import { spells, brewingQueue } from '../database/schema';
+import { getSpellConfig, calculateSpellSpace, SpellType } from '../common/config/spells.config';
+import { BrewSpellDto } from './dto/brew-spell.dto';
+import { DATABASE_CONNECTION } from '../database/database.module';
+import { BuildingType, getBuildingConfig } from '../common/config/buildings.config';
+
+@Injectable()
+export class SpellsService {
+  constructor(@Inject(DATABASE_CONNECTION) private db: NodePgDatabase<typeof schema>) {}
+
+  /**
+   * Calculate total spell capacity from all spell factories
+   */
+  private async getSpellCapacity(villageId: string): Promise<number> {
+    const factories = await this.db
+      .select()
+      .from(schema.buildings)
+      .where(
+        and(
+          eq(schema.buildings.villageId, villageId),
+          eq(schema.buildings.type, BuildingType.SPELL_FACTORY),
+        ),
+      );
+
+    // Only count factories that are fully constructed
+    const now = new Date();
+    const config = getBuildingConfig(BuildingType.SPELL_FACTORY);
+
+    return (
+      factories.filter((factory) => now >= new Date(factory.constructionCompletedAt)).length *
+      (config.capacity || 0)
+    );
+  }
+
+  private async getVillage(userId: string) {
+    const [village] = await this.db
+      .select()
+      .from(schema.villages)
+      .where(eq(schema.villages.userId, userId))
+      .limit(1);
+
+    if (!village) {
+      throw new BadRequestException('Village not found');
+    }
+
+    return village;
+  }
+
+  /**
+   * Brew a new spell - adds to brewing queue
+   */
+  async brewSpell(userId: string, dto: BrewSpellDto) {
+    const village = await this.getVillage(userId);
+    const spellConfig = getSpellConfig(dto.spellType);
+
+    // Check if user has enough elixir
+    const [resources] = await this.db
+      .select()
+      .from(schema.resources)
+      .where(eq(schema.resources.villageId, village.id))
+      .limit(1);
+
+    if (!resources || resources.elixir < spellConfig.cost.elixir) {
+      throw new BadRequestException('Not enough elixir');
+    }
+
+    const spellCapacity = await this.getSpellCapacity(village.id);
+
+    if (spellCapacity === 0) {
+      throw new BadRequestException(
+        'No functional spell factory available. Build or complete construction of a spell factory first.',
+      );
+    }
+
+    // Check spell capacity (brewed spells plus the ones still brewing)
+    const currentSpells = await this.getSpells(village.id);
+    const currentSpace = calculateSpellSpace(
+      currentSpells.map((s) => ({ type: s.spellType as SpellType, count: s.count })),
+    );
+
+    const queue = await this.db
+      .select()
+      .from(brewingQueue)
+      .where(eq(brewingQueue.villageId, village.id));
+
+    const queueSpace = calculateSpellSpace(
+      queue.map((q) => ({ type: q.spellType as SpellType, count: 1 })),
+    );
+
+    if (currentSpace + queueSpace + spellConfig.housingSpace > spellCapacity) {
+      throw new BadRequestException(
+        `Spell capacity full (${currentSpace + queueSpace}/${spellCapacity})`,
+      );
+    }
+
+    // Deduct elixir
+    await this.db
+      .update(schema.resources)
+      .set({ elixir: resources.elixir - spellConfig.cost.elixir })
+      .where(eq(schema.resources.villageId, village.id));
+
+    // Spells brew one after another
+    const now = new Date();
+    const lastInQueue =
+      queue.length > 0 ? queue.sort((a, b) => b.queuePosition - a.queuePosition)[0] : null;
+
+    const startTime = lastInQueue && lastInQueue.completesAt > now ? lastInQueue.completesAt : now;
+    const completesAt = new Date(startTime.getTime() + spellConfig.brewingTime * 1000);
+
+    const [newBrewing] = await this.db
+      .insert(brewingQueue)
+      .values({
+        villageId: village.id,
+        spellType: dto.spellType,
+        startedAt: now,
+        completesAt,
+        cost: spellConfig.cost.elixir,
+        queuePosition: queue.length,
+      })
+      .returning();
+
+    return {
+      brewing: newBrewing,
+      spellConfig,
+    };
+  }
+
+  /**
+   * Get brewing queue for a village
+   */
+  async getBrewingQueue(userId: string) {
+    const village = await this.getVillage(userId);
+
+    const queue = await this.db
+      .select()
+      .from(brewingQueue)
+      .where(eq(brewingQueue.villageId, village.id))
+      .orderBy(brewingQueue.queuePosition);
+
+    return queue.map((q) => ({
+      ...q,
+      spellConfig: getSpellConfig(q.spellType as SpellType),
+    }));
+  }
+
+  /**
+   * Get user's brewed spells
+   */
+  async getSpells(villageIdOrUserId: string, isUserId = false) {
+    const villageId = isUserId ? (await this.getVillage(villageIdOrUserId)).id : villageIdOrUserId;
+
+    const spellData = await this.db.select().from(spells).where(eq(spells.villageId, villageId));
+
+    return spellData.map((s) => ({
+      ...s,
+      spellConfig: getSpellConfig(s.spellType as SpellType),
+    }));
+  }
+
+  /**
+   * Cancel a spell from the brewing queue
+   */
+  async cancelBrewing(userId: string, brewingId: string) {
+    const village = await this.getVillage(userId);
+
+    const [brewing] = await this.db
+      .select()
+      .from(brewingQueue)
+      .where(and(eq(brewingQueue.id, brewingId), eq(brewingQueue.villageId, village.id)))
+      .limit(1);
+
+    if (!brewing) {
+      throw new BadRequestException('Brewing not found');
+    }
+
+    // Refund elixir
+    await this.db
+      .update(schema.resources)
+      .set({
+        elixir: sql`${schema.resources.elixir} + ${brewing.cost}`,
+      })
+      .where(eq(schema.resources.villageId, village.id));
+
+    await this.db.delete(brewingQueue).where(eq(brewingQueue.id, brewingId));
+
+    // Close the gap in the queue
+    await this.db
+      .update(brewingQueue)
+      .set({
+        queuePosition: sql`${brewingQueue.queuePosition} - 1`,
+      })
+      .where(
+        and(
+          eq(brewingQueue.villageId, village.id),
+          gt(brewingQueue.queuePosition, brewing.queuePosition),
+        ),
+      );
+
+    return { message: 'Brewing cancelled and elixir refunded' };
+  }
+
+  /**
+   * Background job to process completed brewing
+   * Runs every 5 seconds to check for finished spells
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async processCompletedBrewing() {
+    const now = new Date();
+
+    const completedBrewing = await this.db
+      .select()
+      .from(brewingQueue)
+      .where(lte(brewingQueue.completesAt, now));
+
+    if (completedBrewing.length === 0) {
+      return;
+    }
+
+    console.log(`Processing ${completedBrewing.length} completed spells...`);
+
+    for (const brewing of completedBrewing) {
+      const [existingSpell] = await this.db
+        .select()
+        .from(spells)
+        .where(
+          and(eq(spells.villageId, brewing.villageId), eq(spells.spellType, brewing.spellType)),
+        )
+        .limit(1);
+
+      if (existingSpell) {
+        await this.db
+          .update(spells)
+          .set({ count: existingSpell.count + 1, updatedAt: new Date() })
+          .where(eq(spells.id, existingSpell.id));
+      } else {
+        await this.db.insert(spells).values({
+          villageId: brewing.villageId,
+          spellType: brewing.spellType,
+          count: 1,
+        });
+      }
+
+      await this.db.delete(brewingQueue).where(eq(brewingQueue.id, brewing.id));
+    }
+
+    console.log(`✅ Completed ${completedBrewing.length} spells`);
+  }
+}
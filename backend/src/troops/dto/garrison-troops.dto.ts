@@ -0,0 +1,11 @@
+import { IsEnum, IsInt, Min } from 'class-validator';
+import { TroopType } from '../../common/config/troops.config';
+
+export class GarrisonTroopsDto {
+  @IsEnum(TroopType)
+  troopType: TroopType;
+
+  @IsInt()
+  @Min(1)
+  count: number;
+}
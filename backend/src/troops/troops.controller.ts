@@ -2,6 +2,7 @@ import { Controller, Post, Get, Delete, Body, Param, UseGuards, Request } from '
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { TroopsService } from './troops.service';
 import { TrainTroopDto } from './dto/train-troop.dto';
+import { GarrisonTroopsDto } from './dto/garrison-troops.dto';
 import { getAllTroopTypes, getTroopConfig } from '../common/config/troops.config';
 
 @Controller('troops')
@@ -42,6 +43,22 @@ export class TroopsController {
     return this.troopsService.getArmy(req.user.userId, true);
   }
 
+  /**
+   * Get the troops garrisoned in the Clan Castle
+   */
+  @Get('castle')
+  async getCastleTroops(@Request() req) {
+    return this.troopsService.getCastleTroops(req.user.userId);
+  }
+
+  /**
+   * Move troops from the army into the Clan Castle
+   */
+  @Post('castle')
+  async garrisonTroops(@Request() req, @Body() dto: GarrisonTroopsDto) {
+    return this.troopsService.garrisonTroops(req.user.userId, dto);
+  }
+
   /**
    * Cancel a training
    */
@@ -3,9 +3,10 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { eq, and, lte, sql } from 'drizzle-orm';
 import * as schema from '../database/schema';
-import {  army, trainingQueue } from '../database/schema';
+import { army, trainingQueue, clanCastleTroops } from '../database/schema';
 import { getTroopConfig, calculateHousingSpace, TroopType } from '../common/config/troops.config';
 import { TrainTroopDto } from './dto/train-troop.dto';
+import { GarrisonTroopsDto } from './dto/garrison-troops.dto';
 import { DATABASE_CONNECTION } from '../database/database.module';
 import { BuildingType, getBuildingConfig } from '../common/config/buildings.config';
 
@@ -24,8 +25,8 @@ export class TroopsService {
       .where(
         and(
           eq(schema.buildings.villageId, villageId),
-          eq(schema.buildings.type, BuildingType.ARMY_CAMP)
-        )
+          eq(schema.buildings.type, BuildingType.ARMY_CAMP),
+        ),
       );
 
     // Calculate total capacity from all army camps
@@ -79,13 +80,15 @@ export class TroopsService {
 
     // If no army camps or all under construction, can't train troops
     if (armyCapacity === 0) {
-      throw new BadRequestException('No functional army camps available. Build or complete construction of an army camp first.');
+      throw new BadRequestException(
+        'No functional army camps available. Build or complete construction of an army camp first.',
+      );
     }
 
     // Check army capacity
     const currentArmy = await this.getArmy(village.id);
     const currentHousingSpace = calculateHousingSpace(
-      currentArmy.map(a => ({ type: a.troopType as TroopType, count: a.count }))
+      currentArmy.map((a) => ({ type: a.troopType as TroopType, count: a.count })),
     );
 
     // Check training queue
@@ -95,11 +98,13 @@ export class TroopsService {
       .where(eq(trainingQueue.villageId, village.id));
 
     const queueHousingSpace = calculateHousingSpace(
-      queue.map(q => ({ type: q.troopType as TroopType, count: 1 }))
+      queue.map((q) => ({ type: q.troopType as TroopType, count: 1 })),
     );
 
     if (currentHousingSpace + queueHousingSpace + troopConfig.housingSpace > armyCapacity) {
-      throw new BadRequestException(`Army capacity full (${currentHousingSpace + queueHousingSpace}/${armyCapacity})`);
+      throw new BadRequestException(
+        `Army capacity full (${currentHousingSpace + queueHousingSpace}/${armyCapacity})`,
+      );
     }
 
     // Deduct elixir
@@ -110,13 +115,10 @@ export class TroopsService {
 
     // Calculate completion time
     const now = new Date();
-    const lastInQueue = queue.length > 0
-      ? queue.sort((a, b) => b.queuePosition - a.queuePosition)[0]
-      : null;
+    const lastInQueue =
+      queue.length > 0 ? queue.sort((a, b) => b.queuePosition - a.queuePosition)[0] : null;
 
-    const startTime = lastInQueue && lastInQueue.completesAt > now
-      ? lastInQueue.completesAt
-      : now;
+    const startTime = lastInQueue && lastInQueue.completesAt > now ? lastInQueue.completesAt : now;
 
     const completesAt = new Date(startTime.getTime() + troopConfig.trainingTime * 1000);
 
@@ -159,7 +161,7 @@ export class TroopsService {
       .where(eq(trainingQueue.villageId, village.id))
       .orderBy(trainingQueue.queuePosition);
 
-    return queue.map(q => ({
+    return queue.map((q) => ({
       ...q,
       troopConfig: getTroopConfig(q.troopType as TroopType),
     }));
@@ -184,12 +186,9 @@ export class TroopsService {
       villageId = village.id;
     }
 
-    const armyData = await this.db
-      .select()
-      .from(army)
-      .where(eq(army.villageId, villageId));
+    const armyData = await this.db.select().from(army).where(eq(army.villageId, villageId));
 
-    return armyData.map(a => ({
+    return armyData.map((a) => ({
       ...a,
       troopConfig: getTroopConfig(a.troopType as TroopType),
     }));
@@ -213,12 +212,7 @@ export class TroopsService {
     const [training] = await this.db
       .select()
       .from(trainingQueue)
-      .where(
-        and(
-          eq(trainingQueue.id, trainingId),
-          eq(trainingQueue.villageId, village.id)
-        )
-      )
+      .where(and(eq(trainingQueue.id, trainingId), eq(trainingQueue.villageId, village.id)))
       .limit(1);
 
     if (!training) {
@@ -234,9 +228,7 @@ export class TroopsService {
       .where(eq(schema.resources.villageId, village.id));
 
     // Delete from queue
-    await this.db
-      .delete(trainingQueue)
-      .where(eq(trainingQueue.id, trainingId));
+    await this.db.delete(trainingQueue).where(eq(trainingQueue.id, trainingId));
 
     // Reorder queue
     await this.db
@@ -247,13 +239,168 @@ export class TroopsService {
       .where(
         and(
           eq(trainingQueue.villageId, village.id),
-          lte(trainingQueue.queuePosition, training.queuePosition)
-        )
+          lte(trainingQueue.queuePosition, training.queuePosition),
+        ),
       );
 
     return { message: 'Training cancelled and elixir refunded' };
   }
 
+  /**
+   * Get the troops garrisoned in the user's Clan Castle
+   */
+  async getCastleTroops(userId: string) {
+    const [village] = await this.db
+      .select()
+      .from(schema.villages)
+      .where(eq(schema.villages.userId, userId))
+      .limit(1);
+
+    if (!village) {
+      throw new BadRequestException('Village not found');
+    }
+
+    const troops = await this.db
+      .select()
+      .from(clanCastleTroops)
+      .where(eq(clanCastleTroops.villageId, village.id));
+
+    const castle = await this.getClanCastle(village.id);
+
+    return {
+      hasCastle: !!castle,
+      capacity: castle ? getBuildingConfig(BuildingType.CLAN_CASTLE).garrison.capacity : 0,
+      housingSpace: calculateHousingSpace(
+        troops.map((t) => ({ type: t.troopType as TroopType, count: t.count })),
+      ),
+      troops: troops.map((t) => ({
+        ...t,
+        troopConfig: getTroopConfig(t.troopType as TroopType),
+      })),
+    };
+  }
+
+  /**
+   * Move trained troops from the army into the Clan Castle
+   */
+  async garrisonTroops(userId: string, dto: GarrisonTroopsDto) {
+    const [village] = await this.db
+      .select()
+      .from(schema.villages)
+      .where(eq(schema.villages.userId, userId))
+      .limit(1);
+
+    if (!village) {
+      throw new BadRequestException('Village not found');
+    }
+
+    const castle = await this.getClanCastle(village.id);
+    if (!castle || new Date() < new Date(castle.constructionCompletedAt)) {
+      throw new BadRequestException('Build a Clan Castle first');
+    }
+
+    const [armyRecord] = await this.db
+      .select()
+      .from(army)
+      .where(and(eq(army.villageId, village.id), eq(army.troopType, dto.troopType)))
+      .limit(1);
+
+    if (!armyRecord || armyRecord.count < dto.count) {
+      throw new BadRequestException(`Not enough ${dto.troopType} in army`);
+    }
+
+    // Check castle capacity
+    const garrisoned = await this.db
+      .select()
+      .from(clanCastleTroops)
+      .where(eq(clanCastleTroops.villageId, village.id));
+
+    const capacity = getBuildingConfig(BuildingType.CLAN_CASTLE).garrison.capacity;
+    const housingSpace = calculateHousingSpace(
+      garrisoned.map((t) => ({ type: t.troopType as TroopType, count: t.count })),
+    );
+    const addedSpace = calculateHousingSpace([{ type: dto.troopType, count: dto.count }]);
+
+    if (housingSpace + addedSpace > capacity) {
+      throw new BadRequestException(`Clan Castle is full (${housingSpace}/${capacity})`);
+    }
+
+    await this.db
+      .update(army)
+      .set({ count: armyRecord.count - dto.count, updatedAt: new Date() })
+      .where(eq(army.id, armyRecord.id));
+
+    const existing = garrisoned.find((t) => t.troopType === dto.troopType);
+    if (existing) {
+      await this.db
+        .update(clanCastleTroops)
+        .set({ count: existing.count + dto.count, updatedAt: new Date() })
+        .where(eq(clanCastleTroops.id, existing.id));
+    } else {
+      await this.db.insert(clanCastleTroops).values({
+        villageId: village.id,
+        troopType: dto.troopType,
+        count: dto.count,
+      });
+    }
+
+    return { message: `${dto.count} ${dto.troopType} moved into the Clan Castle` };
+  }
+
+  /**
+   * Clan Castle and its troops for defending a village in battle
+   * Returns null if the village has no castle or the castle is empty
+   */
+  async getBattleGarrison(
+    villageId: string,
+  ): Promise<{ castleId: string; troops: { type: string; count: number }[] } | null> {
+    const castle = await this.getClanCastle(villageId);
+    if (!castle) return null;
+
+    const troops = await this.db
+      .select()
+      .from(clanCastleTroops)
+      .where(eq(clanCastleTroops.villageId, villageId));
+
+    const garrison = troops
+      .filter((t) => t.count > 0)
+      .map((t) => ({ type: t.troopType, count: t.count }));
+
+    return garrison.length > 0 ? { castleId: castle.id, troops: garrison } : null;
+  }
+
+  /**
+   * Remove Clan Castle troops killed while defending
+   */
+  async removeCastleTroops(villageId: string, losses: { type: string; count: number }[]) {
+    for (const loss of losses) {
+      await this.db
+        .update(clanCastleTroops)
+        .set({
+          count: sql`GREATEST(${clanCastleTroops.count} - ${loss.count}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(eq(clanCastleTroops.villageId, villageId), eq(clanCastleTroops.troopType, loss.type)),
+        );
+    }
+  }
+
+  private async getClanCastle(villageId: string) {
+    const [castle] = await this.db
+      .select()
+      .from(schema.buildings)
+      .where(
+        and(
+          eq(schema.buildings.villageId, villageId),
+          eq(schema.buildings.type, BuildingType.CLAN_CASTLE),
+        ),
+      )
+      .limit(1);
+
+    return castle ?? null;
+  }
+
   /**
    * Background job to process completed trainings
    * Runs every 5 seconds to check for completed troops
@@ -279,12 +426,7 @@ export class TroopsService {
       const [existingArmy] = await this.db
         .select()
         .from(army)
-        .where(
-          and(
-            eq(army.villageId, training.villageId),
-            eq(army.troopType, training.troopType)
-          )
-        )
+        .where(and(eq(army.villageId, training.villageId), eq(army.troopType, training.troopType)))
         .limit(1);
 
       if (existingArmy) {
@@ -303,9 +445,7 @@ export class TroopsService {
       }
 
       // Remove from queue
-      await this.db
-        .delete(trainingQueue)
-        .where(eq(trainingQueue.id, training.id));
+      await this.db.delete(trainingQueue).where(eq(trainingQueue.id, training.id));
     }
 
     console.log(`✅ Completed ${completedTrainings.length} trainings`);
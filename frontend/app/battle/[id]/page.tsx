@@ -4,21 +4,34 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { Application, Container, Graphics, Text, Sprite as PIXISprite } from 'pixi.js';
 import { Button } from '@/components/ui/button';
-import { BattleBuilding, BattleSession, battlesApi } from '@/lib/api/battles';
+import {
+  BattleBuilding,
+  BattleSession,
+  BattleStateSnapshot,
+  DeployZone,
+  LootSummary,
+  battlesApi,
+} from '@/lib/api/battles';
 import { useAuthStore, useBattleStore, useVillageStore } from '@/lib/stores';
 import {
   connectBattleSocket,
   disconnectBattleSocket,
   joinBattle,
   leaveBattle,
+  requestBattleState,
   deployTroop,
+  castSpell,
+  activateHeroAbility,
+  surrender,
   onBattleEvent,
   onBattleEnd,
   offBattleEvent,
   offBattleEnd,
+  BattleClock,
   BattleEvent,
+  StateFrame,
 } from '@/lib/socket';
-import { ArrowLeft, Clock, Star, Swords, Trophy, Flame } from 'lucide-react';
+import { ArrowLeft, Clock, Star, Swords, Trophy, Flame, Coins, Flag } from 'lucide-react';
 import { BattleSummary } from '@/components/game/BattleSummary';
 import { BUILDING_CONFIGS, BuildingType } from '@/lib/config/buildingsData';
 import { SpriteManager } from '@/lib/game/SpriteManager';
@@ -34,6 +47,8 @@ interface TroopSprite {
   health: number;
   maxHealth: number;
   healthBar?: Graphics;
+  moveFrom?: { x: number; y: number }; // where the glide to position started
+  moveStartedAt?: number;
 }
 
 // Building rendering data
@@ -54,6 +69,11 @@ const GRID_HEIGHT = 40;
 const TILE_SIZE = 15; // Match village tile size
 const CANVAS_WIDTH = GRID_WIDTH * TILE_SIZE;
 const CANVAS_HEIGHT = GRID_HEIGHT * TILE_SIZE;
+const FRAME_MS = 100; // the server sends at most one state frame per tick
+
+// Same check the server runs before accepting a deploy
+const isInNoDeployZone = (zones: DeployZone[] | undefined, x: number, y: number) =>
+  (zones || []).some((z) => x >= z.x && x < z.x + z.width && y >= z.y && y < z.y + z.height);
 
 export default function BattlePage() {
   const router = useRouter();
@@ -73,23 +93,35 @@ export default function BattlePage() {
 
   const [battleSession, setBattleSession] = useState<BattleSession | null>(null);
   const [selectedTroopType, setSelectedTroopType] = useState<string | null>(null);
-  const [deployedCounts, setDeployedCounts] = useState<Record<string, number>>({});
+  const [troopsRemaining, setTroopsRemaining] = useState<Record<string, number>>({});
   const [battleStarted, setBattleStarted] = useState(false);
   const [destructionPercentage, setDestructionPercentage] = useState(0);
+  const [loot, setLoot] = useState<LootSummary>({ availableGold: 0, availableElixir: 0, lootedGold: 0, lootedElixir: 0 });
   const [battleStatus, setBattleStatus] = useState<string>('Connecting to battle server...');
   const [isLoading, setIsLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
   const [battleEndResult, setBattleEndResult] = useState<any>(null);
-  const [timeRemaining, setTimeRemaining] = useState(180);
-  const [battleStartTime, setBattleStartTime] = useState<number | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(30);
+  // Server clock: the phase and when it runs out on this machine's clock
+  const [clockPhase, setClockPhase] = useState<BattleClock['phase']>('scouting');
+  const [clockEndsAt, setClockEndsAt] = useState<number | null>(null);
   const [spritesLoaded, setSpritesLoaded] = useState(false);
   const [stars, setStars] = useState(0);
   const [draggedTroop, setDraggedTroop] = useState<{ type: string; offsetX: number; offsetY: number } | null>(null);
   const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
+  const [spellsRemaining, setSpellsRemaining] = useState<Record<string, number>>({});
+  const [selectedSpellType, setSelectedSpellType] = useState<string | null>(null);
+  const [heroesRemaining, setHeroesRemaining] = useState<string[]>([]);
+  const [heroAbilityUsed, setHeroAbilityUsed] = useState<Record<string, boolean>>({}); // deployed heroes
 
   // Store sprites
   const buildingSpritesRef = useRef<Map<string, BuildingSprite>>(new Map());
   const troopSpritesRef = useRef<Map<string, TroopSprite>>(new Map());
+  const spellSpritesRef = useRef<Map<string, Graphics>>(new Map());
+  // Snapshot that arrived before the scene was ready; applied once it is
+  const pendingStateRef = useRef<BattleStateSnapshot | null>(null);
+  // Last server tick drawn; older frames are already part of the snapshot
+  const lastFrameTickRef = useRef(-1);
 
   // Preload sprites on mount
   useEffect(() => {
@@ -151,6 +183,25 @@ export default function BattlePage() {
     loadBattleSession();
   }, [sessionId]);
 
+  // Troops, spells and heroes left to deploy (also restored on rejoin)
+  useEffect(() => {
+    if (battleSession?.session.troops) {
+      setTroopsRemaining(battleSession.session.troops);
+    }
+    if (battleSession?.session.loot) {
+      setLoot(battleSession.session.loot);
+    }
+    if (battleSession?.session.spells) {
+      setSpellsRemaining(battleSession.session.spells);
+    }
+    if (battleSession?.session.heroes) {
+      setHeroesRemaining(battleSession.session.heroes.map((h) => h.type));
+    }
+    if (battleSession?.session.clock) {
+      applyClock(battleSession.session.clock);
+    }
+  }, [battleSession]);
+
   // Initialize Pixi.js canvas
   useEffect(() => {
     if (!canvasRef.current || appRef.current || !battleSession || !spritesLoaded) {
@@ -190,12 +241,21 @@ export default function BattlePage() {
 
       // Draw subtle grid
       drawGrid(app.stage);
+      drawNoDeployZones(app.stage, battleSession.session.noDeployZones || []);
 
       // Render buildings
       renderBuildings(battleSession.session.buildings, buildingsLayer);
 
+      // Render defending heroes on their altars
+      battleSession.session.defenders?.forEach((defender) => handleTroopSpawn(defender));
+
       app.stage.eventMode = 'static';
       app.stage.hitArea = app.screen;
+      app.ticker.add(interpolateUnits);
+
+      if (pendingStateRef.current) {
+        applyBattleState(pendingStateRef.current);
+      }
     };
 
     initPixi();
@@ -232,6 +292,17 @@ export default function BattlePage() {
     stage.addChild(grid);
   };
 
+  // Shade the tiles around the defender's buildings where troops can't be deployed
+  const drawNoDeployZones = (stage: Container, zones: DeployZone[]) => {
+    const overlay = new Graphics();
+    overlay.beginFill(0xff0000, 0.15);
+    zones.forEach((zone) => {
+      overlay.drawRect(zone.x * TILE_SIZE, zone.y * TILE_SIZE, zone.width * TILE_SIZE, zone.height * TILE_SIZE);
+    });
+    overlay.endFill();
+    stage.addChild(overlay);
+  };
+
   // Render buildings
   const renderBuildings = (buildings: BattleBuilding[], layer: Container) => {
     buildings.forEach((building) => {
@@ -316,6 +387,10 @@ export default function BattlePage() {
       case 'ARMY_CAMP': return 0x3498db;
       case 'CANNON': return 0x95a5a6;
       case 'ARCHER_TOWER': return 0x34495e;
+      case 'AIR_DEFENSE': return 0x4682b4;
+      case 'MORTAR': return 0x556b2f;
+      case 'WIZARD_TOWER': return 0x8a2be2;
+      case 'CLAN_CASTLE': return 0x8b0000;
       case 'WALL': return 0x8B4513; // Saddle brown - matches village mode
       default: return 0xbdc3c7;
     }
@@ -337,42 +412,101 @@ export default function BattlePage() {
     return healthBar;
   };
 
-  // Battle countdown timer
+  // The server owns the clock; count down from the last time it sent, measured locally
+  const applyClock = (clock: BattleClock) => {
+    setClockPhase(clock.phase);
+    setClockEndsAt(Date.now() + clock.remainingMs);
+    if (clock.phase === 'battle') {
+      // Scouting may have run out without anything deployed
+      setBattleStarted(true);
+    }
+  };
+
+  // Scouting / battle countdown
   useEffect(() => {
-    if (!battleStarted || battleEndResult) return;
+    if (clockEndsAt === null || battleEndResult) return;
+
+    const update = () => setTimeRemaining(Math.max(0, Math.ceil((clockEndsAt - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 250);
 
-    if (!battleStartTime) {
-      setBattleStartTime(Date.now());
+    return () => clearInterval(timer);
+  }, [clockEndsAt, battleEndResult]);
+
+  const runningOut = clockPhase === 'battle' && timeRemaining < 30;
+
+  /**
+   * Redraw the field from a server snapshot (on join, reconnect or resync)
+   * Buildings, units and spells are replaced outright, so events missed while away don't matter
+   */
+  const applyBattleState = (state: BattleStateSnapshot) => {
+    if (!buildingsLayerRef.current || !troopsLayerRef.current) {
+      pendingStateRef.current = state;
+      return;
     }
+    pendingStateRef.current = null;
+    lastFrameTickRef.current = state.tick;
 
-    const timer = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - (battleStartTime || Date.now())) / 1000);
-      const remaining = Math.max(0, 180 - elapsed);
-      setTimeRemaining(remaining);
+    // Effects animate themselves out; only the spell rings are part of the state
+    for (const layer of [buildingsLayerRef.current, troopsLayerRef.current]) {
+      layer.removeChildren().forEach((child) => child.destroy());
+    }
+    spellSpritesRef.current.forEach((ring) => ring.destroy());
+    buildingSpritesRef.current.clear();
+    troopSpritesRef.current.clear();
+    spellSpritesRef.current.clear();
+
+    renderBuildings(state.buildings, buildingsLayerRef.current);
+    [...state.troops, ...state.defenders].forEach((unit) => handleTroopSpawn(unit));
+    state.spells.forEach((spell) => handleSpellCast(spell));
+
+    setDestructionPercentage(state.destructionPercentage);
+    setStars(state.stars);
+    setLoot(state.loot);
+    setTroopsRemaining(state.budget.troops);
+    setSpellsRemaining(state.budget.spells);
+    setHeroesRemaining(state.budget.heroes);
+    setHeroAbilityUsed(
+      Object.fromEntries(
+        state.troops
+          .filter((t) => t.isHero)
+          .map((hero) => [hero.troopType, state.abilitiesUsed.includes(hero.troopType)])
+      )
+    );
+    applyClock(state.clock);
+  };
 
-      if (remaining === 0) {
-        clearInterval(timer);
-      }
-    }, 1000);
+  const handleSurrender = () => {
+    if (!battleSession || battleEndResult) return;
 
-    return () => clearInterval(timer);
-  }, [battleStarted, battleStartTime, battleEndResult]);
+    surrender(battleSession.battleId).catch((error) => {
+      console.error('Failed to surrender:', error);
+      setBattleStatus('Failed to end the battle');
+    });
+  };
 
   // Battle event handlers
   const handleBattleEndEvent = useCallback((result: any) => {
-    setBattleStatus(`Battle Over! ${result.stars} Stars - ${result.destructionPercentage}% Destruction`);
+    setBattleStatus(
+      result.aborted
+        ? 'Battle called off before deploying - your army was returned'
+        : `Battle Over! ${result.stars} Stars - ${result.destructionPercentage}% Destruction`
+    );
+    setClockPhase('over');
     setDestructionPercentage(result.destructionPercentage);
     setStars(result.stars || 0);
     setBattleEndResult(result);
-  }, []);
+    // Trophies and loot changed, so the village needs reloading
+    fetchVillage();
+  }, [fetchVillage]);
 
   const handleBattleEvent = useCallback((event: BattleEvent) => {
     switch (event.type) {
       case 'TROOP_SPAWN':
         handleTroopSpawn(event.data);
         break;
-      case 'TROOP_MOVE':
-        handleTroopMove(event.data);
+      case 'STATE_FRAME':
+        handleStateFrame(event.data, event.timestamp);
         break;
       case 'TROOP_ATTACK':
         handleTroopAttacked(event.data);
@@ -386,23 +520,105 @@ export default function BattlePage() {
       case 'BUILDING_DESTROYED':
         handleBuildingDestroyed(event.data);
         break;
+      case 'SPELL_CAST':
+        handleSpellCast(event.data);
+        break;
+      case 'SPELL_END':
+        handleSpellEnd(event.data);
+        break;
+      case 'TROOP_HEAL':
+        handleTroopAttacked(event.data);
+        break;
+      case 'HERO_ABILITY':
+        handleHeroAbility(event.data);
+        break;
+      case 'SESSION_STATE':
+        // Server's count of what is left to deploy
+        setTroopsRemaining(event.data.troops);
+        setSpellsRemaining(event.data.spells);
+        break;
+      case 'CLOCK':
+        applyClock(event.data);
+        break;
+      case 'SPLASH_LAUNCH':
+        createProjectile(event.data.from, event.data.to, undefined, event.data.travelMs);
+        break;
+      case 'SPLASH_IMPACT':
+        handleSplashImpact(event.data);
+        break;
+      case 'TRAP_TRIGGERED':
+        // Trap positions are already tile centers
+        createExplosion(event.data.position, event.data.radius);
+        break;
+      case 'GARRISON_RELEASED':
+        event.data.defenders.forEach((defender: any) => handleTroopSpawn(defender));
+        break;
       case 'BATTLE_END':
         handleBattleEndEvent(event.data);
         break;
     }
   }, [handleBattleEndEvent]);
 
-  // Handle canvas click for troop deployment
+  // Handle canvas click for troop deployment (or casting the selected spell)
   const handleCanvasClick = useCallback(
     (event: any) => {
+      if (selectedSpellType && battleSession) {
+        const pos = event.data.global;
+        const spellTypeToCast = selectedSpellType;
+
+        // Troops are drawn in the middle of their tile, so undo that offset for the world position
+        castSpell(battleSession.battleId, spellTypeToCast, {
+          x: (pos.x - TILE_SIZE / 2) / TILE_SIZE,
+          y: (pos.y - TILE_SIZE / 2) / TILE_SIZE,
+        })
+          .then((response) => {
+            setSpellsRemaining(response.spellsRemaining);
+            setBattleStarted(true);
+            setBattleStatus(`${spellTypeToCast} cast!`);
+          })
+          .catch((error) => {
+            console.error('Failed to cast spell:', error);
+            setBattleStatus(`Failed to cast ${spellTypeToCast}`);
+          });
+
+        setSelectedSpellType(null);
+        return;
+      }
+
       if (!selectedTroopType || !battleSession) return;
 
+      // Heroes deploy once and don't use the troop budget
+      if (heroesRemaining.includes(selectedTroopType)) {
+        const pos = event.data.global;
+        const gridX = Math.floor(pos.x / TILE_SIZE);
+        const gridY = Math.floor(pos.y / TILE_SIZE);
+        const heroType = selectedTroopType;
+
+        if (isInNoDeployZone(battleSession.session.noDeployZones, gridX, gridY)) {
+          setBattleStatus('Too close to buildings - deploy outside the red zone');
+          return;
+        }
+
+        deployTroop(battleSession.battleId, heroType, { x: gridX, y: gridY })
+          .then(() => {
+            setHeroesRemaining((prev) => prev.filter((h) => h !== heroType));
+            setHeroAbilityUsed((prev) => ({ ...prev, [heroType]: false }));
+            setSelectedTroopType(null);
+            setBattleStarted(true);
+            setBattleStatus(`Deployed ${heroType} at (${gridX}, ${gridY})`);
+          })
+          .catch((error) => {
+            console.error('Failed to deploy hero:', error);
+            setBattleStatus(`Failed to deploy ${heroType}`);
+          });
+        return;
+      }
+
       const troopsList = selectedTroops || [];
       const troopConfig = troopsList.find((t: any) => t.type === selectedTroopType);
       if (!troopConfig) return;
 
-      const deployed = deployedCounts[selectedTroopType] || 0;
-      if (deployed >= troopConfig.count) {
+      if ((troopsRemaining[selectedTroopType] ?? 0) <= 0) {
         setBattleStatus(`No more ${selectedTroopType} available!`);
         return;
       }
@@ -411,14 +627,16 @@ export default function BattlePage() {
       const gridX = Math.floor(pos.x / TILE_SIZE);
       const gridY = Math.floor(pos.y / TILE_SIZE);
 
+      if (isInNoDeployZone(battleSession.session.noDeployZones, gridX, gridY)) {
+        setBattleStatus('Too close to buildings - deploy outside the red zone');
+        return;
+      }
+
       const troopTypeToDepl = selectedTroopType;
 
       deployTroop(battleSession.battleId, troopTypeToDepl, { x: gridX, y: gridY })
         .then((response) => {
-          setDeployedCounts((prev) => ({
-            ...prev,
-            [troopTypeToDepl]: (prev[troopTypeToDepl] || 0) + 1,
-          }));
+          setTroopsRemaining(response.troopsRemaining);
 
           setBattleStarted(true);
           setBattleStatus(`Deployed ${troopTypeToDepl} at (${gridX}, ${gridY})`);
@@ -428,9 +646,23 @@ export default function BattlePage() {
           setBattleStatus(`Failed to deploy ${troopTypeToDepl}`);
         });
     },
-    [selectedTroopType, battleSession, selectedTroops, deployedCounts]
+    [selectedTroopType, selectedSpellType, battleSession, selectedTroops, troopsRemaining, heroesRemaining]
   );
 
+  const handleActivateAbility = (heroType: string) => {
+    if (!battleSession) return;
+
+    activateHeroAbility(battleSession.battleId, heroType)
+      .then(() => {
+        setHeroAbilityUsed((prev) => ({ ...prev, [heroType]: true }));
+        setBattleStatus(`${heroType} ability activated!`);
+      })
+      .catch((error) => {
+        console.error('Failed to activate hero ability:', error);
+        setBattleStatus(`${heroType} ability not available`);
+      });
+  };
+
   // Update click handler
   useEffect(() => {
     if (!appRef.current?.stage) return;
@@ -466,16 +698,21 @@ export default function BattlePage() {
       }
     }, 5000);
 
+    // Listeners stay on the socket across reconnects, so they are added once
+    onBattleEvent(handleBattleEvent);
+    onBattleEnd(handleBattleEndEvent);
+
+    // Fires again on every reconnect: rejoining sends the current state to redraw from
     socket.on('connect', () => {
       setIsConnected(true);
       setBattleStatus('Select a troop below, then click on the map to deploy!');
       clearTimeout(connectionTimeout);
 
-      onBattleEvent(handleBattleEvent);
-      onBattleEnd(handleBattleEndEvent);
-
       joinBattle(battleSession.battleId, villageId)
         .then((response) => {
+          if (response.state) {
+            applyBattleState(response.state);
+          }
           if (response.isAttacker === false) {
             setBattleStatus('Spectating battle - you cannot deploy troops');
             setIsConnected(true);
@@ -511,18 +748,39 @@ export default function BattlePage() {
     };
   }, [battleSession, villageId, router, handleBattleEvent, handleBattleEndEvent, clearBattle]);
 
+  // Browsers throttle background tabs, so resync the field when the battle comes back into view
+  useEffect(() => {
+    if (!battleSession || battleEndResult) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+
+      requestBattleState(battleSession.battleId)
+        .then((response) => applyBattleState(response.state))
+        .catch((error) => console.error('Failed to resync battle state:', error));
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [battleSession, battleEndResult]);
+
   // Troop spawn handler
   const handleTroopSpawn = (data: any) => {
     if (!troopsLayerRef.current) return;
 
     const troopContainer = new Container();
 
+    // Heroes are drawn larger with a gold outline
+    const radius = data.isHero ? TILE_SIZE / 1.8 : TILE_SIZE / 2.5;
     const sprite = new Graphics();
     sprite.beginFill(getTroopColor(data.troopType));
-    sprite.drawCircle(0, 0, TILE_SIZE / 2.5);
+    sprite.drawCircle(0, 0, radius);
     sprite.endFill();
-    sprite.lineStyle(1, 0x000000, 0.5);
-    sprite.drawCircle(0, 0, TILE_SIZE / 2.5);
+    // Clan Castle troops get a red outline so they stand out from attackers
+    const outlined = data.isHero || data.isDefender;
+    const outline = data.isHero ? 0xffd700 : data.isDefender ? 0xc0392b : 0x000000;
+    sprite.lineStyle(outlined ? 2 : 1, outline, outlined ? 1 : 0.5);
+    sprite.drawCircle(0, 0, radius);
 
     troopContainer.addChild(sprite);
 
@@ -532,7 +790,8 @@ export default function BattlePage() {
 
     troopsLayerRef.current.addChild(troopContainer);
 
-    const healthBar = createHealthBar(data.health, data.health, TILE_SIZE);
+    const maxHealth = data.maxHealth ?? data.health;
+    const healthBar = createHealthBar(data.health, maxHealth, TILE_SIZE);
     healthBar.position.set(data.position.x * TILE_SIZE, (data.position.y - 0.3) * TILE_SIZE);
     troopsLayerRef.current.addChild(healthBar);
 
@@ -542,7 +801,7 @@ export default function BattlePage() {
       sprite: troopContainer,
       position: data.position,
       health: data.health,
-      maxHealth: data.health,
+      maxHealth,
       healthBar,
     });
   };
@@ -552,44 +811,100 @@ export default function BattlePage() {
       case 'BARBARIAN': return 0xff6b6b;
       case 'ARCHER': return 0x9b59b6;
       case 'GIANT': return 0x3498db;
+      case 'BALLOON': return 0xe74c3c;
+      case 'MINION': return 0x1abc9c;
+      case 'BARBARIAN_KING': return 0xe67e22;
       default: return 0x95a5a6;
     }
   };
 
-  const handleTroopMove = (data: any) => {
-    const troopSprite = troopSpritesRef.current.get(data.troopId);
-    if (!troopSprite) return;
+  // One frame per server tick: play its events, then glide units towards where they are now
+  const handleStateFrame = (frame: StateFrame, timestamp: number) => {
+    if (frame.tick < lastFrameTickRef.current) return;
+    lastFrameTickRef.current = frame.tick;
+
+    frame.events.forEach(([type, data]) => handleBattleEvent({ type, timestamp, data }));
+
+    const now = performance.now();
+    frame.units.forEach(([troopId, x, y, health]) => {
+      const troopSprite = troopSpritesRef.current.get(troopId);
+      if (!troopSprite) return;
 
-    troopSprite.sprite.position.set(data.to.x * TILE_SIZE + TILE_SIZE / 2, data.to.y * TILE_SIZE + TILE_SIZE / 2);
-    troopSprite.position = data.to;
+      troopSprite.moveFrom = {
+        x: (troopSprite.sprite.position.x - TILE_SIZE / 2) / TILE_SIZE,
+        y: (troopSprite.sprite.position.y - TILE_SIZE / 2) / TILE_SIZE,
+      };
+      troopSprite.moveStartedAt = now;
+      troopSprite.position = { x, y };
+
+      if (troopSprite.health !== health) {
+        troopSprite.health = health;
+        drawTroopHealth(troopSprite);
+      }
+    });
+
+    frame.buildings.forEach(([buildingId, health]) => {
+      const buildingSprite = buildingSpritesRef.current.get(buildingId);
+      if (!buildingSprite || buildingSprite.health === health) return;
+
+      buildingSprite.health = health;
+      drawBuildingHealth(buildingSprite);
+    });
+  };
+
+  // Runs every render frame: units cover the distance to their latest position over one tick
+  const interpolateUnits = () => {
+    const now = performance.now();
+
+    troopSpritesRef.current.forEach((troopSprite) => {
+      if (!troopSprite.moveFrom || troopSprite.moveStartedAt === undefined) return;
+
+      const progress = Math.min(1, (now - troopSprite.moveStartedAt) / FRAME_MS);
+      const { x: fromX, y: fromY } = troopSprite.moveFrom;
+      placeTroop(troopSprite, {
+        x: fromX + (troopSprite.position.x - fromX) * progress,
+        y: fromY + (troopSprite.position.y - fromY) * progress,
+      });
+
+      if (progress === 1) {
+        troopSprite.moveFrom = undefined;
+      }
+    });
+  };
+
+  const placeTroop = (troopSprite: TroopSprite, position: { x: number; y: number }) => {
+    troopSprite.sprite.position.set(position.x * TILE_SIZE + TILE_SIZE / 2, position.y * TILE_SIZE + TILE_SIZE / 2);
 
     if (troopSprite.healthBar) {
-      troopSprite.healthBar.position.set(data.to.x * TILE_SIZE, (data.to.y - 0.3) * TILE_SIZE);
+      troopSprite.healthBar.position.set(position.x * TILE_SIZE, (position.y - 0.3) * TILE_SIZE);
     }
   };
 
+  // Buildings give up loot as they take damage; events carry what each hit released
+  const addLoot = (delta?: { gold: number; elixir: number }) => {
+    if (!delta || (delta.gold === 0 && delta.elixir === 0)) return;
+    setLoot((prev) => ({
+      ...prev,
+      lootedGold: prev.lootedGold + delta.gold,
+      lootedElixir: prev.lootedElixir + delta.elixir,
+    }));
+  };
+
+  // Destruction and stars ride along on every building hit, so the HUD fills in as they're earned
+  const updateScore = (data: { destructionPercentage?: number; stars?: number }) => {
+    if (data.destructionPercentage !== undefined) setDestructionPercentage(data.destructionPercentage);
+    if (data.stars !== undefined) setStars(data.stars);
+  };
+
   const handleBuildingAttack = (data: any) => {
+    addLoot(data.loot);
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
     if (!buildingSprite) return;
 
     buildingSprite.health = data.remainingHealth;
-
-    if (buildingSprite.healthBar) {
-      buildingSprite.healthBar.clear();
-      const barWidth = buildingSprite.width;
-      const barHeight = 3;
-      const healthPercent = buildingSprite.health / buildingSprite.maxHealth;
-
-      buildingSprite.healthBar.beginFill(0x000000, 0.5);
-      buildingSprite.healthBar.drawRect(0, 0, barWidth, barHeight);
-      buildingSprite.healthBar.endFill();
-
-      buildingSprite.healthBar.beginFill(
-        healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c
-      );
-      buildingSprite.healthBar.drawRect(0, 0, barWidth * healthPercent, barHeight);
-      buildingSprite.healthBar.endFill();
-    }
+    drawBuildingHealth(buildingSprite);
 
     if (data.projectile) {
       createProjectile(data.projectile.from, data.projectile.to, data.troopType);
@@ -603,30 +918,43 @@ export default function BattlePage() {
     if (!troopSprite) return;
 
     troopSprite.health = data.remainingHealth;
+    drawTroopHealth(troopSprite);
 
-    if (troopSprite.healthBar) {
-      troopSprite.healthBar.clear();
-      const barWidth = TILE_SIZE;
-      const barHeight = 3;
-      const healthPercent = troopSprite.health / troopSprite.maxHealth;
-
-      troopSprite.healthBar.beginFill(0x000000, 0.5);
-      troopSprite.healthBar.drawRect(0, 0, barWidth, barHeight);
-      troopSprite.healthBar.endFill();
+    if (data.projectile) {
+      createProjectile(data.projectile.from, data.projectile.to);
+    }
+  };
 
-      troopSprite.healthBar.beginFill(
-        healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c
-      );
-      troopSprite.healthBar.drawRect(0, 0, barWidth * healthPercent, barHeight);
-      troopSprite.healthBar.endFill();
+  const drawBuildingHealth = (buildingSprite: BuildingSprite) => {
+    if (buildingSprite.healthBar) {
+      drawHealthBar(buildingSprite.healthBar, buildingSprite.health, buildingSprite.maxHealth, buildingSprite.width);
     }
+  };
 
-    if (data.projectile) {
-      createProjectile(data.projectile.from, data.projectile.to);
+  const drawTroopHealth = (troopSprite: TroopSprite) => {
+    if (troopSprite.healthBar) {
+      drawHealthBar(troopSprite.healthBar, troopSprite.health, troopSprite.maxHealth, TILE_SIZE);
     }
   };
 
+  const drawHealthBar = (healthBar: Graphics, health: number, maxHealth: number, width: number) => {
+    const barHeight = 3;
+    const healthPercent = Math.max(0, health) / maxHealth;
+
+    healthBar.clear();
+    healthBar.beginFill(0x000000, 0.5);
+    healthBar.drawRect(0, 0, width, barHeight);
+    healthBar.endFill();
+
+    healthBar.beginFill(healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c);
+    healthBar.drawRect(0, 0, width * healthPercent, barHeight);
+    healthBar.endFill();
+  };
+
   const handleBuildingDestroyed = (data: any) => {
+    addLoot(data.loot);
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
     if (!buildingSprite) return;
 
@@ -649,7 +977,61 @@ export default function BattlePage() {
     troopSpritesRef.current.delete(data.troopId);
   };
 
-  const createProjectile = (from: { x: number; y: number }, to: { x: number; y: number }, troopType?: string) => {
+  const handleHeroAbility = (data: any) => {
+    handleTroopAttacked(data);
+
+    const troopSprite = troopSpritesRef.current.get(data.troopId);
+    if (troopSprite) {
+      createExplosion({ x: troopSprite.position.x + 0.5, y: troopSprite.position.y + 0.5 }, 1.5);
+    }
+  };
+
+  const handleSplashImpact = (data: any) => {
+    createExplosion({ x: data.position.x + 0.5, y: data.position.y + 0.5 }, data.radius);
+  };
+
+  const handleSpellCast = (data: any) => {
+    if (!effectsLayerRef.current) return;
+
+    const color = getSpellColor(data.spellType);
+    const ring = new Graphics();
+    ring.lineStyle(2, color, 0.9);
+    ring.beginFill(color, 0.2);
+    ring.drawCircle(0, 0, data.radius * TILE_SIZE);
+    ring.endFill();
+    ring.position.set(data.position.x * TILE_SIZE + TILE_SIZE / 2, data.position.y * TILE_SIZE + TILE_SIZE / 2);
+
+    effectsLayerRef.current.addChild(ring);
+    spellSpritesRef.current.set(data.spellId, ring);
+
+    if (data.spellType === 'LIGHTNING') {
+      createExplosion({ x: data.position.x + 0.5, y: data.position.y + 0.5 }, data.radius);
+    }
+  };
+
+  const handleSpellEnd = (data: any) => {
+    const ring = spellSpritesRef.current.get(data.spellId);
+    if (!ring) return;
+
+    ring.destroy();
+    spellSpritesRef.current.delete(data.spellId);
+  };
+
+  const getSpellColor = (type: string): number => {
+    switch (type) {
+      case 'LIGHTNING': return 0x5dade2;
+      case 'HEAL': return 0xf1c40f;
+      case 'RAGE': return 0x8e44ad;
+      default: return 0xffffff;
+    }
+  };
+
+  const createProjectile = (
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    troopType?: string,
+    duration: number = 300,
+  ) => {
     if (!effectsLayerRef.current) return;
 
     const projectile = new Graphics();
@@ -674,7 +1056,6 @@ export default function BattlePage() {
     projectile.position.set(from.x * TILE_SIZE + TILE_SIZE / 2, from.y * TILE_SIZE + TILE_SIZE / 2);
     effectsLayerRef.current.addChild(projectile);
 
-    const duration = 300;
     const startTime = Date.now();
 
     const animate = () => {
@@ -763,10 +1144,22 @@ export default function BattlePage() {
       case 'BARBARIAN': return '⚔️';
       case 'ARCHER': return '🏹';
       case 'GIANT': return '🦾';
+      case 'BALLOON': return '🎈';
+      case 'MINION': return '🦇';
+      case 'BARBARIAN_KING': return '👑';
       default: return '👤';
     }
   };
 
+  const getSpellIcon = (type: string) => {
+    switch (type) {
+      case 'LIGHTNING': return '⚡';
+      case 'HEAL': return '💚';
+      case 'RAGE': return '😡';
+      default: return '✨';
+    }
+  };
+
   if (isLoading || !battleSession) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-black">
@@ -808,6 +1201,15 @@ export default function BattlePage() {
           <ArrowLeft className="mr-2 h-4 w-4" />
           Exit Battle
         </Button>
+        {!battleEndResult && (
+          <Button
+            onClick={handleSurrender}
+            className="ml-2 bg-red-900/90 backdrop-blur-xl border border-red-500/30 hover:border-red-500 text-white hover:bg-red-800/90 transition-all duration-300 shadow-lg"
+          >
+            <Flag className="mr-2 h-4 w-4" />
+            {clockPhase === 'scouting' ? 'Call Off' : 'Surrender'}
+          </Button>
+        )}
       </motion.div>
 
       {/* Top Center - Battle Info Panel */}
@@ -821,11 +1223,13 @@ export default function BattlePage() {
             {/* Timer */}
             <div className="flex items-center gap-3">
               <div className="bg-blue-500/20 p-3 rounded-xl border border-blue-500/30">
-                <Clock className={`w-6 h-6 ${timeRemaining < 30 ? 'text-red-500 animate-pulse' : 'text-blue-400'}`} />
+                <Clock className={`w-6 h-6 ${runningOut ? 'text-red-500 animate-pulse' : 'text-blue-400'}`} />
               </div>
               <div>
-                <div className="text-xs text-gray-400 uppercase tracking-wide">Time</div>
-                <div className={`text-2xl font-bold font-mono ${timeRemaining < 30 ? 'text-red-500' : 'text-white'}`}>
+                <div className="text-xs text-gray-400 uppercase tracking-wide">
+                  {clockPhase === 'scouting' ? 'Scouting' : 'Time'}
+                </div>
+                <div className={`text-2xl font-bold font-mono ${runningOut ? 'text-red-500' : 'text-white'}`}>
                   {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
                 </div>
               </div>
@@ -842,6 +1246,22 @@ export default function BattlePage() {
               </div>
             </div>
 
+            {/* Loot: looted so far / available when the battle started */}
+            <div className="flex items-center gap-3">
+              <div className="bg-amber-500/20 p-3 rounded-xl border border-amber-500/30">
+                <Coins className="w-6 h-6 text-amber-400" />
+              </div>
+              <div>
+                <div className="text-xs text-gray-400 uppercase tracking-wide">Loot</div>
+                <div className="text-sm font-bold font-numbers text-yellow-400">
+                  🪙 {loot.lootedGold.toLocaleString()} / {loot.availableGold.toLocaleString()}
+                </div>
+                <div className="text-sm font-bold font-numbers text-purple-400">
+                  💧 {loot.lootedElixir.toLocaleString()} / {loot.availableElixir.toLocaleString()}
+                </div>
+              </div>
+            </div>
+
             {/* Stars */}
             <div className="flex items-center gap-3">
               <div className="bg-yellow-500/20 p-3 rounded-xl border border-yellow-500/30">
@@ -851,10 +1271,15 @@ export default function BattlePage() {
                 <div className="text-xs text-gray-400 uppercase tracking-wide">Stars</div>
                 <div className="flex gap-1">
                   {[1, 2, 3].map((star) => (
-                    <Star
+                    <motion.div
                       key={star}
-                      className={`w-6 h-6 ${star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
-                    />
+                      animate={star <= stars ? { scale: [1, 1.6, 1], rotate: [0, 20, 0] } : { scale: 1, rotate: 0 }}
+                      transition={{ duration: 0.5 }}
+                    >
+                      <Star
+                        className={`w-6 h-6 ${star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
+                      />
+                    </motion.div>
                   ))}
                 </div>
               </div>
@@ -883,8 +1308,7 @@ export default function BattlePage() {
             </div>
 
             {troops.map((troop: any, index: number) => {
-              const deployed = deployedCounts[troop.type] || 0;
-              const remaining = troop.count - deployed;
+              const remaining = troopsRemaining[troop.type] ?? 0;
               const isSelected = selectedTroopType === troop.type;
 
               return (
@@ -946,6 +1370,100 @@ export default function BattlePage() {
                 </motion.button>
               );
             })}
+
+            {/* Hero Bar: deploy each hero once, then use its ability */}
+            {heroesRemaining.map((heroType) => {
+              const isSelected = selectedTroopType === heroType;
+
+              return (
+                <motion.button
+                  key={heroType}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  onClick={() => {
+                    setSelectedSpellType(null);
+                    setSelectedTroopType(heroType);
+                    setBattleStatus(`${heroType} selected! Click on the map to deploy.`);
+                  }}
+                  className={`
+                    relative
+                    ${isSelected
+                      ? 'bg-gradient-to-br from-yellow-500 to-amber-600 border-yellow-400 scale-110'
+                      : 'bg-gradient-to-br from-gray-800 to-gray-900 border-yellow-700 hover:border-yellow-500/50 hover:scale-105'
+                    }
+                    border-2 rounded-xl p-4 min-w-[120px]
+                    transition-all duration-300 shadow-lg
+                  `}
+                >
+                  <div className="text-4xl mb-2">{getTroopIcon(heroType)}</div>
+                  <div className={`text-sm font-bold mb-1 ${isSelected ? 'text-white' : 'text-gray-300'}`}>
+                    {heroType}
+                  </div>
+                  <div className={`text-lg font-mono font-bold ${isSelected ? 'text-white' : 'text-yellow-400'}`}>
+                    HERO
+                  </div>
+                </motion.button>
+              );
+            })}
+
+            {Object.entries(heroAbilityUsed).map(([heroType, used]) => (
+              <motion.button
+                key={`${heroType}_ability`}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                onClick={() => handleActivateAbility(heroType)}
+                disabled={used}
+                className={`
+                  relative
+                  bg-gradient-to-br from-yellow-600 to-red-700 border-yellow-400
+                  ${used ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 animate-pulse'}
+                  border-2 rounded-xl p-4 min-w-[120px]
+                  transition-all duration-300 shadow-lg
+                `}
+              >
+                <div className="text-4xl mb-2">👊</div>
+                <div className="text-sm font-bold mb-1 text-white">{heroType}</div>
+                <div className="text-lg font-mono font-bold text-yellow-200">
+                  {used ? 'USED' : 'ABILITY'}
+                </div>
+              </motion.button>
+            ))}
+
+            {/* Spell Bar */}
+            {Object.entries(spellsRemaining).map(([spellType, remaining]) => {
+              const isSelected = selectedSpellType === spellType;
+
+              return (
+                <motion.button
+                  key={spellType}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  onClick={() => {
+                    setSelectedSpellType(isSelected ? null : spellType);
+                    setBattleStatus(isSelected ? '' : `${spellType} selected! Click on the map to cast.`);
+                  }}
+                  disabled={remaining === 0}
+                  className={`
+                    relative
+                    ${isSelected
+                      ? 'bg-gradient-to-br from-fuchsia-500 to-violet-600 border-fuchsia-400 scale-110'
+                      : 'bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700 hover:border-fuchsia-500/50'
+                    }
+                    ${remaining === 0 ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}
+                    border-2 rounded-xl p-4 min-w-[100px]
+                    transition-all duration-300 shadow-lg
+                  `}
+                >
+                  <div className="text-4xl mb-2">{getSpellIcon(spellType)}</div>
+                  <div className={`text-sm font-bold mb-1 ${isSelected ? 'text-white' : 'text-gray-300'}`}>
+                    {spellType}
+                  </div>
+                  <div className={`text-lg font-mono font-bold ${remaining === 0 ? 'text-red-400' : isSelected ? 'text-white' : 'text-fuchsia-400'}`}>
+                    {remaining}
+                  </div>
+                </motion.button>
+              );
+            })}
           </div>
 
           {/* Status Message */}
@@ -0,0 +1,908 @@
+'use client';
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
+import { Application, Container, Graphics, Text, Sprite as PIXISprite } from 'pixi.js';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  battlesApi,
+  BattleBuilding,
+  BattleReplayResponse,
+  STATE_FRAME_REPLAY_VERSION,
+} from '@/lib/api/battles';
+import { ArrowLeft, Film, Flame, Trophy, Star, Play, Pause, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { BUILDING_CONFIGS, BuildingType } from '@/lib/config/buildingsData';
+import { SpriteManager } from '@/lib/game/SpriteManager';
+import { getBuildingSprite, CRITICAL_ASSETS } from '@/lib/config/spriteAssets';
+import { motion } from 'framer-motion';
+
+// Troop rendering data
+interface TroopSprite {
+  id: string;
+  type: string;
+  sprite: Container;
+  position: { x: number; y: number };
+  health: number;
+  maxHealth: number;
+  healthBar?: Graphics;
+}
+
+// Building rendering data
+interface BuildingSprite {
+  id: string;
+  type: string;
+  sprite: Container;
+  position: { x: number; y: number };
+  health: number;
+  maxHealth: number;
+  healthBar?: Graphics;
+  width: number;
+}
+
+// Grid and rendering constants - same as the live battle and spectate pages
+const GRID_WIDTH = 80;
+const GRID_HEIGHT = 40;
+const TILE_SIZE = 15;
+const CANVAS_WIDTH = GRID_WIDTH * TILE_SIZE;
+const CANVAS_HEIGHT = GRID_HEIGHT * TILE_SIZE;
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+const SPELL_COLORS: Record<string, number> = {
+  LIGHTNING: 0x5dade2,
+  HEAL: 0xf1c40f,
+  RAGE: 0x8e44ad,
+};
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Same star rules as the server, per game mode
+const STAR_RULES: Record<string, { destructionStars: number[]; townHallStar: boolean }> = {
+  MULTIPLAYER: { destructionStars: [50, 100], townHallStar: true },
+  DESTRUCTION: { destructionStars: [50, 70, 100], townHallStar: false },
+};
+
+// Replays recorded before game modes existed used the destruction-only thresholds
+const calculateStars = (destruction: number, townHallDestroyed: boolean, gameMode = 'DESTRUCTION') => {
+  const rules = STAR_RULES[gameMode] ?? STAR_RULES.DESTRUCTION;
+  let stars = rules.destructionStars.filter((threshold) => destruction >= threshold).length;
+  if (rules.townHallStar && townHallDestroyed) stars++;
+  return Math.min(stars, 3);
+};
+
+export default function BattleReplayPage() {
+  const router = useRouter();
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const battleId = params.id as string;
+  const returnTo = searchParams.get('returnTo') || '/village';
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const appRef = useRef<Application | null>(null);
+  const buildingsLayerRef = useRef<Container | null>(null);
+  const troopsLayerRef = useRef<Container | null>(null);
+  const effectsLayerRef = useRef<Container | null>(null);
+
+  const [data, setData] = useState<BattleReplayResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [spritesLoaded, setSpritesLoaded] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [currentTick, setCurrentTick] = useState(0);
+  const [destructionPercentage, setDestructionPercentage] = useState(0);
+  const [stars, setStars] = useState(0);
+
+  // Store sprites
+  const buildingSpritesRef = useRef<Map<string, BuildingSprite>>(new Map());
+  const troopSpritesRef = useRef<Map<string, TroopSprite>>(new Map());
+  const spellSpritesRef = useRef<Map<string, Graphics>>(new Map());
+
+  // Playback position: fractional tick and the index of the next event to apply
+  const playheadRef = useRef(0);
+  const eventCursorRef = useRef(0);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  // Preload sprites on mount
+  useEffect(() => {
+    const preloadSprites = async () => {
+      try {
+        await SpriteManager.preloadAssets(CRITICAL_ASSETS);
+        setSpritesLoaded(true);
+      } catch (error) {
+        console.error('Error preloading replay sprites:', error);
+        setSpritesLoaded(true);
+      }
+    };
+    preloadSprites();
+  }, []);
+
+  // Load replay data
+  useEffect(() => {
+    if (!battleId) return;
+
+    const loadReplay = async () => {
+      try {
+        const response = await battlesApi.getReplay(battleId);
+        setData(response);
+      } catch (err: any) {
+        console.error('Failed to load replay:', err);
+        setError(err.response?.data?.message || 'Failed to load replay');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReplay();
+  }, [battleId]);
+
+  // Initialize Pixi.js canvas
+  useEffect(() => {
+    if (!canvasRef.current || appRef.current || !data || !spritesLoaded) return;
+
+    const app = new Application({
+      width: CANVAS_WIDTH,
+      height: CANVAS_HEIGHT,
+      backgroundColor: 0x1a1a1a,
+      antialias: true,
+    });
+
+    canvasRef.current?.appendChild(app.view as HTMLCanvasElement);
+    appRef.current = app;
+
+    const buildingsLayer = new Container();
+    const troopsLayer = new Container();
+    const effectsLayer = new Container();
+
+    drawGrid(app.stage);
+    app.stage.addChild(buildingsLayer);
+    app.stage.addChild(troopsLayer);
+    app.stage.addChild(effectsLayer);
+
+    buildingsLayerRef.current = buildingsLayer;
+    troopsLayerRef.current = troopsLayer;
+    effectsLayerRef.current = effectsLayer;
+
+    seekTo(0);
+
+    return () => {
+      if (appRef.current) {
+        appRef.current.destroy(true);
+        appRef.current = null;
+      }
+    };
+  }, [data, spritesLoaded]);
+
+  // Draw grid
+  const drawGrid = (stage: Container) => {
+    const grid = new Graphics();
+    grid.lineStyle(1, 0x333333, 0.2);
+
+    for (let x = 0; x <= GRID_WIDTH; x++) {
+      grid.moveTo(x * TILE_SIZE, 0);
+      grid.lineTo(x * TILE_SIZE, CANVAS_HEIGHT);
+    }
+
+    for (let y = 0; y <= GRID_HEIGHT; y++) {
+      grid.moveTo(0, y * TILE_SIZE);
+      grid.lineTo(CANVAS_WIDTH, y * TILE_SIZE);
+    }
+
+    stage.addChild(grid);
+  };
+
+  const getBuildingColor = (type: string): number => {
+    switch (type.toUpperCase()) {
+      case 'TOWN_HALL': return 0xff6b6b;
+      case 'GOLD_MINE': return 0xffd700;
+      case 'ELIXIR_COLLECTOR': return 0x9b59b6;
+      case 'ARMY_CAMP': return 0x3498db;
+      case 'CANNON': return 0x95a5a6;
+      case 'ARCHER_TOWER': return 0x34495e;
+      case 'AIR_DEFENSE': return 0x4682b4;
+      case 'MORTAR': return 0x556b2f;
+      case 'WIZARD_TOWER': return 0x8a2be2;
+      case 'CLAN_CASTLE': return 0x8b0000;
+      case 'WALL': return 0x8B4513;
+      default: return 0xbdc3c7;
+    }
+  };
+
+  const getTroopColor = (type: string): number => {
+    switch (type) {
+      case 'BARBARIAN': return 0xff6b6b;
+      case 'ARCHER': return 0x9b59b6;
+      case 'GIANT': return 0x3498db;
+      case 'BALLOON': return 0xe74c3c;
+      case 'MINION': return 0x1abc9c;
+      case 'BARBARIAN_KING': return 0xe67e22;
+      default: return 0x95a5a6;
+    }
+  };
+
+  const drawHealthBar = (healthBar: Graphics, health: number, maxHealth: number, width: number) => {
+    const barHeight = 3;
+    const healthPercent = Math.max(0, health) / maxHealth;
+
+    healthBar.clear();
+    healthBar.beginFill(0x000000, 0.5);
+    healthBar.drawRect(0, 0, width, barHeight);
+    healthBar.endFill();
+
+    healthBar.beginFill(healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c);
+    healthBar.drawRect(0, 0, width * healthPercent, barHeight);
+    healthBar.endFill();
+  };
+
+  const renderBuilding = (building: BattleBuilding) => {
+    if (!buildingsLayerRef.current) return;
+
+    const buildingContainer = new Container();
+
+    const buildingType = building.type.toLowerCase() as BuildingType;
+    const config = BUILDING_CONFIGS[buildingType];
+    const buildingWidth = config ? config.size.width * TILE_SIZE : 2 * TILE_SIZE;
+    const buildingHeight = config ? config.size.height * TILE_SIZE : 2 * TILE_SIZE;
+
+    const spriteConfig = getBuildingSprite(buildingType);
+    const texture = SpriteManager.getTextureSync(spriteConfig.path);
+
+    if (texture) {
+      const buildingSprite = new PIXISprite(texture);
+
+      const scaleX = buildingWidth / texture.width;
+      const scaleY = buildingHeight / texture.height;
+      const scale = Math.min(scaleX, scaleY) * (spriteConfig.scaleMultiplier || 1.0);
+
+      buildingSprite.scale.set(scale, scale);
+      buildingSprite.anchor.set(spriteConfig.anchor?.x || 0.5, spriteConfig.anchor?.y || 0.5);
+      buildingSprite.x = buildingWidth / 2;
+      buildingSprite.y = buildingHeight / 2 + (spriteConfig.yOffset || 0);
+
+      buildingContainer.addChild(buildingSprite);
+    } else {
+      const sprite = new Graphics();
+      sprite.beginFill(getBuildingColor(building.type));
+      sprite.drawRect(0, 0, buildingWidth, buildingHeight);
+      sprite.endFill();
+      sprite.lineStyle(1, 0x000000, 0.5);
+      sprite.drawRect(0, 0, buildingWidth, buildingHeight);
+      buildingContainer.addChild(sprite);
+    }
+
+    // Only add labels to non-wall buildings
+    if (building.type.toLowerCase() !== 'wall') {
+      const label = new Text(building.type.replace(/_/g, ' '), {
+        fontSize: 8,
+        fill: 0xffffff,
+      });
+      label.position.set(buildingWidth / 2, buildingHeight / 2);
+      label.anchor.set(0.5);
+      buildingContainer.addChild(label);
+    }
+
+    buildingContainer.position.set(building.position.x * TILE_SIZE, building.position.y * TILE_SIZE);
+    buildingsLayerRef.current.addChild(buildingContainer);
+
+    const healthBar = new Graphics();
+    drawHealthBar(healthBar, building.health, building.maxHealth, buildingWidth);
+    healthBar.position.set(building.position.x * TILE_SIZE, (building.position.y - 0.5) * TILE_SIZE);
+    buildingsLayerRef.current.addChild(healthBar);
+
+    buildingSpritesRef.current.set(building.id, {
+      id: building.id,
+      type: building.type,
+      sprite: buildingContainer,
+      position: building.position,
+      health: building.health,
+      maxHealth: building.maxHealth,
+      healthBar,
+      width: buildingWidth,
+    });
+  };
+
+  /**
+   * Rebuild the scene in its starting state: full-health layout, defenders on their posts, no troops
+   */
+  const resetScene = () => {
+    if (!data) return;
+
+    for (const layer of [buildingsLayerRef.current, troopsLayerRef.current, effectsLayerRef.current]) {
+      layer?.removeChildren().forEach((child) => child.destroy());
+    }
+    buildingSpritesRef.current.clear();
+    troopSpritesRef.current.clear();
+    spellSpritesRef.current.clear();
+
+    data.buildings.forEach((building) => renderBuilding(building));
+    (data.defenders ?? []).forEach((defender) => handleTroopSpawn(defender));
+  };
+
+  // Destruction is derived from building health exactly like the server does (walls excluded)
+  const updateScore = () => {
+    let totalHealth = 0;
+    let remainingHealth = 0;
+    let townHallDestroyed = false;
+
+    buildingSpritesRef.current.forEach((building) => {
+      if (building.type.toLowerCase() === 'wall') return;
+      if (building.type.toLowerCase() === 'town_hall' && building.health <= 0) {
+        townHallDestroyed = true;
+      }
+      totalHealth += building.maxHealth;
+      remainingHealth += Math.max(0, building.health);
+    });
+
+    const destruction =
+      totalHealth === 0 ? 100 : Math.floor(((totalHealth - remainingHealth) / totalHealth) * 100);
+    setDestructionPercentage(destruction);
+    setStars(calculateStars(destruction, townHallDestroyed, data?.replay.gameMode));
+  };
+
+  const handleTroopSpawn = (eventData: any) => {
+    if (!troopsLayerRef.current) return;
+
+    const troopContainer = new Container();
+    // Heroes are drawn larger with a gold outline
+    const radius = eventData.isHero ? TILE_SIZE / 1.8 : TILE_SIZE / 2.5;
+    const sprite = new Graphics();
+    sprite.beginFill(getTroopColor(eventData.troopType));
+    sprite.drawCircle(0, 0, radius);
+    sprite.endFill();
+    // Clan Castle troops get a red outline so they stand out from attackers
+    const outlined = eventData.isHero || eventData.isDefender;
+    const outline = eventData.isHero ? 0xffd700 : eventData.isDefender ? 0xc0392b : 0x000000;
+    sprite.lineStyle(outlined ? 2 : 1, outline, outlined ? 1 : 0.5);
+    sprite.drawCircle(0, 0, radius);
+
+    troopContainer.addChild(sprite);
+    troopContainer.position.set(
+      eventData.position.x * TILE_SIZE + TILE_SIZE / 2,
+      eventData.position.y * TILE_SIZE + TILE_SIZE / 2
+    );
+    troopsLayerRef.current.addChild(troopContainer);
+
+    const maxHealth = eventData.maxHealth ?? eventData.health;
+    const healthBar = new Graphics();
+    drawHealthBar(healthBar, eventData.health, maxHealth, TILE_SIZE);
+    healthBar.position.set(eventData.position.x * TILE_SIZE, (eventData.position.y - 0.3) * TILE_SIZE);
+    troopsLayerRef.current.addChild(healthBar);
+
+    troopSpritesRef.current.set(eventData.troopId, {
+      id: eventData.troopId,
+      type: eventData.troopType,
+      sprite: troopContainer,
+      position: eventData.position,
+      health: eventData.health,
+      maxHealth,
+      healthBar,
+    });
+  };
+
+  const handleTroopMove = (troopId: string, to: { x: number; y: number }) => {
+    const troopSprite = troopSpritesRef.current.get(troopId);
+    if (!troopSprite) return;
+
+    troopSprite.sprite.position.set(to.x * TILE_SIZE + TILE_SIZE / 2, to.y * TILE_SIZE + TILE_SIZE / 2);
+    troopSprite.position = to;
+    troopSprite.healthBar?.position.set(to.x * TILE_SIZE, (to.y - 0.3) * TILE_SIZE);
+  };
+
+  // Recorded frames hold what moved or changed health on a tick; the tick's events are recorded on their own
+  const handleStateFrame = (eventData: {
+    units: [id: string, x: number, y: number, health: number, state: string][];
+    buildings: [id: string, health: number][];
+  }) => {
+    eventData.units.forEach(([troopId, x, y, health]) => {
+      handleTroopMove(troopId, { x, y });
+
+      const troopSprite = troopSpritesRef.current.get(troopId);
+      if (troopSprite?.healthBar && troopSprite.health !== health) {
+        troopSprite.health = health;
+        drawHealthBar(troopSprite.healthBar, health, troopSprite.maxHealth, TILE_SIZE);
+      }
+    });
+
+    eventData.buildings.forEach(([buildingId, health]) => {
+      const buildingSprite = buildingSpritesRef.current.get(buildingId);
+      if (!buildingSprite?.healthBar || buildingSprite.health === health) return;
+
+      buildingSprite.health = health;
+      drawHealthBar(buildingSprite.healthBar, health, buildingSprite.maxHealth, buildingSprite.width);
+    });
+  };
+
+  const handleBuildingAttack = (eventData: any, animate: boolean) => {
+    const buildingSprite = buildingSpritesRef.current.get(eventData.buildingId);
+    if (!buildingSprite || !buildingSprite.healthBar) return;
+
+    buildingSprite.health = eventData.remainingHealth;
+    drawHealthBar(buildingSprite.healthBar, buildingSprite.health, buildingSprite.maxHealth, buildingSprite.width);
+
+    if (!animate) return;
+    if (eventData.projectile) {
+      createProjectile(eventData.projectile.from, eventData.projectile.to, eventData.troopType);
+    } else {
+      createMeleeEffect(buildingSprite.position);
+    }
+  };
+
+  const handleTroopAttacked = (eventData: any, animate: boolean) => {
+    const troopSprite = troopSpritesRef.current.get(eventData.troopId);
+    if (!troopSprite) return;
+
+    troopSprite.health = eventData.remainingHealth;
+    if (troopSprite.healthBar) {
+      drawHealthBar(troopSprite.healthBar, troopSprite.health, troopSprite.maxHealth, TILE_SIZE);
+    }
+
+    if (animate && eventData.projectile) {
+      createProjectile(eventData.projectile.from, eventData.projectile.to);
+    }
+  };
+
+  const handleSpellCast = (eventData: any) => {
+    if (!effectsLayerRef.current) return;
+
+    const color = SPELL_COLORS[eventData.spellType] ?? 0xffffff;
+    const ring = new Graphics();
+    ring.lineStyle(2, color, 0.9);
+    ring.beginFill(color, 0.2);
+    ring.drawCircle(0, 0, eventData.radius * TILE_SIZE);
+    ring.endFill();
+    ring.position.set(
+      eventData.position.x * TILE_SIZE + TILE_SIZE / 2,
+      eventData.position.y * TILE_SIZE + TILE_SIZE / 2
+    );
+
+    effectsLayerRef.current.addChild(ring);
+    spellSpritesRef.current.set(eventData.spellId, ring);
+  };
+
+  const handleSpellEnd = (eventData: any) => {
+    const ring = spellSpritesRef.current.get(eventData.spellId);
+    if (!ring) return;
+
+    ring.destroy();
+    spellSpritesRef.current.delete(eventData.spellId);
+  };
+
+  const handleBuildingDestroyed = (eventData: any) => {
+    const buildingSprite = buildingSpritesRef.current.get(eventData.buildingId);
+    if (!buildingSprite) return;
+
+    buildingSprite.health = 0;
+    buildingSprite.sprite.alpha = 0.3;
+    if (buildingSprite.healthBar) {
+      buildingSprite.healthBar.visible = false;
+    }
+  };
+
+  const handleTroopDeath = (eventData: any) => {
+    const troopSprite = troopSpritesRef.current.get(eventData.troopId);
+    if (!troopSprite) return;
+
+    troopSprite.sprite.destroy();
+    troopSprite.healthBar?.destroy();
+    troopSpritesRef.current.delete(eventData.troopId);
+  };
+
+  const createProjectile = (
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    troopType?: string,
+    travelMs: number = 300
+  ) => {
+    if (!effectsLayerRef.current) return;
+
+    const projectile = new Graphics();
+
+    if (troopType === 'ARCHER') {
+      projectile.lineStyle(2, 0x8b4513, 1);
+      projectile.moveTo(0, 0);
+      projectile.lineTo(8, 0);
+      projectile.lineTo(6, -2);
+      projectile.moveTo(8, 0);
+      projectile.lineTo(6, 2);
+      projectile.rotation = Math.atan2(to.y - from.y, to.x - from.x);
+    } else {
+      projectile.beginFill(0xffff00);
+      projectile.drawCircle(0, 0, 3);
+      projectile.endFill();
+    }
+
+    projectile.position.set(from.x * TILE_SIZE + TILE_SIZE / 2, from.y * TILE_SIZE + TILE_SIZE / 2);
+    effectsLayerRef.current.addChild(projectile);
+
+    // Effects play faster along with the replay
+    const duration = travelMs / speedRef.current;
+    const startTime = Date.now();
+
+    const animate = () => {
+      if (projectile.destroyed) return;
+      const progress = Math.min((Date.now() - startTime) / duration, 1);
+
+      projectile.position.set(
+        (from.x + (to.x - from.x) * progress) * TILE_SIZE + TILE_SIZE / 2,
+        (from.y + (to.y - from.y) * progress) * TILE_SIZE + TILE_SIZE / 2
+      );
+
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        projectile.destroy();
+      }
+    };
+
+    animate();
+  };
+
+  const createExplosion = (position: { x: number; y: number }, scale: number = 1) => {
+    if (!effectsLayerRef.current) return;
+
+    const explosion = new Graphics();
+    explosion.beginFill(0xff4500, 0.8);
+    explosion.drawCircle(0, 0, TILE_SIZE * scale);
+    explosion.endFill();
+    explosion.position.set(position.x * TILE_SIZE, position.y * TILE_SIZE);
+    effectsLayerRef.current.addChild(explosion);
+
+    const duration = 500 / speedRef.current;
+    const startTime = Date.now();
+
+    const animate = () => {
+      if (explosion.destroyed) return;
+      const progress = (Date.now() - startTime) / duration;
+
+      explosion.alpha = 1 - progress;
+      explosion.scale.set(1 + progress);
+
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        explosion.destroy();
+      }
+    };
+
+    animate();
+  };
+
+  const createMeleeEffect = (position: { x: number; y: number }) => {
+    if (!effectsLayerRef.current) return;
+
+    const slash = new Graphics();
+    slash.lineStyle(3, 0xff0000, 0.8);
+    slash.arc(0, 0, TILE_SIZE, -Math.PI / 4, Math.PI / 4);
+    slash.position.set(position.x * TILE_SIZE + TILE_SIZE, position.y * TILE_SIZE + TILE_SIZE);
+    effectsLayerRef.current.addChild(slash);
+
+    const duration = 200 / speedRef.current;
+    const startTime = Date.now();
+
+    const animate = () => {
+      if (slash.destroyed) return;
+      const progress = (Date.now() - startTime) / duration;
+
+      slash.alpha = 1 - progress;
+      slash.rotation = (progress * Math.PI) / 2;
+
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        slash.destroy();
+      }
+    };
+
+    animate();
+  };
+
+  /**
+   * Apply every recorded event up to (and including) the given tick
+   * Effects are skipped while seeking so jumping through the timeline stays instant
+   */
+  const applyEventsUntil = (tick: number, animate: boolean) => {
+    if (!data) return;
+
+    const events = data.replay.events;
+    let changed = false;
+
+    while (eventCursorRef.current < events.length && events[eventCursorRef.current][0] <= tick) {
+      const [, type, eventData] = events[eventCursorRef.current++];
+      changed = true;
+
+      switch (type) {
+        case 'TROOP_SPAWN':
+          handleTroopSpawn(eventData);
+          break;
+        case 'STATE_FRAME':
+          handleStateFrame(eventData);
+          break;
+        case 'TROOP_MOVE':
+          // Older replays move each troop with its own event
+          if (data.replay.version < STATE_FRAME_REPLAY_VERSION) {
+            handleTroopMove(eventData.troopId, eventData.to);
+          }
+          break;
+        case 'TROOP_ATTACK':
+          handleTroopAttacked(eventData, animate);
+          break;
+        case 'BUILDING_ATTACK':
+          handleBuildingAttack(eventData, animate);
+          break;
+        case 'BUILDING_DESTROYED':
+          handleBuildingDestroyed(eventData);
+          break;
+        case 'TROOP_DEATH':
+          handleTroopDeath(eventData);
+          break;
+        case 'TROOP_HEAL':
+        case 'HERO_ABILITY':
+          handleTroopAttacked(eventData, false);
+          break;
+        case 'SPELL_CAST':
+          handleSpellCast(eventData);
+          break;
+        case 'SPELL_END':
+          handleSpellEnd(eventData);
+          break;
+        case 'SPLASH_LAUNCH':
+          if (animate) {
+            createProjectile(eventData.from, eventData.to, undefined, eventData.travelMs);
+          }
+          break;
+        case 'SPLASH_IMPACT':
+          if (animate) {
+            createExplosion(
+              { x: eventData.position.x + 0.5, y: eventData.position.y + 0.5 },
+              eventData.radius
+            );
+          }
+          break;
+        case 'GARRISON_RELEASED':
+          eventData.defenders.forEach((defender: any) => handleTroopSpawn(defender));
+          break;
+        case 'TRAP_TRIGGERED':
+          if (animate) {
+            // Trap positions are already tile centers
+            createExplosion(eventData.position, eventData.radius);
+          }
+          break;
+      }
+    }
+
+    if (changed) {
+      updateScore();
+    }
+  };
+
+  const seekTo = (tick: number) => {
+    resetScene();
+    eventCursorRef.current = 0;
+    playheadRef.current = tick;
+    applyEventsUntil(tick, false);
+    updateScore();
+    setCurrentTick(tick);
+  };
+
+  const durationTicks = data?.replay.result.durationTicks ?? 0;
+  const tickMs = data?.replay.tickMs ?? 100;
+
+  // Playback loop: advance the playhead by real elapsed time scaled by the playback speed
+  useEffect(() => {
+    if (!isPlaying || !data) return;
+
+    let frameId: number;
+    let lastFrame = performance.now();
+
+    const frame = (now: number) => {
+      const elapsed = now - lastFrame;
+      lastFrame = now;
+
+      playheadRef.current = Math.min(
+        playheadRef.current + (elapsed / tickMs) * speedRef.current,
+        durationTicks
+      );
+      applyEventsUntil(Math.floor(playheadRef.current), true);
+      setCurrentTick(Math.floor(playheadRef.current));
+
+      if (playheadRef.current >= durationTicks) {
+        setIsPlaying(false);
+        return;
+      }
+
+      frameId = requestAnimationFrame(frame);
+    };
+
+    frameId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, data, durationTicks, tickMs]);
+
+  const togglePlay = useCallback(() => {
+    if (!isPlaying && playheadRef.current >= durationTicks) {
+      seekTo(0);
+    }
+    setIsPlaying((playing) => !playing);
+  }, [isPlaying, durationTicks, data]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-black">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-amber-500 border-r-transparent mb-4"></div>
+          <h2 className="text-2xl font-bold text-white">Loading replay...</h2>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-black">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4 text-white">{error || 'Replay not found'}</h2>
+          <Button onClick={() => router.push(returnTo)} className="bg-amber-500 hover:bg-amber-600">
+            {returnTo === '/village' ? 'Back to Village' : 'Return Home'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isFinished = currentTick >= durationTicks;
+
+  return (
+    <div className="relative min-h-screen bg-black overflow-hidden">
+      {/* Full-screen canvas */}
+      <div className="absolute inset-0 flex items-center justify-center">
+        <div
+          ref={canvasRef}
+          style={{
+            width: CANVAS_WIDTH,
+            height: CANVAS_HEIGHT,
+            boxShadow: '0 0 100px rgba(0,0,0,0.8)'
+          }}
+        />
+      </div>
+
+      {/* Top Left - Back Button */}
+      <motion.div
+        initial={{ opacity: 0, x: -50 }}
+        animate={{ opacity: 1, x: 0 }}
+        className="fixed top-6 left-6 z-50"
+      >
+        <Button
+          onClick={() => router.push(returnTo)}
+          className="bg-gray-900/90 backdrop-blur-xl border border-amber-500/30 hover:border-amber-500 text-white hover:bg-gray-800/90 transition-all duration-300 shadow-lg hover:shadow-amber-500/20"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+      </motion.div>
+
+      {/* Top Center - Score Panel */}
+      <motion.div
+        initial={{ opacity: 0, y: -50 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="fixed top-6 left-1/2 transform -translate-x-1/2 z-50"
+      >
+        <div className="bg-gradient-to-br from-gray-900/95 to-black/95 backdrop-blur-xl rounded-2xl border border-amber-500/30 shadow-2xl p-4 min-w-[500px]">
+          <div className="flex items-center justify-between gap-6">
+            {/* Destruction */}
+            <div className="flex items-center gap-3">
+              <div className="bg-red-500/20 p-3 rounded-xl border border-red-500/30">
+                <Flame className="w-6 h-6 text-red-400" />
+              </div>
+              <div>
+                <div className="text-xs text-gray-400 uppercase tracking-wide">Destruction</div>
+                <div className="text-2xl font-bold text-white">{destructionPercentage}%</div>
+              </div>
+            </div>
+
+            {/* Stars */}
+            <div className="flex items-center gap-3">
+              <div className="bg-yellow-500/20 p-3 rounded-xl border border-yellow-500/30">
+                <Trophy className="w-6 h-6 text-yellow-400" />
+              </div>
+              <div>
+                <div className="text-xs text-gray-400 uppercase tracking-wide">Stars</div>
+                <div className="flex gap-1">
+                  {[1, 2, 3].map((star) => (
+                    <Star
+                      key={star}
+                      className={`w-6 h-6 ${star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Replay badge */}
+            <div className="flex items-center gap-2 ml-4">
+              <Film className="w-4 h-4 text-purple-400" />
+              <span className="text-sm text-gray-300">
+                Replay · {formatDistanceToNow(new Date(data.battle.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Bottom - Playback Controls */}
+      <motion.div
+        initial={{ opacity: 0, y: 100 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50"
+      >
+        <div className="bg-gradient-to-br from-gray-900/95 to-black/95 backdrop-blur-xl rounded-2xl border border-amber-500/30 shadow-2xl p-4 min-w-[600px]">
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={togglePlay}
+              className="bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white w-12 h-12 rounded-full p-0"
+            >
+              {isPlaying ? (
+                <Pause className="h-5 w-5" />
+              ) : isFinished ? (
+                <RotateCcw className="h-5 w-5" />
+              ) : (
+                <Play className="h-5 w-5" />
+              )}
+            </Button>
+
+            <span className="text-sm text-gray-300 font-numbers w-12 text-right">
+              {formatTime(currentTick * tickMs)}
+            </span>
+
+            <Slider
+              value={[currentTick]}
+              min={0}
+              max={durationTicks}
+              onValueChange={([tick]) => seekTo(tick)}
+              className="flex-1"
+            />
+
+            <span className="text-sm text-gray-400 font-numbers w-12">
+              {formatTime(durationTicks * tickMs)}
+            </span>
+
+            <div className="flex gap-1">
+              {PLAYBACK_SPEEDS.map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  onClick={() => setSpeed(value)}
+                  className={`h-8 px-2 text-xs ${
+                    speed === value
+                      ? 'bg-amber-500 hover:bg-amber-600 text-white'
+                      : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                  }`}
+                >
+                  {value}x
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Final result */}
+          <div className="mt-3 pt-3 border-t border-gray-700 flex items-center justify-between text-sm text-gray-400">
+            <span>
+              Final: {data.replay.result.stars} stars · {data.replay.result.destructionPercentage}% destruction
+            </span>
+            <span>
+              <span className="text-yellow-400">🪙 {data.battle.lootGold.toLocaleString()}</span>
+              {'  '}
+              <span className="text-purple-400">💜 {data.battle.lootElixir.toLocaleString()}</span>
+            </span>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -4,18 +4,21 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { Application, Container, Graphics, Text, Sprite as PIXISprite } from 'pixi.js';
 import { Button } from '@/components/ui/button';
-import { battlesApi, PublicBattle } from '@/lib/api/battles';
+import { battlesApi, isLiveBattle, BattleStateSnapshot, PublicBattle } from '@/lib/api/battles';
 import { useAuthStore } from '@/lib/stores';
 import {
   connectSpectateSocket,
   disconnectSpectateSocket,
   joinBattleAsSpectator,
   leaveSpectatorBattle,
+  requestSpectatorBattleState,
   onSpectateEvent,
   onSpectateEnd,
   offSpectateEvent,
   offSpectateEnd,
+  BattleClock,
   BattleEvent,
+  StateFrame,
 } from '@/lib/socket';
 import { ArrowLeft, Eye, Clock, Star, Trophy, Flame, Users } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
@@ -33,6 +36,8 @@ interface TroopSprite {
   health: number;
   maxHealth: number;
   healthBar?: Graphics;
+  moveFrom?: { x: number; y: number }; // where the glide to position started
+  moveStartedAt?: number;
 }
 
 // Building rendering data
@@ -53,6 +58,7 @@ const GRID_HEIGHT = 40;
 const TILE_SIZE = 15;
 const CANVAS_WIDTH = GRID_WIDTH * TILE_SIZE;
 const CANVAS_HEIGHT = GRID_HEIGHT * TILE_SIZE;
+const FRAME_MS = 100; // the server sends at most one state frame per tick
 
 export default function SpectateBattlePage() {
   const router = useRouter();
@@ -74,12 +80,18 @@ export default function SpectateBattlePage() {
   const [isConnected, setIsConnected] = useState(false);
   const [destructionPercentage, setDestructionPercentage] = useState(0);
   const [stars, setStars] = useState(0);
-  const [timeElapsed, setTimeElapsed] = useState(0);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+  // Server clock: the phase and when it runs out on this machine's clock
+  const [clockPhase, setClockPhase] = useState<BattleClock['phase'] | null>(null);
+  const [clockEndsAt, setClockEndsAt] = useState<number | null>(null);
   const [spritesLoaded, setSpritesLoaded] = useState(false);
 
   // Store sprites
   const buildingSpritesRef = useRef<Map<string, BuildingSprite>>(new Map());
   const troopSpritesRef = useRef<Map<string, TroopSprite>>(new Map());
+  const spellSpritesRef = useRef<Map<string, Graphics>>(new Map());
+  // Last server tick drawn; older frames are already part of the snapshot
+  const lastFrameTickRef = useRef(-1);
 
   // Preload sprites on mount
   useEffect(() => {
@@ -115,6 +127,8 @@ export default function SpectateBattlePage() {
 
         if (battleData.status === 'completed') {
           setBattleStatus(`Battle ended ${formatDistanceToNow(new Date(battleData.createdAt), { addSuffix: true })}`);
+        } else if (!isLiveBattle(battleData.status)) {
+          setBattleStatus(`Battle ${battleData.status} - it was cut off before it could finish`);
         } else {
           setBattleStatus('Connecting to live battle...');
         }
@@ -157,6 +171,7 @@ export default function SpectateBattlePage() {
     effectsLayerRef.current = effectsLayer;
 
     drawGrid(app.stage);
+    app.ticker.add(interpolateUnits);
 
     return () => {
       if (appRef.current) {
@@ -192,6 +207,10 @@ export default function SpectateBattlePage() {
       case 'ARMY_CAMP': return 0x3498db;
       case 'CANNON': return 0x95a5a6;
       case 'ARCHER_TOWER': return 0x34495e;
+      case 'AIR_DEFENSE': return 0x4682b4;
+      case 'MORTAR': return 0x556b2f;
+      case 'WIZARD_TOWER': return 0x8a2be2;
+      case 'CLAN_CASTLE': return 0x8b0000;
       case 'WALL': return 0x8B4513; // Saddle brown - matches village mode
       default: return 0xbdc3c7;
     }
@@ -202,6 +221,9 @@ export default function SpectateBattlePage() {
       case 'BARBARIAN': return 0xff6b6b;
       case 'ARCHER': return 0x9b59b6;
       case 'GIANT': return 0x3498db;
+      case 'BALLOON': return 0xe74c3c;
+      case 'MINION': return 0x1abc9c;
+      case 'BARBARIAN_KING': return 0xe67e22;
       default: return 0x95a5a6;
     }
   };
@@ -297,14 +319,53 @@ export default function SpectateBattlePage() {
     });
   };
 
+  const applyClock = (clock: BattleClock) => {
+    setClockPhase(clock.phase);
+    setClockEndsAt(Date.now() + clock.remainingMs);
+  };
+
+  // Redraw the field from the server's snapshot of the battle
+  const applyBattleState = (state: BattleStateSnapshot) => {
+    if (!buildingsLayerRef.current || !troopsLayerRef.current) return;
+    lastFrameTickRef.current = state.tick;
+
+    // Effects animate themselves out; only the spell rings are part of the state
+    for (const layer of [buildingsLayerRef.current, troopsLayerRef.current]) {
+      layer.removeChildren().forEach((child) => child.destroy());
+    }
+    spellSpritesRef.current.forEach((ring) => ring.destroy());
+    buildingSpritesRef.current.clear();
+    troopSpritesRef.current.clear();
+    spellSpritesRef.current.clear();
+
+    state.buildings.forEach((building) => renderBuilding(building));
+    [...state.troops, ...state.defenders].forEach((unit) => handleTroopSpawn(unit));
+    state.spells.forEach((spell) => handleSpellCast(spell));
+
+    setDestructionPercentage(state.destructionPercentage);
+    setStars(state.stars);
+    applyClock(state.clock);
+  };
+
+  // Count down from the last clock the server sent
+  useEffect(() => {
+    if (clockEndsAt === null) return;
+
+    const update = () => setTimeRemaining(Math.max(0, Math.ceil((clockEndsAt - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 250);
+
+    return () => clearInterval(timer);
+  }, [clockEndsAt]);
+
   // Battle event handlers
   const handleBattleEvent = useCallback((event: BattleEvent) => {
     switch (event.type) {
       case 'TROOP_SPAWN':
         handleTroopSpawn(event.data);
         break;
-      case 'TROOP_MOVE':
-        handleTroopMove(event.data);
+      case 'STATE_FRAME':
+        handleStateFrame(event.data, event.timestamp);
         break;
       case 'TROOP_ATTACK':
         handleTroopAttacked(event.data);
@@ -318,6 +379,32 @@ export default function SpectateBattlePage() {
       case 'TROOP_DEATH':
         handleTroopDeath(event.data);
         break;
+      case 'TROOP_HEAL':
+      case 'HERO_ABILITY':
+        handleTroopAttacked(event.data);
+        break;
+      case 'SPLASH_LAUNCH':
+        createProjectile(event.data.from, event.data.to, undefined, event.data.travelMs);
+        break;
+      case 'SPLASH_IMPACT':
+        createExplosion({ x: event.data.position.x + 0.5, y: event.data.position.y + 0.5 }, event.data.radius);
+        break;
+      case 'TRAP_TRIGGERED':
+        // Trap positions are already tile centers
+        createExplosion(event.data.position, event.data.radius);
+        break;
+      case 'GARRISON_RELEASED':
+        event.data.defenders.forEach((defender: any) => handleTroopSpawn(defender));
+        break;
+      case 'SPELL_CAST':
+        handleSpellCast(event.data);
+        break;
+      case 'SPELL_END':
+        handleSpellEnd(event.data);
+        break;
+      case 'CLOCK':
+        applyClock(event.data);
+        break;
       case 'BATTLE_END':
         handleBattleEnd(event.data);
         break;
@@ -334,12 +421,17 @@ export default function SpectateBattlePage() {
     if (!troopsLayerRef.current) return;
 
     const troopContainer = new Container();
+    // Heroes are drawn larger with a gold outline
+    const radius = data.isHero ? TILE_SIZE / 1.8 : TILE_SIZE / 2.5;
     const sprite = new Graphics();
     sprite.beginFill(getTroopColor(data.troopType));
-    sprite.drawCircle(0, 0, TILE_SIZE / 2.5);
+    sprite.drawCircle(0, 0, radius);
     sprite.endFill();
-    sprite.lineStyle(1, 0x000000, 0.5);
-    sprite.drawCircle(0, 0, TILE_SIZE / 2.5);
+    // Clan Castle troops get a red outline so they stand out from attackers
+    const outlined = data.isHero || data.isDefender;
+    const outline = data.isHero ? 0xffd700 : data.isDefender ? 0xc0392b : 0x000000;
+    sprite.lineStyle(outlined ? 2 : 1, outline, outlined ? 1 : 0.5);
+    sprite.drawCircle(0, 0, radius);
 
     troopContainer.addChild(sprite);
 
@@ -349,7 +441,8 @@ export default function SpectateBattlePage() {
 
     troopsLayerRef.current.addChild(troopContainer);
 
-    const healthBar = createHealthBar(data.health, data.health, TILE_SIZE);
+    const maxHealth = data.maxHealth ?? data.health;
+    const healthBar = createHealthBar(data.health, maxHealth, TILE_SIZE);
     healthBar.position.set(data.position.x * TILE_SIZE, (data.position.y - 0.3) * TILE_SIZE);
     troopsLayerRef.current.addChild(healthBar);
 
@@ -359,54 +452,90 @@ export default function SpectateBattlePage() {
       sprite: troopContainer,
       position: data.position,
       health: data.health,
-      maxHealth: data.health,
+      maxHealth,
       healthBar,
     });
   };
 
-  const handleTroopMove = (data: any) => {
-    const troopSprite = troopSpritesRef.current.get(data.troopId);
-    if (!troopSprite) {
-      handleTroopSpawn({
-        troopId: data.troopId,
-        troopType: 'BARBARIAN',
-        position: data.to,
-        health: 100,
+  // One frame per server tick: play its events, then glide units towards where they are now
+  const handleStateFrame = (frame: StateFrame, timestamp: number) => {
+    if (frame.tick < lastFrameTickRef.current) return;
+    lastFrameTickRef.current = frame.tick;
+
+    frame.events.forEach(([type, data]) => handleBattleEvent({ type, timestamp, data }));
+
+    const now = performance.now();
+    frame.units.forEach(([troopId, x, y, health]) => {
+      const troopSprite = troopSpritesRef.current.get(troopId);
+      if (!troopSprite) return;
+
+      troopSprite.moveFrom = {
+        x: (troopSprite.sprite.position.x - TILE_SIZE / 2) / TILE_SIZE,
+        y: (troopSprite.sprite.position.y - TILE_SIZE / 2) / TILE_SIZE,
+      };
+      troopSprite.moveStartedAt = now;
+      troopSprite.position = { x, y };
+
+      if (troopSprite.health !== health) {
+        troopSprite.health = health;
+        drawTroopHealth(troopSprite);
+      }
+    });
+
+    frame.buildings.forEach(([buildingId, health]) => {
+      const buildingSprite = buildingSpritesRef.current.get(buildingId);
+      if (!buildingSprite || buildingSprite.health === health) return;
+
+      buildingSprite.health = health;
+      drawBuildingHealth(buildingSprite);
+    });
+  };
+
+  // Runs every render frame: units cover the distance to their latest position over one tick
+  const interpolateUnits = () => {
+    const now = performance.now();
+
+    troopSpritesRef.current.forEach((troopSprite) => {
+      if (!troopSprite.moveFrom || troopSprite.moveStartedAt === undefined) return;
+
+      const progress = Math.min(1, (now - troopSprite.moveStartedAt) / FRAME_MS);
+      const { x: fromX, y: fromY } = troopSprite.moveFrom;
+      placeTroop(troopSprite, {
+        x: fromX + (troopSprite.position.x - fromX) * progress,
+        y: fromY + (troopSprite.position.y - fromY) * progress,
       });
-      return;
-    }
 
+      if (progress === 1) {
+        troopSprite.moveFrom = undefined;
+      }
+    });
+  };
+
+  const placeTroop = (troopSprite: TroopSprite, position: { x: number; y: number }) => {
     troopSprite.sprite.position.set(
-      data.to.x * TILE_SIZE + TILE_SIZE / 2,
-      data.to.y * TILE_SIZE + TILE_SIZE / 2
+      position.x * TILE_SIZE + TILE_SIZE / 2,
+      position.y * TILE_SIZE + TILE_SIZE / 2
     );
-    troopSprite.position = data.to;
 
     if (troopSprite.healthBar) {
-      troopSprite.healthBar.position.set(data.to.x * TILE_SIZE, (data.to.y - 0.3) * TILE_SIZE);
+      troopSprite.healthBar.position.set(position.x * TILE_SIZE, (position.y - 0.3) * TILE_SIZE);
     }
   };
 
+  // Destruction and stars ride along on every building hit, so the HUD fills in as they're earned
+  const updateScore = (data: { destructionPercentage?: number; stars?: number }) => {
+    if (data.destructionPercentage !== undefined) setDestructionPercentage(data.destructionPercentage);
+    if (data.stars !== undefined) setStars(data.stars);
+  };
+
   const handleBuildingAttack = (data: any) => {
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
-    if (!buildingSprite || !buildingSprite.healthBar) return;
+    if (!buildingSprite) return;
 
     buildingSprite.health = data.remainingHealth;
-
-    buildingSprite.healthBar.clear();
-    const barWidth = buildingSprite.width;
-    const barHeight = 3;
-    const healthPercent = buildingSprite.health / buildingSprite.maxHealth;
-
-    buildingSprite.healthBar.beginFill(0x000000, 0.5);
-    buildingSprite.healthBar.drawRect(0, 0, barWidth, barHeight);
-    buildingSprite.healthBar.endFill();
-
-    buildingSprite.healthBar.beginFill(
-      healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c
-    );
-    buildingSprite.healthBar.drawRect(0, 0, barWidth * healthPercent, barHeight);
-    buildingSprite.healthBar.endFill();
+    drawBuildingHealth(buildingSprite);
 
     if (data.projectile) {
       createProjectile(data.projectile.from, data.projectile.to, data.troopType);
@@ -420,30 +549,74 @@ export default function SpectateBattlePage() {
     if (!troopSprite) return;
 
     troopSprite.health = data.remainingHealth;
+    drawTroopHealth(troopSprite);
 
-    if (troopSprite.healthBar) {
-      troopSprite.healthBar.clear();
-      const barWidth = TILE_SIZE;
-      const barHeight = 3;
-      const healthPercent = troopSprite.health / troopSprite.maxHealth;
+    if (data.projectile) {
+      createProjectile(data.projectile.from, data.projectile.to);
+    }
+  };
 
-      troopSprite.healthBar.beginFill(0x000000, 0.5);
-      troopSprite.healthBar.drawRect(0, 0, barWidth, barHeight);
-      troopSprite.healthBar.endFill();
+  const drawBuildingHealth = (buildingSprite: BuildingSprite) => {
+    if (buildingSprite.healthBar) {
+      drawHealthBar(buildingSprite.healthBar, buildingSprite.health, buildingSprite.maxHealth, buildingSprite.width);
+    }
+  };
 
-      troopSprite.healthBar.beginFill(
-        healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c
-      );
-      troopSprite.healthBar.drawRect(0, 0, barWidth * healthPercent, barHeight);
-      troopSprite.healthBar.endFill();
+  const drawTroopHealth = (troopSprite: TroopSprite) => {
+    if (troopSprite.healthBar) {
+      drawHealthBar(troopSprite.healthBar, troopSprite.health, troopSprite.maxHealth, TILE_SIZE);
     }
+  };
 
-    if (data.projectile) {
-      createProjectile(data.projectile.from, data.projectile.to);
+  const drawHealthBar = (healthBar: Graphics, health: number, maxHealth: number, width: number) => {
+    const barHeight = 3;
+    const healthPercent = Math.max(0, health) / maxHealth;
+
+    healthBar.clear();
+    healthBar.beginFill(0x000000, 0.5);
+    healthBar.drawRect(0, 0, width, barHeight);
+    healthBar.endFill();
+
+    healthBar.beginFill(healthPercent > 0.5 ? 0x2ecc71 : healthPercent > 0.25 ? 0xf39c12 : 0xe74c3c);
+    healthBar.drawRect(0, 0, width * healthPercent, barHeight);
+    healthBar.endFill();
+  };
+
+  const handleSpellCast = (data: any) => {
+    if (!effectsLayerRef.current) return;
+
+    const color = getSpellColor(data.spellType);
+    const ring = new Graphics();
+    ring.lineStyle(2, color, 0.9);
+    ring.beginFill(color, 0.2);
+    ring.drawCircle(0, 0, data.radius * TILE_SIZE);
+    ring.endFill();
+    ring.position.set(data.position.x * TILE_SIZE + TILE_SIZE / 2, data.position.y * TILE_SIZE + TILE_SIZE / 2);
+
+    effectsLayerRef.current.addChild(ring);
+    spellSpritesRef.current.set(data.spellId, ring);
+  };
+
+  const handleSpellEnd = (data: any) => {
+    const ring = spellSpritesRef.current.get(data.spellId);
+    if (!ring) return;
+
+    ring.destroy();
+    spellSpritesRef.current.delete(data.spellId);
+  };
+
+  const getSpellColor = (type: string): number => {
+    switch (type) {
+      case 'LIGHTNING': return 0x5dade2;
+      case 'HEAL': return 0xf1c40f;
+      case 'RAGE': return 0x8e44ad;
+      default: return 0xffffff;
     }
   };
 
   const handleBuildingDestroyed = (data: any) => {
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
     if (!buildingSprite) return;
 
@@ -464,7 +637,12 @@ export default function SpectateBattlePage() {
     troopSpritesRef.current.delete(data.troopId);
   };
 
-  const createProjectile = (from: { x: number; y: number }, to: { x: number; y: number }, troopType?: string) => {
+  const createProjectile = (
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    troopType?: string,
+    duration: number = 300,
+  ) => {
     if (!effectsLayerRef.current) return;
 
     const projectile = new Graphics();
@@ -489,7 +667,6 @@ export default function SpectateBattlePage() {
     projectile.position.set(from.x * TILE_SIZE + TILE_SIZE / 2, from.y * TILE_SIZE + TILE_SIZE / 2);
     effectsLayerRef.current.addChild(projectile);
 
-    const duration = 300;
     const startTime = Date.now();
 
     const animate = () => {
@@ -511,6 +688,37 @@ export default function SpectateBattlePage() {
     animate();
   };
 
+  const createExplosion = (position: { x: number; y: number }, scale: number = 1) => {
+    if (!effectsLayerRef.current) return;
+
+    const explosion = new Graphics();
+    explosion.beginFill(0xff4500, 0.8);
+    explosion.drawCircle(0, 0, TILE_SIZE * scale);
+    explosion.endFill();
+
+    explosion.position.set(position.x * TILE_SIZE, position.y * TILE_SIZE);
+    effectsLayerRef.current.addChild(explosion);
+
+    const duration = 500;
+    const startTime = Date.now();
+
+    const animate = () => {
+      const elapsed = Date.now() - startTime;
+      const progress = elapsed / duration;
+
+      explosion.alpha = 1 - progress;
+      explosion.scale.set(1 + progress);
+
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        explosion.destroy();
+      }
+    };
+
+    animate();
+  };
+
   const createMeleeEffect = (position: { x: number; y: number }) => {
     if (!effectsLayerRef.current) return;
 
@@ -560,21 +768,8 @@ export default function SpectateBattlePage() {
           setBattleStatus('Spectating live battle');
           setIsConnected(true);
 
-          if (response.session && response.session.buildings && buildingsLayerRef.current) {
-            response.session.buildings.forEach((building: any) => {
-              renderBuilding(building);
-            });
-          }
-
-          if (response.session && response.session.troops && troopsLayerRef.current) {
-            response.session.troops.forEach((troop: any) => {
-              handleTroopSpawn({
-                troopId: troop.id,
-                troopType: troop.type,
-                position: troop.position,
-                health: troop.health,
-              });
-            });
+          if (response.state) {
+            applyBattleState(response.state);
           }
         })
         .catch((error) => {
@@ -609,6 +804,26 @@ export default function SpectateBattlePage() {
     };
   }, [battle, battleId, handleBattleEvent, handleBattleEnd]);
 
+  // Browsers throttle background tabs, so resync the field when the battle comes back into view
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+
+      requestSpectatorBattleState(battleId)
+        .then((response) => {
+          if (response.state) {
+            applyBattleState(response.state);
+          }
+        })
+        .catch((error) => console.error('Failed to resync battle state:', error));
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [battleId, isConnected]);
+
   if (isLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-black">
@@ -636,7 +851,7 @@ export default function SpectateBattlePage() {
     );
   }
 
-  const isLive = battle.status === 'active';
+  const isLive = isLiveBattle(battle.status);
 
   return (
     <div className="relative min-h-screen bg-black overflow-hidden">
@@ -682,6 +897,13 @@ export default function SpectateBattlePage() {
               <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
             </span>
             <span className="text-red-200 font-bold uppercase tracking-wide text-sm">Live Battle</span>
+            {clockPhase && clockPhase !== 'over' && (
+              <span className="flex items-center gap-1 text-red-100 font-mono text-sm">
+                <Clock className="h-4 w-4" />
+                {clockPhase === 'scouting' && 'Scouting '}
+                {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
+              </span>
+            )}
           </div>
         </motion.div>
       )}
@@ -714,10 +936,15 @@ export default function SpectateBattlePage() {
                 <div className="text-xs text-gray-400 uppercase tracking-wide">Stars</div>
                 <div className="flex gap-1">
                   {[1, 2, 3].map((star) => (
-                    <Star
+                    <motion.div
                       key={star}
-                      className={`w-6 h-6 ${star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
-                    />
+                      animate={star <= stars ? { scale: [1, 1.6, 1], rotate: [0, 20, 0] } : { scale: 1, rotate: 0 }}
+                      transition={{ duration: 0.5 }}
+                    >
+                      <Star
+                        className={`w-6 h-6 ${star <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
+                      />
+                    </motion.div>
                   ))}
                 </div>
               </div>
@@ -19,6 +19,7 @@ import {
   offBattleEvent,
   offBattleEnd,
   BattleEvent,
+  StateFrame,
 } from '@/lib/socket';
 import { Sword, Shield, Target, X, Home, ArrowLeft, Clock } from 'lucide-react';
 import { BattleSummary } from '@/components/game/BattleSummary';
@@ -291,6 +292,14 @@ export default function BattlePage() {
         return 0x95a5a6;
       case 'ARCHER_TOWER':
         return 0x34495e;
+      case 'AIR_DEFENSE':
+        return 0x4682b4;
+      case 'MORTAR':
+        return 0x556b2f;
+      case 'WIZARD_TOWER':
+        return 0x8a2be2;
+      case 'CLAN_CASTLE':
+        return 0x8b0000;
       case 'WALL':
         return 0x7f8c8d;
       default:
@@ -355,10 +364,13 @@ export default function BattlePage() {
         console.log('Handling TROOP_SPAWN:', event.data);
         handleTroopSpawn(event.data);
         break;
-      case 'TROOP_MOVE':
-        console.log('Handling TROOP_MOVE');
-        handleTroopMove(event.data);
+      case 'STATE_FRAME': {
+        // One frame per server tick: play its events, then move units to where they are now
+        const frame: StateFrame = event.data;
+        frame.events.forEach(([type, data]) => handleBattleEvent({ type, timestamp: event.timestamp, data }));
+        frame.units.forEach(([troopId, x, y]) => handleTroopMove(troopId, { x, y }));
         break;
+      }
       case 'TROOP_ATTACK':
         console.log('Handling TROOP_ATTACK');
         handleTroopAttacked(event.data);
@@ -596,21 +608,25 @@ export default function BattlePage() {
         return 0x9b59b6;
       case 'GIANT':
         return 0x3498db;
+      case 'BALLOON':
+        return 0xe74c3c;
+      case 'MINION':
+        return 0x1abc9c;
       default:
         return 0x95a5a6;
     }
   };
 
   // Handle troop move event
-  const handleTroopMove = (data: any) => {
-    const troopSprite = troopSpritesRef.current.get(data.troopId);
+  const handleTroopMove = (troopId: string, to: { x: number; y: number }) => {
+    const troopSprite = troopSpritesRef.current.get(troopId);
     if (!troopSprite) return;
 
-    troopSprite.sprite.position.set(data.to.x * TILE_SIZE + TILE_SIZE / 2, data.to.y * TILE_SIZE + TILE_SIZE / 2);
-    troopSprite.position = data.to;
+    troopSprite.sprite.position.set(to.x * TILE_SIZE + TILE_SIZE / 2, to.y * TILE_SIZE + TILE_SIZE / 2);
+    troopSprite.position = to;
 
     if (troopSprite.healthBar) {
-      troopSprite.healthBar.position.set(data.to.x * TILE_SIZE, (data.to.y - 0.3) * TILE_SIZE);
+      troopSprite.healthBar.position.set(to.x * TILE_SIZE, (to.y - 0.3) * TILE_SIZE);
     }
   };
 
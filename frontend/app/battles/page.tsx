@@ -189,9 +189,26 @@ export default function BattlesHistoryPage() {
                     <CardTitle className="text-base flex items-center gap-2">
                       <Swords className="h-4 w-4" />
                       Battle {battle.id.slice(0, 8)}...
-                      <Badge variant={battle.stars > 0 ? 'default' : 'secondary'}>
-                        {battle.stars > 0 ? 'Victory' : 'Defeat'}
-                      </Badge>
+                      {battle.status === 'abandoned' || battle.status === 'aborted' ? (
+                        <Badge variant="outline" className="capitalize">
+                          {battle.status}
+                        </Badge>
+                      ) : (
+                        <Badge variant={battle.stars > 0 ? 'default' : 'secondary'}>
+                          {battle.stars > 0 ? 'Victory' : 'Defeat'}
+                        </Badge>
+                      )}
+                      {battle.attackerTrophyChange !== undefined && (
+                        <span
+                          className={`flex items-center gap-1 text-sm font-semibold ${
+                            battle.attackerTrophyChange >= 0 ? 'text-green-500' : 'text-red-500'
+                          }`}
+                        >
+                          <Trophy className="h-4 w-4" />
+                          {battle.attackerTrophyChange > 0 ? '+' : ''}
+                          {battle.attackerTrophyChange}
+                        </span>
+                      )}
                     </CardTitle>
                     <CardDescription className="flex items-center gap-1 mt-1">
                       <Calendar className="h-3 w-3" />
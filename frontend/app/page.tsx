@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuthStore } from '@/lib/stores';
-import { battlesApi, PublicBattle } from '@/lib/api/battles';
+import { battlesApi, isLiveBattle, PublicBattle } from '@/lib/api/battles';
 import { formatDistanceToNow } from 'date-fns';
 import { Swords, Shield, Users, Trophy, Zap, Target, Sparkles, Eye, Clock } from 'lucide-react';
 
@@ -52,7 +52,7 @@ export default function Home() {
   const cursorX = (mousePosition.x - window.innerWidth / 2) * 0.02;
   const cursorY = (mousePosition.y - window.innerHeight / 2) * 0.02;
 
-  const liveBattles = battles.filter((b) => b.status === 'active');
+  const liveBattles = battles.filter((b) => isLiveBattle(b.status));
   const recentBattles = battles.filter((b) => b.status === 'completed').slice(0, 6);
   const displayBattles = liveBattles.length > 0 ? liveBattles : recentBattles;
 
@@ -453,7 +453,7 @@ export default function Home() {
                       </thead>
                       <tbody className="divide-y divide-white/5">
                         {displayBattles.map((battle, index) => {
-                          const isLive = battle.status === 'active';
+                          const isLive = isLiveBattle(battle.status);
                           const totalTroops = battle.attackerTroops.reduce((sum, t) => sum + t.count, 0);
 
                           return (
@@ -40,6 +40,7 @@ export default function VillagePage() {
   const [showArmyTraining, setShowArmyTraining] = useState(false);
   const [showBattlePrep, setShowBattlePrep] = useState(false);
   const [showWarRoom, setShowWarRoom] = useState(false);
+  const [revengeBattleId, setRevengeBattleId] = useState<string | null>(null);
   const [showProfile, setShowProfile] = useState(false);
   const [battleResult, setBattleResult] = useState<any>(null);
   const [placementMode, setPlacementMode] = useState<{
@@ -239,13 +240,17 @@ export default function VillagePage() {
             resources={resources}
             isLoading={isLoadingResources}
             onProfileClick={() => setShowProfile(true)}
+            shieldExpiresAt={village.shieldExpiresAt}
           />
 
           {/* Action Buttons */}
           <FloatingActionButtons
             onBuild={() => setShowBuildingShop(true)}
             onTrainArmy={() => setShowArmyTraining(true)}
-            onAttack={() => setShowBattlePrep(true)}
+            onAttack={() => {
+              setRevengeBattleId(null);
+              setShowBattlePrep(true);
+            }}
             onWarRoom={() => setShowWarRoom(true)}
             disabled={placementMode?.active}
           />
@@ -311,6 +316,11 @@ export default function VillagePage() {
       <WarRoomModal
         isOpen={showWarRoom}
         onClose={() => setShowWarRoom(false)}
+        onRevenge={(defenseBattleId) => {
+          setShowWarRoom(false);
+          setRevengeBattleId(defenseBattleId);
+          setShowBattlePrep(true);
+        }}
       />
 
       {/* Battle Preparation Slide Panel */}
@@ -323,6 +333,7 @@ export default function VillagePage() {
           onBattleComplete={handleBattleComplete}
           onStartRealtimeBattle={handleStartRealtimeBattle}
           onCancel={() => setShowBattlePrep(false)}
+          revengeBattleId={revengeBattleId}
         />
       </SlidePanel>
 
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { battlesApi, BattleResult, PublicBattle } from '@/lib/api/battles';
+import { battlesApi, BattleResult, isLiveBattle, PublicBattle } from '@/lib/api/battles';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,6 +23,7 @@ import {
   Zap,
   AlertTriangle,
   Bell,
+  Film,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useAuthStore } from '@/lib/stores/useAuthStore';
@@ -39,9 +40,10 @@ import { useToast } from '@/hooks/use-toast';
 interface WarRoomModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onRevenge?: (defenseBattleId: string) => void; // Open battle preparation against the attacker
 }
 
-export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
+export function WarRoomModal({ isOpen, onClose, onRevenge }: WarRoomModalProps) {
   const router = useRouter();
   const { user, token } = useAuthStore();
   const { toast } = useToast();
@@ -79,8 +81,8 @@ export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
       setAttacks(attacksData.battles);
       setDefenses(defensesData.battles);
 
-      // Filter live battles (status === 'active') - all public battles
-      const activeBattles = liveData.battles.filter(b => b.status === 'active');
+      // Filter live battles (scouting or active) - all public battles
+      const activeBattles = liveData.battles.filter(b => isLiveBattle(b.status));
       setLiveBattles(activeBattles);
 
       // User's active battles they can rejoin
@@ -148,6 +150,9 @@ export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
   const renderBattleCard = (battle: BattleResult, isDefense: boolean) => {
     const outcome = getBattleOutcome(battle, isDefense);
     const isVictory = outcome === 'victory';
+    const trophyChange = isDefense ? battle.defenderTrophyChange : battle.attackerTrophyChange;
+    // Abandoned and aborted battles were cut off and refunded, so they have no winner
+    const cutOff = battle.status === 'abandoned' || battle.status === 'aborted';
 
     return (
       <Card
@@ -164,11 +169,15 @@ export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
                 <Skull className="h-5 w-5 text-red-400" />
               )}
               <div>
-                <Badge
-                  className={`text-xs px-2 py-0.5 ${isVictory ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`}
-                >
-                  {isVictory ? 'Victory' : 'Defeat'}
-                </Badge>
+                {cutOff ? (
+                  <Badge className="text-xs px-2 py-0.5 bg-gray-600 text-white capitalize">{battle.status}</Badge>
+                ) : (
+                  <Badge
+                    className={`text-xs px-2 py-0.5 ${isVictory ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`}
+                  >
+                    {isVictory ? 'Victory' : 'Defeat'}
+                  </Badge>
+                )}
                 <p className="text-[10px] text-gray-400 mt-0.5">
                   {formatDistanceToNow(new Date(battle.createdAt), { addSuffix: true })}
                 </p>
@@ -208,6 +217,17 @@ export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
 
             <div className="text-center">
               <Zap className="h-6 w-6 mx-auto text-yellow-400" />
+              {trophyChange !== undefined && (
+                <p
+                  className={`flex items-center justify-center gap-0.5 text-xs font-bold font-numbers ${
+                    trophyChange >= 0 ? 'text-green-400' : 'text-red-400'
+                  }`}
+                >
+                  <Trophy className="h-3 w-3" />
+                  {trophyChange > 0 ? '+' : ''}
+                  {trophyChange}
+                </p>
+              )}
             </div>
 
             <div className="text-center">
@@ -265,6 +285,31 @@ export function WarRoomModal({ isOpen, onClose }: WarRoomModalProps) {
               </div>
             </div>
           )}
+
+          {/* Replay */}
+          <Button
+            size="sm"
+            onClick={() => router.push(`/battle/${battle.id}/replay?returnTo=/village`)}
+            className="mt-2 w-full h-7 text-xs bg-purple-700 hover:bg-purple-600"
+          >
+            <Film className="mr-1 h-3 w-3" />
+            Watch Replay
+          </Button>
+
+          {/* Revenge (defenses only, once, within the revenge window) */}
+          {isDefense && battle.revengeAvailable && onRevenge && (
+            <Button
+              size="sm"
+              onClick={() => onRevenge(battle.id)}
+              className="mt-2 w-full h-7 text-xs bg-red-700 hover:bg-red-600"
+            >
+              <Swords className="mr-1 h-3 w-3" />
+              Revenge
+            </Button>
+          )}
+          {isDefense && battle.revengeBattleId && (
+            <p className="mt-2 text-center text-[10px] text-gray-400">Revenge taken</p>
+          )}
         </CardContent>
       </Card>
     );
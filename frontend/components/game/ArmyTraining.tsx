@@ -8,6 +8,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { SpellBrewing } from './SpellBrewing';
+import { HeroPanel } from './HeroPanel';
+import { ClanCastlePanel } from './ClanCastlePanel';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Sparkles, Swords, Users, Zap, Heart, Target } from 'lucide-react';
 
@@ -431,6 +434,15 @@ export function ArmyTraining({ onClose }: ArmyTrainingProps) {
             })}
           </div>
         </motion.div>
+
+        {/* Heroes */}
+        <HeroPanel />
+
+        {/* Clan Castle */}
+        <ClanCastlePanel army={army} onGarrison={async () => setArmy(await troopsApi.getArmy())} />
+
+        {/* Spell Factory */}
+        <SpellBrewing />
       </div>
     </div>
   );
@@ -4,20 +4,23 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { Application, Container, Graphics, Text, Sprite, Assets } from 'pixi.js';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { BattleBuilding, BattleSession } from '@/lib/api/battles';
+import { BattleBuilding, BattleSession, DeployZone, LootSummary } from '@/lib/api/battles';
 import {
   connectBattleSocket,
   disconnectBattleSocket,
   joinBattle,
   leaveBattle,
   deployTroop,
+  castSpell,
+  activateHeroAbility,
   onBattleEvent,
   onBattleEnd,
   offBattleEvent,
   offBattleEnd,
   BattleEvent,
+  StateFrame,
 } from '@/lib/socket';
-import { Sword, Shield, Target, X } from 'lucide-react';
+import { Sword, Shield, Target, Sparkles, Crown, X } from 'lucide-react';
 
 interface BattleDeploymentProps {
   battleSession: BattleSession;
@@ -55,6 +58,10 @@ const TILE_SIZE = 20;
 const CANVAS_WIDTH = GRID_SIZE * TILE_SIZE;
 const CANVAS_HEIGHT = GRID_SIZE * TILE_SIZE;
 
+// Same check the server runs before accepting a deploy
+const isInNoDeployZone = (zones: DeployZone[] | undefined, x: number, y: number) =>
+  (zones || []).some((z) => x >= z.x && x < z.x + z.width && y >= z.y && y < z.y + z.height);
+
 export function BattleDeployment({
   battleSession,
   troops,
@@ -70,14 +77,42 @@ export function BattleDeployment({
   const effectsLayerRef = useRef<Container | null>(null);
 
   const [selectedTroopType, setSelectedTroopType] = useState<string | null>(troops[0]?.type || null);
-  const [deployedCounts, setDeployedCounts] = useState<Record<string, number>>({});
+  // Troops left to deploy, kept in sync with the server's count
+  const [troopsRemaining, setTroopsRemaining] = useState<Record<string, number>>(
+    battleSession.session.troops || Object.fromEntries(troops.map((t) => [t.type, t.count]))
+  );
   const [battleStarted, setBattleStarted] = useState(false);
   const [destructionPercentage, setDestructionPercentage] = useState(0);
+  const [stars, setStars] = useState(0);
+  const [loot, setLoot] = useState<LootSummary>(
+    battleSession.session.loot || { availableGold: 0, availableElixir: 0, lootedGold: 0, lootedElixir: 0 }
+  );
   const [battleStatus, setBattleStatus] = useState<string>('Deploy your troops!');
+  const [spellsRemaining, setSpellsRemaining] = useState<Record<string, number>>(
+    battleSession.session.spells || {}
+  );
+  const [selectedSpellType, setSelectedSpellType] = useState<string | null>(null);
+  const selectedSpellRef = useRef<string | null>(null);
+  const [heroesRemaining, setHeroesRemaining] = useState<string[]>(
+    (battleSession.session.heroes || []).map((h) => h.type)
+  );
+  const [selectedHeroType, setSelectedHeroType] = useState<string | null>(null);
+  const selectedHeroRef = useRef<string | null>(null);
+  const [heroAbilityUsed, setHeroAbilityUsed] = useState<Record<string, boolean>>({}); // deployed heroes
 
   // Store sprites
   const buildingSpritesRef = useRef<Map<string, BuildingSprite>>(new Map());
   const troopSpritesRef = useRef<Map<string, TroopSprite>>(new Map());
+  const spellSpritesRef = useRef<Map<string, Graphics>>(new Map());
+
+  // The canvas click handler is bound once, so it reads the selected spell and hero through refs
+  useEffect(() => {
+    selectedSpellRef.current = selectedSpellType;
+  }, [selectedSpellType]);
+
+  useEffect(() => {
+    selectedHeroRef.current = selectedHeroType;
+  }, [selectedHeroType]);
 
   // Initialize Pixi.js canvas
   useEffect(() => {
@@ -114,10 +149,14 @@ export function BattleDeployment({
 
       // Draw grid
       drawGrid(app.stage);
+      drawNoDeployZones(app.stage, battleSession.session.noDeployZones || []);
 
       // Render buildings
       renderBuildings(battleSession.session.buildings, buildingsLayer);
 
+      // Render defending heroes on their altars
+      battleSession.session.defenders?.forEach((defender) => handleTroopSpawn(defender));
+
       // Add click handler for troop deployment
       app.stage.eventMode = 'static';
       app.stage.hitArea = app.screen;
@@ -152,6 +191,17 @@ export function BattleDeployment({
     stage.addChild(grid);
   };
 
+  // Shade the tiles around the defender's buildings where troops can't be deployed
+  const drawNoDeployZones = (stage: Container, zones: DeployZone[]) => {
+    const overlay = new Graphics();
+    overlay.beginFill(0xff0000, 0.15);
+    zones.forEach((zone) => {
+      overlay.drawRect(zone.x * TILE_SIZE, zone.y * TILE_SIZE, zone.width * TILE_SIZE, zone.height * TILE_SIZE);
+    });
+    overlay.endFill();
+    stage.addChild(overlay);
+  };
+
   // Render buildings on canvas
   const renderBuildings = (buildings: BattleBuilding[], layer: Container) => {
     buildings.forEach((building) => {
@@ -211,6 +261,14 @@ export function BattleDeployment({
         return 0x95a5a6;
       case 'ARCHER_TOWER':
         return 0x34495e;
+      case 'AIR_DEFENSE':
+        return 0x4682b4;
+      case 'MORTAR':
+        return 0x556b2f;
+      case 'WIZARD_TOWER':
+        return 0x8a2be2;
+      case 'CLAN_CASTLE':
+        return 0x8b0000;
       case 'WALL':
         return 0x7f8c8d;
       default:
@@ -236,16 +294,61 @@ export function BattleDeployment({
     return healthBar;
   };
 
-  // Handle canvas click for troop deployment
+  // Handle canvas click for troop deployment (or casting the selected spell)
   const handleCanvasClick = useCallback(
     (event: any) => {
+      if (selectedSpellRef.current && battleSession) {
+        const spellType = selectedSpellRef.current;
+        const pos = event.data.global;
+
+        castSpell(battleSession.battleId, spellType, { x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE })
+          .then((response) => {
+            setSpellsRemaining(response.spellsRemaining);
+            setBattleStarted(true);
+            setBattleStatus(`Cast ${spellType}`);
+          })
+          .catch((error) => {
+            console.error('Failed to cast spell:', error);
+            setBattleStatus(`Failed to cast ${spellType}`);
+          });
+
+        setSelectedSpellType(null);
+        return;
+      }
+
+      if (selectedHeroRef.current && battleSession) {
+        const heroType = selectedHeroRef.current;
+        const pos = event.data.global;
+        const gridX = Math.floor(pos.x / TILE_SIZE);
+        const gridY = Math.floor(pos.y / TILE_SIZE);
+
+        if (isInNoDeployZone(battleSession.session.noDeployZones, gridX, gridY)) {
+          setBattleStatus('Too close to buildings - deploy outside the red zone');
+          return;
+        }
+
+        deployTroop(battleSession.battleId, heroType, { x: gridX, y: gridY })
+          .then(() => {
+            setHeroesRemaining((prev) => prev.filter((h) => h !== heroType));
+            setHeroAbilityUsed((prev) => ({ ...prev, [heroType]: false }));
+            setBattleStarted(true);
+            setBattleStatus(`Deployed ${heroType} at (${gridX}, ${gridY})`);
+          })
+          .catch((error) => {
+            console.error('Failed to deploy hero:', error);
+            setBattleStatus(`Failed to deploy ${heroType}`);
+          });
+
+        setSelectedHeroType(null);
+        return;
+      }
+
       if (!selectedTroopType || !battleSession) return;
 
       const troopConfig = troops.find((t) => t.type === selectedTroopType);
       if (!troopConfig) return;
 
-      const deployed = deployedCounts[selectedTroopType] || 0;
-      if (deployed >= troopConfig.count) {
+      if ((troopsRemaining[selectedTroopType] ?? 0) <= 0) {
         setBattleStatus(`No more ${selectedTroopType} available!`);
         return;
       }
@@ -254,13 +357,15 @@ export function BattleDeployment({
       const gridX = Math.floor(pos.x / TILE_SIZE);
       const gridY = Math.floor(pos.y / TILE_SIZE);
 
+      if (isInNoDeployZone(battleSession.session.noDeployZones, gridX, gridY)) {
+        setBattleStatus('Too close to buildings - deploy outside the red zone');
+        return;
+      }
+
       // Deploy troop via WebSocket
       deployTroop(battleSession.battleId, selectedTroopType, { x: gridX, y: gridY })
         .then((response) => {
-          setDeployedCounts((prev) => ({
-            ...prev,
-            [selectedTroopType]: (prev[selectedTroopType] || 0) + 1,
-          }));
+          setTroopsRemaining(response.troopsRemaining);
 
           setBattleStarted(true);
           setBattleStatus(`Deployed ${selectedTroopType} at (${gridX}, ${gridY})`);
@@ -270,9 +375,21 @@ export function BattleDeployment({
           setBattleStatus(`Failed to deploy ${selectedTroopType}`);
         });
     },
-    [selectedTroopType, battleSession, troops, deployedCounts]
+    [selectedTroopType, battleSession, troops, troopsRemaining]
   );
 
+  const handleActivateAbility = (heroType: string) => {
+    activateHeroAbility(battleSession.battleId, heroType)
+      .then(() => {
+        setHeroAbilityUsed((prev) => ({ ...prev, [heroType]: true }));
+        setBattleStatus(`${heroType} ability activated`);
+      })
+      .catch((error) => {
+        console.error('Failed to activate hero ability:', error);
+        setBattleStatus(`${heroType} ability not available`);
+      });
+  };
+
   // Connect to WebSocket and join battle
   useEffect(() => {
     const token = localStorage.getItem('token');
@@ -307,9 +424,13 @@ export function BattleDeployment({
         case 'TROOP_SPAWN':
           handleTroopSpawn(event.data);
           break;
-        case 'TROOP_MOVE':
-          handleTroopMove(event.data);
+        case 'STATE_FRAME': {
+          // One frame per server tick: play its events, then move units to where they are now
+          const frame: StateFrame = event.data;
+          frame.events.forEach(([type, data]) => handleBattleEvent({ type, timestamp: event.timestamp, data }));
+          frame.units.forEach(([troopId, x, y]) => handleTroopMove(troopId, { x, y }));
           break;
+        }
         case 'TROOP_ATTACK':
           handleTroopAttacked(event.data);
           break;
@@ -322,6 +443,35 @@ export function BattleDeployment({
         case 'BUILDING_DESTROYED':
           handleBuildingDestroyed(event.data);
           break;
+        case 'SPELL_CAST':
+          handleSpellCast(event.data);
+          break;
+        case 'SPELL_END':
+          handleSpellEnd(event.data);
+          break;
+        case 'TROOP_HEAL':
+          // Heals carry the same health fields as attacks, so the health bar update is shared
+          handleTroopAttacked(event.data);
+          break;
+        case 'HERO_ABILITY':
+          handleTroopAttacked(event.data);
+          break;
+        case 'SESSION_STATE':
+          // Server's count of what is left to deploy
+          setTroopsRemaining(event.data.troops);
+          setSpellsRemaining(event.data.spells);
+          break;
+        case 'SPLASH_LAUNCH':
+          // Mortar shells take a while to land, so the projectile flies for the whole travel time
+          createProjectile(event.data.from, event.data.to, event.data.travelMs);
+          break;
+        case 'GARRISON_RELEASED':
+          event.data.defenders.forEach((defender: any) => handleTroopSpawn(defender));
+          break;
+        case 'SPLASH_IMPACT':
+        case 'TRAP_TRIGGERED':
+          createExplosion(event.data.position, event.data.radius);
+          break;
       }
     };
 
@@ -329,6 +479,7 @@ export function BattleDeployment({
       console.log('Battle ended:', result);
       setBattleStatus(`Battle Over! ${result.stars} Stars - ${result.destructionPercentage}% Destruction`);
       setDestructionPercentage(result.destructionPercentage);
+      setStars(result.stars);
 
       setTimeout(() => {
         onBattleComplete(result);
@@ -350,10 +501,16 @@ export function BattleDeployment({
 
     const troopContainer = new Container();
 
-    // Create troop sprite (simple circle for now)
+    // Create troop sprite (simple circle for now, heroes larger with a gold outline,
+    // Clan Castle troops with a red one)
     const sprite = new Graphics();
+    if (data.isHero) {
+      sprite.lineStyle(2, 0xffd700, 1);
+    } else if (data.isDefender) {
+      sprite.lineStyle(2, 0xc0392b, 1);
+    }
     sprite.beginFill(getTroopColor(data.troopType));
-    sprite.drawCircle(0, 0, TILE_SIZE / 3);
+    sprite.drawCircle(0, 0, data.isHero ? TILE_SIZE / 2 : TILE_SIZE / 3);
     sprite.endFill();
 
     troopContainer.addChild(sprite);
@@ -364,7 +521,8 @@ export function BattleDeployment({
     troopsLayerRef.current.addChild(troopContainer);
 
     // Create health bar
-    const healthBar = createHealthBar(data.health, data.health);
+    const maxHealth = data.maxHealth ?? data.health;
+    const healthBar = createHealthBar(data.health, maxHealth);
     healthBar.position.set(data.position.x * TILE_SIZE - TILE_SIZE / 2, (data.position.y - 0.5) * TILE_SIZE);
     troopsLayerRef.current.addChild(healthBar);
 
@@ -374,7 +532,7 @@ export function BattleDeployment({
       sprite: troopContainer,
       position: data.position,
       health: data.health,
-      maxHealth: data.health,
+      maxHealth,
       healthBar,
     });
   };
@@ -388,27 +546,52 @@ export function BattleDeployment({
         return 0x9b59b6;
       case 'GIANT':
         return 0x3498db;
+      case 'BALLOON':
+        return 0xe74c3c;
+      case 'MINION':
+        return 0x1abc9c;
+      case 'BARBARIAN_KING':
+        return 0xe67e22;
       default:
         return 0x95a5a6;
     }
   };
 
   // Handle troop move event
-  const handleTroopMove = (data: any) => {
-    const troopSprite = troopSpritesRef.current.get(data.troopId);
+  const handleTroopMove = (troopId: string, to: { x: number; y: number }) => {
+    const troopSprite = troopSpritesRef.current.get(troopId);
     if (!troopSprite) return;
 
     // Animate movement (simple for now)
-    troopSprite.sprite.position.set(data.to.x * TILE_SIZE, data.to.y * TILE_SIZE);
-    troopSprite.position = data.to;
+    troopSprite.sprite.position.set(to.x * TILE_SIZE, to.y * TILE_SIZE);
+    troopSprite.position = to;
 
     if (troopSprite.healthBar) {
-      troopSprite.healthBar.position.set(data.to.x * TILE_SIZE - TILE_SIZE / 2, (data.to.y - 0.5) * TILE_SIZE);
+      troopSprite.healthBar.position.set(to.x * TILE_SIZE - TILE_SIZE / 2, (to.y - 0.5) * TILE_SIZE);
     }
   };
 
+  // Buildings give up loot as they take damage; events carry what each hit released
+  const addLoot = (delta?: { gold: number; elixir: number }) => {
+    if (!delta || (delta.gold === 0 && delta.elixir === 0)) return;
+    setLoot((prev) => ({
+      ...prev,
+      lootedGold: prev.lootedGold + delta.gold,
+      lootedElixir: prev.lootedElixir + delta.elixir,
+    }));
+  };
+
+  // Destruction and stars ride along on every building hit, so the HUD fills in as they're earned
+  const updateScore = (data: { destructionPercentage?: number; stars?: number }) => {
+    if (data.destructionPercentage !== undefined) setDestructionPercentage(data.destructionPercentage);
+    if (data.stars !== undefined) setStars(data.stars);
+  };
+
   // Handle building attack event
   const handleBuildingAttack = (data: any) => {
+    addLoot(data.loot);
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
     if (!buildingSprite) return;
 
@@ -471,6 +654,9 @@ export function BattleDeployment({
 
   // Handle building destroyed event
   const handleBuildingDestroyed = (data: any) => {
+    addLoot(data.loot);
+    updateScore(data);
+
     const buildingSprite = buildingSpritesRef.current.get(data.buildingId);
     if (!buildingSprite) return;
 
@@ -500,8 +686,49 @@ export function BattleDeployment({
     troopSpritesRef.current.delete(data.troopId);
   };
 
+  // Draw the spell's area of effect until it ends
+  const handleSpellCast = (data: any) => {
+    if (!effectsLayerRef.current) return;
+
+    const ring = new Graphics();
+    ring.lineStyle(2, getSpellColor(data.spellType), 0.9);
+    ring.beginFill(getSpellColor(data.spellType), 0.2);
+    ring.drawCircle(0, 0, data.radius * TILE_SIZE);
+    ring.endFill();
+    ring.position.set(data.position.x * TILE_SIZE, data.position.y * TILE_SIZE);
+
+    effectsLayerRef.current.addChild(ring);
+    spellSpritesRef.current.set(data.spellId, ring);
+  };
+
+  const handleSpellEnd = (data: any) => {
+    const ring = spellSpritesRef.current.get(data.spellId);
+    if (!ring) return;
+
+    ring.destroy();
+    spellSpritesRef.current.delete(data.spellId);
+  };
+
+  // Get spell color based on type
+  const getSpellColor = (type: string): number => {
+    switch (type) {
+      case 'LIGHTNING':
+        return 0x5dade2;
+      case 'HEAL':
+        return 0xf1c40f;
+      case 'RAGE':
+        return 0x8e44ad;
+      default:
+        return 0xffffff;
+    }
+  };
+
   // Create projectile effect
-  const createProjectile = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const createProjectile = (
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    duration: number = 200 // ms
+  ) => {
     if (!effectsLayerRef.current) return;
 
     const projectile = new Graphics();
@@ -513,7 +740,6 @@ export function BattleDeployment({
     effectsLayerRef.current.addChild(projectile);
 
     // Animate projectile (simple linear interpolation)
-    const duration = 200; // ms
     const startTime = Date.now();
 
     const animate = () => {
@@ -598,8 +824,7 @@ export function BattleDeployment({
           {/* Troop Selection */}
           <div className="flex gap-2 flex-wrap">
             {troops.map((troop) => {
-              const deployed = deployedCounts[troop.type] || 0;
-              const remaining = troop.count - deployed;
+              const remaining = troopsRemaining[troop.type] ?? 0;
 
               return (
                 <Button
@@ -617,6 +842,56 @@ export function BattleDeployment({
             })}
           </div>
 
+          {/* Hero Bar: deploy each hero once, then use its ability */}
+          {(heroesRemaining.length > 0 || Object.keys(heroAbilityUsed).length > 0) && (
+            <div className="flex gap-2 flex-wrap">
+              {heroesRemaining.map((heroType) => (
+                <Button
+                  key={heroType}
+                  variant={selectedHeroType === heroType ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSelectedHeroType(selectedHeroType === heroType ? null : heroType)}
+                  className="flex items-center gap-2"
+                >
+                  <Crown className="w-4 h-4" />
+                  {heroType}
+                </Button>
+              ))}
+              {Object.entries(heroAbilityUsed).map(([heroType, used]) => (
+                <Button
+                  key={`${heroType}_ability`}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleActivateAbility(heroType)}
+                  disabled={used}
+                  className="flex items-center gap-2"
+                >
+                  <Crown className="w-4 h-4" />
+                  {heroType} ability{used ? ' (used)' : ''}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {/* Spell Bar */}
+          {Object.keys(spellsRemaining).length > 0 && (
+            <div className="flex gap-2 flex-wrap">
+              {Object.entries(spellsRemaining).map(([spellType, remaining]) => (
+                <Button
+                  key={spellType}
+                  variant={selectedSpellType === spellType ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSelectedSpellType(selectedSpellType === spellType ? null : spellType)}
+                  disabled={remaining === 0}
+                  className="flex items-center gap-2"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  {spellType}: {remaining}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Battle Info */}
           <div className="flex gap-4 text-sm text-slate-300">
             <div className="flex items-center gap-2">
@@ -627,8 +902,15 @@ export function BattleDeployment({
               <div className="flex items-center gap-2">
                 <Sword className="w-4 h-4 text-red-500" />
                 <span>Destruction: {destructionPercentage}%</span>
+                <span className="text-yellow-400">{'★'.repeat(stars)}{'☆'.repeat(3 - stars)}</span>
               </div>
             )}
+            <div className="flex items-center gap-2">
+              <span>
+                Loot: 🪙 {loot.lootedGold.toLocaleString()}/{loot.availableGold.toLocaleString()} 💧{' '}
+                {loot.lootedElixir.toLocaleString()}/{loot.availableElixir.toLocaleString()}
+              </span>
+            </div>
           </div>
         </div>
       </Card>
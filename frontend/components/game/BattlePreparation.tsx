@@ -1,44 +1,66 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { battlesApi, OpponentVillage, BattleSession } from '@/lib/api/battles';
+import { battlesApi, OpponentVillage, RevengeTarget, BattleSession } from '@/lib/api/battles';
 import { troopsApi, ArmyTroop } from '@/lib/api/troops';
+import { spellsApi, BrewedSpell } from '@/lib/api/spells';
+import { heroesApi, Hero } from '@/lib/api/heroes';
+import { useVillageStore } from '@/lib/stores/useVillageStore';
+import { ScoutingPreview } from '@/components/game/ScoutingPreview';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Swords, AlertCircle, CheckCircle, Users, Target, Gamepad2, X } from 'lucide-react';
+import { Loader2, Swords, AlertCircle, CheckCircle, Target, Gamepad2, X, SkipForward } from 'lucide-react';
 
 interface BattlePreparationProps {
   onBattleComplete: (battleResult: any) => void;
   onStartRealtimeBattle?: (battleSession: BattleSession, troops: { type: string; count: number }[]) => void;
   onCancel: () => void;
+  revengeBattleId?: string | null; // Set to take revenge for this defense instead of matchmaking
 }
 
-export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onCancel }: BattlePreparationProps) {
+export function BattlePreparation({
+  onBattleComplete,
+  onStartRealtimeBattle,
+  onCancel,
+  revengeBattleId,
+}: BattlePreparationProps) {
   const [isLoading, setIsLoading] = useState(false);
-  const [opponent, setOpponent] = useState<OpponentVillage | null>(null);
+  const [opponent, setOpponent] = useState<OpponentVillage | RevengeTarget | null>(null);
   const [army, setArmy] = useState<ArmyTroop[]>([]);
   const [selectedTroops, setSelectedTroops] = useState<{ type: string; count: number }[]>([]);
+  const [spells, setSpells] = useState<BrewedSpell[]>([]);
+  const [selectedSpells, setSelectedSpells] = useState<Record<string, number>>({});
+  const [heroes, setHeroes] = useState<Hero[]>([]);
+  const [selectedHeroes, setSelectedHeroes] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isAttacking, setIsAttacking] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [revengeBattleId]);
 
   const loadData = async () => {
     try {
       setIsLoading(true);
       setError(null);
+      setOpponent(null);
 
-      // Load army and find opponent in parallel
-      const [armyData, opponentData] = await Promise.all([
+      // Load army, spells, heroes and find opponent (or the revenge target) in parallel
+      const [armyData, spellData, heroData, opponentData] = await Promise.all([
         troopsApi.getArmy(),
-        battlesApi.findOpponent(),
+        spellsApi.getSpells(),
+        heroesApi.getHeroes(),
+        revengeBattleId ? battlesApi.getRevengeTarget(revengeBattleId) : battlesApi.findOpponent(),
       ]);
 
       setArmy(armyData);
+      setSpells(spellData.filter((s) => s.count > 0));
+      setHeroes(heroData);
+      // Bring every ready hero by default
+      setSelectedHeroes(heroData.filter((h) => !h.isRecovering).map((h) => h.heroType));
       setOpponent(opponentData);
     } catch (err: any) {
       console.error('Failed to load battle data:', err);
@@ -48,6 +70,23 @@ export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onC
     }
   };
 
+  // Skip to the next opponent; the server charges the gold fee
+  const handleNextOpponent = async () => {
+    if (!opponent || revengeBattleId) return;
+
+    try {
+      setIsSearching(true);
+      setError(null);
+      setOpponent(await battlesApi.findOpponent(opponent.opponentVillageId));
+      await useVillageStore.getState().fetchVillage();
+    } catch (err: any) {
+      console.error('Failed to find next opponent:', err);
+      setError(err.response?.data?.message || 'Failed to find another opponent');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
   const handleSelectTroop = (troopType: string, count: number) => {
     const existing = selectedTroops.find((t) => t.type === troopType);
 
@@ -88,6 +127,20 @@ export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onC
     }
   };
 
+  const changeSpell = (spell: BrewedSpell, delta: number) => {
+    const current = selectedSpells[spell.spellType] || 0;
+    const next = Math.max(0, Math.min(spell.count, current + delta));
+    setSelectedSpells({ ...selectedSpells, [spell.spellType]: next });
+  };
+
+  const toggleHero = (heroType: string) => {
+    setSelectedHeroes(
+      selectedHeroes.includes(heroType)
+        ? selectedHeroes.filter((h) => h !== heroType)
+        : [...selectedHeroes, heroType]
+    );
+  };
+
   const getTotalSelectedTroops = () => {
     return selectedTroops.reduce((total, t) => total + t.count, 0);
   };
@@ -101,7 +154,17 @@ export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onC
 
       if (onStartRealtimeBattle) {
         // Always use real-time battle
-        const battleSession = await battlesApi.startBattle(opponent.opponentVillageId, selectedTroops);
+        const spellsToBring = Object.entries(selectedSpells)
+          .filter(([, count]) => count > 0)
+          .map(([type, count]) => ({ type, count }));
+        const battleSession = revengeBattleId
+          ? await battlesApi.startRevenge(revengeBattleId, selectedTroops, spellsToBring, selectedHeroes)
+          : await battlesApi.startBattle(
+              opponent.opponentVillageId,
+              selectedTroops,
+              spellsToBring,
+              selectedHeroes,
+            );
         onStartRealtimeBattle(battleSession, selectedTroops);
       }
     } catch (err: any) {
@@ -167,21 +230,31 @@ export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onC
       {opponent && (
         <Card className="bg-gray-800/90 border-2 border-orange-600/50">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2 text-lg text-orange-300">
-              <Target className="h-5 w-5" />
-              Target Village
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-lg text-orange-300">
+                <Target className="h-5 w-5" />
+                {revengeBattleId ? 'Revenge Target' : 'Target Village'}
+              </CardTitle>
+              {/* Revenge targets are fixed, so there is no next opponent */}
+              {'nextCost' in opponent && (
+                <Button
+                  size="sm"
+                  onClick={handleNextOpponent}
+                  disabled={isSearching || isAttacking}
+                  className="bg-orange-600 hover:bg-orange-700 font-numbers"
+                >
+                  {isSearching ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <SkipForward className="mr-1 h-4 w-4" />
+                  )}
+                  Next (🪙 {opponent.nextCost})
+                </Button>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
-            <div className="flex items-center gap-4">
-              <div className="h-16 w-16 rounded-full bg-gray-900 border-2 border-orange-500 flex items-center justify-center">
-                <Users className="h-8 w-8 text-orange-400" />
-              </div>
-              <div>
-                <p className="font-semibold text-white">Enemy Village</p>
-                <p className="text-sm text-gray-400">Ready to attack</p>
-              </div>
-            </div>
+            <ScoutingPreview preview={opponent.preview} />
           </CardContent>
         </Card>
       )}
@@ -259,6 +332,106 @@ export function BattlePreparation({ onBattleComplete, onStartRealtimeBattle, onC
         </CardContent>
       </Card>
 
+      {/* Spell Selection */}
+      {spells.length > 0 && (
+        <Card className="bg-gray-800/90 border-2 border-fuchsia-600/50">
+          <CardHeader>
+            <CardTitle className="text-lg text-fuchsia-300">Bring Spells</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {spells.map((spell) => {
+                const selected = selectedSpells[spell.spellType] || 0;
+
+                return (
+                  <div key={spell.id} className="flex items-center justify-between p-3 bg-gray-900/50 border-2 border-gray-700 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <span className="text-2xl">{spell.spellConfig.icon}</span>
+                      <div>
+                        <p className="font-semibold text-white">{spell.spellConfig.name}</p>
+                        <p className="text-sm text-gray-400 font-numbers">Available: {spell.count}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => changeSpell(spell, -1)}
+                        disabled={selected === 0}
+                        className="bg-gray-800 hover:bg-gray-700 border-gray-600"
+                      >
+                        -
+                      </Button>
+                      <span className="min-w-[3rem] text-center font-bold text-lg text-fuchsia-400 font-numbers">
+                        {selected}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => changeSpell(spell, 1)}
+                        disabled={selected >= spell.count}
+                        className="bg-gray-800 hover:bg-gray-700 border-gray-600"
+                      >
+                        +
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Hero Selection */}
+      {heroes.length > 0 && (
+        <Card className="bg-gray-800/90 border-2 border-amber-600/50">
+          <CardHeader>
+            <CardTitle className="text-lg text-amber-300">Bring Heroes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {heroes.map((hero) => {
+                const selected = selectedHeroes.includes(hero.heroType);
+
+                return (
+                  <div key={hero.id} className="flex items-center justify-between p-3 bg-gray-900/50 border-2 border-gray-700 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <span className="text-2xl">{hero.heroConfig.icon}</span>
+                      <div>
+                        <p className="font-semibold text-white">
+                          {hero.heroConfig.name} <span className="text-amber-400">Lv {hero.level}</span>
+                        </p>
+                        <p className="text-sm text-gray-400 font-numbers">
+                          {hero.isRecovering
+                            ? `Recovering (${hero.recoveryRemaining}s)`
+                            : `HP ${hero.currentHealth}/${hero.maxHealth}`}
+                        </p>
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleHero(hero.heroType)}
+                      disabled={hero.isRecovering}
+                      className={
+                        selected
+                          ? 'bg-amber-600 hover:bg-amber-700 border-amber-500 text-white'
+                          : 'bg-gray-800 hover:bg-gray-700 border-gray-600'
+                      }
+                    >
+                      {selected ? 'Bringing' : 'Leave home'}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Attack Button */}
       <div className="flex items-center justify-between p-6 bg-gradient-to-r from-red-900/30 to-orange-900/30 border-2 border-red-600/50 rounded-lg">
         <div>
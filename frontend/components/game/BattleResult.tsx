@@ -23,6 +23,7 @@ interface BattleResultProps {
     stars: number;
     lootGold: number;
     lootElixir: number;
+    attackerTrophyChange?: number; // trophies won (positive) or lost (negative)
     createdAt: string;
   };
   onClose: () => void;
@@ -190,6 +191,20 @@ export function BattleResult({ result, onClose }: BattleResultProps) {
                 {result.stars} / 3
               </Badge>
             </div>
+            {result.attackerTrophyChange !== undefined && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Trophies</span>
+                <span
+                  className={`flex items-center gap-1 font-semibold ${
+                    result.attackerTrophyChange >= 0 ? 'text-green-500' : 'text-red-500'
+                  }`}
+                >
+                  <Trophy className="h-4 w-4" />
+                  {result.attackerTrophyChange > 0 ? '+' : ''}
+                  {result.attackerTrophyChange}
+                </span>
+              </div>
+            )}
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Destruction</span>
               <Badge variant={result.destructionPercentage >= 50 ? 'default' : 'secondary'}>
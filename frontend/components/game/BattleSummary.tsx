@@ -11,8 +11,11 @@ interface BattleSummaryProps {
     destructionPercentage: number;
     stars: number;
     duration: number;
-    lootGold?: number;
+    lootGold?: number; // taken from the defender
     lootElixir?: number;
+    lootGoldReceived?: number; // what fit in the attacker's storage
+    lootElixirReceived?: number;
+    attackerTrophyChange?: number; // trophies won (positive) or lost (negative)
   };
   onReturnToVillage: () => void;
 }
@@ -27,6 +30,13 @@ export function BattleSummary({ battleResult, onReturnToVillage }: BattleSummary
   const minutes = Math.floor(durationSeconds / 60);
   const seconds = durationSeconds % 60;
 
+  // Loot that didn't fit in storage is taken from the defender but lost
+  const goldReceived = battleResult.lootGoldReceived ?? battleResult.lootGold ?? 0;
+  const elixirReceived = battleResult.lootElixirReceived ?? battleResult.lootElixir ?? 0;
+  const goldOverflow = (battleResult.lootGold ?? 0) - goldReceived;
+  const elixirOverflow = (battleResult.lootElixir ?? 0) - elixirReceived;
+  const trophyChange = battleResult.attackerTrophyChange ?? 0;
+
   useEffect(() => {
     // Staggered animations
     setTimeout(() => setShowStars(true), 300);
@@ -89,7 +99,7 @@ export function BattleSummary({ battleResult, onReturnToVillage }: BattleSummary
 
           {/* Battle Stats */}
           <div
-            className={`grid grid-cols-2 gap-4 transition-all duration-500 ${
+            className={`grid grid-cols-3 gap-4 transition-all duration-500 ${
               showStats ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'
             }`}
           >
@@ -127,6 +137,23 @@ export function BattleSummary({ battleResult, onReturnToVillage }: BattleSummary
                 </div>
               </div>
             </Card>
+
+            {/* Trophies */}
+            <Card className="p-4 bg-slate-800/50 border-slate-700">
+              <div className="text-center space-y-2">
+                <div className="flex items-center justify-center gap-2 text-sm text-slate-400">
+                  <Award className="w-4 h-4" />
+                  <span>Trophies</span>
+                </div>
+                <div className={`text-4xl font-bold ${trophyChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {trophyChange > 0 ? '+' : ''}
+                  {trophyChange}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {trophyChange >= 0 ? 'won' : 'lost'}
+                </div>
+              </div>
+            </Card>
           </div>
 
           {/* Loot Display */}
@@ -152,8 +179,11 @@ export function BattleSummary({ battleResult, onReturnToVillage }: BattleSummary
                       <div>
                         <p className="text-sm text-slate-400">Gold</p>
                         <p className="text-2xl font-bold text-yellow-400">
-                          +{formatNumber(battleResult.lootGold ?? 0)}
+                          +{formatNumber(goldReceived)}
                         </p>
+                        {goldOverflow > 0 && (
+                          <p className="text-xs text-slate-500">{formatNumber(goldOverflow)} lost - storage full</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -167,8 +197,11 @@ export function BattleSummary({ battleResult, onReturnToVillage }: BattleSummary
                       <div>
                         <p className="text-sm text-slate-400">Elixir</p>
                         <p className="text-2xl font-bold text-purple-400">
-                          +{formatNumber(battleResult.lootElixir ?? 0)}
+                          +{formatNumber(elixirReceived)}
                         </p>
+                        {elixirOverflow > 0 && (
+                          <p className="text-xs text-slate-500">{formatNumber(elixirOverflow)} lost - storage full</p>
+                        )}
                       </div>
                     </div>
                   )}
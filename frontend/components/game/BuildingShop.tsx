@@ -63,7 +63,9 @@ export function BuildingShop({ gold, elixir, onSelectBuilding, onClose }: Buildi
     (b) => b.category === 'resource' && b.type !== 'town_hall',
   );
 
-  const defenseBuildings = Object.values(buildingConfigs).filter((b) => b.category === 'defense');
+  const defenseBuildings = Object.values(buildingConfigs).filter(
+    (b) => b.category === 'defense' || b.category === 'trap',
+  );
 
   const armyBuildings = Object.values(buildingConfigs).filter((b) => b.category === 'army');
 
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { troopsApi, ArmyTroop, CastleTroops } from '@/lib/api/troops';
+import { useToastStore } from '@/lib/stores/useToastStore';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { motion } from 'framer-motion';
+import { Castle } from 'lucide-react';
+
+interface ClanCastlePanelProps {
+  army: ArmyTroop[];
+  onGarrison: () => void; // Called after troops leave the army so the parent can reload it
+}
+
+/**
+ * Clan Castle section of the army panel
+ * Shows the troops defending the castle and lets the player move army troops into it
+ */
+export function ClanCastlePanel({ army, onGarrison }: ClanCastlePanelProps) {
+  const { success, error: showError } = useToastStore();
+
+  const [castle, setCastle] = useState<CastleTroops | null>(null);
+
+  const loadCastle = async () => {
+    try {
+      setCastle(await troopsApi.getCastleTroops());
+    } catch (err: any) {
+      console.error('Failed to load clan castle:', err);
+      showError('Loading Failed', 'Failed to load clan castle troops');
+    }
+  };
+
+  useEffect(() => {
+    loadCastle();
+  }, []);
+
+  const handleGarrison = async (troop: ArmyTroop) => {
+    try {
+      await troopsApi.garrisonTroops(troop.troopType, 1);
+      await loadCastle();
+      onGarrison();
+      success('Troop Garrisoned!', `${troop.troopConfig.icon} ${troop.troopConfig.name} moved to the Clan Castle`);
+    } catch (err: any) {
+      showError('Garrison Failed', err.response?.data?.message || 'Failed to move troop');
+    }
+  };
+
+  if (!castle) {
+    return null;
+  }
+
+  const capacityPercent = castle.capacity > 0 ? (castle.housingSpace / castle.capacity) * 100 : 0;
+  const spaceLeft = castle.capacity - castle.housingSpace;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+      className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-red-500/10 to-rose-500/5 backdrop-blur-md border border-red-500/30 p-6 mt-6"
+    >
+      <h3 className="text-xl font-bold text-red-400 mb-4 flex items-center gap-2">
+        <Castle className="w-5 h-5" />
+        CLAN CASTLE
+      </h3>
+
+      {!castle.hasCastle ? (
+        <p className="text-sm text-gray-400">Build a Clan Castle to station defending troops</p>
+      ) : (
+        <div className="space-y-4">
+          {/* Capacity bar */}
+          <div>
+            <div className="flex justify-between text-xs text-gray-300 mb-1">
+              <span>Housing</span>
+              <span className="font-numbers">
+                {castle.housingSpace}/{castle.capacity}
+              </span>
+            </div>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-white/10">
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-red-500 to-rose-500"
+                style={{ width: `${capacityPercent}%` }}
+              />
+            </div>
+          </div>
+
+          {/* Defending troops */}
+          {castle.troops.length === 0 ? (
+            <p className="text-sm text-gray-400">No troops defending yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {castle.troops.map((troop) => (
+                <Badge key={troop.id} className="bg-red-700 text-white">
+                  {troop.troopConfig.icon} {troop.troopConfig.name} x{troop.count}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {/* Army troops that can be moved in */}
+          {army.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-400">Send troops from your army</p>
+              <div className="flex flex-wrap gap-2">
+                {army.map((troop) => {
+                  const fits = troop.troopConfig.housingSpace <= spaceLeft;
+                  return (
+                    <Button
+                      key={troop.id}
+                      size="sm"
+                      onClick={() => handleGarrison(troop)}
+                      disabled={!fits}
+                      className={
+                        fits
+                          ? 'bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700'
+                          : 'opacity-50'
+                      }
+                    >
+                      {troop.troopConfig.icon} +1 {troop.troopConfig.name}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -37,9 +37,10 @@ export function FloatingBuildingInfo({
   maxElixir = 10000,
 }: FloatingBuildingInfoProps) {
   const [isCollecting, setIsCollecting] = useState(false);
+  const [isRearming, setIsRearming] = useState(false);
   const [buildingConfig, setBuildingConfig] = useState<BuildingConfig | null>(null);
   const visualConfig = getBuildingVisual(building.type);
-  const { success, warning } = useToastStore();
+  const { success, warning, error: showError } = useToastStore();
   const { showGold, showElixir } = useFloatingNumberStore();
 
   const isUnderConstruction = isBuildingUnderConstruction(building);
@@ -103,10 +104,30 @@ export function FloatingBuildingInfo({
     }
   };
 
+  const handleRearm = async () => {
+    try {
+      setIsRearming(true);
+      await buildingsApi.rearmTrap(building.id);
+
+      // Refresh data and show success
+      await onCollect();
+      success('Trap Rearmed!', `${visualConfig.name} is ready for the next attack`);
+    } catch (error: any) {
+      showError('Rearm Failed', error.response?.data?.message || 'Failed to rearm trap');
+    } finally {
+      setIsRearming(false);
+    }
+  };
+
   const healthPercent = (building.health / building.maxHealth) * 100;
   const isCollector = building.type === 'gold_mine' || building.type === 'elixir_collector';
   const isStorage = building.type === 'gold_storage' || building.type === 'elixir_storage';
-  const isDefense = building.type === 'cannon' || building.type === 'archer_tower';
+  const isDefense =
+    building.type === 'cannon' ||
+    building.type === 'archer_tower' ||
+    building.type === 'air_defense' ||
+    building.type === 'mortar' ||
+    building.type === 'wizard_tower';
 
   const storedAmount = building.type === 'gold_mine'
     ? (building.internalGold || 0)
@@ -373,6 +394,51 @@ export function FloatingBuildingInfo({
               </motion.div>
             )}
 
+            {/* Trap Info */}
+            {buildingConfig?.trap && !isUnderConstruction && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-gradient-to-br from-red-500/10 to-pink-500/5 rounded-xl p-4 border border-red-500/20"
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-bold text-red-400 flex items-center gap-2">
+                    <Target className="w-4 h-4" />
+                    HIDDEN TRAP
+                  </span>
+                  <span
+                    className={`text-sm font-bold ${building.isArmed ? 'text-green-400' : 'text-orange-400'}`}
+                  >
+                    {building.isArmed ? 'Armed' : 'Sprung'}
+                  </span>
+                </div>
+                {!building.isArmed && (
+                  <Button
+                    onClick={handleRearm}
+                    disabled={isRearming || currentGold < buildingConfig.trap.rearmCost.gold}
+                    className={`w-full transition-all duration-300 ${
+                      currentGold < buildingConfig.trap.rearmCost.gold
+                        ? 'bg-gray-700 cursor-not-allowed'
+                        : 'bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 hover:scale-105'
+                    }`}
+                  >
+                    {isRearming ? (
+                      <>
+                        <Sparkles className="w-4 h-4 mr-2 animate-spin" />
+                        Rearming...
+                      </>
+                    ) : (
+                      <>
+                        <Coins className="w-4 h-4 mr-2" />
+                        Rearm for {buildingConfig.trap.rearmCost.gold.toLocaleString()} gold
+                      </>
+                    )}
+                  </Button>
+                )}
+              </motion.div>
+            )}
+
             {/* Under Construction Message */}
             {isUnderConstruction && (
               <motion.div
@@ -1,6 +1,7 @@
 'use client';
 
-import { Coins, Droplet, Users, LogOut, User, Swords } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Coins, Droplet, Users, LogOut, User, Swords, Shield } from 'lucide-react';
 import { ResourcesWithPending } from '@/lib/api';
 import { useAuthStore } from '@/lib/stores';
 import { useRouter } from 'next/navigation';
@@ -12,11 +13,35 @@ interface FloatingResourceBarProps {
   resources: ResourcesWithPending | null;
   isLoading: boolean;
   onProfileClick?: () => void;
+  shieldExpiresAt?: string | null;
 }
 
-export function FloatingResourceBar({ villageName, resources, isLoading, onProfileClick }: FloatingResourceBarProps) {
+export function FloatingResourceBar({
+  villageName,
+  resources,
+  isLoading,
+  onProfileClick,
+  shieldExpiresAt,
+}: FloatingResourceBarProps) {
   const router = useRouter();
   const { logout } = useAuthStore();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick every 30 seconds so the shield countdown stays current
+  useEffect(() => {
+    if (!shieldExpiresAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [shieldExpiresAt]);
+
+  const shieldRemaining = shieldExpiresAt ? new Date(shieldExpiresAt).getTime() - now : 0;
+
+  const formatShield = (ms: number) => {
+    const totalMinutes = Math.ceil(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
 
   const formatNumber = (num: number) => {
     return new Intl.NumberFormat('en-US').format(num);
@@ -80,6 +105,19 @@ export function FloatingResourceBar({ villageName, resources, isLoading, onProfi
               </div>
             </div>
 
+            {/* Shield (while protected) */}
+            {shieldRemaining > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="rounded-full bg-sky-500/20 p-2">
+                  <Shield className="h-4 w-4 text-sky-400" />
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-xs text-gray-400">Shield</span>
+                  <span className="font-bold text-sky-400 font-numbers">{formatShield(shieldRemaining)}</span>
+                </div>
+              </div>
+            )}
+
             {/* Troops (if available) */}
             {resources.troops !== undefined && (
               <div className="flex items-center gap-2">
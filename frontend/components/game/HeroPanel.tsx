@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { heroesApi, Hero } from '@/lib/api/heroes';
+import { useVillageStore } from '@/lib/stores/useVillageStore';
+import { useToastStore } from '@/lib/stores/useToastStore';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { motion } from 'framer-motion';
+import { Crown, Heart, Swords, Timer } from 'lucide-react';
+
+/**
+ * Heroes section of the army panel
+ * Shows each hero unlocked by an altar with its level, health and recovery timer
+ */
+export function HeroPanel() {
+  const { village } = useVillageStore();
+  const { success, error: showError } = useToastStore();
+
+  const [heroes, setHeroes] = useState<Hero[]>([]);
+
+  const loadHeroes = async () => {
+    try {
+      setHeroes(await heroesApi.getHeroes());
+    } catch (err: any) {
+      console.error('Failed to load heroes:', err);
+      showError('Loading Failed', 'Failed to load heroes');
+    }
+  };
+
+  useEffect(() => {
+    loadHeroes();
+  }, []);
+
+  // Reload every 5 seconds so recovery timers stay current
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      try {
+        setHeroes(await heroesApi.getHeroes());
+      } catch (err) {
+        console.error('Failed to refresh heroes:', err);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleUpgrade = async (hero: Hero) => {
+    try {
+      await heroesApi.upgradeHero(hero.heroType);
+      await loadHeroes();
+      await useVillageStore.getState().fetchVillage();
+      success('Hero Upgraded!', `${hero.heroConfig.icon} ${hero.heroConfig.name} reached level ${hero.level + 1}`);
+    } catch (err: any) {
+      showError('Upgrade Failed', err.response?.data?.message || 'Failed to upgrade hero');
+    }
+  };
+
+  const formatRecovery = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-amber-500/10 to-yellow-500/5 backdrop-blur-md border border-amber-500/30 p-6 mt-6"
+    >
+      <h3 className="text-xl font-bold text-amber-400 mb-4 flex items-center gap-2">
+        <Crown className="w-5 h-5" />
+        HEROES
+      </h3>
+
+      {heroes.length === 0 ? (
+        <p className="text-sm text-gray-400">Build a hero altar to unlock your first hero</p>
+      ) : (
+        <div className="space-y-3">
+          {heroes.map((hero) => {
+            const healthPercent = (hero.currentHealth / hero.maxHealth) * 100;
+            const canAfford =
+              village && hero.upgradeCost && village.resources.elixir >= hero.upgradeCost.elixir;
+
+            return (
+              <div
+                key={hero.id}
+                className="flex items-center gap-4 rounded-xl bg-gradient-to-br from-white/10 to-white/5 border border-white/20 p-4"
+              >
+                <span className="text-4xl">{hero.heroConfig.icon}</span>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-bold text-white">{hero.heroConfig.name}</h4>
+                    <Badge className="bg-amber-600 text-white">Lv {hero.level}</Badge>
+                    {hero.isRecovering && (
+                      <Badge className="bg-gray-600 text-white">Recovering</Badge>
+                    )}
+                  </div>
+
+                  {/* Health bar */}
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-white/10">
+                    <div
+                      className={`h-full rounded-full ${
+                        hero.isRecovering
+                          ? 'bg-gradient-to-r from-orange-500 to-yellow-500'
+                          : 'bg-gradient-to-r from-green-500 to-emerald-500'
+                      }`}
+                      style={{ width: `${healthPercent}%` }}
+                    />
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-300">
+                    <span className="flex items-center gap-1 font-numbers">
+                      <Heart className="w-3 h-3 text-red-400" />
+                      {hero.currentHealth}/{hero.maxHealth}
+                    </span>
+                    <span className="flex items-center gap-1 font-numbers">
+                      <Swords className="w-3 h-3 text-orange-400" />
+                      {hero.damage}
+                    </span>
+                    {hero.isRecovering && (
+                      <span className="flex items-center gap-1 font-numbers">
+                        <Timer className="w-3 h-3 text-amber-400" />
+                        Ready in {formatRecovery(hero.recoveryRemaining)}
+                      </span>
+                    )}
+                    <span>
+                      {hero.heroConfig.ability.name}: {hero.heroConfig.ability.description}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-right space-y-2">
+                  {hero.upgradeCost ? (
+                    <>
+                      <p className="font-bold text-purple-400 font-numbers">
+                        💧 {hero.upgradeCost.elixir}
+                      </p>
+                      <Button
+                        size="sm"
+                        onClick={() => handleUpgrade(hero)}
+                        disabled={!canAfford || hero.isRecovering}
+                        className={
+                          canAfford && !hero.isRecovering
+                            ? 'bg-gradient-to-r from-amber-600 to-yellow-600 hover:from-amber-700 hover:to-yellow-700'
+                            : 'opacity-50'
+                        }
+                      >
+                        {hero.isRecovering ? '⏱️ Recovering' : canAfford ? '⬆️ Upgrade' : '💰 Not enough'}
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge className="bg-amber-600 text-white">Max level</Badge>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+}
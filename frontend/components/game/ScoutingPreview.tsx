@@ -0,0 +1,77 @@
+'use client';
+
+import { ScoutingPreview as ScoutingPreviewData } from '@/lib/api/battles';
+import { getBuildingVisual } from '@/lib/config/buildings';
+import { formatNumber } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Coins, Droplet, Trophy } from 'lucide-react';
+
+// Village grid size in tiles
+const GRID_WIDTH = 80;
+const GRID_HEIGHT = 40;
+
+interface ScoutingPreviewProps {
+  preview: ScoutingPreviewData;
+}
+
+/**
+ * Scouting view of the matched village
+ * Minimap of the layout plus the loot and trophies on offer
+ */
+export function ScoutingPreview({ preview }: ScoutingPreviewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold text-white">{preview.village.name}</p>
+          <p className="text-sm text-gray-400 font-numbers">
+            Town Hall {preview.village.townHallLevel} · 🏆 {preview.village.trophies}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Badge className="bg-green-700 text-white font-numbers">
+            <Trophy className="mr-1 h-3 w-3" />+{preview.trophies.win}
+          </Badge>
+          <Badge className="bg-red-700 text-white font-numbers">
+            <Trophy className="mr-1 h-3 w-3" />
+            {preview.trophies.loss}
+          </Badge>
+        </div>
+      </div>
+
+      {/* Layout minimap */}
+      <div className="relative w-full aspect-[2/1] rounded-lg border-2 border-gray-700 bg-green-950/60 overflow-hidden">
+        {preview.buildings.map((building) => (
+          <div
+            key={building.id}
+            title={getBuildingVisual(building.type).name}
+            className="absolute rounded-sm border border-black/40"
+            style={{
+              left: `${(building.position.x / GRID_WIDTH) * 100}%`,
+              top: `${(building.position.y / GRID_HEIGHT) * 100}%`,
+              width: `${(building.width / GRID_WIDTH) * 100}%`,
+              height: `${(building.height / GRID_HEIGHT) * 100}%`,
+              backgroundColor: getBuildingVisual(building.type).color,
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Available loot */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex items-center gap-2 p-2 bg-gray-900/50 border border-yellow-600/30 rounded">
+          <Coins className="h-4 w-4 text-yellow-400" />
+          <span className="font-bold text-yellow-400 text-sm font-numbers">
+            {formatNumber(preview.loot.gold)}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 p-2 bg-gray-900/50 border border-purple-600/30 rounded">
+          <Droplet className="h-4 w-4 text-purple-400" />
+          <span className="font-bold text-purple-400 text-sm font-numbers">
+            {formatNumber(preview.loot.elixir)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { spellsApi, SpellStats, BrewingQueueItem, BrewedSpell } from '@/lib/api/spells';
+import { useVillageStore } from '@/lib/stores/useVillageStore';
+import { useToastStore } from '@/lib/stores/useToastStore';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FlaskConical, Target, Timer } from 'lucide-react';
+
+/**
+ * Spell Factory section of the army panel
+ * Brew spells, watch the brewing queue and see which spells are ready for battle
+ */
+export function SpellBrewing() {
+  const { village } = useVillageStore();
+  const { success, error: showError, info } = useToastStore();
+
+  const [availableSpells, setAvailableSpells] = useState<SpellStats[]>([]);
+  const [brewingQueue, setBrewingQueue] = useState<BrewingQueueItem[]>([]);
+  const [spells, setSpells] = useState<BrewedSpell[]>([]);
+
+  const loadData = async () => {
+    try {
+      const [available, queue, brewed] = await Promise.all([
+        spellsApi.getAvailableSpells(),
+        spellsApi.getBrewingQueue(),
+        spellsApi.getSpells(),
+      ]);
+      setAvailableSpells(available);
+      setBrewingQueue(queue);
+      setSpells(brewed);
+    } catch (err: any) {
+      console.error('Failed to load spell data:', err);
+      showError('Loading Failed', 'Failed to load spell data');
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Reload queue and spells every 5 seconds
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      try {
+        const [queue, brewed] = await Promise.all([
+          spellsApi.getBrewingQueue(),
+          spellsApi.getSpells(),
+        ]);
+        setBrewingQueue(queue);
+        setSpells(brewed);
+      } catch (err) {
+        console.error('Failed to refresh spells:', err);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleBrewSpell = async (spell: SpellStats) => {
+    try {
+      await spellsApi.brewSpell(spell.type);
+      await loadData();
+      await useVillageStore.getState().fetchVillage();
+      success('Brewing Started!', `${spell.icon} ${spell.name} is now brewing`);
+    } catch (err: any) {
+      showError('Brewing Failed', err.response?.data?.message || 'Failed to brew spell');
+    }
+  };
+
+  const handleCancelBrewing = async (item: BrewingQueueItem) => {
+    try {
+      await spellsApi.cancelBrewing(item.id);
+      await loadData();
+      await useVillageStore.getState().fetchVillage();
+      info('Brewing Cancelled', `${item.spellConfig.icon} ${item.spellConfig.name} brewing cancelled`);
+    } catch (err: any) {
+      showError('Cancel Failed', err.response?.data?.message || 'Failed to cancel brewing');
+    }
+  };
+
+  const getSecondsRemaining = (completesAt: string): number => {
+    return Math.max(0, Math.ceil((new Date(completesAt).getTime() - Date.now()) / 1000));
+  };
+
+  const describeEffect = (spell: SpellStats): string => {
+    if (spell.damage) return `${spell.damage} damage`;
+    if (spell.healPerSecond) return `${spell.healPerSecond} HP/s for ${spell.duration}s`;
+    if (spell.damageMultiplier) return `x${spell.damageMultiplier} damage for ${spell.duration}s`;
+    return '';
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+      className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-fuchsia-500/10 to-violet-500/5 backdrop-blur-md border border-fuchsia-500/30 p-6 mt-6"
+    >
+      <h3 className="text-xl font-bold text-fuchsia-400 mb-4 flex items-center gap-2">
+        <FlaskConical className="w-5 h-5" />
+        SPELL FACTORY
+      </h3>
+
+      {/* Brewed spells */}
+      <div className="flex flex-wrap gap-3 mb-4">
+        {spells.filter((s) => s.count > 0).length === 0 ? (
+          <p className="text-sm text-gray-400">No spells brewed yet</p>
+        ) : (
+          spells
+            .filter((s) => s.count > 0)
+            .map((spell) => (
+              <div
+                key={spell.id}
+                className="flex items-center gap-2 rounded-xl bg-white/10 border border-white/20 px-3 py-2"
+              >
+                <span className="text-2xl">{spell.spellConfig.icon}</span>
+                <span className="font-bold text-fuchsia-300 font-numbers">{spell.count}x</span>
+              </div>
+            ))
+        )}
+      </div>
+
+      {/* Brewing queue */}
+      {brewingQueue.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <AnimatePresence>
+            {brewingQueue.map((item) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                className="flex items-center gap-3 rounded-xl bg-white/5 border border-white/10 p-3"
+              >
+                <span className="text-3xl">{item.spellConfig.icon}</span>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-bold text-white">{item.spellConfig.name}</p>
+                    <Badge className="bg-fuchsia-600 text-white">#{item.queuePosition + 1}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-400 font-numbers">
+                    ⏱️ {getSecondsRemaining(item.completesAt)}s remaining
+                  </p>
+                </div>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleCancelBrewing(item)}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Cancel
+                </Button>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {/* Brew spells */}
+      <div className="space-y-3">
+        {availableSpells.map((spell) => {
+          const canAfford = village && village.resources.elixir >= spell.cost.elixir;
+
+          return (
+            <div
+              key={spell.type}
+              className="flex items-center gap-4 rounded-xl bg-gradient-to-br from-white/10 to-white/5 border border-white/20 p-4"
+            >
+              <span className="text-4xl">{spell.icon}</span>
+              <div className="flex-1">
+                <h4 className="font-bold text-white">{spell.name}</h4>
+                <p className="text-sm text-gray-400 mb-2">{spell.description}</p>
+                <div className="flex flex-wrap gap-3 text-xs text-gray-300">
+                  <span className="flex items-center gap-1">
+                    <Target className="w-3 h-3 text-blue-400" />
+                    Radius {spell.radius}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Timer className="w-3 h-3 text-amber-400" />
+                    {spell.brewingTime}s
+                  </span>
+                  <span>{describeEffect(spell)}</span>
+                </div>
+              </div>
+              <div className="text-right space-y-2">
+                <p className="font-bold text-purple-400 font-numbers">💧 {spell.cost.elixir}</p>
+                <Button
+                  size="sm"
+                  onClick={() => handleBrewSpell(spell)}
+                  disabled={!canAfford}
+                  className={
+                    canAfford
+                      ? 'bg-gradient-to-r from-fuchsia-600 to-violet-600 hover:from-fuchsia-700 hover:to-violet-700'
+                      : 'opacity-50'
+                  }
+                >
+                  {canAfford ? '🧪 Brew' : '💰 Not enough'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, User, Trophy, Swords, Target, Star, Calendar, Edit2, Check, Sparkles } from 'lucide-react';
 import { useAuthStore } from '@/lib/stores/useAuthStore';
 import { useToastStore } from '@/lib/stores/useToastStore';
+import { useVillageStore } from '@/lib/stores/useVillageStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { battlesApi } from '@/lib/api/battles';
@@ -18,6 +19,7 @@ interface UserProfileProps {
 export function UserProfile({ isOpen, onClose }: UserProfileProps) {
   const { user, updateUsername } = useAuthStore();
   const { success, error: showError } = useToastStore();
+  const { village } = useVillageStore();
   const [isEditingUsername, setIsEditingUsername] = useState(false);
   const [newUsername, setNewUsername] = useState(user?.username || '');
   const [isUpdating, setIsUpdating] = useState(false);
@@ -87,7 +89,7 @@ export function UserProfile({ isOpen, onClose }: UserProfileProps) {
     wins: battleStats.wins,
     losses: battleStats.losses,
     winRate: battleStats.winRate,
-    trophies: 0, // Hardcoded as not implemented yet
+    trophies: village?.trophies ?? 0,
     joinedDate,
   };
 
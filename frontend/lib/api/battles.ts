@@ -1,11 +1,26 @@
 import { apiClient } from './client';
+import { BattleClock } from '@/lib/socket';
+
+// Battle lifecycle: scouting and active battles are being fought right now; completed ones ran
+// to the end, abandoned and aborted ones lost their session (everything was refunded)
+export type BattleStatus = 'scouting' | 'active' | 'completed' | 'abandoned' | 'aborted';
+
+export const isLiveBattle = (status: BattleStatus) => status === 'scouting' || status === 'active';
 
 export interface BattleResult {
   id: string;
   destructionPercentage: number;
   stars: number;
-  lootGold: number;
+  lootGold: number; // taken from the defender
   lootElixir: number;
+  lootGoldReceived?: number; // credited to the attacker, capped by their storage
+  lootElixirReceived?: number;
+  attackerTrophyChange?: number; // trophies won (positive) or lost (negative)
+  defenderTrophyChange?: number;
+  revengeOfBattleId?: string | null; // on a revenge attack: the defense it avenged
+  revengeBattleId?: string | null; // on a defense: the revenge attack that used it up
+  revengeAvailable?: boolean; // on a defense: revenge can still be taken
+  status?: BattleStatus;
   createdAt: string;
 }
 
@@ -13,17 +28,93 @@ export interface BattleDetails extends BattleResult {
   attackerId: string;
   defenderId: string;
   attackerTroops: { type: string; count: number }[];
-  battleLog: BattleEvent[];
+  deployedTroops: { type: string; count: number }[];
+  lostTroops: { type: string; count: number }[];
+  returnedTroops: { type: string; count: number }[]; // never deployed, given back to the army
+  battleLog: BattleReplay | BattleEvent[] | null;
 }
 
 export interface BattleEvent {
   timestamp: number;
-  type: 'TROOP_SPAWN' | 'TROOP_MOVE' | 'TROOP_ATTACK' | 'TROOP_DEATH' | 'BUILDING_ATTACK' | 'BUILDING_DESTROYED';
+  type:
+    | 'TROOP_SPAWN'
+    | 'TROOP_MOVE' // replays before STATE_FRAME_REPLAY_VERSION
+    | 'STATE_FRAME'
+    | 'TROOP_ATTACK'
+    | 'TROOP_DEATH'
+    | 'TROOP_HEAL'
+    | 'BUILDING_ATTACK'
+    | 'BUILDING_DESTROYED'
+    | 'SPELL_CAST'
+    | 'SPELL_END'
+    | 'HERO_ABILITY'
+    | 'SPLASH_LAUNCH'
+    | 'SPLASH_IMPACT'
+    | 'TRAP_TRIGGERED'
+    | 'GARRISON_RELEASED'
+    | 'SESSION_STATE';
   data: any;
 }
 
-export interface OpponentVillage {
+// Replays from this version on record unit movement as STATE_FRAME, older ones as TROOP_MOVE
+export const STATE_FRAME_REPLAY_VERSION = 2;
+
+// Recorded battle for playback: inputs and events are [tick, ...] tuples
+export interface BattleReplay {
+  version: number;
+  seed: number;
+  tickMs: number;
+  gameMode?: 'MULTIPLAYER' | 'DESTRUCTION';
+  maxTroops: number;
+  layout: { id: string; type: string; positionX: number; positionY: number }[];
+  inputs: [tick: number, troopType: string, x: number, y: number][];
+  spellBudget?: Record<string, number>;
+  spells?: [tick: number, spellType: string, x: number, y: number][];
+  heroes?: { type: string; level: number; health: number }[];
+  defenderHeroes?: { type: string; level: number; health: number; altarId: string }[];
+  garrison?: { castleId: string; troops: { type: string; count: number }[] } | null;
+  abilities?: [tick: number, heroType: string][];
+  events: [tick: number, type: BattleEvent['type'], data: any][];
+  result: {
+    destructionPercentage: number;
+    stars: number;
+    durationTicks: number;
+  };
+}
+
+export interface BattleReplayResponse {
+  battle: Omit<BattleDetails, 'battleLog'>;
+  buildings: BattleBuilding[];
+  defenders: BattleDefender[];
+  replay: BattleReplay;
+}
+
+// What the attacker can see of a village before attacking it
+export interface ScoutingPreview {
+  village: {
+    id: string;
+    name: string;
+    trophies: number;
+    townHallLevel: number;
+  };
+  buildings: {
+    id: string;
+    type: string;
+    position: { x: number; y: number };
+    width: number;
+    height: number;
+  }[];
+  loot: { gold: number; elixir: number }; // available to loot
+  trophies: { win: number; loss: number }; // won with three stars, lost with none
+}
+
+export interface RevengeTarget {
   opponentVillageId: string;
+  preview: ScoutingPreview;
+}
+
+export interface OpponentVillage extends RevengeTarget {
+  nextCost: number; // gold charged to skip to the next opponent
   message: string;
 }
 
@@ -35,6 +126,50 @@ export interface BattleBuilding {
   maxHealth: number;
 }
 
+// Defending unit (e.g. a hero guarding its altar) present when the battle starts
+export interface BattleDefender {
+  troopId: string;
+  troopType: string;
+  position: { x: number; y: number };
+  health: number;
+  maxHealth: number;
+  isHero: boolean;
+  isDefender: boolean;
+}
+
+// Rectangle of tiles around the defender's buildings where troops can't be deployed
+export interface DeployZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Loot in the defender's buildings when the battle started, and how much has been taken
+export interface LootSummary {
+  availableGold: number;
+  availableElixir: number;
+  lootedGold: number;
+  lootedElixir: number;
+}
+
+// The battle as it stands, sent when joining (or rejoining) a live battle and on request
+export interface BattleStateSnapshot {
+  battleId: string;
+  status: BattleStatus;
+  tick: number;
+  buildings: (BattleBuilding & { isDestroyed: boolean })[];
+  troops: Omit<BattleDefender, 'isDefender'>[]; // attacking units still alive
+  defenders: BattleDefender[];
+  spells: { spellId: string; spellType: string; position: { x: number; y: number }; radius: number }[];
+  destructionPercentage: number;
+  stars: number;
+  budget: { troops: Record<string, number>; spells: Record<string, number>; heroes: string[] }; // left to deploy
+  abilitiesUsed: string[]; // heroes that used their ability
+  loot: LootSummary;
+  clock: BattleClock;
+}
+
 export interface BattleSession {
   battleId: string;
   session: {
@@ -42,6 +177,13 @@ export interface BattleSession {
     status: string;
     buildings: BattleBuilding[];
     maxTroops: number;
+    troops?: Record<string, number>; // Troops left to deploy, by troop type
+    spells?: Record<string, number>; // Spells left to cast, by spell type
+    heroes?: { type: string; level: number; health: number }[]; // Heroes not deployed yet
+    defenders?: BattleDefender[];
+    noDeployZones?: DeployZone[];
+    loot?: LootSummary;
+    clock?: BattleClock;
   };
   troops?: { type: string; count: number }[]; // Troops from battle record for rejoining
 }
@@ -61,7 +203,7 @@ export interface PublicBattle {
   stars: number;
   lootGold: number;
   lootElixir: number;
-  status: string;
+  status: BattleStatus;
   createdAt: string;
 }
 
@@ -77,10 +219,13 @@ export const battlesApi = {
   },
 
   /**
-   * Find a random opponent to attack
+   * Find an opponent to attack
+   * Searching again before attacking skips the current opponent (costs gold)
    */
-  findOpponent: async (): Promise<OpponentVillage> => {
-    const response = await apiClient.get('/battles/find-opponent');
+  findOpponent: async (skipVillageId?: string): Promise<OpponentVillage> => {
+    const response = await apiClient.get('/battles/find-opponent', {
+      params: skipVillageId ? { skip: skipVillageId } : undefined,
+    });
     return response.data;
   },
 
@@ -90,10 +235,39 @@ export const battlesApi = {
   startBattle: async (
     defenderId: string,
     troops: { type: string; count: number }[],
+    spells: { type: string; count: number }[] = [],
+    heroes: string[] = [],
   ): Promise<BattleSession> => {
     const response = await apiClient.post('/battles/start', {
       defenderId,
       troops,
+      spells,
+      heroes,
+    });
+    return response.data;
+  },
+
+  /**
+   * Scout the village that attacked us in a defense
+   */
+  getRevengeTarget: async (defenseBattleId: string): Promise<RevengeTarget> => {
+    const response = await apiClient.get(`/battles/revenge/${defenseBattleId}`);
+    return response.data;
+  },
+
+  /**
+   * Start a revenge battle against the village that attacked us (free, skips matchmaking)
+   */
+  startRevenge: async (
+    defenseBattleId: string,
+    troops: { type: string; count: number }[],
+    spells: { type: string; count: number }[] = [],
+    heroes: string[] = [],
+  ): Promise<BattleSession> => {
+    const response = await apiClient.post(`/battles/revenge/${defenseBattleId}`, {
+      troops,
+      spells,
+      heroes,
     });
     return response.data;
   },
@@ -120,6 +294,14 @@ export const battlesApi = {
     return response.data;
   },
 
+  /**
+   * Get the recorded replay of a finished battle
+   */
+  getReplay: async (battleId: string): Promise<BattleReplayResponse> => {
+    const response = await apiClient.get(`/battles/${battleId}/replay`);
+    return response.data;
+  },
+
   /**
    * Get battle history (attacks made by user)
    */
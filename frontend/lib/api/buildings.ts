@@ -16,7 +16,7 @@ export interface BuildingConfig {
   type: string;
   name: string;
   description: string;
-  category: 'resource' | 'defense' | 'army' | 'special';
+  category: 'resource' | 'defense' | 'army' | 'special' | 'trap';
   baseCost: {
     gold: number;
     elixir: number;
@@ -34,6 +34,17 @@ export interface BuildingConfig {
     range: number;
     attackSpeed: number;
     targetType: 'ground' | 'air' | 'both';
+    minRange?: number;
+    splashRadius?: number;
+    projectileTravel?: number;
+  };
+  trap?: {
+    triggerRadius: number;
+    effectRadius: number;
+    damage: number;
+    targetType: 'ground' | 'air';
+    ejectCapacity?: number;
+    rearmCost: { gold: number };
   };
 }
 
@@ -62,6 +73,13 @@ export const buildingsApi = {
     return response.data;
   },
 
+  rearmTrap: async (buildingId: string): Promise<{ message: string; building: Building }> => {
+    const response = await apiClient.post<{ message: string; building: Building }>(
+      `/buildings/${buildingId}/rearm`,
+    );
+    return response.data;
+  },
+
   deleteBuilding: async (buildingId: string): Promise<{ message: string }> => {
     const response = await apiClient.delete<{ message: string }>(`/buildings/${buildingId}`);
     return response.data;
@@ -0,0 +1,68 @@
+import { apiClient } from './client';
+
+export interface HeroLevelStats {
+  health: number;
+  damage: number;
+  upgradeCost: {
+    elixir: number;
+  };
+}
+
+export interface HeroStats {
+  type: string;
+  name: string;
+  description: string;
+  altar: string;
+  attackSpeed: number;
+  moveSpeed: number;
+  range: number;
+  guardRadius: number;
+  regenerationTime: number;
+  levels: HeroLevelStats[];
+  ability: {
+    name: string;
+    description: string;
+    heal: number;
+    damageMultiplier: number;
+    speedMultiplier: number;
+    duration: number;
+  };
+  icon: string;
+}
+
+export interface Hero {
+  id: string;
+  villageId: string;
+  heroType: string;
+  level: number;
+  health: number;
+  recoveryStartedAt: string | null;
+  recoveryCompletesAt: string | null;
+  currentHealth: number;
+  maxHealth: number;
+  damage: number;
+  isRecovering: boolean;
+  recoveryRemaining: number; // seconds
+  upgradeCost: { elixir: number } | null; // null at max level
+  heroConfig: HeroStats;
+}
+
+export const heroesApi = {
+  // Get all hero types
+  getAvailableHeroes: async (): Promise<HeroStats[]> => {
+    const response = await apiClient.get('/heroes/available');
+    return response.data;
+  },
+
+  // Get user's heroes (one per built altar)
+  getHeroes: async (): Promise<Hero[]> => {
+    const response = await apiClient.get('/heroes');
+    return response.data;
+  },
+
+  // Upgrade a hero to the next level
+  upgradeHero: async (heroType: string) => {
+    const response = await apiClient.post(`/heroes/${heroType}/upgrade`);
+    return response.data;
+  },
+};
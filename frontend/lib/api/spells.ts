@@ -0,0 +1,73 @@
+import { apiClient } from './client';
+
+export interface SpellStats {
+  type: string;
+  name: string;
+  description: string;
+  radius: number;
+  duration: number;
+  damage?: number;
+  healPerSecond?: number;
+  damageMultiplier?: number;
+  speedMultiplier?: number;
+  housingSpace: number;
+  brewingTime: number;
+  cost: {
+    elixir: number;
+  };
+  icon: string;
+}
+
+export interface BrewingQueueItem {
+  id: string;
+  villageId: string;
+  spellType: string;
+  startedAt: string;
+  completesAt: string;
+  cost: number;
+  queuePosition: number;
+  createdAt: string;
+  spellConfig: SpellStats;
+}
+
+export interface BrewedSpell {
+  id: string;
+  villageId: string;
+  spellType: string;
+  count: number;
+  createdAt: string;
+  updatedAt: string;
+  spellConfig: SpellStats;
+}
+
+export const spellsApi = {
+  // Get all available spell types
+  getAvailableSpells: async (): Promise<SpellStats[]> => {
+    const response = await apiClient.get('/spells/available');
+    return response.data;
+  },
+
+  // Brew a new spell
+  brewSpell: async (spellType: string) => {
+    const response = await apiClient.post('/spells/brew', { spellType });
+    return response.data;
+  },
+
+  // Get brewing queue
+  getBrewingQueue: async (): Promise<BrewingQueueItem[]> => {
+    const response = await apiClient.get('/spells/queue');
+    return response.data;
+  },
+
+  // Get user's brewed spells
+  getSpells: async (): Promise<BrewedSpell[]> => {
+    const response = await apiClient.get('/spells');
+    return response.data;
+  },
+
+  // Cancel a brewing
+  cancelBrewing: async (brewingId: string) => {
+    const response = await apiClient.delete(`/spells/queue/${brewingId}`);
+    return response.data;
+  },
+};
@@ -40,6 +40,13 @@ export interface ArmyTroop {
   troopConfig: TroopStats;
 }
 
+export interface CastleTroops {
+  hasCastle: boolean;
+  capacity: number;
+  housingSpace: number; // housing used by troops already in the castle
+  troops: ArmyTroop[];
+}
+
 export const troopsApi = {
   // Get all available troop types
   getAvailableTroops: async (): Promise<TroopStats[]> => {
@@ -70,4 +77,16 @@ export const troopsApi = {
     const response = await apiClient.delete(`/troops/queue/${trainingId}`);
     return response.data;
   },
+
+  // Get troops defending the Clan Castle
+  getCastleTroops: async (): Promise<CastleTroops> => {
+    const response = await apiClient.get('/troops/castle');
+    return response.data;
+  },
+
+  // Move troops from the army into the Clan Castle
+  garrisonTroops: async (troopType: string, count: number = 1) => {
+    const response = await apiClient.post('/troops/castle', { troopType, count });
+    return response.data;
+  },
 };
@@ -10,6 +10,7 @@ export interface Building {
   health: number;
   maxHealth: number;
   isActive: boolean;
+  isArmed: boolean; // traps: false once sprung in a defense, until rearmed
   internalGold: number;
   internalElixir: number;
   internalGoldCapacity: number;
@@ -34,6 +35,7 @@ export interface Village {
   userId: string;
   name: string;
   trophies: number;
+  shieldExpiresAt: string | null; // protected from attacks until then
   createdAt: string;
   updatedAt: string;
   resources: Resources;
@@ -6,9 +6,18 @@ export enum BuildingType {
   ELIXIR_STORAGE = 'elixir_storage',
   CANNON = 'cannon',
   ARCHER_TOWER = 'archer_tower',
+  AIR_DEFENSE = 'air_defense',
+  MORTAR = 'mortar',
+  WIZARD_TOWER = 'wizard_tower',
+  BOMB = 'bomb',
+  SPRING_TRAP = 'spring_trap',
+  AIR_MINE = 'air_mine',
   WALL = 'wall',
   ARMY_CAMP = 'army_camp',
   BARRACKS = 'barracks',
+  SPELL_FACTORY = 'spell_factory',
+  BARBARIAN_KING_ALTAR = 'barbarian_king_altar',
+  CLAN_CASTLE = 'clan_castle',
 }
 
 export interface BuildingVisualConfig {
@@ -64,6 +73,42 @@ export const BUILDING_VISUALS: Record<BuildingType, BuildingVisualConfig> = {
     color: '#A9A9A9', // Dark gray
     size: { width: 2, height: 2 },
   },
+  [BuildingType.AIR_DEFENSE]: {
+    type: BuildingType.AIR_DEFENSE,
+    name: 'Air Defense',
+    color: '#4682B4', // Steel blue
+    size: { width: 3, height: 3 },
+  },
+  [BuildingType.MORTAR]: {
+    type: BuildingType.MORTAR,
+    name: 'Mortar',
+    color: '#556B2F', // Dark olive green
+    size: { width: 3, height: 3 },
+  },
+  [BuildingType.WIZARD_TOWER]: {
+    type: BuildingType.WIZARD_TOWER,
+    name: 'Wizard Tower',
+    color: '#8A2BE2', // Blue violet
+    size: { width: 3, height: 3 },
+  },
+  [BuildingType.BOMB]: {
+    type: BuildingType.BOMB,
+    name: 'Bomb',
+    color: '#2F2F2F', // Charcoal
+    size: { width: 1, height: 1 },
+  },
+  [BuildingType.SPRING_TRAP]: {
+    type: BuildingType.SPRING_TRAP,
+    name: 'Spring Trap',
+    color: '#B8860B', // Dark goldenrod
+    size: { width: 1, height: 1 },
+  },
+  [BuildingType.AIR_MINE]: {
+    type: BuildingType.AIR_MINE,
+    name: 'Air Mine',
+    color: '#C0392B', // Dark red
+    size: { width: 1, height: 1 },
+  },
   [BuildingType.WALL]: {
     type: BuildingType.WALL,
     name: 'Wall',
@@ -82,6 +127,24 @@ export const BUILDING_VISUALS: Record<BuildingType, BuildingVisualConfig> = {
     color: '#DC143C', // Crimson
     size: { width: 3, height: 3 },
   },
+  [BuildingType.SPELL_FACTORY]: {
+    type: BuildingType.SPELL_FACTORY,
+    name: 'Spell Factory',
+    color: '#9932CC', // Dark orchid
+    size: { width: 3, height: 3 },
+  },
+  [BuildingType.BARBARIAN_KING_ALTAR]: {
+    type: BuildingType.BARBARIAN_KING_ALTAR,
+    name: 'Barbarian King Altar',
+    color: '#DAA520', // Goldenrod
+    size: { width: 3, height: 3 },
+  },
+  [BuildingType.CLAN_CASTLE]: {
+    type: BuildingType.CLAN_CASTLE,
+    name: 'Clan Castle',
+    color: '#8B0000', // Dark red
+    size: { width: 3, height: 3 },
+  },
 };
 
 export function getBuildingVisual(type: string): BuildingVisualConfig {
@@ -6,16 +6,25 @@ export enum BuildingType {
   ELIXIR_STORAGE = 'elixir_storage',
   CANNON = 'cannon',
   ARCHER_TOWER = 'archer_tower',
+  AIR_DEFENSE = 'air_defense',
+  MORTAR = 'mortar',
+  WIZARD_TOWER = 'wizard_tower',
+  BOMB = 'bomb',
+  SPRING_TRAP = 'spring_trap',
+  AIR_MINE = 'air_mine',
   WALL = 'wall',
   ARMY_CAMP = 'army_camp',
   BARRACKS = 'barracks',
+  SPELL_FACTORY = 'spell_factory',
+  BARBARIAN_KING_ALTAR = 'barbarian_king_altar',
+  CLAN_CASTLE = 'clan_castle',
 }
 
 export interface BuildingConfig {
   type: BuildingType;
   name: string;
   description: string;
-  category: 'resource' | 'defense' | 'army' | 'special';
+  category: 'resource' | 'defense' | 'army' | 'special' | 'trap';
   baseCost: {
     gold: number;
     elixir: number;
@@ -94,6 +103,60 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     size: { width: 2, height: 2 },
     color: '#A9A9A9',
   },
+  [BuildingType.AIR_DEFENSE]: {
+    type: BuildingType.AIR_DEFENSE,
+    name: 'Air Defense',
+    description: 'Shoots down flying troops',
+    category: 'defense',
+    baseCost: { gold: 1000, elixir: 0 },
+    size: { width: 3, height: 3 },
+    color: '#4682B4',
+  },
+  [BuildingType.MORTAR]: {
+    type: BuildingType.MORTAR,
+    name: 'Mortar',
+    description: 'Lobs slow splash shells far away, but has a blind spot up close',
+    category: 'defense',
+    baseCost: { gold: 800, elixir: 0 },
+    size: { width: 3, height: 3 },
+    color: '#556B2F',
+  },
+  [BuildingType.WIZARD_TOWER]: {
+    type: BuildingType.WIZARD_TOWER,
+    name: 'Wizard Tower',
+    description: 'Blasts groups of ground and air troops at short range',
+    category: 'defense',
+    baseCost: { gold: 1200, elixir: 0 },
+    size: { width: 3, height: 3 },
+    color: '#8A2BE2',
+  },
+  [BuildingType.BOMB]: {
+    type: BuildingType.BOMB,
+    name: 'Bomb',
+    description: 'Hidden trap that explodes under groups of ground troops',
+    category: 'trap',
+    baseCost: { gold: 400, elixir: 0 },
+    size: { width: 1, height: 1 },
+    color: '#2F2F2F',
+  },
+  [BuildingType.SPRING_TRAP]: {
+    type: BuildingType.SPRING_TRAP,
+    name: 'Spring Trap',
+    description: 'Hidden trap that flings ground troops out of the battle',
+    category: 'trap',
+    baseCost: { gold: 2000, elixir: 0 },
+    size: { width: 1, height: 1 },
+    color: '#B8860B',
+  },
+  [BuildingType.AIR_MINE]: {
+    type: BuildingType.AIR_MINE,
+    name: 'Air Mine',
+    description: 'Hidden trap that blasts flying troops passing overhead',
+    category: 'trap',
+    baseCost: { gold: 4000, elixir: 0 },
+    size: { width: 1, height: 1 },
+    color: '#C0392B',
+  },
   [BuildingType.WALL]: {
     type: BuildingType.WALL,
     name: 'Wall',
@@ -121,6 +184,33 @@ export const BUILDING_CONFIGS: Record<BuildingType, BuildingConfig> = {
     size: { width: 3, height: 3 },
     color: '#DC143C',
   },
+  [BuildingType.SPELL_FACTORY]: {
+    type: BuildingType.SPELL_FACTORY,
+    name: 'Spell Factory',
+    description: 'Brew spells for battle',
+    category: 'army',
+    baseCost: { gold: 0, elixir: 400 },
+    size: { width: 3, height: 3 },
+    color: '#9932CC',
+  },
+  [BuildingType.BARBARIAN_KING_ALTAR]: {
+    type: BuildingType.BARBARIAN_KING_ALTAR,
+    name: 'Barbarian King Altar',
+    description: 'Home of the Barbarian King, who guards it when you are attacked',
+    category: 'army',
+    baseCost: { gold: 0, elixir: 1000 },
+    size: { width: 3, height: 3 },
+    color: '#DAA520',
+  },
+  [BuildingType.CLAN_CASTLE]: {
+    type: BuildingType.CLAN_CASTLE,
+    name: 'Clan Castle',
+    description: 'Holds troops that come out to defend when attackers get close',
+    category: 'army',
+    baseCost: { gold: 4000, elixir: 0 },
+    size: { width: 3, height: 3 },
+    color: '#8B0000',
+  },
 };
 
 export function getBuildingConfig(type: BuildingType): BuildingConfig {
@@ -74,6 +74,42 @@ export const BUILDING_SPRITES: Record<BuildingType, SpriteConfig> = {
     scaleMultiplier: 1.0,
     nativeSize: { width: 16, height: 16 },
   },
+  [BuildingType.AIR_DEFENSE]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0104.png', // Round turret
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.MORTAR]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0107.png', // Squat stone emplacement
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.WIZARD_TOWER]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0101.png', // Tall tower
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.BOMB]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0106.png', // Small barrel
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.SPRING_TRAP]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0103.png', // Wooden crate
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.AIR_MINE]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0102.png', // Small marker
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
   [BuildingType.WALL]: {
     // Walls are rendered as colored rectangles with blending, not sprites
     path: '',
@@ -93,6 +129,24 @@ export const BUILDING_SPRITES: Record<BuildingType, SpriteConfig> = {
     scaleMultiplier: 1.0,
     nativeSize: { width: 16, height: 16 },
   },
+  [BuildingType.SPELL_FACTORY]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0052.png', // Red roof tile
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.BARBARIAN_KING_ALTAR]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0118.png', // Shield emblem
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
+  [BuildingType.CLAN_CASTLE]: {
+    path: '/assets/kenney_tiny-town/Tiles/tile_0100.png', // Gray tower/fortification
+    anchor: { x: 0.5, y: 0.5 },
+    scaleMultiplier: 1.0,
+    nativeSize: { width: 16, height: 16 },
+  },
 };
 
 /**
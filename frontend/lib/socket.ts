@@ -5,11 +5,50 @@ const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:300
 let socket: Socket | null = null;
 
 export interface BattleEvent {
-  type: 'TROOP_SPAWN' | 'TROOP_MOVE' | 'TROOP_ATTACK' | 'TROOP_DEATH' | 'BUILDING_ATTACK' | 'BUILDING_DESTROYED' | 'BATTLE_END';
+  type:
+    | 'TROOP_SPAWN'
+    | 'STATE_FRAME'
+    | 'TROOP_ATTACK'
+    | 'TROOP_DEATH'
+    | 'TROOP_HEAL'
+    | 'BUILDING_ATTACK'
+    | 'BUILDING_DESTROYED'
+    | 'SPELL_CAST'
+    | 'SPELL_END'
+    | 'HERO_ABILITY'
+    | 'SPLASH_LAUNCH'
+    | 'SPLASH_IMPACT'
+    | 'TRAP_TRIGGERED'
+    | 'GARRISON_RELEASED'
+    | 'SESSION_STATE'
+    | 'CLOCK'
+    | 'BATTLE_END';
   timestamp: number;
   data: any;
 }
 
+/**
+ * Everything that changed on one server tick, sent as a STATE_FRAME event
+ * Units and buildings are only listed when they moved or their health or state changed;
+ * events are the tick's attacks, deaths, spells and the like, in order
+ */
+export interface StateFrame {
+  tick: number;
+  units: [id: string, x: number, y: number, health: number, state: string][];
+  buildings: [id: string, health: number][];
+  events: [type: BattleEvent['type'], data: any][];
+}
+
+/**
+ * Server clock of a live battle: 30 seconds of scouting, then the battle itself
+ * Count down from remainingMs as received; the server sends it again every second
+ */
+export interface BattleClock {
+  phase: 'scouting' | 'battle' | 'over';
+  remainingMs: number;
+  serverTime: number;
+}
+
 /**
  * Connect to battle WebSocket
  */
@@ -72,6 +111,26 @@ export function joinBattle(battleId: string, villageId: string): Promise<any> {
   });
 }
 
+/**
+ * Ask for the current battle state (the same snapshot sent on join)
+ */
+export function requestBattleState(battleId: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!socket) {
+      reject(new Error('Socket not connected'));
+      return;
+    }
+
+    socket.emit('battleState', { battleId }, (response: any) => {
+      if (response.success) {
+        resolve(response);
+      } else {
+        reject(new Error(response.message || 'Failed to get battle state'));
+      }
+    });
+  });
+}
+
 /**
  * Leave a battle room
  */
@@ -119,6 +178,77 @@ export function deployTroop(
   });
 }
 
+/**
+ * Cast a spell
+ */
+export function castSpell(
+  battleId: string,
+  spellType: string,
+  position: { x: number; y: number }
+): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!socket) {
+      reject(new Error('Socket not connected'));
+      return;
+    }
+
+    socket.emit('castSpell', { battleId, spellType, position }, (response: any) => {
+      if (response.success) {
+        console.log('Spell cast:', response.spell);
+        resolve(response);
+      } else {
+        console.error('Failed to cast spell:', response);
+        reject(new Error(response.message || 'Failed to cast spell'));
+      }
+    });
+  });
+}
+
+/**
+ * Activate a deployed hero's ability
+ */
+export function activateHeroAbility(battleId: string, heroType: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!socket) {
+      reject(new Error('Socket not connected'));
+      return;
+    }
+
+    socket.emit('activateHeroAbility', { battleId, heroType }, (response: any) => {
+      if (response.success) {
+        console.log('Hero ability activated:', response.hero);
+        resolve(response);
+      } else {
+        console.error('Failed to activate hero ability:', response);
+        reject(new Error(response.message || 'Failed to activate hero ability'));
+      }
+    });
+  });
+}
+
+/**
+ * Surrender: end the battle now with the result so far
+ * Surrendering while still scouting aborts the battle and refunds the army
+ */
+export function surrender(battleId: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!socket) {
+      reject(new Error('Socket not connected'));
+      return;
+    }
+
+    socket.emit('surrender', { battleId }, (response: any) => {
+      if (response.success) {
+        console.log('Surrendered battle:', battleId);
+        resolve(response);
+      } else {
+        console.error('Failed to surrender:', response);
+        reject(new Error(response.message || 'Failed to surrender'));
+      }
+    });
+  });
+}
+
 /**
  * Listen to battle events
  */
@@ -260,6 +390,26 @@ export function joinBattleAsSpectator(battleId: string): Promise<any> {
   });
 }
 
+/**
+ * Ask for the current battle state as a spectator (the same snapshot sent on join)
+ */
+export function requestSpectatorBattleState(battleId: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!spectateSocket) {
+      reject(new Error('Spectate socket not connected'));
+      return;
+    }
+
+    spectateSocket.emit('battleState', { battleId }, (response: any) => {
+      if (response.success) {
+        resolve(response);
+      } else {
+        reject(new Error(response.message || 'Failed to get battle state'));
+      }
+    });
+  });
+}
+
 /**
  * Leave a battle room
  */